@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  type CacheAdapter,
+  createFileSystemCache,
+  createMemoryCache,
+  createSqliteCache,
+  ShopClient,
+} from "../index";
+import { ResourceCache } from "../cache";
+
+const storeHtml = `<!doctype html>
+  <html>
+    <head>
+      <meta name="og:site_name" content="Cached Store">
+      <meta name="shopify-digital-wallet" content="/123456/digital_wallets/dialog">
+    </head>
+    <body><h1>Cached Store</h1></body>
+  </html>`;
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "shop-client-cache-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+const adapters: [string, () => CacheAdapter][] = [
+  ["memory", () => createMemoryCache()],
+  ["filesystem", () => createFileSystemCache(dir)],
+  ["sqlite", () => createSqliteCache(new Database(":memory:"))],
+];
+
+describe.each(adapters)("%s adapter", (_name, make) => {
+  test("round-trips entries and preserves dates", async () => {
+    const adapter = make();
+    const createdAt = new Date("2024-03-01T10:00:00Z");
+    await adapter.set("shop:product:a", {
+      value: { handle: "a", createdAt, tags: ["x"] },
+      fetchedAt: 123,
+    });
+
+    const entry = await adapter.get("shop:product:a");
+    expect(entry?.fetchedAt).toBe(123);
+    const value = entry?.value as { createdAt: Date; tags: string[] };
+    expect(value.createdAt).toBeInstanceOf(Date);
+    expect(value.createdAt.getTime()).toBe(createdAt.getTime());
+    expect(value.tags).toEqual(["x"]);
+  });
+
+  test("lists keys by prefix and deletes", async () => {
+    const adapter = make();
+    await adapter.set("a:info", { value: 1, fetchedAt: 1 });
+    await adapter.set("a:product:x", { value: 2, fetchedAt: 1 });
+    await adapter.set("b:info", { value: 3, fetchedAt: 1 });
+
+    expect((await adapter.keys("a:")).sort()).toEqual(["a:info", "a:product:x"]);
+
+    await adapter.delete("a:info");
+    expect(await adapter.get("a:info")).toBeUndefined();
+    expect(await adapter.keys("a:")).toEqual(["a:product:x"]);
+  });
+});
+
+describe("ResourceCache", () => {
+  test("applies per-resource TTLs and drops stale entries", async () => {
+    const adapter = createMemoryCache();
+    const cache = new ResourceCache(adapter, "shop", {
+      product: 50,
+      validation: 0,
+    });
+
+    await cache.set("product", "a", { id: 1 });
+    await cache.set("info", undefined, { name: "Shop" });
+    await cache.set("validation", "product:a", true);
+
+    expect((await cache.get("product", "a"))?.value).toEqual({ id: 1 });
+    // TTL 0 disables caching entirely
+    expect(await adapter.keys("shop:validation")).toEqual([]);
+
+    await new Promise((r) => setTimeout(r, 60));
+    expect(await cache.get("product", "a")).toBeUndefined();
+    expect(await adapter.get("shop:product:a")).toBeUndefined();
+    // Unlisted resources keep the default TTL
+    expect((await cache.get("info"))?.value).toEqual({ name: "Shop" });
+  });
+
+  test("invalidates by exact key, glob and RegExp within its namespace", async () => {
+    const adapter = createMemoryCache();
+    const cache = new ResourceCache(adapter, "shop");
+    const other = new ResourceCache(adapter, "other");
+
+    await cache.set("info", undefined, 1);
+    await cache.set("product", "a", 1);
+    await cache.set("product", "b", 1);
+    await cache.set("seo", "products/a", 1);
+    await other.set("product", "a", 1);
+
+    expect(await cache.invalidate("info")).toBe(1);
+    expect(await cache.invalidate("info")).toBe(0);
+    expect(await cache.invalidate("product:*")).toBe(2);
+    expect(await cache.invalidate(/^seo:/)).toBe(1);
+    expect(await other.get("product", "a")).toBeDefined();
+
+    await cache.set("meta", undefined, 1);
+    expect(await cache.invalidate()).toBe(1);
+  });
+
+  test("counts an exact-key invalidation even when deletes are faster than reads", async () => {
+    const store = new Map<string, unknown>();
+    const slowReads: CacheAdapter = {
+      get: async (key) => {
+        await new Promise((r) => setTimeout(r, 5));
+        return store.get(key) as Awaited<ReturnType<CacheAdapter["get"]>>;
+      },
+      set: async (key, entry) => {
+        store.set(key, entry);
+      },
+      delete: async (key) => {
+        store.delete(key);
+      },
+      keys: async (prefix) => [...store.keys()].filter((k) => k.startsWith(prefix)),
+    };
+    const cache = new ResourceCache(slowReads, "shop");
+
+    await cache.set("info", undefined, 1);
+    expect(await cache.invalidate("info")).toBe(1);
+    expect(store.size).toBe(0);
+  });
+
+  test("treats adapter failures as misses", async () => {
+    const broken: CacheAdapter = {
+      get: async () => {
+        throw new Error("disk gone");
+      },
+      set: async () => {
+        throw new Error("disk gone");
+      },
+      delete: async () => {},
+      keys: async () => [],
+    };
+    const cache = new ResourceCache(broken, "shop");
+
+    await cache.set("info", undefined, 1);
+    expect(await cache.get("info")).toBeUndefined();
+  });
+
+  test("reports nothing removed when the adapter fails during invalidation", async () => {
+    const fail = async () => {
+      throw new Error("disk gone");
+    };
+    const broken = new ResourceCache(
+      { get: fail, set: fail, delete: fail, keys: fail },
+      "shop"
+    );
+    expect(await broken.invalidate("info")).toBe(0);
+    expect(await broken.invalidate("product:*")).toBe(0);
+    expect(await broken.invalidate()).toBe(0);
+
+    // Deletes that fail are skipped; the rest still go
+    const memory = createMemoryCache();
+    const flaky: CacheAdapter = {
+      ...memory,
+      delete: async (key) => {
+        if (key.endsWith(":a")) throw new Error("locked");
+        await memory.delete(key);
+      },
+    };
+    const cache = new ResourceCache(flaky, "shop");
+    await cache.set("product", "a", 1);
+    await cache.set("product", "b", 2);
+    expect(await cache.invalidate("product:*")).toBe(1);
+    expect(await cache.get("product", "b")).toBeUndefined();
+  });
+});
+
+describe("ShopClient cache option", () => {
+  function client(cache: CacheAdapter, counter: { count: number }) {
+    return new ShopClient("https://cached.example.com", {
+      cache,
+      rateLimit: { enabled: false },
+      transport: async () => {
+        counter.count += 1;
+        return new Response(storeHtml, {
+          status: 200,
+          headers: { "Content-Type": "text/html" },
+        });
+      },
+    });
+  }
+
+  test("shares store info across clients through a persistent adapter", async () => {
+    const counter = { count: 0 };
+
+    const first = await client(createFileSystemCache(dir), counter).getInfo();
+    expect(counter.count).toBe(1);
+    expect(await readdir(dir)).toContain(
+      `${encodeURIComponent("cached.example.com:info")}.json`
+    );
+
+    const second = await client(createFileSystemCache(dir), counter).getInfo();
+    expect(counter.count).toBe(1);
+    expect(second.name).toBe(first.name);
+  });
+
+  test("clearInfoCache and invalidate force a refetch", async () => {
+    const counter = { count: 0 };
+    const shop = client(createMemoryCache(), counter);
+
+    await shop.getInfo();
+    await shop.clearInfoCache();
+    await shop.getInfo();
+    expect(counter.count).toBe(2);
+
+    expect(await shop.invalidate("info")).toBe(1);
+    await shop.getInfo();
+    expect(counter.count).toBe(3);
+  });
+});
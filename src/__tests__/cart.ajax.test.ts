@@ -0,0 +1,243 @@
+import { describe, expect, test } from "bun:test";
+import type { ShopifyCart, ShopifyCartLineItem } from "../types";
+import { ShopClient, UpstreamHttpError, schemas } from "../index";
+import { formatPrice } from "../utils/func";
+
+const catalog: Record<number, { title: string; price: number; stock: number }> =
+  {
+    11: { title: "Small", price: 1500, stock: 10 },
+    12: { title: "Large", price: 2500, stock: 1 },
+  };
+
+function line(variantId: number, quantity: number): ShopifyCartLineItem {
+  const variant = catalog[variantId]!;
+  const total = variant.price * quantity;
+  return {
+    id: variantId,
+    key: `${variantId}:abc`,
+    variant_id: variantId,
+    product_id: 1,
+    handle: "candle",
+    title: `Candle - ${variant.title}`,
+    product_title: "Candle",
+    variant_title: variant.title,
+    options_with_values: [{ name: "Size", value: variant.title }],
+    sku: `CANDLE-${variantId}`,
+    vendor: "Wick & Co",
+    quantity,
+    price: variant.price,
+    original_price: variant.price,
+    final_price: variant.price,
+    line_price: total,
+    original_line_price: total,
+    final_line_price: total,
+    total_discount: 0,
+    discounts: [],
+    image: "//cdn.shopify.com/candle.jpg",
+    url: `/products/candle?variant=${variantId}`,
+    requires_shipping: true,
+    taxable: true,
+    gift_card: false,
+    grams: 300,
+    properties: null,
+  };
+}
+
+/** Storefront keeping one cart per `cart` cookie, like Shopify does. */
+function cartStore() {
+  const carts = new Map<string, { lines: Map<number, number>; note: string | null }>();
+  const requests: { method: string; path: string; cookie: string | null; body: unknown }[] =
+    [];
+  let issued = 0;
+
+  function render(token: string): ShopifyCart {
+    const state = carts.get(token) ?? { lines: new Map(), note: null };
+    const items = Array.from(state.lines, ([id, qty]) => line(id, qty));
+    const total = items.reduce((sum, item) => sum + item.final_line_price, 0);
+    return {
+      token,
+      note: state.note,
+      attributes: {},
+      original_total_price: total,
+      total_price: total,
+      total_discount: 0,
+      total_weight: items.reduce((sum, item) => sum + item.grams * item.quantity, 0),
+      item_count: items.reduce((sum, item) => sum + item.quantity, 0),
+      items,
+      requires_shipping: items.length > 0,
+      currency: "EUR",
+      items_subtotal_price: total,
+      cart_level_discount_applications: [],
+    };
+  }
+
+  const shop = new ShopClient("https://candles.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      const cookie = new Headers(init?.headers).get("cookie");
+      const body = init?.body ? JSON.parse(String(init.body)) : undefined;
+      requests.push({ method: init?.method ?? "GET", path: url.pathname, cookie, body });
+
+      let token = cookie?.match(/cart=([^;]+)/)?.[1];
+      const headers: Record<string, string> = {};
+      if (!token || !carts.has(token)) {
+        token = `token-${++issued}`;
+        carts.set(token, { lines: new Map(), note: null });
+        headers["set-cookie"] = `cart=${token}; path=/; HttpOnly`;
+      }
+      const state = carts.get(token)!;
+
+      switch (url.pathname) {
+        case "/cart.js":
+          return Response.json(render(token), { headers });
+        case "/cart/add.js": {
+          for (const item of body.items) {
+            const quantity = (state.lines.get(item.id) ?? 0) + item.quantity;
+            if (quantity > catalog[item.id]!.stock) {
+              return Response.json(
+                {
+                  status: 422,
+                  message: "Cart Error",
+                  description: `You can only add ${catalog[item.id]!.stock} Candle - ${catalog[item.id]!.title} to the cart.`,
+                },
+                { status: 422, headers }
+              );
+            }
+            state.lines.set(item.id, quantity);
+          }
+          return Response.json({ items: [] }, { headers });
+        }
+        case "/cart/change.js": {
+          const id = Number(String(body.id).split(":")[0]);
+          if (body.quantity === 0) state.lines.delete(id);
+          else state.lines.set(id, body.quantity);
+          return Response.json(render(token), { headers });
+        }
+        case "/cart/update.js": {
+          for (const [id, qty] of Object.entries(body.updates ?? {})) {
+            if (qty === 0) state.lines.delete(Number(id));
+            else state.lines.set(Number(id), qty as number);
+          }
+          if (body.note !== undefined) state.note = body.note;
+          return Response.json(render(token), { headers });
+        }
+        case "/cart/clear.js":
+          state.lines.clear();
+          return Response.json(render(token), { headers });
+        default:
+          return new Response("", { status: 404 });
+      }
+    },
+  });
+  return { shop, requests };
+}
+
+describe("cart", () => {
+  test("keeps one cart across requests through the session cookie", async () => {
+    const { shop, requests } = cartStore();
+
+    const empty = await shop.cart.get();
+    expect(empty.itemCount).toBe(0);
+
+    const cart = await shop.cart.add([
+      { variantId: "11", quantity: 2 },
+      { variantId: 12 },
+    ]);
+    expect(cart.token).toBe(empty.token);
+    expect(cart.itemCount).toBe(3);
+    expect(cart.items[0]).toMatchObject({
+      key: "11:abc",
+      line: 1,
+      variantId: "11",
+      productId: "1",
+      variantTitle: "Small",
+      options: [{ name: "Size", value: "Small" }],
+      quantity: 2,
+      finalLinePrice: 3000,
+      image: "https://cdn.shopify.com/candle.jpg",
+      properties: {},
+      sellingPlan: null,
+    });
+    expect(cart.totalPrice).toBe(5500);
+    // Formatted in the cart's currency, not the client's default
+    expect(cart.totalPriceFormatted).toBe(formatPrice(5500, "EUR"));
+    expect(cart.items[0]?.finalLinePriceFormatted).toBe(
+      formatPrice(3000, "EUR")
+    );
+    expect(schemas.cartSchema.safeParse(cart).success).toBe(true);
+
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "GET /cart.js",
+      "POST /cart/add.js",
+      "GET /cart.js",
+    ]);
+    expect(requests[0]?.cookie).toBeNull();
+    expect(requests.slice(1).every((r) => r.cookie === "cart=token-1")).toBe(
+      true
+    );
+    expect(requests[1]?.body).toEqual({
+      items: [
+        { id: 11, quantity: 2 },
+        { id: 12, quantity: 1 },
+      ],
+    });
+  });
+
+  test("changes, updates and clears lines", async () => {
+    const { shop, requests } = cartStore();
+    await shop.cart.add({ variantId: 11, quantity: 1 });
+
+    let cart = await shop.cart.change({ key: "11:abc", quantity: 4 });
+    expect(cart.items[0]?.quantity).toBe(4);
+
+    cart = await shop.cart.update({ updates: { "12": 1 }, note: "Gift" });
+    expect(cart.items.map((i) => i.variantId)).toEqual(["11", "12"]);
+    expect(cart.note).toBe("Gift");
+
+    cart = await shop.cart.change({ line: 2, quantity: 0 });
+    expect(requests.at(-1)?.body).toEqual({ line: 2, quantity: 0 });
+
+    cart = await shop.cart.clear();
+    expect(cart.items).toEqual([]);
+    expect(cart.note).toBe("Gift");
+
+    shop.cart.reset();
+    const fresh = await shop.cart.get();
+    expect(fresh.token).not.toBe(cart.token);
+  });
+
+  test("surfaces the store's message for rejected adds", async () => {
+    const { shop } = cartStore();
+    const error = await shop.cart
+      .add({ variantId: 12, quantity: 2 })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(UpstreamHttpError);
+    expect((error as UpstreamHttpError).status).toBe(422);
+    expect((error as Error).message).toBe(
+      "HTTP 422: You can only add 1 Candle - Large to the cart."
+    );
+  });
+
+  test("validates arguments before sending requests", async () => {
+    const { shop, requests } = cartStore();
+
+    await expect(shop.cart.add([])).rejects.toThrow(
+      "Items array cannot be empty"
+    );
+    await expect(shop.cart.add({ variantId: 11, quantity: 0 })).rejects.toThrow(
+      "Quantity must be a positive integer"
+    );
+    await expect(
+      shop.cart.change({ line: 0, quantity: 1 })
+    ).rejects.toThrow("Provide a line item key or a positive line number");
+    await expect(
+      shop.cart.update({ updates: { "11": -1 } })
+    ).rejects.toThrow("Quantity must be a non-negative integer");
+    await expect(shop.cart.update({})).rejects.toThrow(
+      "Provide updates, note or attributes"
+    );
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ShippingDestinationError,
+  ShippingRatesTimeoutError,
+  ShopClient,
+  schemas,
+} from "../index";
+import { formatPrice } from "../utils/func";
+
+const rates = [
+  {
+    name: "Standard",
+    presentment_name: "Standard Shipping",
+    code: "Standard",
+    source: "shopify",
+    price: "15.00",
+    delivery_range: ["2024-06-03", "2024-06-07"],
+    delivery_days: [3, 7],
+  },
+  { name: "Pickup", code: null, source: null, price: "0.00" },
+];
+
+function shippingStore(options?: {
+  pendingPolls?: number;
+  reject?: Record<string, string[]>;
+  hangAdd?: boolean;
+}) {
+  const requests: { method: string; path: string; cookie: string | null }[] =
+    [];
+  let carts = 0;
+  let polls = 0;
+
+  const shop = new ShopClient("https://ship.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      const cookie = new Headers(init?.headers).get("cookie");
+      requests.push({
+        method: init?.method ?? "GET",
+        path: `${url.pathname}${url.search}`,
+        cookie,
+      });
+      const headers = new Headers();
+      if (!cookie) {
+        headers.append("set-cookie", `cart=cart-${++carts}; path=/`);
+        headers.append("set-cookie", "cart_currency=CAD; path=/");
+      }
+
+      switch (url.pathname) {
+        case "/cart/add.js":
+          if (options?.hangAdd) {
+            // Answers only once the request is aborted
+            return new Promise<Response>((_, reject) => {
+              const signal = init?.signal as AbortSignal;
+              signal.addEventListener("abort", () => reject(signal.reason));
+            });
+          }
+          return Response.json({ items: [] }, { headers });
+        case "/cart.js":
+          return Response.json(
+            {
+              token: "cart-1",
+              note: null,
+              attributes: {},
+              original_total_price: 0,
+              total_price: 0,
+              total_discount: 0,
+              total_weight: 0,
+              item_count: 0,
+              items: [],
+              requires_shipping: false,
+              currency: "CAD",
+              items_subtotal_price: 0,
+            },
+            { headers }
+          );
+        case "/cart/prepare_shipping_rates.json":
+          if (options?.reject) {
+            return Response.json(options.reject, { status: 422, headers });
+          }
+          return new Response(null, { status: 202, headers });
+        case "/cart/async_shipping_rates.json":
+          if (polls++ < (options?.pendingPolls ?? 1)) {
+            return new Response(null, { status: 202, headers });
+          }
+          return Response.json({ shipping_rates: rates }, { headers });
+        default:
+          return new Response("", { status: 404 });
+      }
+    },
+  });
+  return { shop, requests };
+}
+
+describe("cart.shippingRates()", () => {
+  test("quotes items in a throwaway cart and polls until rates are ready", async () => {
+    const { shop, requests } = shippingStore({ pendingPolls: 2 });
+    await shop.cart.add({ variantId: 1 });
+
+    const result = await shop.cart.shippingRates({
+      items: [{ variantId: "11", quantity: 2 }],
+      country: "Canada",
+      province: "Ontario",
+      zip: " M5V 2T6 ",
+      pollIntervalMs: 5,
+    });
+
+    expect(result).toEqual([
+      {
+        name: "Standard Shipping",
+        code: "Standard",
+        source: "shopify",
+        price: 1500,
+        priceFormatted: formatPrice(1500, "CAD"),
+        currency: "CAD",
+        deliveryRange: { min: "2024-06-03", max: "2024-06-07" },
+        deliveryDays: { min: 3, max: 7 },
+      },
+      {
+        name: "Pickup",
+        code: null,
+        source: null,
+        price: 0,
+        priceFormatted: formatPrice(0, "CAD"),
+        currency: "CAD",
+        deliveryRange: null,
+        deliveryDays: null,
+      },
+    ]);
+    for (const rate of result) {
+      expect(schemas.shippingRateSchema.safeParse(rate).success).toBe(true);
+    }
+
+    const quote = requests.slice(2);
+    expect(quote.map((r) => `${r.method} ${r.path.split("?")[0]}`)).toEqual([
+      "POST /cart/add.js",
+      "POST /cart/prepare_shipping_rates.json",
+      "GET /cart/async_shipping_rates.json",
+      "GET /cart/async_shipping_rates.json",
+      "GET /cart/async_shipping_rates.json",
+    ]);
+    expect(new URLSearchParams(quote[1]?.path.split("?")[1])).toEqual(
+      new URLSearchParams({
+        "shipping_address[country]": "Canada",
+        "shipping_address[province]": "Ontario",
+        "shipping_address[zip]": "M5V 2T6",
+      })
+    );
+    // A new cart, separate from the session cart created by add()
+    expect(quote[0]?.cookie).toBeNull();
+    expect(quote.slice(1).every((r) => r.cookie?.includes("cart=cart-2"))).toBe(
+      true
+    );
+  });
+
+  test("quotes the session cart when no items are given", async () => {
+    const { shop, requests } = shippingStore();
+    await shop.cart.add({ variantId: 1 });
+
+    await shop.cart.shippingRates({ country: "CA", pollIntervalMs: 5 });
+
+    expect(requests.slice(2).every((r) => r.cookie?.includes("cart=cart-1"))).toBe(
+      true
+    );
+  });
+
+  test("throws typed errors for unsupported destinations and timeouts", async () => {
+    const rejected = shippingStore({
+      reject: { zip: ["is not valid for Canada"] },
+    });
+    const error = await rejected.shop.cart
+      .shippingRates({ country: "Canada", zip: "12345" })
+      .catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ShippingDestinationError);
+    expect((error as ShippingDestinationError).status).toBe(422);
+    expect((error as ShippingDestinationError).errors).toEqual({
+      zip: ["is not valid for Canada"],
+    });
+    expect((error as Error).message).toContain("zip is not valid for Canada");
+
+    const slow = shippingStore({ pendingPolls: Number.POSITIVE_INFINITY });
+    await expect(
+      slow.shop.cart.shippingRates({
+        country: "Canada",
+        timeoutMs: 30,
+        pollIntervalMs: 5,
+      })
+    ).rejects.toBeInstanceOf(ShippingRatesTimeoutError);
+
+    await expect(slow.shop.cart.shippingRates({ country: " " })).rejects.toThrow(
+      "Country is required"
+    );
+  });
+
+  test("bounds the throwaway cart by timeoutMs and aborts between polls", async () => {
+    const hanging = shippingStore({ hangAdd: true });
+    await expect(
+      hanging.shop.cart.shippingRates({
+        items: [{ variantId: 1 }],
+        country: "Canada",
+        timeoutMs: 30,
+      })
+    ).rejects.toBeInstanceOf(ShippingRatesTimeoutError);
+
+    const slow = shippingStore({ pendingPolls: Number.POSITIVE_INFINITY });
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(new Error("stopped")), 20);
+    await expect(
+      slow.shop.cart.shippingRates({
+        country: "Canada",
+        pollIntervalMs: 10_000,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow("stopped");
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(slow.requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+
+const homepage = `<!doctype html>
+<html><head>
+<meta name="description" content="Organic tea. New here? Use code WELCOME5 at checkout.">
+</head><body>
+<div class="announcement-bar" role="region">
+  <div class="announcement-bar__message">
+    <p>Get 10% off orders over $50 with code <strong>SAVE10</strong></p>
+    <div>Use code at checkout</div>
+  </div>
+</div>
+<a href="/discount/FREESHIP?redirect=/collections/all">Free shipping this week</a>
+<a href="/discount/save10">Shop the sale</a>
+<a href="/discount/50%OFF">Half price</a>
+<p>Our founder's code of conduct</p>
+</body></html>`;
+
+function cookieValue(cookie: string | null, name: string) {
+  return cookie?.match(new RegExp(`${name}=([^;]+)`))?.[1] ?? null;
+}
+
+function discountStore(options?: { discountProbe?: boolean }) {
+  const requests: { method: string; path: string; cookie: string | null }[] =
+    [];
+  const carts = new Map<string, number>();
+  const shop = new ShopClient("https://deals.example.com", {
+    rateLimit: { enabled: false },
+    discountProbe: options?.discountProbe ?? true,
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      const cookie = new Headers(init?.headers).get("cookie");
+      requests.push({
+        method: init?.method ?? "GET",
+        path: url.pathname,
+        cookie,
+      });
+
+      if (url.pathname === "/") return new Response(homepage);
+      if (url.pathname === "/cart/add.js") {
+        const token = `cart-${carts.size + 1}`;
+        const { items } = JSON.parse(String(init?.body)) as {
+          items: { quantity: number }[];
+        };
+        carts.set(token, items[0]!.quantity * 3000);
+        return Response.json(
+          {},
+          { headers: { "set-cookie": `cart=${token}; path=/` } }
+        );
+      }
+      const code = url.pathname.match(/^\/discount\/(.+)$/)?.[1];
+      if (code) {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            location: "/",
+            "set-cookie": `discount_code=${code}; path=/`,
+          },
+        });
+      }
+      if (url.pathname === "/cart.js") {
+        const subtotal = carts.get(cookieValue(cookie, "cart") ?? "") ?? 0;
+        const applied = cookieValue(cookie, "discount_code");
+        const save10 = applied === "SAVE10" && subtotal >= 5000;
+        return Response.json({
+          token: "t",
+          note: null,
+          attributes: {},
+          original_total_price: subtotal,
+          total_price: subtotal - (save10 ? subtotal / 10 : 0),
+          total_discount: save10 ? subtotal / 10 : 0,
+          total_weight: 0,
+          item_count: subtotal ? 1 : 0,
+          items: [],
+          requires_shipping: true,
+          currency: "USD",
+          items_subtotal_price: subtotal,
+          cart_level_discount_applications: save10
+            ? [
+                {
+                  title: "SAVE10 - 10% off orders over $50",
+                  type: "discount_code",
+                  total_allocated_amount: subtotal / 10,
+                },
+              ]
+            : [],
+          discount_codes: applied
+            ? [{ code: applied, applicable: save10 }]
+            : [],
+        });
+      }
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, requests };
+}
+
+describe("checkout.discounts", () => {
+  test("probes each code in its own throwaway cart", async () => {
+    const { shop, requests } = discountStore();
+    const results = await shop.checkout.discounts.probe(
+      ["SAVE10", "BOGUS", " save10 "],
+      { items: [{ variantId: 11, quantity: 2 }], delayMs: 0 }
+    );
+
+    expect(results).toEqual([
+      {
+        code: "SAVE10",
+        applied: true,
+        amount: 600,
+        discounts: [{ title: "SAVE10 - 10% off orders over $50", amount: 600 }],
+        subtotal: 6000,
+        currency: "USD",
+        minimum: { subtotal: 5000, quantity: null },
+      },
+      {
+        code: "BOGUS",
+        applied: false,
+        amount: 0,
+        discounts: [],
+        subtotal: 6000,
+        currency: "USD",
+        minimum: null,
+      },
+    ]);
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "POST /cart/add.js",
+      "GET /discount/SAVE10",
+      "GET /cart.js",
+      "POST /cart/add.js",
+      "GET /discount/BOGUS",
+      "GET /cart.js",
+    ]);
+    // Every probe starts without cookies and never sees another's code
+    expect(requests[0]?.cookie).toBeNull();
+    expect(requests[3]?.cookie).toBeNull();
+    expect(requests[5]?.cookie).toBe("cart=cart-2; discount_code=BOGUS");
+  });
+
+  test("probing is opt-in and validates codes", async () => {
+    const disabled = discountStore({ discountProbe: false });
+    await expect(
+      disabled.shop.checkout.discounts.probe(["SAVE10"])
+    ).rejects.toThrow("discountProbe: true");
+    expect(disabled.requests).toEqual([]);
+
+    const { shop } = discountStore();
+    await expect(shop.checkout.discounts.probe([])).rejects.toThrow(
+      "Codes array cannot be empty"
+    );
+    await expect(shop.checkout.discounts.probe([" "])).rejects.toThrow(
+      "Discount codes must be non-empty strings"
+    );
+  });
+
+  test("finds codes advertised on the home page", async () => {
+    const { shop } = discountStore({ discountProbe: false });
+    const coupons = await shop.checkout.discounts.advertised();
+
+    expect(coupons).toEqual([
+      {
+        label: "SAVE10",
+        description: "Get 10% off orders over $50 with code SAVE10",
+      },
+      { label: "FREESHIP", description: "Free shipping this week" },
+      { label: "50%OFF", description: "Half price" },
+      {
+        label: "WELCOME5",
+        description: "Organic tea. New here? Use code WELCOME5 at checkout.",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+
+function permalinkStore() {
+  const requests: { path: string; body: unknown; cookie: string | null }[] =
+    [];
+  const shop = new ShopClient("https://links.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      requests.push({
+        path: url.pathname,
+        body: init?.body ? JSON.parse(String(init.body)) : undefined,
+        cookie: new Headers(init?.headers).get("cookie"),
+      });
+      if (url.pathname === "/cart/clear.js") return Response.json({});
+      if (url.pathname !== "/cart/add.js") {
+        return new Response("", { status: 404 });
+      }
+      const { id, quantity } = (
+        JSON.parse(String(init?.body)) as {
+          items: { id: number; quantity: number }[];
+        }
+      ).items[0]!;
+      const cartError = (status: number, description: string) =>
+        Response.json(
+          { status, message: "Cart Error", description },
+          { status }
+        );
+      if (id === 404) return cartError(404, "Cannot find variant");
+      if (id === 13) {
+        return cartError(422, "The product 'Tee - L' is already sold out.");
+      }
+      if (id === 12 && quantity > 3) {
+        return cartError(
+          422,
+          "You can only add 3 of Tee - M to the cart."
+        );
+      }
+      return Response.json(
+        { items: [] },
+        { headers: { "set-cookie": "cart=probe; path=/" } }
+      );
+    },
+  });
+  return { shop, requests };
+}
+
+describe("checkout.buildCartPermalink()", () => {
+  test("builds a /cart permalink with discounts, attributes and tracking", async () => {
+    const { shop, requests } = permalinkStore();
+    const link = await shop.checkout.buildCartPermalink({
+      items: [{ variantId: 11, quantity: 2 }, { variantId: "12" }],
+      discount: ["SAVE10", " FREESHIP "],
+      note: "Leave at door",
+      attributes: { "Gift wrap": "yes" },
+      ref: "partner-7",
+      utm: { source: "newsletter", campaign: "spring" },
+      locale: "fr",
+      accessToken: "sf-token",
+      payment: "shop_pay",
+    });
+
+    expect(link.format).toBe("permalink");
+    expect(link.target).toBe("checkout");
+    const url = new URL(link.url);
+    expect(url.pathname).toBe("/cart/11:2,12:1");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      discount: "SAVE10,FREESHIP",
+      note: "Leave at door",
+      "attributes[Gift wrap]": "yes",
+      ref: "partner-7",
+      utm_source: "newsletter",
+      utm_campaign: "spring",
+      locale: "fr",
+      access_token: "sf-token",
+      payment: "shop_pay",
+    });
+    expect(link.params).toEqual(Object.fromEntries(url.searchParams));
+    expect(link.lines).toEqual([
+      { variantId: "11", quantity: 2, sellingPlanId: null, properties: {} },
+      { variantId: "12", quantity: 1, sellingPlanId: null, properties: {} },
+    ]);
+    expect(link.verification).toBeNull();
+    expect(link.valid).toBe(true);
+    expect(requests).toEqual([]);
+
+    const toCart = await shop.checkout.buildCartPermalink({
+      items: [{ variantId: 11 }],
+      target: "cart",
+    });
+    expect(toCart.url).toBe("https://links.example.com/cart/11:1?storefront=true");
+  });
+
+  test("uses /cart/add for selling plans and line properties", async () => {
+    const { shop } = permalinkStore();
+    const link = await shop.checkout.buildCartPermalink({
+      items: [
+        { variantId: 11, sellingPlanId: 555 },
+        { variantId: 12, quantity: 2, properties: { Engraving: "A&B" } },
+      ],
+      discount: "SUB20",
+    });
+
+    expect(link.format).toBe("add");
+    const url = new URL(link.url);
+    expect(url.pathname).toBe("/cart/add");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      "items[0][id]": "11",
+      "items[0][quantity]": "1",
+      "items[0][selling_plan]": "555",
+      "items[1][id]": "12",
+      "items[1][quantity]": "2",
+      "items[1][properties][Engraving]": "A&B",
+      return_to: "/checkout?discount=SUB20",
+    });
+  });
+
+  test("verifies lines against the store in a throwaway cart", async () => {
+    const { shop, requests } = permalinkStore();
+    const link = await shop.checkout.buildCartPermalink({
+      items: [
+        { variantId: 11 },
+        { variantId: 12, quantity: 5 },
+        { variantId: 13 },
+        { variantId: 404 },
+      ],
+      verify: true,
+    });
+
+    expect(link.valid).toBe(false);
+    expect(link.verification).toEqual([
+      { variantId: "11", quantity: 1, status: "ok", available: null, message: null },
+      {
+        variantId: "12",
+        quantity: 5,
+        status: "insufficient_quantity",
+        available: 3,
+        message: "You can only add 3 of Tee - M to the cart.",
+      },
+      {
+        variantId: "13",
+        quantity: 1,
+        status: "sold_out",
+        available: 0,
+        message: "The product 'Tee - L' is already sold out.",
+      },
+      {
+        variantId: "404",
+        quantity: 1,
+        status: "not_found",
+        available: null,
+        message: "Cannot find variant",
+      },
+    ]);
+    expect(requests.map((r) => r.path)).toEqual([
+      "/cart/add.js",
+      "/cart/clear.js",
+      "/cart/add.js",
+      "/cart/add.js",
+      "/cart/add.js",
+    ]);
+    // The throwaway cart is never the client's session cart
+    expect(requests[1]?.cookie).toBe("cart=probe");
+    await expect(shop.cart.get()).rejects.toThrow();
+    expect(requests.at(-1)?.cookie).toBeNull();
+  });
+
+  test("validates ids and quantities", async () => {
+    const { shop } = permalinkStore();
+    await expect(
+      shop.checkout.buildCartPermalink({ items: [] })
+    ).rejects.toThrow("Items array cannot be empty");
+    await expect(
+      shop.checkout.buildCartPermalink({
+        items: [{ variantId: "gid://shopify/ProductVariant/1" }],
+      })
+    ).rejects.toThrow("Variant ID must be numeric");
+    await expect(
+      shop.checkout.buildCartPermalink({
+        items: [{ variantId: 1, quantity: 1.5 }],
+      })
+    ).rejects.toThrow("Quantity must be a positive integer");
+    await expect(
+      shop.checkout.buildCartPermalink({
+        items: [{ variantId: 1, sellingPlanId: "monthly" }],
+      })
+    ).rejects.toThrow("Selling plan ID must be numeric");
+  });
+});
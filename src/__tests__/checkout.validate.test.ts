@@ -0,0 +1,165 @@
+import { describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+
+const tee = {
+  id: 1,
+  title: "Tee",
+  handle: "tee",
+  variants: [
+    {
+      id: 11,
+      title: "S",
+      price: 1999,
+      available: true,
+      inventory_quantity: 10,
+      inventory_management: "shopify",
+    },
+    {
+      id: 12,
+      title: "M",
+      price: 2499,
+      available: true,
+      inventory_quantity: 2,
+      inventory_management: "shopify",
+    },
+    { id: 13, title: "L", price: 1999, available: false },
+  ],
+};
+
+const box = {
+  id: 2,
+  title: "Coffee Box",
+  handle: "coffee-box",
+  requires_selling_plan: true,
+  variants: [{ id: 21, title: "Default Title", price: 3000, available: true }],
+};
+
+function validateStore() {
+  const requests: string[] = [];
+  const shop = new ShopClient("https://valid.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      requests.push(`${init?.method ?? "GET"} ${url.pathname}`);
+      const variant = url.pathname.match(/^\/variants\/(\d+)$/)?.[1];
+      if (variant) {
+        const product = [tee, box].find((p) =>
+          p.variants.some((v) => String(v.id) === variant)
+        );
+        if (!product) return new Response("", { status: 404 });
+        return new Response(null, {
+          status: 302,
+          headers: {
+            location: `/products/${product.handle}?variant=${variant}`,
+          },
+        });
+      }
+      if (url.pathname === "/products/tee.js") return Response.json(tee);
+      if (url.pathname === "/products/coffee-box.js") return Response.json(box);
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, requests };
+}
+
+describe("checkout.validate()", () => {
+  test("reports availability, quantity limits, selling plans and price drift", async () => {
+    const { shop, requests } = validateStore();
+    const result = await shop.checkout.validate(
+      [
+        { variantId: 11, quantity: 2 },
+        { productVariantId: "12", quantity: "3" },
+        { variantId: "13", handle: "tee" },
+        { variantId: 21 },
+        { variantId: 99 },
+      ],
+      { expectedPrices: { "11": 1999, "12": 1999 } }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.items).toEqual([
+      {
+        variantId: "11",
+        quantity: 2,
+        status: "ok",
+        issues: [],
+        handle: "tee",
+        title: "Tee - S",
+        price: 1999,
+        expectedPrice: 1999,
+        availableQuantity: 10,
+      },
+      {
+        variantId: "12",
+        quantity: 3,
+        status: "quantity_limited",
+        issues: ["quantity_limited", "price_changed"],
+        handle: "tee",
+        title: "Tee - M",
+        price: 2499,
+        expectedPrice: 1999,
+        availableQuantity: 2,
+      },
+      {
+        variantId: "13",
+        quantity: 1,
+        status: "unavailable",
+        issues: ["unavailable"],
+        handle: "tee",
+        title: "Tee - L",
+        price: 1999,
+        expectedPrice: null,
+        availableQuantity: 0,
+      },
+      {
+        variantId: "21",
+        quantity: 1,
+        status: "requires_selling_plan",
+        issues: ["requires_selling_plan"],
+        handle: "coffee-box",
+        title: "Coffee Box",
+        price: 3000,
+        expectedPrice: null,
+        availableQuantity: null,
+      },
+      {
+        variantId: "99",
+        quantity: 1,
+        status: "missing",
+        issues: ["missing"],
+        handle: null,
+        title: null,
+        price: null,
+        expectedPrice: null,
+        availableQuantity: null,
+      },
+    ]);
+    // Each product is fetched once; a given handle skips the redirect
+    expect(requests).toEqual([
+      "HEAD /variants/11",
+      "GET /products/tee.js",
+      "HEAD /variants/12",
+      "HEAD /variants/21",
+      "GET /products/coffee-box.js",
+      "HEAD /variants/99",
+    ]);
+  });
+
+  test("accepts a selling plan and validates input", async () => {
+    const { shop } = validateStore();
+    const result = await shop.checkout.validate([
+      { variantId: 21, sellingPlanId: 7, handle: "coffee-box" },
+    ]);
+    expect(result.valid).toBe(true);
+
+    await expect(shop.checkout.validate([])).rejects.toThrow(
+      "Items array cannot be empty"
+    );
+    await expect(
+      shop.checkout.validate([{ variantId: "abc" }])
+    ).rejects.toThrow("Variant ID must be numeric");
+    await expect(
+      shop.checkout.validate([{ variantId: 11, quantity: "two" }])
+    ).rejects.toThrow("Quantity must be a positive integer");
+  });
+});
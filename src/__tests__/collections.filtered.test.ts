@@ -0,0 +1,286 @@
+import { describe, expect, test } from "bun:test";
+import { buildFilterParams, parseStorefrontFilters, ShopClient } from "../index";
+import { parseProductHandles } from "../utils/storefront-filters";
+
+function listing(id: number, handle: string, price: string) {
+  return {
+    id,
+    handle,
+    title: handle,
+    vendor: "Acme",
+    tags: [],
+    options: [{ name: "Title", position: 1, values: ["Default Title"] }],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: "Shirt",
+    body_html: "",
+    variants: [
+      {
+        id: id * 10,
+        title: "Default Title",
+        option1: "Default Title",
+        option2: null,
+        option3: null,
+        sku: null,
+        requires_shipping: true,
+        taxable: true,
+        featured_image: null,
+        available: true,
+        price,
+        grams: 0,
+        compare_at_price: null,
+        position: 1,
+        product_id: id,
+        created_at: "2024-01-01T00:00:00Z",
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+    ],
+    images: [],
+  };
+}
+
+// Dawn renders the filter form twice (drawer + sidebar)
+const filterForm = `
+  <form id="FacetFiltersForm">
+    <input type="checkbox" name="filter.v.availability" value="1" id="Filter-Availability-1" checked>
+    <label for="Filter-Availability-1"><span>In stock (2)</span><span class="visually-hidden">In stock (2 products)</span></label>
+    <input type="checkbox" name="filter.v.option.color" value="Blue" id="Filter-Color-1">
+    <label for="Filter-Color-1"><svg></svg><span>Blue (2)</span></label>
+    <input type="checkbox" name="filter.v.option.color" value="Rosé &amp; Gold" id="Filter-Color-2" disabled>
+    <label for="Filter-Color-2"><span>Rosé &amp; Gold (0)</span></label>
+    <input class="field__input" name="filter.v.price.gte" id="Filter-Price-GTE" type="number" placeholder="0" min="0" max="150.00">
+    <input class="field__input" name="filter.v.price.lte" id="Filter-Price-LTE" type="number" placeholder="150.00" min="0" max="150.00">
+  </form>
+  <form id="FacetFiltersFormMobile">
+    <input type="checkbox" name="filter.v.option.color" value="Blue" id="Filter-Color-1-mobile">
+  </form>`;
+
+function collectionPage(handles: string[], nextPage?: number) {
+  return `<html><body>
+    <header><a href="/products/gift-card">Gift card</a></header>
+    ${filterForm}
+    <ul id="product-grid" class="grid product-grid">${handles
+      .map(
+        (h) =>
+          `<li><a href="/collections/shirts/products/${h}?variant=1">${h}</a><a href="/products/${h}">Quick view</a></li>`
+      )
+      .join("")}</ul>
+    <section class="recommendations"><a href="/products/socks">You may also like</a><a href="/blogs/news?page=3">More stories</a></section>
+    <nav class="pagination" role="navigation">${nextPage ? `<a href="/collections/shirts?filter.v.availability=1&amp;page=${nextPage}">Next</a>` : ""}</nav>
+  </body></html>`;
+}
+
+// Published after the listing was crawled
+const newArrival = {
+  id: 4,
+  title: "New arrival",
+  handle: "new-arrival",
+  type: "Shirt",
+  price: 9000,
+  available: true,
+  vendor: "Acme",
+  tags: [],
+  options: [{ name: "Title", position: 1, values: ["Default Title"] }],
+  variants: [
+    {
+      id: 40,
+      title: "Default Title",
+      option1: "Default Title",
+      option2: null,
+      option3: null,
+      sku: null,
+      requires_shipping: true,
+      taxable: true,
+      featured_image: null,
+      available: true,
+      name: "New arrival",
+      public_title: null,
+      options: ["Default Title"],
+      price: 9000,
+      compare_at_price: null,
+    },
+  ],
+  images: [],
+};
+
+function filteringStore(secondPage = ["oxford"]) {
+  const pages: URL[] = [];
+  const lookups: string[] = [];
+  let listings = 0;
+  const shop = new ShopClient("https://filters.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname.startsWith("/products/")) {
+        lookups.push(url.pathname);
+        if (url.pathname === "/products/new-arrival.js") {
+          return Response.json(newArrival);
+        }
+        if (url.pathname === "/products/new-arrival") {
+          return new Response("<html></html>");
+        }
+        return new Response("", { status: 404 });
+      }
+      if (url.pathname === "/collections/shirts/products.json") {
+        listings++;
+        return Response.json({
+          products:
+            url.searchParams.get("page") === "1"
+              ? [
+                  listing(1, "basic-tee", "20.00"),
+                  listing(2, "oxford", "80.00"),
+                  listing(3, "linen", "55.00"),
+                ]
+              : [],
+        });
+      }
+      if (url.pathname === "/collections/shirts") {
+        pages.push(url);
+        // The storefront sorts by price and drops sold-out items
+        return url.searchParams.get("page") === "2"
+          ? new Response(collectionPage(secondPage))
+          : new Response(collectionPage(["basic-tee", "linen"], 2));
+      }
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, pages, lookups, listingCount: () => listings };
+}
+
+describe("collections.products.filtered()", () => {
+  test("sends storefront filter parameters and keeps the storefront order", async () => {
+    const { shop, pages } = filteringStore();
+    const result = await shop.collections.products.filtered("shirts", {
+      filters: {
+        available: true,
+        priceLte: 10000,
+        options: { Color: ["Blue", "Navy"] },
+        vendor: "Acme",
+        params: { "filter.p.m.custom.material": "Linen" },
+      },
+      sortBy: "price-ascending",
+    });
+
+    const sent = pages[0]!.searchParams;
+    expect(sent.get("filter.v.availability")).toBe("1");
+    expect(sent.get("filter.v.price.lte")).toBe("100");
+    expect(sent.getAll("filter.v.option.color")).toEqual(["Blue", "Navy"]);
+    expect(sent.get("filter.p.vendor")).toBe("Acme");
+    expect(sent.get("filter.p.m.custom.material")).toBe("Linen");
+    expect(sent.get("sort_by")).toBe("price-ascending");
+    expect(sent.has("page")).toBe(false);
+
+    expect(result?.products.map((p) => p.handle)).toEqual([
+      "basic-tee",
+      "linen",
+    ]);
+    expect(result?.products[0]?.price).toBe(2000);
+    expect(result?.hasNextPage).toBe(true);
+    expect(result?.url).toBe(pages[0]!.href);
+  });
+
+  test("exposes the filters the theme advertises", async () => {
+    const { shop } = filteringStore();
+    const result = await shop.collections.products.filtered("shirts");
+
+    expect(result?.filters).toEqual([
+      {
+        param: "filter.v.availability",
+        key: "availability",
+        type: "list",
+        values: [
+          { value: "1", label: "In stock", count: 2, active: true, disabled: false },
+        ],
+      },
+      {
+        param: "filter.v.option.color",
+        key: "color",
+        type: "list",
+        values: [
+          { value: "Blue", label: "Blue", count: 2, active: false, disabled: false },
+          {
+            value: "Rosé & Gold",
+            label: "Rosé & Gold",
+            count: 0,
+            active: false,
+            disabled: true,
+          },
+        ],
+      },
+      {
+        param: "filter.v.price",
+        key: "price",
+        type: "price_range",
+        values: [],
+        range: { min: 0, max: 15000 },
+      },
+    ]);
+  });
+
+  test("pages through results with a single listing crawl", async () => {
+    const { shop, listingCount } = filteringStore();
+    await shop.collections.products.filtered("shirts");
+    const crawls = listingCount();
+
+    const second = await shop.collections.products.filtered("shirts", {
+      page: 2,
+    });
+    expect(second?.products.map((p) => p.handle)).toEqual(["oxford"]);
+    expect(second?.hasNextPage).toBe(false);
+    expect(listingCount()).toBe(crawls);
+  });
+
+  test("reads only the product grid and looks up products missing from the listing", async () => {
+    const { shop, lookups } = filteringStore(["new-arrival", "oxford"]);
+    expect(
+      (await shop.collections.products.filtered("shirts"))?.products.map(
+        (p) => p.handle
+      )
+    ).toEqual(["basic-tee", "linen"]);
+    // Header and recommendation links are not looked up
+    expect(lookups).toEqual([]);
+
+    const second = await shop.collections.products.filtered("shirts", {
+      page: 2,
+    });
+    expect(second?.products.map((p) => p.handle)).toEqual([
+      "new-arrival",
+      "oxford",
+    ]);
+    expect(second?.products[0]?.price).toBe(9000);
+    expect(lookups).toEqual([
+      "/products/new-arrival",
+      "/products/new-arrival.js",
+    ]);
+  });
+
+  test("falls back to <main>, then the whole page, without a recognizable grid", () => {
+    const html = `<header><a href="/products/gift-card">Gift card</a></header>
+      <main><div class="grid"><a href="/products/linen">Linen</a></div></main>
+      <footer><a href="/products/socks">Socks</a></footer>`;
+    expect(parseProductHandles(html)).toEqual(["linen"]);
+    expect(parseProductHandles(`<a href="/products/a">A</a>`)).toEqual(["a"]);
+    // Item classes that merely start with a grid name are not the grid
+    expect(
+      parseProductHandles(
+        `<ul class="grid"><li class="product-grid-item"><a href="/products/a">A</a></li><li><a href="/products/b">B</a></li></ul>`
+      )
+    ).toEqual(["a", "b"]);
+  });
+
+  test("returns null for a missing collection", async () => {
+    const { shop } = filteringStore();
+    expect(await shop.collections.products.filtered("missing")).toBeNull();
+    await expect(
+      shop.collections.products.filtered("shirts", { page: 0 })
+    ).rejects.toThrow("Invalid page");
+  });
+
+  test("helpers are usable on their own", () => {
+    expect(
+      buildFilterParams({ priceGte: 1250, tags: ["a", "b"] }, "best-selling").toString()
+    ).toBe("filter.v.price.gte=12.5&filter.p.tag=a&filter.p.tag=b&sort_by=best-selling");
+    expect(parseStorefrontFilters("<html></html>")).toEqual([]);
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, expect, test } from "bun:test";
+import { diffSitemapEntries, parseSitemapEntries, ShopClient } from "../index";
+
+const index = `<?xml version="1.0" encoding="UTF-8"?>
+<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+  <sitemap>
+    <loc>https://sitemaps.example.com/sitemap_products_1.xml?from=1&amp;to=20</loc>
+    <lastmod>2024-05-02T10:00:00-04:00</lastmod>
+  </sitemap>
+  <sitemap>
+    <loc>https://sitemaps.example.com/sitemap_products_2.xml?from=21&amp;to=40</loc>
+  </sitemap>
+  <sitemap>
+    <loc>https://sitemaps.example.com/sitemap_collections_1.xml</loc>
+  </sitemap>
+  <sitemap>
+    <loc>https://sitemaps.example.com/sitemap_pages_1.xml</loc>
+  </sitemap>
+</sitemapindex>`;
+
+const products1 = `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <url>
+    <loc>https://sitemaps.example.com/</loc>
+    <changefreq>daily</changefreq>
+  </url>
+  <url>
+    <loc>https://sitemaps.example.com/products/classic-tee</loc>
+    <lastmod>2024-05-01T10:00:00-04:00</lastmod>
+    <image:image>
+      <image:loc>https://cdn.shopify.com/s/files/tee.jpg?v=1</image:loc>
+      <image:title>Classic Tee</image:title>
+      <image:caption><![CDATA[Tee & friends]]></image:caption>
+    </image:image>
+  </url>
+  <url>
+    <loc>https://sitemaps.example.com/products/old-hat</loc>
+    <lastmod>2023-01-01T00:00:00Z</lastmod>
+  </url>
+</urlset>`;
+
+const products2 = `<urlset>
+  <url>
+    <loc>https://sitemaps.example.com/fr/products/classic-tee</loc>
+    <lastmod>2024-05-01T10:00:00-04:00</lastmod>
+  </url>
+  <url>
+    <loc>https://sitemaps.example.com/products/gone</loc>
+  </url>
+</urlset>`;
+
+const collections = `<urlset>
+  <url>
+    <loc>https://sitemaps.example.com/collections/summer</loc>
+    <lastmod>2024-04-01T00:00:00Z</lastmod>
+  </url>
+</urlset>`;
+
+function sitemapStore() {
+  const requests: string[] = [];
+  const shop = new ShopClient("https://sitemaps.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname);
+      if (url.pathname === "/sitemap.xml") return new Response(index);
+      if (url.pathname === "/sitemap_products_1.xml") {
+        return new Response(products1);
+      }
+      if (url.pathname === "/sitemap_products_2.xml") {
+        return new Response(products2);
+      }
+      if (url.pathname === "/sitemap_collections_1.xml") {
+        return new Response(collections);
+      }
+      if (url.pathname === "/products/classic-tee.js") {
+        return Response.json({
+          id: 1,
+          title: "Classic Tee",
+          handle: "classic-tee",
+          description: "",
+          published_at: "2024-01-01T00:00:00Z",
+          created_at: "2024-01-01T00:00:00Z",
+          vendor: "Acme",
+          type: "Shirt",
+          tags: [],
+          price: 2000,
+          price_min: 2000,
+          price_max: 2000,
+          available: true,
+          price_varies: false,
+          compare_at_price: null,
+          compare_at_price_min: 0,
+          compare_at_price_max: 0,
+          compare_at_price_varies: false,
+          variants: [],
+          images: [],
+          featured_image: null,
+          options: [],
+          url: "/products/classic-tee",
+          media: [],
+          requires_selling_plan: false,
+          selling_plan_groups: [],
+        });
+      }
+      if (url.pathname === "/products/broken.js") {
+        return new Response("", { status: 500 });
+      }
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, requests };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+}
+
+describe("discovery", () => {
+  test("lists nested sitemaps by type", async () => {
+    const { shop } = sitemapStore();
+    const sitemaps = await shop.discovery.sitemaps();
+
+    expect(sitemaps.map((s) => s.type)).toEqual([
+      "products",
+      "products",
+      "collections",
+      "pages",
+    ]);
+    expect(sitemaps[0]).toEqual({
+      url: "https://sitemaps.example.com/sitemap_products_1.xml?from=1&to=20",
+      type: "products",
+      lastmod: "2024-05-02T10:00:00-04:00",
+    });
+  });
+
+  test("streams product entries with lastmod and images, deduped by handle", async () => {
+    const { shop } = sitemapStore();
+    const pages: number[] = [];
+    const entries = await collect(
+      shop.discovery.products({ onPage: ({ count }) => pages.push(count) })
+    );
+
+    expect(entries.map((e) => e.handle)).toEqual([
+      "classic-tee",
+      "old-hat",
+      "gone",
+    ]);
+    expect(entries[0]).toEqual({
+      handle: "classic-tee",
+      url: "https://sitemaps.example.com/products/classic-tee",
+      lastmod: "2024-05-01T10:00:00-04:00",
+      images: [
+        {
+          url: "https://cdn.shopify.com/s/files/tee.jpg?v=1",
+          title: "Classic Tee",
+          caption: "Tee & friends",
+        },
+      ],
+    });
+    expect(entries[2]?.lastmod).toBeNull();
+    expect(pages).toEqual([2, 1]);
+
+    const cols = await collect(shop.discovery.collections());
+    expect(cols.map((c) => c.handle)).toEqual(["summer"]);
+  });
+
+  test("filters by lastmod and hydrates through products.find()", async () => {
+    const { shop, requests } = sitemapStore();
+    const changed = await collect(
+      shop.discovery.changedSince(new Date("2024-01-01T00:00:00Z"))
+    );
+    expect(changed.map((e) => e.handle)).toEqual(["classic-tee", "gone"]);
+
+    const products = await collect(shop.discovery.hydrate(changed));
+    expect(products.map((p) => p.handle)).toEqual(["classic-tee"]);
+    expect(requests).toContain("/products/gone.js");
+
+    expect(() => shop.discovery.changedSince("not a date")).toThrow(
+      "Invalid since date"
+    );
+  });
+
+  test("skips handles products.find() cannot look up", async () => {
+    const { shop, requests } = sitemapStore();
+    const entries = parseSitemapEntries(
+      `<urlset>
+        <url><loc>https://sitemaps.example.com/products/%E3%83%86%E3%82%A3%E3%83%BC</loc></url>
+        <url><loc>https://sitemaps.example.com/products/classic-tee</loc></url>
+        <url><loc>https://sitemaps.example.com/products/classic-tee-%C3%A9t%C3%A9</loc></url>
+      </urlset>`,
+      "products"
+    );
+    expect(entries.map((e) => e.handle)).toEqual([
+      "ティー",
+      "classic-tee",
+      "classic-tee-été",
+    ]);
+
+    const products = await collect(shop.discovery.hydrate(entries));
+    expect(products.map((p) => p.handle)).toEqual(["classic-tee"]);
+    expect(requests.every((path) => path.startsWith("/products/classic-tee"))).toBe(true);
+  });
+
+  test("yields products looked up before a failing one", async () => {
+    const { shop } = sitemapStore();
+    const seen: string[] = [];
+    await expect(
+      (async () => {
+        for await (const product of shop.discovery.hydrate([
+          "classic-tee",
+          "broken",
+        ])) {
+          seen.push(product.handle);
+        }
+      })()
+    ).rejects.toThrow();
+    expect(seen).toEqual(["classic-tee"]);
+  });
+
+  test("throws on a failing sitemap", async () => {
+    const shop = new ShopClient("https://nositemap.example.com", {
+      rateLimit: { enabled: false },
+      transport: async () => new Response("", { status: 500 }),
+    });
+    await expect(shop.discovery.sitemaps()).rejects.toThrow();
+  });
+
+  test("diffs two crawls by handle", () => {
+    const previous = parseSitemapEntries(products1, "products");
+    const current = parseSitemapEntries(products2, "products");
+    const diff = diffSitemapEntries(previous, current);
+
+    expect(diff.added.map((e) => e.handle)).toEqual(["gone"]);
+    expect(diff.updated).toEqual([]);
+    expect(diff.removed.map((e) => e.handle)).toEqual(["old-hat"]);
+    expect(diff.unchanged).toBe(1);
+
+    const bumped = current.map((e) => ({ ...e, lastmod: "2025-01-01" }));
+    expect(diffSitemapEntries(previous, bumped).updated.map((e) => e.handle)).toEqual([
+      "classic-tee",
+    ]);
+  });
+
+  test("keeps the raw handle of a malformed sitemap URL", async () => {
+    const shop = new ShopClient("https://sitemaps.example.com", {
+      rateLimit: { enabled: false },
+      transport: async (input) => {
+        const { pathname } = new URL(String(input));
+        if (pathname === "/sitemap.xml") {
+          return new Response(
+            "<sitemapindex><sitemap><loc>https://sitemaps.example.com/sitemap_products_1.xml</loc></sitemap></sitemapindex>"
+          );
+        }
+        return new Response(`<urlset>
+  <url><loc>https://sitemaps.example.com/products/50%off-tee</loc></url>
+  <url><loc>https://sitemaps.example.com/products/caf%C3%A9-mug</loc></url>
+</urlset>`);
+      },
+    });
+
+    const entries = await collect(shop.discovery.products());
+    expect(entries.map((e) => e.handle)).toEqual(["50%off-tee", "café-mug"]);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, expect, test } from "bun:test";
+import { mapProductDto, mapProductsDto } from "../dto/products.mapped";
+import { schemas } from "../index";
+import type { ShopifyProduct, ShopifySingleProduct } from "../types";
+
+const ctx = {
+  storeDomain: "https://test.myshopify.com",
+  storeSlug: "test-store",
+  currency: "EUR",
+  normalizeImageUrl: (url: string | null | undefined) => url || "",
+  formatPrice: (amount: number) => `€${(amount / 100).toFixed(2)}`,
+};
+
+function singleVariant(id: number, extra: Record<string, unknown>) {
+  return {
+    id,
+    title: "500 g",
+    handle: "",
+    option1: "500 g",
+    option2: null,
+    option3: null,
+    sku: `COFFEE-${id}`,
+    requires_shipping: true,
+    taxable: false,
+    position: 1,
+    product_id: 1,
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    featured_image: null,
+    featured_media: null,
+    available: true,
+    price: "14.95",
+    compare_at_price: null,
+    inventory_management: "shopify",
+    ...extra,
+  };
+}
+
+const coffee = {
+  id: 1,
+  title: "Coffee Beans",
+  handle: "coffee-beans",
+  description: "",
+  published_at: "2024-01-01T00:00:00Z",
+  created_at: "2024-01-01T00:00:00Z",
+  vendor: "Roastery",
+  type: "Coffee",
+  tags: [],
+  price: 1495,
+  price_min: 1495,
+  price_max: 1495,
+  available: true,
+  price_varies: false,
+  compare_at_price: null,
+  compare_at_price_min: 0,
+  compare_at_price_max: 0,
+  compare_at_price_varies: false,
+  variants: [
+    singleVariant(10, {
+      barcode: "4006381333931",
+      weight: 500,
+      weight_unit: "kg",
+      unit_price: 299,
+      unit_price_measurement: {
+        measured_type: "weight",
+        quantity_value: "500.0",
+        quantity_unit: "g",
+        reference_value: 100,
+        reference_unit: "g",
+      },
+    }),
+    singleVariant(11, {
+      barcode: "4006381333932",
+      weight: 0,
+      requires_shipping: false,
+    }),
+  ],
+  images: [],
+  featured_image: null,
+  options: [{ name: "Size", position: 1, values: ["500 g"] }],
+  url: "/products/coffee-beans",
+  media: [],
+  requires_selling_plan: false,
+  selling_plan_groups: [],
+} as unknown as ShopifySingleProduct;
+
+describe("ProductVariant feed fields", () => {
+  test("maps barcode, weight, shipping, tax and unit price from .js", () => {
+    const product = mapProductDto(coffee, ctx, { columns: { mode: "full" } });
+    const [first, second] = product.variants ?? [];
+
+    expect(first).toMatchObject({
+      barcode: "4006381333931",
+      weight: { value: 0.5, unit: "kg" },
+      requiresShipping: true,
+      taxable: false,
+      unitPrice: {
+        amount: 299,
+        measuredType: "weight",
+        quantity: { value: 500, unit: "g" },
+        reference: { value: 100, unit: "g" },
+      },
+    });
+    // Bad check digit, zero weight, no unit pricing
+    expect(second).toMatchObject({
+      barcode: null,
+      weight: null,
+      requiresShipping: false,
+      unitPrice: null,
+    });
+  });
+
+  test("maps products.json grams and barcodes", () => {
+    const listing = {
+      ...coffee,
+      body_html: "",
+      product_type: "Coffee",
+      updated_at: "2024-01-01T00:00:00Z",
+      variants: [
+        {
+          ...singleVariant(12, { barcode: " 036000291452 " }),
+          grams: 250,
+          price: "9.95",
+        },
+      ],
+    } as unknown as ShopifyProduct;
+    const [product] =
+      mapProductsDto([listing], ctx, { columns: { mode: "full" } }) ?? [];
+
+    expect(product?.variants?.[0]).toMatchObject({
+      barcode: "036000291452",
+      weight: { value: 250, unit: "g" },
+      unitPrice: null,
+    });
+  });
+
+  test("the zod schema accepts the new fields", () => {
+    const product = mapProductDto(coffee, ctx, { columns: { mode: "full" } });
+    for (const variant of product.variants ?? []) {
+      expect(schemas.productVariantSchema.safeParse(variant).success).toBe(
+        true
+      );
+    }
+    expect(
+      schemas.productVariantSchema.safeParse({
+        ...product.variants?.[0],
+        weight: { value: 1, unit: "stone" },
+      }).success
+    ).toBe(false);
+  });
+});
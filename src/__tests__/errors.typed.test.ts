@@ -0,0 +1,160 @@
+import { describe, expect, test } from "bun:test";
+import { classifyProduct } from "../ai/enrich";
+import {
+  LlmResponseError,
+  NotShopifyStoreError,
+  RateLimitedError,
+  SchemaValidationError,
+  ShopClient,
+  ShopClientError,
+  ShopNotFoundError,
+  StorePasswordProtectedError,
+  UpstreamHttpError,
+} from "../index";
+import type { Transport } from "../utils/transport";
+
+const storeHtml = `<!doctype html>
+  <html>
+    <head>
+      <meta name="og:site_name" content="Typed Store">
+      <meta name="shopify-digital-wallet" content="/123456/digital_wallets/dialog">
+    </head>
+    <body></body>
+  </html>`;
+
+function client(transport: Transport) {
+  return new ShopClient("https://typed.example.com", {
+    rateLimit: { enabled: false },
+    transport,
+  });
+}
+
+async function caught(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected promise to reject");
+}
+
+describe("getInfo() errors", () => {
+  test("404 on the storefront root is ShopNotFoundError", async () => {
+    const shop = client(async () => new Response("", { status: 404 }));
+    const err = await caught(shop.getInfo());
+
+    expect(err).toBeInstanceOf(ShopNotFoundError);
+    expect(err).toBeInstanceOf(UpstreamHttpError);
+    expect((err as ShopNotFoundError).status).toBe(404);
+    expect((err as ShopNotFoundError).context).toBe("fetching store info");
+  });
+
+  test("non-Shopify pages are NotShopifyStoreError", async () => {
+    const shop = client(
+      async () => new Response("<html><body>Hello</body></html>")
+    );
+    const err = await caught(shop.getInfo());
+
+    expect(err).toBeInstanceOf(NotShopifyStoreError);
+    expect((err as Error).message).toBe(
+      "The provided URL does not appear to be a valid Shopify store."
+    );
+  });
+});
+
+describe("products errors", () => {
+  test("JSON endpoints redirected to the password page are StorePasswordProtectedError", async () => {
+    const shop = client(async () => {
+      const res = new Response("<html><form action=\"/password\"></form></html>");
+      Object.defineProperty(res, "url", {
+        value: "https://typed.example.com/password",
+      });
+      return res;
+    });
+    const err = await caught(shop.products.paginated());
+
+    expect(err).toBeInstanceOf(StorePasswordProtectedError);
+    expect((err as StorePasswordProtectedError).url).toBe(
+      "https://typed.example.com/password"
+    );
+  });
+
+  test("429 after retries is RateLimitedError with Retry-After", async () => {
+    const shop = client(async (input) =>
+      String(input).includes("/products.json")
+        ? new Response("", { status: 429, headers: { "retry-after": "0" } })
+        : new Response(storeHtml)
+    );
+    const err = await caught(shop.products.all());
+
+    expect(err).toBeInstanceOf(RateLimitedError);
+    expect((err as RateLimitedError).status).toBe(429);
+    expect((err as RateLimitedError).retryAfterMs).toBe(0);
+  });
+
+  test("paginated() throws instead of returning null", async () => {
+    const shop = client(async () => new Response("", { status: 503 }));
+    const err = await caught(shop.products.paginated({ page: 2, limit: 10 }));
+
+    expect(err).toBeInstanceOf(UpstreamHttpError);
+    expect((err as UpstreamHttpError).status).toBe(503);
+    expect((err as UpstreamHttpError).url).toBe(
+      "https://typed.example.com/products.json?limit=10&page=2"
+    );
+  });
+
+  test("find() returns null on 404 and throws on other statuses", async () => {
+    let status = 404;
+    const shop = client(async () => new Response("", { status }));
+
+    expect(await shop.products.find("missing")).toBeNull();
+
+    status = 500;
+    const err = await caught(shop.products.find("broken"));
+    expect(err).toBeInstanceOf(UpstreamHttpError);
+    expect((err as UpstreamHttpError).status).toBe(500);
+  });
+});
+
+describe("LLM errors", () => {
+  const llm =
+    (content: string): Transport =>
+    async () =>
+      Response.json({ choices: [{ message: { content } }] });
+
+  test("unparseable output is LlmResponseError", async () => {
+    const err = await caught(
+      classifyProduct("Face cream", {
+        apiKey: "test",
+        model: "stub",
+        fetcher: llm("<!DOCTYPE html>oops"),
+      })
+    );
+    expect(err).toBeInstanceOf(LlmResponseError);
+    expect(err).toBeInstanceOf(ShopClientError);
+  });
+
+  test("schema violations are SchemaValidationError", async () => {
+    const err = await caught(
+      classifyProduct("Kids backpack", {
+        apiKey: "test",
+        model: "stub",
+        fetcher: llm(JSON.stringify({ audience: "child" })),
+      })
+    );
+    expect(err).toBeInstanceOf(SchemaValidationError);
+    expect((err as SchemaValidationError).issue).toMatch(/audience/);
+  });
+
+  test("provider failures are LlmResponseError with the status", async () => {
+    const err = await caught(
+      classifyProduct("Kids backpack", {
+        apiKey: "test",
+        model: "stub",
+        fetcher: async () => new Response("upstream down", { status: 502 }),
+      })
+    );
+    expect(err).toBeInstanceOf(LlmResponseError);
+    expect((err as LlmResponseError).status).toBe(502);
+  });
+});
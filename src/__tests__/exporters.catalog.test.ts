@@ -0,0 +1,297 @@
+import { describe, expect, test } from "bun:test";
+import type { ExportableProduct } from "../index";
+import { exportCatalog } from "../index";
+
+function variant(id: string, option1: string, extra: Record<string, unknown>) {
+  return {
+    id,
+    platformId: id,
+    title: option1,
+    option1,
+    option2: null,
+    option3: null,
+    sku: `MUG-${option1}`,
+    requiresShipping: true,
+    taxable: true,
+    featuredImage: null,
+    available: true,
+    price: 1800,
+    weightInGrams: 350,
+    compareAtPrice: 0,
+    position: 1,
+    productId: 1,
+    barcode: null,
+    weight: { value: 0.35, unit: "kg" },
+    unitPrice: null,
+    ...extra,
+  };
+}
+
+const mug = {
+  slug: "mug-abc",
+  handle: "mug",
+  platformId: "1",
+  title: "Stoneware Mug",
+  available: true,
+  price: 1800,
+  currency: "USD",
+  options: [
+    { key: "color", name: "Color", values: ["Sand", "Ink"], data: [], position: 1 },
+  ],
+  bodyHtml: '<p>Holds 350 ml, "dishwasher safe"</p>',
+  productType: "Kitchen",
+  tags: ["gift", "ceramic"],
+  vendor: "Kiln Co",
+  featuredImage: "https://cdn.shopify.com/mug.jpg",
+  variants: [
+    variant("11", "Sand", {
+      compareAtPrice: 2200,
+      barcode: "4006381333931",
+      featuredImage: { src: "//cdn.shopify.com/mug-sand.jpg" },
+    }),
+    variant("12", "Ink", { available: false }),
+  ],
+  images: [
+    { src: "https://cdn.shopify.com/mug.jpg", alt: "Mug", position: 1 },
+    { src: "https://cdn.shopify.com/mug-sand.jpg", alt: null, position: 2 },
+    { src: "https://cdn.shopify.com/mug-ink.jpg", alt: "Ink, glazed", position: 3 },
+  ],
+  publishedAt: new Date("2024-05-01T00:00:00Z"),
+  updatedAt: new Date("2024-06-01T00:00:00Z"),
+  url: "https://kiln.example/products/mug",
+} as unknown as ExportableProduct;
+
+const poster = {
+  ...mug,
+  handle: "poster",
+  platformId: "2",
+  title: "Poster",
+  options: [{ key: "title", name: "Title", values: ["Default Title"] }],
+  variants: [variant("21", "Default Title", { weightInGrams: undefined })],
+  images: [],
+  tags: [],
+  publishedAt: null,
+} as unknown as ExportableProduct;
+
+function fakeShop(products: ExportableProduct[]) {
+  const calls: unknown[] = [];
+  return {
+    calls,
+    products: {
+      stream(options?: unknown) {
+        calls.push(options);
+        return (async function* () {
+          for (const product of products) yield product;
+        })();
+      },
+    },
+  } as unknown as {
+    calls: unknown[];
+    products: Parameters<typeof exportCatalog>[0]["products"];
+  };
+}
+
+function collector() {
+  let text = "";
+  const output = new WritableStream<string>({
+    write(chunk) {
+      text += chunk;
+    },
+  });
+  return { output, text: () => text };
+}
+
+/** Minimal RFC 4180 parser for asserting on rows. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n") {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  return rows;
+}
+
+function records(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCsv(text);
+  return rows.map((row) =>
+    Object.fromEntries(header.map((name, i) => [name, row[i] ?? ""]))
+  );
+}
+
+describe("exportCatalog()", () => {
+  test("streams full-column products into flattened CSV rows", async () => {
+    const shop = fakeShop([mug, poster]);
+    const out = collector();
+    const result = await exportCatalog(shop, {
+      format: "csv",
+      output: out.output,
+    });
+
+    expect(result).toEqual({ products: 2, rows: 3 });
+    expect(shop.calls[0]).toMatchObject({
+      columns: { mode: "full", images: "full", options: "full" },
+    });
+    const rows = records(out.text());
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({
+      handle: "mug",
+      tags: "gift, ceramic",
+      variant_id: "11",
+      option1_name: "Color",
+      option1_value: "Sand",
+      sku: "MUG-Sand",
+      barcode: "4006381333931",
+      price: "18.00",
+      compare_at_price: "22.00",
+      currency: "USD",
+      available: "true",
+      weight_grams: "350",
+      image: "https://cdn.shopify.com/mug-sand.jpg",
+      published_at: "2024-05-01T00:00:00.000Z",
+    });
+    expect(rows[1]).toMatchObject({
+      variant_id: "12",
+      compare_at_price: "",
+      available: "false",
+      image: "https://cdn.shopify.com/mug.jpg",
+    });
+    expect(rows[2]).toMatchObject({ handle: "poster", published_at: "" });
+  });
+
+  test("writes Shopify import CSV with variant and image rows", async () => {
+    const out = collector();
+    const result = await exportCatalog(fakeShop([mug, poster]), {
+      format: "shopify-csv",
+      output: out.output,
+    });
+
+    expect(result.rows).toBe(4);
+    const rows = records(out.text());
+    expect(rows.map((r) => [r.Handle, r["Option1 Value"], r["Image Src"]])).toEqual([
+      ["mug", "Sand", "https://cdn.shopify.com/mug.jpg"],
+      ["mug", "Ink", "https://cdn.shopify.com/mug-sand.jpg"],
+      ["mug", "", "https://cdn.shopify.com/mug-ink.jpg"],
+      ["poster", "Default Title", ""],
+    ]);
+    expect(rows[0]).toMatchObject({
+      Title: "Stoneware Mug",
+      "Body (HTML)": '<p>Holds 350 ml, "dishwasher safe"</p>',
+      Vendor: "Kiln Co",
+      Published: "TRUE",
+      "Option1 Name": "Color",
+      "Variant SKU": "MUG-Sand",
+      "Variant Grams": "350",
+      "Variant Price": "18.00",
+      "Variant Compare At Price": "22.00",
+      "Variant Requires Shipping": "TRUE",
+      "Variant Barcode": "4006381333931",
+      "Variant Image": "https://cdn.shopify.com/mug-sand.jpg",
+      "Image Position": "1",
+      "Image Alt Text": "Mug",
+      Status: "active",
+    });
+    // Later rows leave product fields blank
+    expect(rows[1]).toMatchObject({ Title: "", "Option1 Name": "" });
+    expect(rows[2]).toMatchObject({
+      "Variant SKU": "",
+      "Variant Price": "",
+      "Image Alt Text": "Ink, glazed",
+    });
+    expect(rows[3]).toMatchObject({
+      "Option1 Name": "Title",
+      "Variant Grams": "0",
+      Published: "FALSE",
+    });
+  });
+
+  test("escapes formula-like cells in csv but not in shopify-csv", async () => {
+    const formula = {
+      ...poster,
+      title: '=HYPERLINK("https://evil.example","Open")',
+      vendor: "@Kiln",
+      variants: [variant("31", "Default Title", { sku: "-1+2" })],
+    } as unknown as ExportableProduct;
+
+    const csv = collector();
+    await exportCatalog(fakeShop([formula]), { format: "csv", output: csv.output });
+    expect(records(csv.text())[0]).toMatchObject({
+      title: `'=HYPERLINK("https://evil.example","Open")`,
+      vendor: "'@Kiln",
+      sku: "'-1+2",
+      price: "18.00",
+    });
+
+    // Shopify's importer would keep the apostrophe, so these stay raw
+    const shopify = collector();
+    await exportCatalog(fakeShop([formula]), {
+      format: "shopify-csv",
+      output: shopify.output,
+    });
+    expect(records(shopify.text())[0]).toMatchObject({
+      Title: '=HYPERLINK("https://evil.example","Open")',
+      Vendor: "@Kiln",
+      "Variant SKU": "-1+2",
+    });
+  });
+
+  test("writes JSON Lines to a Node writable", async () => {
+    const chunks: string[] = [];
+    let ended = false;
+    const result = await exportCatalog(fakeShop([mug, poster]), {
+      format: "jsonl",
+      output: {
+        write(chunk) {
+          chunks.push(chunk);
+          return true;
+        },
+        once() {},
+        end(callback) {
+          ended = true;
+          callback?.();
+        },
+      },
+    });
+
+    expect(result).toEqual({ products: 2, rows: 2 });
+    const lines = chunks.join("").trimEnd().split("\n");
+    expect(lines.map((line) => JSON.parse(line).handle)).toEqual([
+      "mug",
+      "poster",
+    ]);
+    expect(JSON.parse(lines[0]!).variants).toHaveLength(2);
+    expect(ended).toBe(true);
+  });
+
+  test("rejects unknown formats", async () => {
+    await expect(
+      exportCatalog(fakeShop([]), {
+        format: "xlsx" as never,
+        output: collector().output,
+      })
+    ).rejects.toThrow("Unsupported catalog format: xlsx");
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, expect, test } from "bun:test";
+import type { ExportableProduct, NodeWritableLike } from "../index";
+import { buildFeedItems, writeProductFeed } from "../index";
+
+function variant(id: string, option1: string, extra: Record<string, unknown>) {
+  return {
+    id,
+    platformId: id,
+    name: option1,
+    title: option1,
+    option1,
+    option2: null,
+    option3: null,
+    sku: `TEE-${option1}`,
+    requiresShipping: true,
+    taxable: true,
+    featuredImage: null,
+    available: true,
+    price: 2500,
+    weightInGrams: 200,
+    compareAtPrice: 0,
+    position: 1,
+    productId: "1",
+    createdAt: null,
+    updatedAt: null,
+    barcode: null,
+    weight: { value: 200, unit: "g" },
+    unitPrice: null,
+    ...extra,
+  };
+}
+
+function product(overrides: Partial<ExportableProduct> = {}): ExportableProduct {
+  return {
+    slug: "tee-abc",
+    handle: "tee",
+    platformId: "1",
+    title: "Organic Tee",
+    available: true,
+    price: 2000,
+    priceMin: 2000,
+    priceMax: 2500,
+    priceVaries: true,
+    compareAtPrice: 2500,
+    compareAtPriceMin: 0,
+    compareAtPriceMax: 2500,
+    compareAtPriceVaries: true,
+    discount: 20,
+    currency: "EUR",
+    options: [{ key: "size", name: "Size", values: ["S", "M", "L"] }],
+    bodyHtml: "<p>Soft &amp; organic,\tcotton</p><p>Line two</p>",
+    productType: "Shirts",
+    tags: [],
+    vendor: "Acme",
+    featuredImage: "//cdn.shopify.com/tee.jpg",
+    isProxyFeaturedImage: false,
+    variants: [
+      variant("11", "S", {
+        price: 2000,
+        compareAtPrice: 2500,
+        barcode: "4006381333931",
+      }),
+      variant("12", "M", { available: false }),
+      variant("13", "L", {}),
+    ],
+    images: [
+      { src: "https://cdn.shopify.com/tee.jpg" },
+      { src: "https://cdn.shopify.com/tee-back.jpg" },
+    ],
+    variantImages: {},
+    publishedAt: null,
+    storeSlug: "acme",
+    storeDomain: "https://acme.com",
+    url: "https://acme.com/products/tee",
+    variantOptionsMap: { size__s: "11", size__m: "12", size__l: "13" },
+    variantPriceMap: { size__s: 2000, size__m: 2500, size__l: 0 },
+    variantSkuMap: { size__s: "TEE-S", size__m: "TEE-M", size__l: "TEE-L" },
+    variantAvailabilityMap: { size__s: true, size__m: false, size__l: true },
+    ...overrides,
+  } as ExportableProduct;
+}
+
+function collector() {
+  let text = "";
+  const sink = new WritableStream<string>({
+    write(chunk) {
+      text += chunk;
+    },
+  });
+  return { sink, text: () => text };
+}
+
+describe("buildFeedItems()", () => {
+  test("builds one item per variant and reports missing fields", () => {
+    const { items, issues } = buildFeedItems(product());
+
+    expect(items.map((i) => i.id)).toEqual(["11", "12"]);
+    expect(items[0]).toMatchObject({
+      itemGroupId: "1",
+      title: "Organic Tee - S",
+      description: "Soft & organic, cotton\nLine two",
+      link: "https://acme.com/products/tee?variant=11",
+      imageLink: "https://cdn.shopify.com/tee.jpg",
+      additionalImageLinks: ["https://cdn.shopify.com/tee-back.jpg"],
+      availability: "in stock",
+      price: "25.00 EUR",
+      salePrice: "20.00 EUR",
+      brand: "Acme",
+      gtin: "4006381333931",
+      mpn: "TEE-S",
+      size: "S",
+      shippingWeight: "200 g",
+    });
+    expect(items[1]).toMatchObject({
+      availability: "out of stock",
+      price: "25.00 EUR",
+      salePrice: null,
+    });
+    expect(issues).toEqual([
+      { handle: "tee", variantId: "13", reasons: ["missing price"] },
+    ]);
+  });
+
+  test("skips every variant when a product-level field is missing", () => {
+    const { items, issues } = buildFeedItems(
+      product({ vendor: "", bodyHtml: null, currency: undefined })
+    );
+    expect(items).toEqual([]);
+    expect(issues[0]?.reasons).toEqual([
+      "missing description",
+      "missing brand",
+      "missing currency",
+    ]);
+
+    const withCurrency = buildFeedItems(product({ currency: undefined }), {
+      currency: "USD",
+    });
+    expect(withCurrency.items[0]?.price).toBe("25.00 USD");
+  });
+});
+
+describe("writeProductFeed()", () => {
+  test("writes Google Merchant XML to a WritableStream", async () => {
+    const out = collector();
+    const result = await writeProductFeed([product()], out.sink, {
+      format: "google-xml",
+      title: "Acme & Co",
+      link: "https://acme.com",
+    });
+
+    expect(result.items).toBe(2);
+    expect(result.issues).toHaveLength(1);
+    const xml = out.text();
+    expect(xml).toStartWith('<?xml version="1.0" encoding="UTF-8"?>');
+    expect(xml).toContain("<title>Acme &amp; Co</title>");
+    expect(xml).toContain("<g:id>11</g:id>");
+    expect(xml).toContain("<g:sale_price>20.00 EUR</g:sale_price>");
+    expect(xml).toContain(
+      "<g:link>https://acme.com/products/tee?variant=12</g:link>"
+    );
+    expect(xml).toContain("<g:identifier_exists>yes</g:identifier_exists>");
+    expect(xml).toContain("Soft &amp; organic");
+    expect(xml.match(/<item>/g)).toHaveLength(2);
+    expect(xml).toEndWith("</channel>\n</rss>\n");
+  });
+
+  test("writes Google TSV and Meta CSV with escaping", async () => {
+    const tsv = collector();
+    await writeProductFeed([product()], tsv.sink, { format: "google-tsv" });
+    const rows = tsv.text().trimEnd().split("\n");
+    expect(rows).toHaveLength(3);
+    expect(rows[0]?.split("\t")[0]).toBe("id");
+    const first = rows[1]?.split("\t") ?? [];
+    expect(first).toHaveLength(rows[0]?.split("\t").length ?? 0);
+    expect(first[3]).toBe("Soft & organic, cotton Line two");
+
+    const csv = collector();
+    await writeProductFeed([product()], csv.sink, { format: "meta-csv" });
+    const text = csv.text();
+    expect(text).toStartWith("id,title,description,availability");
+    expect(text).toContain(
+      '\n11,Organic Tee - S,"Soft & organic, cotton\nLine two",in stock,new,25.00 EUR,'
+    );
+  });
+
+  test("waits for drain on Node writables and streams async iterables", async () => {
+    const chunks: string[] = [];
+    let drains = 0;
+    let ended = false;
+    const sink: NodeWritableLike = {
+      write(chunk) {
+        chunks.push(chunk);
+        return chunks.length % 2 === 0;
+      },
+      once(event, listener) {
+        if (event !== "drain") return;
+        drains++;
+        queueMicrotask(() => listener());
+      },
+      end(callback) {
+        ended = true;
+        callback?.();
+      },
+    };
+    async function* products() {
+      for (let i = 0; i < 50; i++) {
+        yield product({ platformId: String(i), handle: `tee-${i}` });
+      }
+    }
+
+    const issues: string[] = [];
+    const result = await writeProductFeed(products(), sink, {
+      format: "meta-csv",
+      onIssue: (issue) => issues.push(issue.handle),
+    });
+
+    expect(result.items).toBe(100);
+    expect(issues).toHaveLength(50);
+    expect(chunks).toHaveLength(101);
+    expect(drains).toBeGreaterThan(0);
+    expect(ended).toBe(true);
+  });
+
+  test("fails instead of hanging when a Node writable errors", async () => {
+    const { EventEmitter } = await import("node:events");
+    const emitter = new EventEmitter();
+    let destroyed = false;
+    const sink: NodeWritableLike = {
+      write() {
+        queueMicrotask(() => emitter.emit("error", new Error("disk full")));
+        return false;
+      },
+      once: (event, listener) => emitter.once(event, listener),
+      removeListener: (event, listener) =>
+        emitter.removeListener(event, listener),
+      destroy() {
+        destroyed = true;
+      },
+    };
+
+    await expect(
+      writeProductFeed([product()], sink, { format: "meta-csv" })
+    ).rejects.toThrow("disk full");
+    expect(destroyed).toBe(true);
+    expect(emitter.listenerCount("error")).toBe(0);
+    expect(emitter.listenerCount("drain")).toBe(0);
+  });
+
+  test("aborts or releases a web stream when the products fail", async () => {
+    async function* failing() {
+      yield product();
+      throw new Error("crawl failed");
+    }
+
+    const aborted: unknown[] = [];
+    const owned = new WritableStream<string>({
+      abort(reason) {
+        aborted.push(reason);
+      },
+    });
+    await expect(
+      writeProductFeed(failing(), owned, { format: "google-tsv" })
+    ).rejects.toThrow("crawl failed");
+    expect(aborted).toHaveLength(1);
+
+    const shared = collector();
+    await expect(
+      writeProductFeed(failing(), shared.sink, {
+        format: "google-tsv",
+        end: false,
+      })
+    ).rejects.toThrow("crawl failed");
+    expect(shared.sink.locked).toBe(false);
+  });
+});
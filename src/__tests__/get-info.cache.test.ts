@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, test } from "bun:test";
-import { ShopClient } from "../index";
+import { ShopClient, UpstreamHttpError } from "../index";
 
 function makeHtml(name: string): string {
   return `<!doctype html>
@@ -73,6 +73,17 @@ describe("getInfo() caching and concurrency", () => {
     expect(info2).not.toBe(info1);
   });
 
+  test("cacheTTL: 0 disables caching", async () => {
+    const shop = new ShopClient("https://example.com", { cacheTTL: 0 });
+
+    const info1 = await shop.getInfo();
+    const info2 = await shop.getInfo();
+
+    expect(fetchCount).toBe(2);
+    expect(info2.name).toBe("Example 2");
+    expect(info2).not.toBe(info1);
+  });
+
   test("dedupes concurrent in-flight calls", async () => {
     const shop = new ShopClient("https://example.com");
     delayMs = 50; // make the first fetch slow to create in-flight window
@@ -102,11 +113,13 @@ describe("getInfo() caching and concurrency", () => {
       await shop.getInfo();
       throw new Error("Expected getInfo() to throw");
     } catch (err) {
-      const message = (err as Error).message;
-      expect(message).toContain("Error fetching store info");
-      expect(message).toContain("URL: https://example.com/");
-      // Message comes from enhanced error wrapping a thrown Error without statusCode
-      expect(message).toContain("HTTP error! status: 500");
+      // Typed upstream errors pass through with the operation context attached
+      expect(err).toBeInstanceOf(UpstreamHttpError);
+      const upstream = err as UpstreamHttpError;
+      expect(upstream.status).toBe(500);
+      expect(upstream.url).toBe("https://example.com/");
+      expect(upstream.context).toBe("fetching store info");
+      expect(upstream.message).toContain("HTTP 500");
     }
   });
 
@@ -0,0 +1,213 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { HistoryStore, PriceObservation } from "../index";
+import {
+  createJsonHistoryStore,
+  createSqliteHistoryStore,
+  ShopClient,
+} from "../index";
+
+type VariantState = {
+  size: string;
+  price: string;
+  compareAt?: string | null;
+  available?: boolean;
+};
+
+function listing(variants: VariantState[]) {
+  return {
+    id: 1,
+    handle: "tee",
+    title: "Tee",
+    vendor: "Acme",
+    tags: [],
+    options: [{ name: "Size", position: 1, values: variants.map((v) => v.size) }],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: "Shirt",
+    body_html: "",
+    variants: variants.map((v, i) => ({
+      id: 100 + i,
+      title: v.size,
+      option1: v.size,
+      option2: null,
+      option3: null,
+      sku: null,
+      requires_shipping: true,
+      taxable: true,
+      featured_image: null,
+      available: v.available ?? true,
+      price: v.price,
+      grams: 0,
+      compare_at_price: v.compareAt ?? null,
+      position: i + 1,
+      product_id: 1,
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    })),
+    images: [],
+  };
+}
+
+function historyClient(history?: HistoryStore) {
+  let current: VariantState[] = [];
+  const shop = new ShopClient("https://history.example.com", {
+    rateLimit: { enabled: false },
+    cacheTTL: 0,
+    conditionalRequests: false,
+    history,
+    transport: async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/products.json") {
+        return Response.json({
+          products: url.searchParams.get("page") === "1" ? [listing(current)] : [],
+        });
+      }
+      return new Response("", { status: 404 });
+    },
+  });
+  const crawl = async (variants: VariantState[]) => {
+    current = variants;
+    return shop.history.record();
+  };
+  return { shop, crawl };
+}
+
+async function recordScenario(history?: HistoryStore) {
+  const { shop, crawl } = historyClient(history);
+  await crawl([
+    { size: "S", price: "20.00" },
+    { size: "M", price: "20.00", available: false },
+  ]);
+  await crawl([
+    { size: "S", price: "15.00", compareAt: "20.00" },
+    { size: "M", price: "20.00", available: false },
+  ]);
+  const last = await crawl([
+    { size: "S", price: "18.00", compareAt: "20.00" },
+    { size: "M", price: "20.00" },
+  ]);
+  return { shop, last };
+}
+
+describe("history", () => {
+  test("records one observation per variant and groups them by variant", async () => {
+    const { shop, last } = await recordScenario();
+    expect(last).toMatchObject({ products: 1, variants: 2 });
+
+    const history = await shop.history.priceHistory("tee");
+    expect(history.map((h) => h.variantKey)).toEqual(["size__s", "size__m"]);
+    expect(history[0]?.variantId).toBe("100");
+    expect(
+      history[0]?.points.map(({ price, compareAtPrice, discount }) => [
+        price,
+        compareAtPrice,
+        discount,
+      ])
+    ).toEqual([
+      [2000, 0, 0],
+      [1500, 2000, 25],
+      [1800, 2000, 10],
+    ]);
+    expect(history[1]?.points.map((p) => p.available)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+    expect(await shop.history.priceHistory("unknown")).toEqual([]);
+  });
+
+  test("answers lowest price, restock and discount queries", async () => {
+    const { shop, last } = await recordScenario();
+
+    expect(await shop.history.lowestPrice("tee", 30)).toMatchObject({
+      price: 1500,
+      compareAtPrice: 2000,
+      variantKey: "size__s",
+    });
+    expect(await shop.history.lowestPrice("unknown")).toBeNull();
+    await expect(shop.history.lowestPrice("tee", 0)).rejects.toThrow(
+      "Invalid days value"
+    );
+
+    const restocked = await shop.history.restockedSince(
+      new Date(last.observedAt.getTime() - 1)
+    );
+    expect(restocked.map((c) => c.variantKey)).toEqual(["size__m"]);
+    expect(restocked[0]?.previous.available).toBe(false);
+    expect(
+      await shop.history.restockedSince(new Date(Date.now() + 60_000))
+    ).toEqual([]);
+
+    // S was already discounted in the previous crawl
+    expect(await shop.history.newlyDiscounted()).toEqual([]);
+  });
+
+  test("reports variants discounted in the latest crawl", async () => {
+    const { shop, crawl } = historyClient();
+    await crawl([{ size: "S", price: "20.00" }]);
+    await crawl([{ size: "S", price: "16.00", compareAt: "20.00" }]);
+
+    const discounted = await shop.history.newlyDiscounted();
+    expect(discounted).toHaveLength(1);
+    expect(discounted[0]?.current.discount).toBe(20);
+    expect(discounted[0]?.previous.discount).toBe(0);
+  });
+
+  test("persists to JSON files and SQLite", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "shop-client-history-"));
+    try {
+      const stores = [
+        createJsonHistoryStore(directory),
+        createSqliteHistoryStore(new Database(":memory:")),
+      ];
+      for (const store of stores) {
+        await recordScenario(store);
+        const observations: PriceObservation[] = await store.read(
+          "history.example.com",
+          { handle: "tee" }
+        );
+        expect(observations).toHaveLength(6);
+        expect(observations[0]?.observedAt).toBeInstanceOf(Date);
+        expect(observations.at(-1)).toMatchObject({
+          variantKey: "size__m",
+          available: true,
+          price: 2000,
+        });
+        expect(await store.read("other.example.com")).toEqual([]);
+      }
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test("writes each SQLite batch in one transaction", async () => {
+    const store = createSqliteHistoryStore(new Database(":memory:"));
+    const observation: PriceObservation = {
+      handle: "tee",
+      productId: "1",
+      variantKey: "size__s",
+      variantId: "11",
+      price: 2000,
+      compareAtPrice: 0,
+      available: true,
+      discount: 0,
+      observedAt: new Date("2024-05-01T00:00:00Z"),
+    };
+    // The second row violates NOT NULL, so the first is rolled back too
+    await expect(
+      store.append("history.example.com", [
+        observation,
+        { ...observation, price: null as unknown as number },
+      ])
+    ).rejects.toThrow();
+    expect(await store.read("history.example.com")).toEqual([]);
+
+    await store.append("history.example.com", [observation]);
+    expect(await store.read("history.example.com")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+
+const html = `<!doctype html>
+  <html>
+    <head>
+      <meta name="og:site_name" content="Transport Store">
+      <meta name="shopify-digital-wallet" content="/123456/digital_wallets/dialog">
+    </head>
+    <body></body>
+  </html>`;
+
+describe("ShopClient transport option", () => {
+  let originalFetch: typeof fetch;
+  let globalCalls: number;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    globalCalls = 0;
+    (globalThis as any).fetch = async () => {
+      globalCalls += 1;
+      return new Response("global", { status: 500 });
+    };
+  });
+
+  afterEach(() => {
+    (globalThis as any).fetch = originalFetch;
+  });
+
+  test("routes getInfo through the configured transport", async () => {
+    const seen: string[] = [];
+    const shop = new ShopClient("https://transport.example.com", {
+      transport: async (input) => {
+        seen.push(String(input));
+        return new Response(html, { status: 200 });
+      },
+    });
+
+    const info = await shop.getInfo();
+    expect(info.name).toBe("Transport Store");
+    expect(seen).toEqual(["https://transport.example.com/"]);
+    expect(globalCalls).toBe(0);
+  });
+
+  test("routes product and collection calls through the transport", async () => {
+    const seen: string[] = [];
+    const shop = new ShopClient("https://transport.example.com", {
+      transport: async (input) => {
+        const url = String(input);
+        seen.push(url);
+        if (url.includes("/products.json")) {
+          return Response.json({ products: [] });
+        }
+        if (url.includes("/collections.json")) {
+          return Response.json({ collections: [] });
+        }
+        return new Response("", { status: 404 });
+      },
+    });
+
+    await shop.products.all();
+    await shop.collections.all();
+
+    expect(seen.some((u) => u.includes("/products.json"))).toBe(true);
+    expect(seen.some((u) => u.includes("/collections.json"))).toBe(true);
+    expect(globalCalls).toBe(0);
+  });
+
+  test("sends default headers and user agent beneath per-request headers", async () => {
+    const received: Headers[] = [];
+    const shop = new ShopClient("https://transport.example.com", {
+      headers: { "x-team": "crawler", accept: "text/html" },
+      userAgent: "shop-client-test/1.0",
+      transport: async (_input, init) => {
+        received.push(new Headers(init?.headers));
+        return new Response(html, { status: 200 });
+      },
+    });
+
+    await shop.getInfo();
+
+    expect(received.length).toBe(1);
+    const headers = received[0]!;
+    expect(headers.get("x-team")).toBe("crawler");
+    expect(headers.get("user-agent")).toBe("shop-client-test/1.0");
+    expect(headers.get("accept")).toBe("text/html");
+  });
+
+  test("keeps transports isolated between clients", async () => {
+    const a: string[] = [];
+    const b: string[] = [];
+    const shopA = new ShopClient("https://a.example.com", {
+      transport: async (input) => {
+        a.push(String(input));
+        return new Response(html, { status: 200 });
+      },
+    });
+    const shopB = new ShopClient("https://b.example.com", {
+      transport: async (input) => {
+        b.push(String(input));
+        return new Response(html, { status: 200 });
+      },
+    });
+
+    await Promise.all([shopA.getInfo(), shopB.getInfo()]);
+
+    expect(a).toEqual(["https://a.example.com/"]);
+    expect(b).toEqual(["https://b.example.com/"]);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, expect, test } from "bun:test";
+import type { MatchableProduct } from "../index";
+import {
+  clusterProducts,
+  isValidGtin,
+  matchProducts,
+  shopifyImageKey,
+} from "../index";
+
+function product(
+  handle: string,
+  extra: Partial<MatchableProduct> & { title: string }
+): MatchableProduct {
+  return { handle, vendor: null, images: [], variants: [], ...extra };
+}
+
+const storeA = product("acme-runner-blue", {
+  title: "Acme Runner 2 – Blue",
+  vendor: "Acme",
+  featuredImage:
+    "https://cdn.shopify.com/s/files/1/0001/products/runner2-blue_800x.jpg?v=1",
+  variants: [{ sku: "RUN-2-BL-42", barcode: "0012345678905" }],
+});
+
+const storeB = product("runner-2-blue", {
+  title: "Runner 2 Blue",
+  vendor: "ACME",
+  images: [
+    {
+      src: "https://other.example.com/cdn/shop/files/runner2-blue_3f2a1c9e-1b2c-4d5e-8f90-123456789abc.jpg?v=2",
+    },
+  ],
+  variants: [{ sku: "run2bl42", barcode: "012345678905" }],
+});
+
+const storeC = product("runner-2-blue-c", {
+  title: "Acme Runner 2 Blue",
+  vendor: "Acme",
+  variantSkuMap: { size__42: "RUN2-BL-42" },
+});
+
+const unrelated = product("trail-cap", {
+  title: "Trail Cap",
+  vendor: "Acme",
+  featuredImage:
+    "https://cdn.shopify.com/s/files/1/0001/products/size-chart.png",
+  variants: [{ sku: "CAP-1", barcode: "4006381333931" }],
+});
+
+describe("matchProducts()", () => {
+  test("matches on barcode, SKU, image and title with reasons", () => {
+    const result = matchProducts(storeA, storeB);
+
+    expect(result.match).toBe(true);
+    expect(result.score).toBeGreaterThan(0.99);
+    expect(result.reasons.map((r) => r.signal)).toEqual([
+      "barcode",
+      "sku",
+      "title",
+      "image",
+    ]);
+    // UPC-A and EAN-13 spellings of the same code compare equal
+    expect(result.reasons[0]?.detail).toBe("00012345678905");
+    expect(result.reasons.find((r) => r.signal === "image")?.detail).toBe(
+      "runner2-blue"
+    );
+  });
+
+  test("matches on vendor and title alone, and rejects unrelated products", () => {
+    const byTitle = matchProducts(storeA, storeC);
+    expect(byTitle.match).toBe(true);
+    expect(byTitle.reasons.map((r) => r.signal)).toContain("title");
+
+    const different = matchProducts(storeA, unrelated);
+    expect(different.match).toBe(false);
+    expect(different.score).toBeLessThan(0.7);
+
+    expect(matchProducts(storeA, storeC, { threshold: 0.99 }).match).toBe(
+      false
+    );
+  });
+
+  test("a shared image alone is not a match", () => {
+    const chart =
+      "https://cdn.shopify.com/s/files/1/0002/files/size-chart-shoes_grande.png";
+    const result = matchProducts(
+      product("a", { title: "Sneaker", images: [{ src: chart }] }),
+      product("b", { title: "Sandal", images: [{ src: chart }] })
+    );
+    expect(result.match).toBe(false);
+    expect(result.reasons.map((r) => r.signal)).toEqual(["image"]);
+  });
+});
+
+describe("clusterProducts()", () => {
+  test("groups transitive matches and keeps singletons", () => {
+    const clusters = clusterProducts([storeA, unrelated, storeB, storeC]);
+
+    expect(clusters.map((c) => c.products.map((p) => p.handle))).toEqual([
+      ["acme-runner-blue", "runner-2-blue", "runner-2-blue-c"],
+      ["trail-cap"],
+    ]);
+    expect(clusters[0]?.links.length).toBeGreaterThanOrEqual(2);
+    expect(clusters[1]?.links).toEqual([]);
+  });
+});
+
+describe("helpers", () => {
+  test("shopifyImageKey strips size variants and upload suffixes", () => {
+    expect(
+      shopifyImageKey(
+        "//cdn.shopify.com/s/files/1/0001/products/Runner2-Blue_100x100@2x.JPG?v=3"
+      )
+    ).toBe("runner2-blue");
+    expect(shopifyImageKey("https://cdn.shopify.com/s/files/1/1.jpg")).toBe(
+      null
+    );
+    expect(shopifyImageKey("https://example.com/runner2-blue.jpg")).toBeNull();
+  });
+
+  test("isValidGtin checks length and check digit", () => {
+    expect(isValidGtin("4006381333931")).toBe(true);
+    expect(isValidGtin("0361-0029-1452")).toBe(false);
+    expect(isValidGtin("036000291452")).toBe(true);
+    expect(isValidGtin("12345")).toBe(false);
+  });
+});
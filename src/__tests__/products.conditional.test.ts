@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+
+function makeProduct(id: number) {
+  return {
+    id,
+    handle: `p-${id}`,
+    title: `Product ${id}`,
+    vendor: "Acme",
+    tags: [],
+    options: [],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-05-01T00:00:00Z",
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: "Shirt",
+    body_html: "",
+    variants: [],
+    images: [],
+  };
+}
+
+/**
+ * Serves a single `/products.json` page with an ETag (or Last-Modified) and
+ * honours the matching conditional header with a 304.
+ */
+function conditionalClient(
+  validator: "etag" | "last-modified",
+  options?: { conditionalRequests?: boolean }
+) {
+  const requests: Headers[] = [];
+  let version = 1;
+  const value = () =>
+    validator === "etag"
+      ? `W/"v${version}"`
+      : new Date(Date.UTC(2024, 0, version)).toUTCString();
+
+  const shop = new ShopClient("https://etag.example.com", {
+    rateLimit: { enabled: false },
+    conditionalRequests: true,
+    ...options,
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      const headers = new Headers(init?.headers);
+      if (!url.pathname.endsWith("/products.json")) {
+        return new Response("", { status: 404 });
+      }
+      requests.push(headers);
+      const sent =
+        validator === "etag"
+          ? headers.get("if-none-match")
+          : headers.get("if-modified-since");
+      if (sent === value()) {
+        return new Response(null, { status: 304 });
+      }
+      return Response.json(
+        {
+          products: url.searchParams.get("page") === "1"
+            ? [makeProduct(1), makeProduct(version + 1)]
+            : [],
+        },
+        { headers: { [validator]: value() } }
+      );
+    },
+  });
+
+  return {
+    shop,
+    requests,
+    bump: () => {
+      version += 1;
+    },
+  };
+}
+
+describe("conditional products.json requests", () => {
+  test("revalidates with If-None-Match and serves the stored body on 304", async () => {
+    const { shop, requests } = conditionalClient("etag");
+
+    const first = await shop.products.fingerprints();
+    expect(requests[0].get("if-none-match")).toBeNull();
+
+    const second = await shop.products.fingerprints();
+    expect(requests[1].get("if-none-match")).toBe('W/"v1"');
+    expect(second).toEqual(first);
+
+    const stats = shop.getConditionalRequestStats();
+    expect(stats.revalidated).toBe(1);
+    expect(stats.notModified).toBe(1);
+    expect(stats.bytesSaved).toBeGreaterThan(100);
+  });
+
+  test("uses If-Modified-Since when only Last-Modified is sent", async () => {
+    const { shop, requests } = conditionalClient("last-modified");
+
+    await shop.products.all();
+    const again = await shop.products.all();
+
+    expect(requests[1].get("if-modified-since")).toBe(
+      new Date(Date.UTC(2024, 0, 1)).toUTCString()
+    );
+    expect(again?.map((p) => p.handle)).toEqual(["p-1", "p-2"]);
+    expect(shop.getConditionalRequestStats().notModified).toBe(1);
+  });
+
+  test("replaces the stored page when the server returns a new body", async () => {
+    const { shop, bump } = conditionalClient("etag");
+
+    await shop.products.fingerprints();
+    bump();
+    const changed = await shop.products.fingerprints();
+    const replayed = await shop.products.fingerprints();
+
+    expect(changed?.map((f) => f.handle)).toEqual(["p-1", "p-3"]);
+    expect(replayed).toEqual(changed);
+    expect(shop.getConditionalRequestStats()).toEqual({
+      revalidated: 2,
+      notModified: 1,
+      bytesSaved: expect.any(Number),
+    });
+  });
+
+  test("sends no validators when disabled", async () => {
+    const { shop, requests } = conditionalClient("etag", {
+      conditionalRequests: false,
+    });
+    const defaults = new ShopClient("https://etag.example.com", {
+      rateLimit: { enabled: false },
+      transport: async (input, init) => {
+        requests.push(new Headers(init?.headers));
+        return Response.json(
+          { products: [] },
+          { headers: { etag: 'W/"v1"' } }
+        );
+      },
+    });
+    await defaults.products.fingerprints();
+    await defaults.products.fingerprints();
+
+    await shop.products.fingerprints();
+    await shop.products.fingerprints();
+
+    expect(requests.every((h) => !h.has("if-none-match"))).toBe(true);
+    expect(shop.getConditionalRequestStats().notModified).toBe(0);
+  });
+
+  test("invalidate('http:*') drops stored pages", async () => {
+    const { shop, requests } = conditionalClient("etag");
+
+    await shop.products.fingerprints();
+    expect(await shop.invalidate("http:*")).toBe(1);
+    await shop.products.fingerprints();
+
+    expect(requests[1].get("if-none-match")).toBeNull();
+  });
+});
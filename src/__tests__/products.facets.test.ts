@@ -0,0 +1,236 @@
+import { describe, expect, jest, test } from "bun:test";
+import { ShopClient } from "../index";
+import type { ShopifyProduct } from "../types";
+import { detectShopCountry } from "../utils/detect-country";
+import { formatPrice } from "../utils/func";
+
+// Other suites mock country detection without a currency
+jest.mock("../utils/detect-country", () => ({
+  detectShopCountry: jest.fn(async () => ({
+    country: "DE",
+    currencyCode: "EUR",
+    confidence: 1,
+    signals: ["Shopify.currency.active"],
+  })),
+}));
+
+type Variant = { color: string; price: string; available?: boolean };
+
+let nextVariantId = 500;
+
+function listing(
+  id: number,
+  handle: string,
+  extra: { vendor: string; type: string; tags: string[]; variants: Variant[] }
+): ShopifyProduct {
+  return {
+    id,
+    handle,
+    title: handle,
+    vendor: extra.vendor,
+    tags: extra.tags,
+    options: [
+      {
+        name: "Color",
+        position: 1,
+        values: [...new Set(extra.variants.map((v) => v.color))],
+      },
+    ],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-01T00:00:00Z",
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: extra.type,
+    body_html: "",
+    variants: extra.variants.map((v, i) => ({
+      id: nextVariantId++,
+      title: v.color,
+      option1: v.color,
+      option2: null,
+      option3: null,
+      sku: null,
+      requires_shipping: true,
+      taxable: true,
+      featured_image: null,
+      available: v.available ?? true,
+      price: v.price,
+      grams: 0,
+      compare_at_price: null,
+      position: i + 1,
+      product_id: id,
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-01T00:00:00Z",
+    })),
+    images: [],
+  } as any;
+}
+
+const tee = listing(1, "tee", {
+  vendor: "Acme Co.",
+  type: "Shirt",
+  tags: ["Summer", "Cotton"],
+  variants: [
+    { color: "Light Blue", price: "19.00" },
+    { color: "Red", price: "21.00", available: false },
+  ],
+});
+const hoodie = listing(2, "hoodie", {
+  vendor: "Acme Co.",
+  type: "Hoodie",
+  tags: ["Winter"],
+  variants: [{ color: "light blue", price: "65.00" }],
+});
+const cap = listing(3, "cap", {
+  vendor: "Other",
+  type: "Hat",
+  tags: ["Summer"],
+  variants: [{ color: "Red", price: "12.00", available: false }],
+});
+
+const homePage =
+  '<html><head><meta name="shopify-digital-wallet" content="/1/digital_wallets/dialog"><script>Shopify.currency = {"active":"EUR","rate":"1.0"};</script></head><body></body></html>';
+
+function facetClient() {
+  const requests: string[] = [];
+  const shop = new ShopClient("https://facets.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname);
+      const first = url.searchParams.get("page") === "1";
+      if (url.pathname === "/products.json") {
+        return Response.json({ products: first ? [tee, hoodie, cap] : [] });
+      }
+      if (url.pathname === "/collections/summer/products.json") {
+        return Response.json({ products: first ? [tee, cap] : [] });
+      }
+      if (url.pathname === "/") return new Response(homePage);
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, requests };
+}
+
+describe("products.facets()", () => {
+  test("reports display values, keys, product and available-variant counts", async () => {
+    const { shop } = facetClient();
+    const facets = await shop.products.facets();
+
+    expect(facets.total).toBe(3);
+    expect(facets.vendor).toEqual([
+      { value: "Acme Co.", key: "acme_co", count: 2, availableVariants: 2 },
+      { value: "Other", key: "other", count: 1, availableVariants: 0 },
+    ]);
+    expect(facets.tags.map((t) => [t.value, t.count])).toEqual([
+      ["Summer", 2],
+      ["Cotton", 1],
+      ["Winter", 1],
+    ]);
+    expect(facets.productType.map((t) => t.key)).toEqual([
+      "hat",
+      "hoodie",
+      "shirt",
+    ]);
+
+    const color = facets.options.find((o) => o.key === "color");
+    expect(color?.name).toBe("Color");
+    expect(color?.values).toEqual([
+      { value: "Light Blue", key: "light_blue", count: 2, availableVariants: 2 },
+      { value: "Red", key: "red", count: 2, availableVariants: 0 },
+    ]);
+  });
+
+  test("buckets variant prices in the store currency", async () => {
+    const { shop } = facetClient();
+    const facets = await shop.products.facets();
+
+    expect(facets.currency).toBe("EUR");
+    expect(facets.price.min).toBe(1200);
+    expect(facets.price.max).toBe(6500);
+    expect(
+      facets.price.buckets.map(({ min, max, count, availableVariants }) => ({
+        min,
+        max,
+        count,
+        availableVariants,
+      }))
+    ).toEqual([
+      { min: 0, max: 2000, count: 2, availableVariants: 1 },
+      { min: 2000, max: 4000, count: 1, availableVariants: 0 },
+      { min: 4000, max: 6000, count: 0, availableVariants: 0 },
+      { min: 6000, max: null, count: 1, availableVariants: 1 },
+    ]);
+    expect(facets.price.buckets[0]?.label).toBe(
+      `${formatPrice(0, facets.currency)} – ${formatPrice(2000, facets.currency)}`
+    );
+    expect(facets.price.buckets.at(-1)?.label).toMatch(/\+$/);
+
+    const custom = await shop.products.facets({ priceBuckets: [0, 2500] });
+    expect(custom.price.buckets.map((b) => [b.min, b.max, b.count])).toEqual([
+      [0, 2500, 2],
+      [2500, null, 1],
+    ]);
+
+    // Prices below the first explicit bound are not dropped
+    const above = await shop.products.facets({ priceBuckets: [1500, 2500] });
+    expect(
+      above.price.buckets.map(({ min, max, count, availableVariants }) => ({
+        min,
+        max,
+        count,
+        availableVariants,
+      }))
+    ).toEqual([
+      { min: null, max: 1500, count: 1, availableVariants: 0 },
+      { min: 1500, max: 2500, count: 1, availableVariants: 1 },
+      { min: 2500, max: null, count: 1, availableVariants: 1 },
+    ]);
+    expect(above.price.buckets[0]?.label).toBe(
+      `Under ${formatPrice(1500, above.currency)}`
+    );
+  });
+
+  test("takes the currency from cached store info or the currency option", async () => {
+    const { shop, requests } = facetClient();
+    const facets = await shop.products.facets();
+    expect(facets.currency).toBe("EUR");
+    await shop.products.facets();
+    await shop.getInfo();
+    expect(requests.filter((p) => p === "/")).toHaveLength(1);
+
+    const other = facetClient();
+    const cad = await other.shop.products.facets({ currency: "CAD" });
+    expect(cad.currency).toBe("CAD");
+    expect(cad.price.buckets[0]?.label).toBe(
+      `${formatPrice(0, "CAD")} – ${formatPrice(2000, "CAD")}`
+    );
+    expect(other.requests).not.toContain("/");
+  });
+
+  test("throws instead of guessing when the store currency is unknown", async () => {
+    (detectShopCountry as ReturnType<typeof jest.fn>).mockResolvedValueOnce({
+      country: "DE",
+    });
+    const { shop } = facetClient();
+    await expect(shop.products.facets()).rejects.toThrow(
+      "Store currency could not be detected"
+    );
+  });
+
+  test("scopes to a collection and caches the listing", async () => {
+    const { shop, requests } = facetClient();
+    const summer = await shop.products.facets({ collection: "summer" });
+
+    expect(summer.total).toBe(2);
+    expect(summer.vendor.map((v) => v.value)).toEqual(["Acme Co.", "Other"]);
+
+    const crawled = requests.filter((p) => p.endsWith("products.json")).length;
+    await shop.products.facets({ collection: "summer" });
+    expect(requests.filter((p) => p.endsWith("products.json")).length).toBe(
+      crawled
+    );
+
+    await expect(shop.products.facets({ collection: "%%" })).rejects.toThrow(
+      "Invalid collection handle format"
+    );
+  });
+});
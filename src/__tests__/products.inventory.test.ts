@@ -0,0 +1,162 @@
+import { describe, expect, test } from "bun:test";
+import { parseCartLimit, ShopClient } from "../index";
+
+function variant(id: number, title: string, extra: Record<string, unknown>) {
+  return {
+    id,
+    title,
+    option1: title,
+    option2: null,
+    option3: null,
+    sku: null,
+    requires_shipping: true,
+    taxable: true,
+    featured_image: null,
+    featured_media: null,
+    available: true,
+    name: `Tee - ${title}`,
+    public_title: title,
+    options: [title],
+    price: 2000,
+    compare_at_price: null,
+    inventory_management: null,
+    ...extra,
+  };
+}
+
+const tee = {
+  id: 1,
+  title: "Tee",
+  handle: "tee",
+  type: "Shirt",
+  variants: [
+    variant(11, "Tracked", {
+      inventory_quantity: 7,
+      inventory_management: "shopify",
+      inventory_policy: "deny",
+    }),
+    variant(12, "Limited", {}),
+    variant(13, "Sold out", { available: false }),
+    variant(14, "Made to order", {}),
+  ],
+};
+
+function inventoryStore(
+  options?: { inventoryProbe?: boolean },
+  failAdd?: number
+) {
+  const requests: { path: string; body?: string; cookie?: string | null }[] =
+    [];
+  const shop = new ShopClient("https://stock.example.com", {
+    rateLimit: { enabled: false },
+    ...options,
+    transport: async (input, init) => {
+      const url = new URL(String(input));
+      requests.push({
+        path: url.pathname,
+        body: init?.body as string | undefined,
+        cookie: new Headers(init?.headers).get("cookie"),
+      });
+      if (url.pathname === "/products/tee.js") return Response.json(tee);
+      if (url.pathname === "/cart/add.js") {
+        const id = JSON.parse(String(init?.body)).items[0].id;
+        if (id === failAdd) {
+          return new Response("", {
+            status: 500,
+            headers: { "set-cookie": "cart=abc123; path=/" },
+          });
+        }
+        if (id === 14) {
+          return Response.json(
+            { items: [] },
+            { headers: { "set-cookie": "cart=abc123; path=/" } }
+          );
+        }
+        return Response.json(
+          {
+            status: 422,
+            message: "Cart Error",
+            description: "You can only add 3 of Tee - Limited to the cart.",
+          },
+          { status: 422 }
+        );
+      }
+      if (url.pathname === "/cart/clear.js") return Response.json({});
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, requests };
+}
+
+describe("products.inventory()", () => {
+  test("is disabled unless the client opts in", async () => {
+    const { shop, requests } = inventoryStore();
+    await expect(shop.products.inventory("tee")).rejects.toThrow(
+      "inventoryProbe"
+    );
+    expect(requests).toEqual([]);
+  });
+
+  test("combines .js inventory fields with the cart probe", async () => {
+    const { shop, requests } = inventoryStore({ inventoryProbe: true });
+    const inventory = await shop.products.inventory("tee");
+
+    expect(
+      inventory?.variants.map(({ title, quantity, unlimited, method, confidence }) => ({
+        title,
+        quantity,
+        unlimited,
+        method,
+        confidence,
+      }))
+    ).toEqual([
+      { title: "Tracked", quantity: 7, unlimited: false, method: "inventory_quantity", confidence: "high" },
+      { title: "Limited", quantity: 3, unlimited: false, method: "cart_probe", confidence: "medium" },
+      { title: "Sold out", quantity: 0, unlimited: false, method: "availability", confidence: "medium" },
+      { title: "Made to order", quantity: null, unlimited: true, method: "cart_probe", confidence: "medium" },
+    ]);
+    expect(inventory?.totalQuantity).toBeNull();
+
+    // Only variants without .js quantities are probed; the cart is emptied
+    expect(requests.map((r) => r.path)).toEqual([
+      "/products/tee.js",
+      "/cart/add.js",
+      "/cart/add.js",
+      "/cart/clear.js",
+    ]);
+    expect(requests.at(-1)?.cookie).toBe("cart=abc123");
+  });
+
+  test("empties the cart when a probe fails after adding", async () => {
+    const { shop, requests } = inventoryStore({ inventoryProbe: true }, 14);
+    await expect(shop.products.inventory("tee")).rejects.toThrow();
+
+    expect(requests.map((r) => r.path)).toEqual([
+      "/products/tee.js",
+      "/cart/add.js",
+      "/cart/add.js",
+      "/cart/clear.js",
+    ]);
+    expect(requests.at(-1)?.cookie).toBe("cart=abc123");
+  });
+
+  test("skips the probe on request and returns null for missing products", async () => {
+    const { shop, requests } = inventoryStore({ inventoryProbe: true });
+    const inventory = await shop.products.inventory("tee", { probe: false });
+
+    expect(inventory?.variants[1]).toMatchObject({
+      quantity: null,
+      method: "availability",
+      confidence: "low",
+    });
+    expect(requests.some((r) => r.path.startsWith("/cart"))).toBe(false);
+    expect(await shop.products.inventory("missing")).toBeNull();
+  });
+
+  test("reads limits from cart error descriptions", () => {
+    expect(parseCartLimit("You can only add 12 of Tee - Blue to the cart.")).toBe(12);
+    expect(parseCartLimit("All 4 Tee - Blue are in your cart.")).toBe(4);
+    expect(parseCartLimit("Tee - Blue is already sold out.")).toBe(0);
+    expect(parseCartLimit("Cart Error")).toBeNull();
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, expect, test } from "bun:test";
+import { ProductQuery, ShopClient } from "../index";
+import type { ShopifyProduct } from "../types";
+
+type Variant = {
+  color: string;
+  size: string;
+  price: string;
+  compareAt?: string;
+  available?: boolean;
+};
+
+let nextVariantId = 100;
+
+function listing(
+  id: number,
+  handle: string,
+  extra: {
+    vendor?: string;
+    type?: string;
+    tags?: string[];
+    created?: string;
+    variants: Variant[];
+  }
+): ShopifyProduct {
+  return {
+    id,
+    handle,
+    title: handle.replace(/-/g, " "),
+    vendor: extra.vendor ?? "Acme",
+    tags: extra.tags ?? [],
+    options: [
+      {
+        name: "Color",
+        position: 1,
+        values: [...new Set(extra.variants.map((v) => v.color))],
+      },
+      {
+        name: "Size",
+        position: 2,
+        values: [...new Set(extra.variants.map((v) => v.size))],
+      },
+    ],
+    created_at: extra.created ?? "2024-01-01T00:00:00Z",
+    updated_at: "2024-02-01T00:00:00Z",
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: extra.type ?? "Shirt",
+    body_html: "",
+    variants: extra.variants.map((v, i) => ({
+      id: nextVariantId++,
+      title: `${v.color} / ${v.size}`,
+      option1: v.color,
+      option2: v.size,
+      option3: null,
+      sku: null,
+      requires_shipping: true,
+      taxable: true,
+      featured_image: null,
+      available: v.available ?? true,
+      price: v.price,
+      grams: 100,
+      compare_at_price: v.compareAt ?? null,
+      position: i + 1,
+      product_id: id,
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-02-01T00:00:00Z",
+    })),
+    images: [],
+  } as any;
+}
+
+const catalog = [
+  listing(1, "blue-tee", {
+    tags: ["Summer"],
+    created: "2024-03-01T00:00:00Z",
+    variants: [
+      { color: "Blue", size: "S", price: "40.00", compareAt: "50.00" },
+      { color: "Blue", size: "M", price: "40.00", compareAt: "50.00", available: false },
+    ],
+  }),
+  listing(2, "red-tee", {
+    vendor: "Acme Co.",
+    created: "2024-02-01T00:00:00Z",
+    variants: [
+      { color: "Red", size: "S", price: "20.00" },
+      { color: "Light Blue", size: "L", price: "60.00", available: false },
+    ],
+  }),
+  listing(3, "navy-hoodie", {
+    vendor: "Other",
+    type: "Hoodie",
+    tags: ["Winter", "summer"],
+    created: "2024-01-01T00:00:00Z",
+    variants: [
+      { color: "Navy", size: "M", price: "80.00", compareAt: "160.00" },
+    ],
+  }),
+];
+
+function catalogClient() {
+  const requests: string[] = [];
+  const shop = new ShopClient("https://query.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input) => {
+      const url = new URL(String(input));
+      requests.push(url.pathname + url.search);
+      if (url.pathname === "/products.json") {
+        const page = url.searchParams.get("page");
+        return Response.json({ products: page === "1" ? catalog : [] });
+      }
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, requests };
+}
+
+describe("products.query()", () => {
+  test("filters on the same variant for availability, price and options", async () => {
+    const { shop } = catalogClient();
+    const handles = async (q: ReturnType<typeof shop.products.query>) =>
+      (await q.run()).products.map((p) => p.handle);
+
+    const base = shop.products.query();
+    expect(await handles(base.where({ option: { color: "blue" } }))).toEqual([
+      "blue-tee",
+    ]);
+    // Only red-tee's light blue variant matches, and it is sold out
+    expect(
+      await handles(
+        base.where({ available: true, option: { Color: "Light Blue" } })
+      )
+    ).toEqual([]);
+    expect(
+      await handles(base.where({ option: { color: ["blue", "light-blue"] } }))
+    ).toEqual(["blue-tee", "red-tee"]);
+    expect(
+      await handles(base.where({ available: true, priceLte: 5000 }))
+    ).toEqual(["blue-tee", "red-tee"]);
+    expect(
+      await handles(
+        base.where({ priceGte: 5000, option: { size: "l" } })
+      )
+    ).toEqual(["red-tee"]);
+  });
+
+  test("filters on vendor, product type, tags and discount", async () => {
+    const { shop } = catalogClient();
+    const q = shop.products.query();
+
+    const byVendor = await q.where({ vendor: "acme co" }).run();
+    expect(byVendor.products.map((p) => p.handle)).toEqual(["red-tee"]);
+    expect(byVendor.products[0]?.vendor).toBe("Acme Co.");
+
+    const byType = await q.where({ productType: "hoodie" }).run();
+    expect(byType.products.map((p) => p.handle)).toEqual(["navy-hoodie"]);
+
+    const byTag = await q.where({ tags: "SUMMER" }).run();
+    expect(byTag.products.map((p) => p.handle)).toEqual([
+      "blue-tee",
+      "navy-hoodie",
+    ]);
+
+    expect(await q.where({ discountGte: 30 }).count()).toBe(1);
+  });
+
+  test("sorts, paginates and reports facets over all matches", async () => {
+    const { shop } = catalogClient();
+
+    const byDiscount = await shop.products.query().sortBy("discount").run();
+    expect(byDiscount.products.map((p) => p.handle)).toEqual([
+      "navy-hoodie",
+      "blue-tee",
+      "red-tee",
+    ]);
+
+    const newest = await shop.products.query().sortBy("createdAt").run();
+    expect(newest.products.map((p) => p.handle)).toEqual([
+      "blue-tee",
+      "red-tee",
+      "navy-hoodie",
+    ]);
+
+    const page = await shop.products
+      .query()
+      .sortBy("price", "desc")
+      .page(2, 2)
+      .run();
+    expect(page.products.map((p) => p.handle)).toEqual(["red-tee"]);
+    expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2, totalPages: 2 });
+    expect(page.facets.availability).toEqual({ available: 3, unavailable: 0 });
+    expect(page.facets.vendor).toEqual({ Acme: 1, "Acme Co.": 1, Other: 1 });
+    expect(page.facets.productType).toEqual({ Shirt: 2, Hoodie: 1 });
+    expect(page.facets.options.color).toEqual({
+      blue: 1,
+      red: 1,
+      light_blue: 1,
+      navy: 1,
+    });
+    expect(page.facets.options.size).toEqual({ s: 2, m: 2, l: 1 });
+  });
+
+  test("crawls the catalog once and serves later queries from the cache", async () => {
+    const { shop, requests } = catalogClient();
+
+    await shop.products.query().run();
+    const crawled = requests.length;
+    await shop.products.query().where({ available: true }).run();
+    await shop.products.query().sortBy("title").count();
+    expect(requests.length).toBe(crawled);
+
+    await shop.invalidate("catalog:*");
+    await shop.products.query().run();
+    expect(requests.length).toBe(crawled * 2);
+  });
+
+  test("rejects invalid pages", () => {
+    const q = new ProductQuery([]);
+    expect(() => q.page(0)).toThrow("Invalid page");
+    expect(() => q.page(1, 0)).toThrow("Invalid pageSize");
+  });
+});
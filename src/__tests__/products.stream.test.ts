@@ -0,0 +1,187 @@
+import { describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+import type { PageProgress, ShopifyProduct } from "../types";
+
+function makeProduct(id: number, productType = "Shirt"): ShopifyProduct {
+  return {
+    id,
+    handle: `p-${id}`,
+    title: `Product ${id}`,
+    vendor: "Acme",
+    tags: [],
+    options: [],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: `2024-05-01T00:00:${String(id % 60).padStart(2, "0")}Z`,
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: productType,
+    body_html: "",
+    variants: [],
+    images: [],
+  } as any;
+}
+
+const fullPage = (offset: number) =>
+  Array.from({ length: 250 }, (_, i) => makeProduct(offset + i + 1));
+
+/**
+ * Serves three pages of `/products.json` (250, 250, 3) and records every
+ * requested URL.
+ */
+function catalogClient() {
+  const seen: string[] = [];
+  const pages: Record<string, ShopifyProduct[]> = {
+    "1": fullPage(0),
+    "2": fullPage(250),
+    "3": [makeProduct(501), makeProduct(502), makeProduct(503, "Gift Card")],
+  };
+  const shop = new ShopClient("https://stream.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input) => {
+      const url = new URL(String(input));
+      seen.push(url.pathname + url.search);
+      const page = url.searchParams.get("page") ?? "1";
+      if (url.pathname.endsWith("/products.json")) {
+        return Response.json({ products: pages[page] ?? [] });
+      }
+      return new Response("", { status: 404 });
+    },
+  });
+  return { shop, seen };
+}
+
+describe("products.stream", () => {
+  test("yields every product page by page and reports progress", async () => {
+    const { shop, seen } = catalogClient();
+    const progress: PageProgress[] = [];
+
+    const handles: string[] = [];
+    for await (const product of shop.products.stream({
+      onPage: (p) => progress.push(p),
+    })) {
+      handles.push(product.handle);
+    }
+
+    // Gift cards are filtered, as in all()
+    expect(handles.length).toBe(502);
+    expect(handles[0]).toBe("p-1");
+    expect(handles.at(-1)).toBe("p-502");
+    expect(progress).toEqual([
+      { page: 1, count: 250, total: 250 },
+      { page: 2, count: 250, total: 500 },
+      { page: 3, count: 2, total: 502 },
+    ]);
+    expect(seen.length).toBe(3);
+  });
+
+  test("stops requesting pages after an early break", async () => {
+    const { shop, seen } = catalogClient();
+
+    let taken = 0;
+    for await (const _product of shop.products.stream()) {
+      taken++;
+      if (taken === 10) break;
+    }
+
+    expect(taken).toBe(10);
+    expect(seen).toEqual(["/products.json?page=1&limit=250"]);
+  });
+
+  test("applies the currency override to streamed products", async () => {
+    const { shop } = catalogClient();
+
+    for await (const product of shop.products.stream({ currency: "EUR" })) {
+      expect(product.localizedPricing?.priceFormatted).toContain("€");
+      break;
+    }
+  });
+
+  test("ends with the abort reason when the signal fires", async () => {
+    const { shop, seen } = catalogClient();
+    const controller = new AbortController();
+
+    const consume = async () => {
+      let count = 0;
+      for await (const _product of shop.products.stream({
+        signal: controller.signal,
+        onPage: ({ page }) => {
+          if (page === 2) controller.abort(new Error("stop crawling"));
+        },
+      })) {
+        count++;
+      }
+      return count;
+    };
+
+    await expect(consume()).rejects.toThrow("stop crawling");
+    expect(seen.length).toBe(2);
+  });
+
+  test("matches all() output", async () => {
+    const { shop } = catalogClient();
+
+    const streamed: unknown[] = [];
+    for await (const product of shop.products.stream()) streamed.push(product);
+
+    expect(streamed).toEqual((await shop.products.all()) ?? []);
+  });
+});
+
+describe("products.streamFingerprints", () => {
+  test("streams raw fingerprints including gift cards", async () => {
+    const { shop, seen } = catalogClient();
+
+    const fingerprints: { handle: string }[] = [];
+    for await (const fp of shop.products.streamFingerprints()) {
+      fingerprints.push(fp);
+    }
+
+    expect(fingerprints.length).toBe(503);
+    expect(fingerprints.at(-1)).toEqual({
+      handle: "p-503",
+      id: 503,
+      updated_at: "2024-05-01T00:00:23Z",
+    });
+    expect(seen[0]).toBe("/products.json?limit=250&page=1");
+  });
+});
+
+describe("collections.products.stream", () => {
+  test("streams collection products and ends on a short page", async () => {
+    const seen: string[] = [];
+    const shop = new ShopClient("https://stream.example.com", {
+      rateLimit: { enabled: false },
+      transport: async (input) => {
+        const url = new URL(String(input));
+        seen.push(url.pathname + url.search);
+        if (url.pathname === "/collections/sale/products.json") {
+          const page = url.searchParams.get("page");
+          return Response.json({
+            products: page === "1" ? fullPage(0) : [makeProduct(251)],
+          });
+        }
+        return new Response("", { status: 404 });
+      },
+    });
+
+    const progress: PageProgress[] = [];
+    let count = 0;
+    for await (const _product of shop.collections.products.stream("sale", {
+      onPage: (p) => progress.push(p),
+    })) {
+      count++;
+    }
+
+    expect(count).toBe(251);
+    expect(progress.map((p) => p.total)).toEqual([250, 251]);
+    expect(
+      seen.filter((u) => u.startsWith("/collections/sale/products.json"))
+    ).toHaveLength(2);
+  });
+
+  test("validates the handle eagerly", () => {
+    const shop = new ShopClient("https://stream.example.com");
+    expect(() => shop.collections.products.stream("")).toThrow(
+      "Collection handle is required and must be a string"
+    );
+  });
+});
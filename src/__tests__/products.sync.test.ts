@@ -0,0 +1,249 @@
+import { describe, expect, test } from "bun:test";
+import { ShopClient } from "../index";
+import type { CatalogSnapshot, ShopifyProduct } from "../types";
+import { diffFingerprints } from "../utils/func";
+
+type Raw = {
+  id: number;
+  handle: string;
+  updated_at: string;
+  type?: string;
+  title?: string;
+};
+
+function listing(p: Raw): ShopifyProduct {
+  return {
+    id: p.id,
+    handle: p.handle,
+    title: p.handle,
+    vendor: "Acme",
+    tags: [],
+    options: [],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: p.updated_at,
+    published_at: "2024-01-01T00:00:00Z",
+    product_type: p.type ?? "Shirt",
+    body_html: "",
+    variants: [],
+    images: [],
+  } as any;
+}
+
+function single(p: Raw) {
+  return {
+    id: p.id,
+    handle: p.handle,
+    title: p.title ?? p.handle,
+    vendor: "Acme",
+    tags: [],
+    options: [],
+    description: "",
+    published_at: "2024-01-01T00:00:00Z",
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: p.updated_at,
+    type: p.type ?? "Shirt",
+    price: 1000,
+    price_min: 1000,
+    price_max: 1000,
+    available: true,
+    price_varies: false,
+    compare_at_price: null,
+    compare_at_price_min: 0,
+    compare_at_price_max: 0,
+    compare_at_price_varies: false,
+    variants: [],
+    images: [],
+    featured_image: null,
+  };
+}
+
+/**
+ * Client over a fixed catalog. `.js` lookups for handles in `broken` fail.
+ */
+function catalogClient(catalog: Raw[], broken: string[] = []) {
+  const singles: string[] = [];
+  const shop = new ShopClient("https://sync.example.com", {
+    rateLimit: { enabled: false },
+    transport: async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/products.json") {
+        const page = url.searchParams.get("page");
+        return Response.json({ products: page === "1" ? catalog.map(listing) : [] });
+      }
+      const match = url.pathname.match(/^\/products\/([^/.]+)\.js$/);
+      if (match) {
+        const handle = match[1]!;
+        singles.push(handle);
+        const product = catalog.find((p) => p.handle === handle);
+        if (!product || broken.includes(handle)) {
+          return new Response("", { status: 404 });
+        }
+        return Response.json(single(product));
+      }
+      // Handle-resolution requests
+      return new Response("", { status: 200 });
+    },
+  });
+  return { shop, singles };
+}
+
+describe("diffFingerprints", () => {
+  test("matches by id and reports renames as updates", () => {
+    const diff = diffFingerprints(
+      [
+        { id: 1, handle: "a", updated_at: "t1" },
+        { id: 2, handle: "b", updated_at: "t1" },
+        { id: 3, handle: "c", updated_at: "t1" },
+      ],
+      [
+        { id: 1, handle: "a", updated_at: "t1" },
+        { id: 2, handle: "b-renamed", updated_at: "t1" },
+        { id: 4, handle: "d", updated_at: "t1" },
+      ]
+    );
+
+    expect(diff.added.map((f) => f.handle)).toEqual(["d"]);
+    expect(diff.updated.map((f) => f.handle)).toEqual(["b-renamed"]);
+    expect(diff.removed.map((f) => f.handle)).toEqual(["c"]);
+    expect(diff.renamed).toEqual([{ id: 2, from: "b", to: "b-renamed" }]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
+
+describe("products.sync", () => {
+  test("treats every product as added without a previous snapshot", async () => {
+    const { shop, singles } = catalogClient([
+      { id: 1, handle: "a", updated_at: "t1" },
+      { id: 2, handle: "gift", updated_at: "t1", type: "Gift Card" },
+    ]);
+
+    const result = await shop.products.sync();
+
+    expect(result.added.map((p) => p.handle)).toEqual(["a"]);
+    expect(singles).toEqual(["a"]);
+    expect(result.snapshot.version).toBe(1);
+    expect(result.snapshot.products).toEqual([
+      { id: 1, handle: "a", updated_at: "t1" },
+    ]);
+  });
+
+  test("fetches changed products in bounded batches", async () => {
+    const catalog = Array.from({ length: 10 }, (_, i) => ({
+      id: i + 1,
+      handle: `p${i + 1}`,
+      updated_at: "t1",
+    }));
+    let inFlight = 0;
+    let peak = 0;
+    const shop = new ShopClient("https://sync.example.com", {
+      rateLimit: { enabled: false },
+      transport: async (input) => {
+        const url = new URL(String(input));
+        if (url.pathname === "/products.json") {
+          const page = url.searchParams.get("page");
+          return Response.json({
+            products: page === "1" ? catalog.map(listing) : [],
+          });
+        }
+        const handle = url.pathname.match(/^\/products\/([^/.]+)\.js$/)?.[1];
+        if (!handle) return new Response("", { status: 200 });
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((r) => setTimeout(r, 5));
+        inFlight--;
+        return Response.json(single(catalog.find((p) => p.handle === handle)!));
+      },
+    });
+
+    const result = await shop.products.sync(null, { concurrency: 3 });
+
+    expect(result.added).toHaveLength(10);
+    expect(peak).toBe(3);
+  });
+
+  test("fetches only changed handles and returns a serializable snapshot", async () => {
+    const previous: CatalogSnapshot = {
+      version: 1,
+      createdAt: "2024-01-01T00:00:00.000Z",
+      products: [
+        { id: 1, handle: "same", updated_at: "t1" },
+        { id: 2, handle: "edited", updated_at: "t1" },
+        { id: 3, handle: "old-name", updated_at: "t1" },
+        { id: 4, handle: "gone", updated_at: "t1" },
+      ],
+    };
+    const { shop, singles } = catalogClient([
+      { id: 1, handle: "same", updated_at: "t1" },
+      { id: 2, handle: "edited", updated_at: "t2" },
+      { id: 3, handle: "new-name", updated_at: "t1" },
+      { id: 5, handle: "fresh", updated_at: "t1" },
+    ]);
+
+    const result = await shop.products.sync(
+      JSON.parse(JSON.stringify(previous))
+    );
+
+    expect(result.added.map((p) => p.handle)).toEqual(["fresh"]);
+    expect(result.updated.map((p) => p.handle).sort()).toEqual([
+      "edited",
+      "new-name",
+    ]);
+    expect(result.removed).toEqual([{ id: 4, handle: "gone", updated_at: "t1" }]);
+    expect(result.renamed).toEqual([{ id: 3, from: "old-name", to: "new-name" }]);
+    expect(result.failed).toEqual([]);
+    expect(singles.sort()).toEqual(["edited", "fresh", "new-name"]);
+    expect(JSON.parse(JSON.stringify(result.snapshot))).toEqual(result.snapshot);
+    expect(result.snapshot.products.map((p) => p.handle)).toEqual([
+      "same",
+      "edited",
+      "new-name",
+      "fresh",
+    ]);
+  });
+
+  test("refetches changed products even when a cached copy is still fresh", async () => {
+    const catalog: Raw[] = [
+      { id: 2, handle: "edited", updated_at: "t1", title: "Before" },
+    ];
+    const { shop, singles } = catalogClient(catalog);
+    expect((await shop.products.find("edited"))?.title).toBe("Before");
+    const previous = await shop.products.sync(null);
+
+    catalog[0] = { id: 2, handle: "edited", updated_at: "t2", title: "After" };
+    const result = await shop.products.sync(previous.snapshot);
+
+    expect(singles).toEqual(["edited", "edited", "edited"]);
+    expect(result.updated.map((p) => p.title)).toEqual(["After"]);
+    // The refetched product replaces the cached one
+    expect((await shop.products.find("edited"))?.title).toBe("After");
+  });
+
+  test("keeps failed products retryable in the next snapshot", async () => {
+    const { shop } = catalogClient(
+      [
+        { id: 1, handle: "edited", updated_at: "t2" },
+        { id: 2, handle: "fresh", updated_at: "t1" },
+      ],
+      ["edited", "fresh"]
+    );
+
+    const result = await shop.products.sync([
+      { id: 1, handle: "edited", updated_at: "t1" },
+    ]);
+
+    expect(result.failed.map((f) => f.handle).sort()).toEqual([
+      "edited",
+      "fresh",
+    ]);
+    expect(result.snapshot.products).toEqual([
+      { id: 1, handle: "edited", updated_at: "t1" },
+    ]);
+  });
+
+  test("rejects snapshots with an unknown version", async () => {
+    const { shop } = catalogClient([]);
+    await expect(
+      shop.products.sync({ version: 2, createdAt: "", products: [] } as any)
+    ).rejects.toThrow("Unsupported catalog snapshot version: 2");
+  });
+});
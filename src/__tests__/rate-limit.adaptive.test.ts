@@ -0,0 +1,155 @@
+import { describe, expect, test } from "bun:test";
+import type { RateLimitRateChangeEvent } from "../utils/rate-limit";
+import { RateLimiter, rateLimitedFetch } from "../utils/rate-limit";
+
+const noRetry = { maxRetries: 0 };
+
+function statusTransport(status: number, headers?: Record<string, string>) {
+  return async () => new Response("", { status, headers });
+}
+
+describe("adaptive rate limiting", () => {
+  test("halves the host rate on 429 and reports it", async () => {
+    const events: RateLimitRateChangeEvent[] = [];
+    const limiter = new RateLimiter({
+      maxRequestsPerInterval: 8,
+      adaptive: { onRateChange: (e) => events.push(e) },
+    });
+
+    await rateLimitedFetch("https://slow.example.com/products.json", {
+      limiter,
+      retry: noRetry,
+      transport: statusTransport(429),
+    });
+
+    const status = limiter.getStatus();
+    expect(status.adaptive["slow.example.com"]?.effectiveRate).toBe(4);
+    expect(status.adaptive["slow.example.com"]?.ceilingRate).toBe(8);
+    expect(status.adaptive["other.example.com"]).toBeUndefined();
+    expect(status.options.maxRequestsPerInterval).toBe(8);
+    expect(events).toEqual([
+      {
+        host: "slow.example.com",
+        reason: "throttled",
+        previousRate: 8,
+        effectiveRate: 4,
+        intervalMs: 1000,
+        retryAfterMs: undefined,
+      },
+    ]);
+  });
+
+  test("recovers additively after a run of successes", async () => {
+    const events: RateLimitRateChangeEvent[] = [];
+    const limiter = new RateLimiter({
+      maxRequestsPerInterval: 100,
+      adaptive: {
+        decreaseFactor: 0.5,
+        increaseStep: 5,
+        successThreshold: 3,
+        onRateChange: (e) => events.push(e),
+      },
+    });
+    const url = "https://shop.example.com/products.json";
+
+    limiter.recordResponse(url, 429);
+    for (let i = 0; i < 3; i++) {
+      await rateLimitedFetch(url, { limiter, transport: statusTransport(200) });
+    }
+
+    expect(limiter.getStatus().adaptive["shop.example.com"]?.effectiveRate).toBe(
+      55
+    );
+    expect(events.map((e) => e.reason)).toEqual(["throttled", "recovered"]);
+  });
+
+  test("forgets a host once it has recovered to the configured rate", async () => {
+    const limiter = new RateLimiter({
+      maxRequestsPerInterval: 4,
+      adaptive: { successThreshold: 1, increaseStep: 2 },
+    });
+    const url = "https://shop.example.com/products.json";
+
+    limiter.recordResponse(url, 429);
+    limiter.recordResponse(url, 200);
+    expect(limiter.getStatus().adaptive).toEqual({});
+  });
+
+  test("never drops below the configured floor", () => {
+    const limiter = new RateLimiter({
+      maxRequestsPerInterval: 4,
+      adaptive: { minRequestsPerInterval: 2 },
+    });
+    const url = "https://floor.example.com/";
+
+    limiter.recordResponse(url, 429);
+    limiter.recordResponse(url, 429);
+    limiter.recordResponse(url, 429);
+
+    expect(limiter.getStatus().adaptive["floor.example.com"]?.effectiveRate).toBe(
+      2
+    );
+  });
+
+  test("pauses the host for the Retry-After window", async () => {
+    const limiter = new RateLimiter({ adaptive: true });
+    const before = Date.now();
+
+    await rateLimitedFetch("https://busy.example.com/", {
+      limiter,
+      retry: noRetry,
+      transport: statusTransport(503, { "retry-after": "30" }),
+    });
+
+    const host = limiter.getStatus().adaptive["busy.example.com"];
+    expect(host?.tokens).toBe(0);
+    expect(host?.pausedUntil).toBeGreaterThanOrEqual(before + 30_000);
+  });
+
+  test("holds class requests to a throttled host", async () => {
+    const limiter = new RateLimiter({
+      // Like the built-in probe classes: one request at a time
+      perClass: { probe: { maxRequestsPerInterval: 10, maxConcurrency: 1 } },
+      adaptive: true,
+    });
+    const url = "https://busy.example.com/cart/add.js";
+    limiter.recordResponse(url, 503, 200);
+
+    const sent: string[] = [];
+    const transport = async (input: RequestInfo | URL) => {
+      sent.push(new URL(String(input)).host);
+      return new Response("");
+    };
+    const pending = rateLimitedFetch(url, {
+      limiter,
+      rateLimitClass: "probe",
+      transport,
+    });
+    // Other hosts in the class are unaffected
+    await rateLimitedFetch("https://calm.example.com/cart/add.js", {
+      limiter,
+      rateLimitClass: "probe",
+      transport,
+    });
+
+    const status = limiter.getStatus();
+    expect(sent).toEqual(["calm.example.com"]);
+    expect(status.perClass.probe?.tokens).toBe(9);
+    expect(status.adaptive["busy.example.com"]?.queued).toBe(1);
+
+    await pending;
+    expect(sent).toEqual(["calm.example.com", "busy.example.com"]);
+  });
+
+  test("ignores throttling when adaptive mode is off", async () => {
+    const limiter = new RateLimiter();
+
+    await rateLimitedFetch("https://slow.example.com/", {
+      limiter,
+      retry: noRetry,
+      transport: statusTransport(429),
+    });
+
+    expect(limiter.getStatus().adaptive).toEqual({});
+  });
+});
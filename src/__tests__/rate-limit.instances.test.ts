@@ -0,0 +1,282 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import { ShopClient } from "../index";
+import {
+  configureRateLimit,
+  getRateLimitStatus,
+  RateLimiter,
+  rateLimitedFetch,
+} from "../utils/rate-limit";
+
+function deferred() {
+  let resolve!: (res: Response) => void;
+  const promise = new Promise<Response>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe("RateLimiter instances", () => {
+  test("reports queue depth, tokens and in-flight count", async () => {
+    const limiter = new RateLimiter({
+      maxRequestsPerInterval: 10,
+      intervalMs: 60_000,
+      maxConcurrency: 1,
+    });
+    const first = deferred();
+    const second = deferred();
+    const pending = [first, second];
+
+    const transport = () => pending.shift()!.promise;
+    const a = rateLimitedFetch("https://a.example.com/1", {
+      limiter,
+      transport,
+    });
+    const b = rateLimitedFetch("https://a.example.com/2", {
+      limiter,
+      transport,
+    });
+    await new Promise((r) => setTimeout(r, 0));
+
+    const busy = limiter.getStatus();
+    expect(busy.global.inFlight).toBe(1);
+    expect(busy.global.queued).toBe(1);
+    expect(busy.global.tokens).toBe(9);
+
+    first.resolve(new Response("ok"));
+    await a;
+    await new Promise((r) => setTimeout(r, 5));
+    second.resolve(new Response("ok"));
+    await b;
+    await new Promise((r) => setTimeout(r, 5));
+
+    const idle = limiter.getStatus();
+    expect(idle.global.inFlight).toBe(0);
+    expect(idle.global.queued).toBe(0);
+    expect(idle.global.tokens).toBe(8);
+  });
+
+  test("exposes per-host and per-class bucket state", () => {
+    const limiter = new RateLimiter({
+      perHost: { "*.myshopify.com": { maxRequestsPerInterval: 3 } },
+      perClass: { openrouter: { maxConcurrency: 1 } },
+    });
+    const status = getRateLimitStatus(limiter);
+    expect(status.enabled).toBe(true);
+    expect(status.perHost["*.myshopify.com"]?.options).toEqual({
+      maxRequestsPerInterval: 3,
+      intervalMs: 1000,
+      maxConcurrency: 5,
+    });
+    expect(status.perHost["*.myshopify.com"]?.tokens).toBe(3);
+    expect(status.perClass.openrouter?.options.maxConcurrency).toBe(1);
+  });
+
+  test("gives each ShopClient its own limiter", async () => {
+    const transport = async () => Response.json({ products: [] });
+    const a = new ShopClient("https://a.example.com", {
+      transport,
+      rateLimit: { maxRequestsPerInterval: 7 },
+    });
+    const b = new ShopClient("https://b.example.com", { transport });
+
+    await a.products.all();
+
+    expect(a.getRateLimitStatus().options.maxRequestsPerInterval).toBe(7);
+    expect(a.getRateLimitStatus().global.tokens).toBeLessThan(7);
+    expect(b.getRateLimitStatus().options.maxRequestsPerInterval).toBe(5);
+    expect(b.getRateLimitStatus().global.tokens).toBe(5);
+  });
+
+  test("shares a limiter between clients on explicit opt-in", async () => {
+    const shared = new RateLimiter({
+      maxRequestsPerInterval: 20,
+      intervalMs: 60_000,
+    });
+    const transport = async () => Response.json({ products: [] });
+    const a = new ShopClient("https://a.example.com", {
+      transport,
+      rateLimiter: shared,
+    });
+    const b = new ShopClient("https://b.example.com", {
+      transport,
+      rateLimiter: shared,
+    });
+
+    await a.products.all();
+    await b.products.all();
+
+    expect(shared.getStatus().global.tokens).toBe(18);
+    expect(a.getRateLimitStatus()).toEqual(b.getRateLimitStatus());
+  });
+
+  test("starts client limiters with conservative probe buckets", async () => {
+    const paths: string[] = [];
+    const transport = async (input: RequestInfo | URL) => {
+      const url = new URL(String(input));
+      paths.push(url.pathname);
+      if (url.pathname === "/products/tee.js") {
+        return Response.json({
+          id: 1,
+          title: "Tee",
+          handle: "tee",
+          variants: [{ id: 11, title: "Default Title", available: true, price: 2000 }],
+        });
+      }
+      return Response.json(
+        { status: 422, description: "You can only add 3 of Tee to the cart." },
+        { status: 422 }
+      );
+    };
+    const shop = new ShopClient("https://probe.example.com", {
+      inventoryProbe: true,
+      transport,
+    });
+    expect(shop.getRateLimitStatus().perClass["inventory:probe"]?.options).toEqual({
+      maxRequestsPerInterval: 2,
+      intervalMs: 1000,
+      maxConcurrency: 1,
+    });
+
+    await shop.products.inventory("tee");
+    expect(paths).toEqual(["/products/tee.js", "/cart/add.js"]);
+    // The probe drew on its class bucket, the product read on the default one
+    const status = shop.getRateLimitStatus();
+    expect(status.perClass["inventory:probe"]?.tokens).toBe(1);
+    expect(status.global.tokens).toBe(4);
+
+    const tuned = new ShopClient("https://probe.example.com", {
+      rateLimit: { perClass: { "inventory:probe": { intervalMs: 5000 } } },
+    });
+    expect(tuned.getRateLimitStatus().perClass["inventory:probe"]?.options).toEqual({
+      maxRequestsPerInterval: 2,
+      intervalMs: 5000,
+      maxConcurrency: 1,
+    });
+    expect(new RateLimiter().getStatus().perClass).toEqual({});
+  });
+
+  test("runs discount probes under their own default bucket", async () => {
+    const paths: string[] = [];
+    const shop = new ShopClient("https://deals.example.com", {
+      discountProbe: true,
+      transport: async (input) => {
+        const url = new URL(String(input));
+        paths.push(url.pathname);
+        if (url.pathname === "/cart.js") {
+          return Response.json({ currency: "USD", items: [], discount_codes: [] });
+        }
+        return new Response(null, { status: 302 });
+      },
+    });
+    expect(shop.getRateLimitStatus().perClass["checkout:discounts"]?.options).toEqual({
+      maxRequestsPerInterval: 3,
+      intervalMs: 2000,
+      maxConcurrency: 1,
+    });
+
+    await shop.checkout.discounts.probe(["SAVE10"]);
+    expect(paths).toEqual(["/discount/SAVE10", "/cart.js"]);
+    const status = shop.getRateLimitStatus();
+    expect(status.perClass["checkout:discounts"]?.tokens).toBe(1);
+    expect(status.global.tokens).toBe(5);
+  });
+
+  test("polls shipping rates under their own default bucket", async () => {
+    const shop = new ShopClient("https://ship.example.com", {
+      transport: async (input) =>
+        new URL(String(input)).pathname === "/cart/async_shipping_rates.json"
+          ? Response.json({
+              shipping_rates: [{ name: "Standard", price: "5.00", currency: "USD" }],
+            })
+          : new Response(null, { status: 202 }),
+    });
+    expect(shop.getRateLimitStatus().perClass["cart:shipping"]?.options).toEqual({
+      maxRequestsPerInterval: 2,
+      intervalMs: 1000,
+      maxConcurrency: 2,
+    });
+
+    await shop.cart.shippingRates({ country: "US" });
+    expect(shop.getRateLimitStatus().perClass["cart:shipping"]?.tokens).toBe(0);
+  });
+
+  test("stops the refill timer once a bucket is idle and full", async () => {
+    const setSpy = spyOn(globalThis, "setInterval");
+    const clearSpy = spyOn(globalThis, "clearInterval");
+    // Limiters left over from other tests may tick meanwhile; only count
+    // timers with this limiter's interval
+    const started = () =>
+      setSpy.mock.results.filter((_, i) => setSpy.mock.calls[i]?.[1] === 20)
+        .map((r) => r.value);
+    const stopped = () =>
+      clearSpy.mock.calls.filter(([timer]) => started().includes(timer))
+        .length;
+    try {
+      const limiter = new RateLimiter({ intervalMs: 20 });
+      const transport = async () => new Response("ok");
+      await rateLimitedFetch("https://idle.example.com/", { limiter, transport });
+      expect(started()).toHaveLength(1);
+      expect(stopped()).toBe(0);
+
+      await new Promise((r) => setTimeout(r, 60));
+      expect(stopped()).toBe(1);
+      expect(limiter.getStatus().global.tokens).toBe(5);
+
+      // The next request starts a fresh interval
+      await rateLimitedFetch("https://idle.example.com/", { limiter, transport });
+      expect(started()).toHaveLength(2);
+      expect(limiter.getStatus().global.tokens).toBe(4);
+      limiter.dispose();
+      expect(stopped()).toBe(2);
+    } finally {
+      setSpy.mockRestore();
+      clearSpy.mockRestore();
+    }
+  });
+
+  test("dispose() rejects queued requests and spares shared limiters", async () => {
+    const limiter = new RateLimiter({
+      maxRequestsPerInterval: 1,
+      intervalMs: 60_000,
+    });
+    const transport = async () => new Response("ok");
+    await rateLimitedFetch("https://a.example.com/", { limiter, transport });
+    const queued = rateLimitedFetch("https://a.example.com/", {
+      limiter,
+      transport,
+    });
+    await new Promise((r) => setTimeout(r, 0));
+    expect(limiter.getStatus().global.queued).toBe(1);
+    limiter.dispose();
+    await expect(queued).rejects.toThrow("Rate limiter disposed");
+
+    const shared = new RateLimiter({ maxConcurrency: 1 });
+    const client = new ShopClient("https://shared.example.com", {
+      rateLimiter: shared,
+      transport: async () => Response.json({ products: [] }),
+    });
+    const disposeSpy = spyOn(shared, "dispose");
+    client.dispose();
+    expect(disposeSpy).not.toHaveBeenCalled();
+
+    const owner = new ShopClient("https://owner.example.com");
+    const limiterOf = (owner as unknown as { rateLimiter: RateLimiter })
+      .rateLimiter;
+    const ownedSpy = spyOn(limiterOf, "dispose");
+    owner.dispose();
+    expect(ownedSpy).toHaveBeenCalledTimes(1);
+  });
+
+  test("seeds new clients from configureRateLimit without touching existing ones", () => {
+    const before = new ShopClient("https://before.example.com");
+    try {
+      configureRateLimit({ maxConcurrency: 2 });
+      const after = new ShopClient("https://after.example.com");
+
+      expect(before.getRateLimitStatus().options.maxConcurrency).toBe(5);
+      expect(after.getRateLimitStatus().options.maxConcurrency).toBe(2);
+    } finally {
+      configureRateLimit({ maxConcurrency: 5 });
+    }
+  });
+});
@@ -0,0 +1,368 @@
+import { describe, expect, test } from "bun:test";
+import {
+  NotShopifyStoreError,
+  ShopClient,
+  StorePasswordProtectedError,
+} from "../index";
+
+const lockPage = `<!doctype html>
+  <html>
+    <head>
+      <meta property="og:site_name" content="Launch Soon">
+      <meta name="og:site_name" content="Launch Soon">
+      <link rel="stylesheet" href="//cdn.shopify.com/s/files/password.css">
+    </head>
+    <body class="template-password">
+      <form method="post" action="/password" id="login_form">
+        <input type="hidden" name="form_type" value="storefront_password">
+        <input type="password" name="password">
+      </form>
+    </body>
+  </html>`;
+
+const homePage = `<!doctype html>
+  <html>
+    <head>
+      <meta name="og:site_name" content="Launch Soon">
+      <meta name="shopify-digital-wallet" content="/123456/digital_wallets/dialog">
+    </head>
+    <body><a href="/products/teaser">Teaser</a></body>
+  </html>`;
+
+function at(url: string, response: Response): Response {
+  Object.defineProperty(response, "url", { value: url });
+  return response;
+}
+
+/**
+ * A locked store: every storefront page redirects to `/password` unless the
+ * request carries the `storefront_digest` cookie issued for `secret`.
+ */
+function lockedStore() {
+  const logins: URLSearchParams[] = [];
+  const cookies: (string | null)[] = [];
+  let digest = "digest-1";
+
+  const transport = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const headers = new Headers(init?.headers);
+
+    if (url.pathname === "/password" && init?.method === "POST") {
+      const form = new URLSearchParams(String(init.body));
+      logins.push(form);
+      if (form.get("password") !== "secret") {
+        return at(url.href, new Response(lockPage, { status: 200 }));
+      }
+      return new Response(null, {
+        status: 302,
+        headers: {
+          location: "/",
+          "set-cookie": `storefront_digest=${digest}; path=/; HttpOnly`,
+        },
+      });
+    }
+
+    cookies.push(headers.get("cookie"));
+    if (!headers.get("cookie")?.includes(`storefront_digest=${digest}`)) {
+      return at(`${url.origin}/password`, new Response(lockPage));
+    }
+    if (url.pathname === "/products.json") {
+      return Response.json({
+        products: [
+          {
+            id: 1,
+            handle: "teaser",
+            title: "Teaser",
+            vendor: "Launch",
+            tags: [],
+            options: [],
+            created_at: "2024-01-01T00:00:00Z",
+            updated_at: "2024-01-02T00:00:00Z",
+            published_at: null,
+            product_type: "Tee",
+            body_html: "",
+            variants: [],
+            images: [],
+          },
+        ],
+      });
+    }
+    return at(url.href, new Response(homePage));
+  };
+
+  return {
+    transport,
+    logins,
+    cookies,
+    rotateDigest: () => {
+      digest = "digest-2";
+    },
+  };
+}
+
+describe("password-protected stores", () => {
+  test("getInfo() reports the lock page as a store status", async () => {
+    const { transport } = lockedStore();
+    const shop = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      transport,
+    });
+
+    const info = await shop.getInfo();
+    expect(info.status).toBe("password_protected");
+    expect(info.name).toBe("Launch Soon");
+    expect(info.showcase.products).toEqual([]);
+  });
+
+  test("products calls without a password throw StorePasswordProtectedError", async () => {
+    const { transport } = lockedStore();
+    const shop = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      transport,
+    });
+
+    await expect(shop.products.all()).rejects.toBeInstanceOf(
+      StorePasswordProtectedError
+    );
+  });
+
+  test("storefrontPassword logs in once and reuses the session cookie", async () => {
+    const { transport, logins, cookies } = lockedStore();
+    const shop = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      transport,
+      storefrontPassword: "secret",
+    });
+
+    const info = await shop.getInfo({ validateShowcase: false });
+    expect(info.status).toBe("open");
+
+    const products = await shop.products.all();
+    expect(products?.map((p) => p.handle)).toEqual(["teaser"]);
+
+    expect(logins).toHaveLength(1);
+    expect(logins[0]?.get("form_type")).toBe("storefront_password");
+    expect(cookies.every((c) => c === "storefront_digest=digest-1")).toBe(true);
+  });
+
+  test("logs in again when the session expires", async () => {
+    const { transport, logins, rotateDigest } = lockedStore();
+    const shop = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      transport,
+      storefrontPassword: "secret",
+    });
+
+    await shop.products.all();
+    rotateDigest();
+    const products = await shop.products.all();
+
+    expect(products).toHaveLength(1);
+    expect(logins).toHaveLength(2);
+  });
+
+  test("a wrong password is rejected with StorePasswordProtectedError", async () => {
+    const { transport } = lockedStore();
+    const shop = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      transport,
+      storefrontPassword: "nope",
+    });
+
+    await expect(shop.products.all()).rejects.toThrow(
+      "Storefront password was rejected"
+    );
+  });
+});
+
+describe("password sessions and cart cookies", () => {
+  /**
+   * A locked store with the Ajax cart: every add without a `cart` cookie
+   * starts a new cart, `/discount/{code}` sets `discount_code`.
+   */
+  function lockedCartStore() {
+    const requests: { path: string; cookie: string | null }[] = [];
+    let carts = 0;
+    const variant = (id: number) => ({
+      id,
+      title: `V${id}`,
+      option1: `V${id}`,
+      option2: null,
+      option3: null,
+      sku: null,
+      requires_shipping: true,
+      taxable: true,
+      featured_image: null,
+      featured_media: null,
+      available: true,
+      name: `Tee - V${id}`,
+      public_title: `V${id}`,
+      options: [`V${id}`],
+      price: 2000,
+      compare_at_price: null,
+      inventory_management: null,
+    });
+
+    const transport = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      const cookie = new Headers(init?.headers).get("cookie");
+      if (url.pathname === "/password" && init?.method === "POST") {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            location: "/",
+            "set-cookie": "storefront_digest=digest-1; path=/; HttpOnly",
+          },
+        });
+      }
+      requests.push({ path: url.pathname, cookie });
+      if (!cookie?.includes("storefront_digest=digest-1")) {
+        return at(`${url.origin}/password`, new Response(lockPage));
+      }
+      const hasCart = /(?:^|; )cart=/.test(cookie);
+      const headers = new Headers();
+      if (!hasCart) headers.append("set-cookie", `cart=cart-${++carts}; path=/`);
+
+      if (url.pathname === "/cart/add.js") {
+        const id = JSON.parse(String(init?.body)).items[0].id;
+        if (id === 12) {
+          return Response.json(
+            { status: 422, description: "You can only add 3 of Tee - V12 to the cart." },
+            { status: 422, headers }
+          );
+        }
+        return Response.json({ items: [] }, { headers });
+      }
+      if (url.pathname === "/cart/clear.js") return Response.json({}, { headers });
+      const code = url.pathname.match(/^\/discount\/(.+)$/)?.[1];
+      if (code) {
+        headers.append("set-cookie", `discount_code=${code}; path=/`);
+        return new Response(null, { status: 302, headers });
+      }
+      if (url.pathname === "/cart.js") {
+        return Response.json(
+          {
+            token: "t",
+            note: null,
+            attributes: {},
+            original_total_price: 0,
+            total_price: 0,
+            total_discount: 0,
+            total_weight: 0,
+            item_count: 0,
+            items: [],
+            requires_shipping: false,
+            currency: "USD",
+            items_subtotal_price: 0,
+          },
+          { headers }
+        );
+      }
+      if (url.pathname === "/products/tee.js") {
+        return Response.json({
+          id: 1,
+          title: "Tee",
+          handle: "tee",
+          type: "Shirt",
+          variants: [variant(12)],
+        });
+      }
+      return at(url.href, new Response(homePage));
+    };
+    return { transport, requests };
+  }
+
+  test("probes and the session cart keep their own cookies", async () => {
+    const { transport, requests } = lockedCartStore();
+    const shop = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      transport,
+      storefrontPassword: "secret",
+      discountProbe: true,
+      inventoryProbe: true,
+    });
+    const cookiesFor = (path: string) =>
+      requests.filter((r) => r.path === path).map((r) => r.cookie);
+
+    await shop.cart.add({ variantId: 11 });
+    expect(cookiesFor("/cart/add.js")).toEqual(["storefront_digest=digest-1"]);
+
+    await shop.checkout.discounts.probe(["AAA", "BBB"], {
+      items: [{ variantId: 11 }],
+      delayMs: 0,
+    });
+    // Each probe starts a new cart; no cookie from an earlier probe or the session cart
+    expect(cookiesFor("/cart/add.js").slice(1)).toEqual([
+      "storefront_digest=digest-1",
+      "storefront_digest=digest-1",
+    ]);
+    // cart.add() reads the session cart back first
+    expect(cookiesFor("/cart.js")).toEqual([
+      "cart=cart-1; storefront_digest=digest-1",
+      "cart=cart-2; discount_code=AAA; storefront_digest=digest-1",
+      "cart=cart-3; discount_code=BBB; storefront_digest=digest-1",
+    ]);
+
+    await shop.products.inventory("tee");
+    await shop.checkout.buildCartPermalink({
+      items: [{ variantId: 11 }],
+      verify: true,
+    });
+    expect(cookiesFor("/cart/add.js").slice(3)).toEqual([
+      "storefront_digest=digest-1",
+      "storefront_digest=digest-1",
+    ]);
+
+    // The client's own cart is still the one it started with
+    await shop.cart.get();
+    expect(cookiesFor("/cart.js").at(-1)).toBe(
+      "cart=cart-1; storefront_digest=digest-1"
+    );
+  });
+});
+
+describe("closed stores", () => {
+  test("402 unavailable pages are reported as closed", async () => {
+    const shop = new ShopClient("https://closed.example.com", {
+      rateLimit: { enabled: false },
+      transport: async () =>
+        new Response(
+          '<html><head><title>Store unavailable</title><link rel="stylesheet" href="https://cdn.shopify.com/shopifycloud/unavailable.css"></head><body>This store is unavailable</body></html>',
+          { status: 402 }
+        ),
+    });
+
+    const info = await shop.getInfo();
+    expect(info.status).toBe("closed");
+  });
+});
+
+describe("non-Shopify sites", () => {
+  test("a 402 paywall is not reported as a closed store", async () => {
+    const shop = new ShopClient("https://paywall.example.com", {
+      rateLimit: { enabled: false },
+      transport: async () =>
+        new Response(
+          "<html><head><title>Subscribe</title></head><body>This store is unavailable without a subscription</body></html>",
+          { status: 402 }
+        ),
+    });
+
+    await expect(shop.getInfo()).rejects.toBeInstanceOf(NotShopifyStoreError);
+  });
+
+  test("a password form is not reported as a locked store", async () => {
+    const shop = new ShopClient("https://wiki.example.com", {
+      rateLimit: { enabled: false },
+      transport: async () =>
+        at(
+          "https://wiki.example.com/",
+          new Response(
+            '<html><body><form method="post" action="/account/password"><input type="password" name="password"></form></body></html>'
+          )
+        ),
+    });
+
+    await expect(shop.getInfo()).rejects.toBeInstanceOf(NotShopifyStoreError);
+  });
+});
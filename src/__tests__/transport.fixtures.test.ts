@@ -0,0 +1,279 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFixtureTransport, ShopClient } from "../index";
+import type { FixtureRecord } from "../utils/fixtures";
+
+const productsJson = {
+  products: [
+    {
+      id: 1,
+      handle: "recorded-tee",
+      title: "Recorded Tee",
+      vendor: "Fixtures",
+      tags: [],
+      options: [],
+      created_at: "2024-01-01T00:00:00Z",
+      updated_at: "2024-01-02T00:00:00Z",
+      published_at: null,
+      product_type: "Tee",
+      body_html: "",
+      variants: [],
+      images: [],
+    },
+  ],
+};
+
+function liveStore() {
+  const calls: string[] = [];
+  const transport = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    calls.push(`${init?.method ?? "GET"} ${url.href}`);
+    if (url.pathname === "/products.json") {
+      return Response.json(url.searchParams.get("page") === "1" ? productsJson : { products: [] });
+    }
+    if (url.pathname === "/products/old-tee") {
+      const res = new Response("<html></html>");
+      Object.defineProperty(res, "url", {
+        value: `${url.origin}/products/recorded-tee`,
+      });
+      return res;
+    }
+    if (url.pathname === "/cart/add.js") {
+      return Response.json({ id: 42, body: String(init?.body) });
+    }
+    return new Response("", { status: 404 });
+  };
+  return { transport, calls };
+}
+
+const offline = async (): Promise<Response> => {
+  throw new Error("network disabled");
+};
+
+let directory: string;
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), "shop-client-fixtures-"));
+});
+
+afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe("createFixtureTransport", () => {
+  test("records a client session and replays it offline", async () => {
+    const live = liveStore();
+    const recorder = new ShopClient("https://fixtures.example.com", {
+      rateLimit: { enabled: false },
+      transport: createFixtureTransport({
+        directory,
+        mode: "record",
+        transport: live.transport,
+      }),
+    });
+    const recorded = await recorder.products.all();
+    expect(recorded?.map((p) => p.handle)).toEqual(["recorded-tee"]);
+    expect(live.calls.length).toBeGreaterThan(0);
+
+    const files = await readdir(directory);
+    expect(files).toHaveLength(live.calls.length);
+    const record = JSON.parse(
+      await readFile(join(directory, files[0] as string), "utf8")
+    ) as FixtureRecord;
+    expect(record.request.method).toBe("GET");
+    expect(record.response.status).toBe(200);
+
+    const replayer = new ShopClient("https://fixtures.example.com", {
+      rateLimit: { enabled: false },
+      transport: createFixtureTransport({
+        directory,
+        mode: "replay",
+        transport: offline,
+      }),
+    });
+    const replayed = await replayer.products.all();
+    expect(replayed).toEqual(recorded);
+  });
+
+  test("recording the same crawl twice keeps full responses", async () => {
+    const etag = '"products-v1"';
+    const sent: (string | null)[] = [];
+    const transport = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      sent.push(new Headers(init?.headers).get("if-none-match"));
+      if (new Headers(init?.headers).get("if-none-match") === etag) {
+        return new Response(null, { status: 304, headers: { etag } });
+      }
+      if (url.pathname === "/products.json") {
+        const body =
+          url.searchParams.get("page") === "1" ? productsJson : { products: [] };
+        return Response.json(body, { headers: { etag } });
+      }
+      return new Response("", { status: 404 });
+    };
+    const recorder = new ShopClient("https://fixtures.example.com", {
+      rateLimit: { enabled: false },
+      transport: createFixtureTransport({ directory, mode: "record", transport }),
+    });
+    const recorded = await recorder.products.all();
+    expect(await recorder.products.all()).toEqual(recorded);
+    // The store never sees a revalidation, so no 304 is recorded
+    expect(sent.every((value) => value === null)).toBe(true);
+
+    const replayer = new ShopClient("https://fixtures.example.com", {
+      rateLimit: { enabled: false },
+      transport: createFixtureTransport({
+        directory,
+        mode: "replay",
+        transport: offline,
+      }),
+    });
+    expect(await replayer.products.all()).toEqual(recorded);
+    expect(await replayer.products.all()).toEqual(recorded);
+  });
+
+  test("redacts passwords, tokens and cookie values before writing", async () => {
+    const lockPage =
+      '<html><head><link rel="stylesheet" href="//cdn.shopify.com/s/password.css"></head><body><form method="post" action="/password"><input type="password" name="password"></form></body></html>';
+    const transport = async (input: RequestInfo | URL, init?: RequestInit) => {
+      const url = new URL(String(input));
+      if (url.pathname === "/password" && init?.method === "POST") {
+        return new Response(null, {
+          status: 302,
+          headers: {
+            location: "/",
+            "set-cookie": "storefront_digest=digest-s3cr3t; path=/; HttpOnly",
+          },
+        });
+      }
+      if (!new Headers(init?.headers).get("cookie")?.includes("storefront_digest")) {
+        const res = new Response(lockPage);
+        Object.defineProperty(res, "url", { value: `${url.origin}/password` });
+        return res;
+      }
+      if (url.pathname === "/products.json") {
+        return Response.json(
+          url.searchParams.get("page") === "1" ? productsJson : { products: [] },
+          { headers: { "set-cookie": "cart=cart-t0k3n; path=/", "x-api-key": "key-123" } }
+        );
+      }
+      return new Response("", { status: 404 });
+    };
+    const recorder = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      storefrontPassword: "hunter2",
+      transport: createFixtureTransport({ directory, mode: "record", transport }),
+    });
+    const recorded = await recorder.products.all();
+    expect(recorded?.map((p) => p.handle)).toEqual(["recorded-tee"]);
+    await createFixtureTransport({ directory, mode: "record", transport })(
+      "https://locked.example.com/products.json?page=2&access_token=shpat_abc",
+      { method: "POST", body: JSON.stringify({ api_key: "sk_live", page: 2 }) }
+    );
+
+    const files = await readdir(directory);
+    const contents = await Promise.all(
+      files.map((name) => readFile(join(directory, name), "utf8"))
+    );
+    const all = contents.join("\n");
+    for (const secret of ["hunter2", "digest-s3cr3t", "cart-t0k3n", "key-123", "shpat_abc", "sk_live"]) {
+      expect(all).not.toContain(secret);
+    }
+    expect(all).toContain("storefront_digest=[REDACTED]; path=/; HttpOnly");
+    expect(all).toContain("form_type=storefront_password");
+
+    // The redacted login still replays
+    const replayer = new ShopClient("https://locked.example.com", {
+      rateLimit: { enabled: false },
+      storefrontPassword: "hunter2",
+      transport: createFixtureTransport({ directory, mode: "replay", transport: offline }),
+    });
+    expect(await replayer.products.all()).toEqual(recorded);
+  });
+
+  test("replay preserves the final URL of redirected responses", async () => {
+    const live = liveStore();
+    const record = createFixtureTransport({
+      directory,
+      mode: "record",
+      transport: live.transport,
+    });
+    await record("https://fixtures.example.com/products/old-tee");
+
+    const replay = createFixtureTransport({ directory, mode: "replay" });
+    const res = await replay("https://fixtures.example.com/products/old-tee");
+    expect(res.url).toBe("https://fixtures.example.com/products/recorded-tee");
+  });
+
+  test("strict matching keys on method, URL and body", async () => {
+    const live = liveStore();
+    const record = createFixtureTransport({
+      directory,
+      mode: "record",
+      transport: live.transport,
+    });
+    await record("https://fixtures.example.com/cart/add.js", {
+      method: "POST",
+      body: JSON.stringify({ id: 1, quantity: 1 }),
+    });
+
+    const replay = createFixtureTransport({ directory, mode: "replay" });
+    const hit = await replay("https://fixtures.example.com/cart/add.js", {
+      method: "POST",
+      body: JSON.stringify({ id: 1, quantity: 1 }),
+    });
+    expect(await hit.json()).toEqual({
+      id: 42,
+      body: '{"id":1,"quantity":1}',
+    });
+
+    await expect(
+      replay("https://fixtures.example.com/cart/add.js", {
+        method: "POST",
+        body: JSON.stringify({ id: 1, quantity: 2 }),
+      })
+    ).rejects.toThrow("No recorded fixture for POST");
+    await expect(
+      replay("https://fixtures.example.com/cart/add.js")
+    ).rejects.toThrow("No recorded fixture for GET");
+  });
+
+  test("lenient matching ignores query order and request bodies", async () => {
+    const live = liveStore();
+    const record = createFixtureTransport({
+      directory,
+      mode: "record",
+      transport: live.transport,
+    });
+    await record("https://fixtures.example.com/products.json?limit=250&page=1");
+    await record("https://fixtures.example.com/cart/add.js", {
+      method: "POST",
+      body: "id=1",
+    });
+
+    const strict = createFixtureTransport({ directory, mode: "replay" });
+    await expect(
+      strict("https://fixtures.example.com/products.json?page=1&limit=250")
+    ).rejects.toThrow("strict matching");
+
+    const lenient = createFixtureTransport({
+      directory,
+      mode: "replay",
+      matching: "lenient",
+    });
+    const page = await lenient(
+      "https://fixtures.example.com/products.json?page=1&limit=250"
+    );
+    expect(await page.json()).toEqual(productsJson);
+    const cart = await lenient("https://fixtures.example.com/cart/add.js", {
+      method: "POST",
+      body: "id=2",
+    });
+    expect(cart.status).toBe(200);
+    await expect(
+      lenient("https://fixtures.example.com/products.json?page=2&limit=250")
+    ).rejects.toThrow("No recorded fixture");
+  });
+});
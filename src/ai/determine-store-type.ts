@@ -1,5 +1,6 @@
 import type { ShopInfo } from "../store";
 import type { OpenRouterConfig, StoreTypeBreakdown } from "../types";
+import type { Fetcher } from "../utils/transport";
 import { determineStoreType as determineStoreTypeViaLLM } from "./enrich";
 
 type Args = {
@@ -9,6 +10,7 @@ type Args = {
   apiKey?: string;
   model?: string;
   openRouter?: OpenRouterConfig;
+  fetcher?: Fetcher;
   maxShowcaseProducts?: number;
   maxShowcaseCollections?: number;
 };
@@ -47,7 +49,12 @@ export async function determineStoreTypeForStore(
         collections: collectionsSample,
       },
     },
-    { apiKey: args.apiKey, model: args.model, openRouter: args.openRouter }
+    {
+      apiKey: args.apiKey,
+      model: args.model,
+      openRouter: args.openRouter,
+      fetcher: args.fetcher,
+    }
   );
 
   return breakdown as StoreTypeBreakdown;
@@ -1,4 +1,9 @@
 import TurndownService from "turndown";
+import {
+  httpErrorFromResponse,
+  LlmResponseError,
+  SchemaValidationError,
+} from "../errors";
 import type {
   OpenRouterConfig,
   ProductClassification,
@@ -7,6 +12,7 @@ import type {
   SystemUserPrompt,
 } from "../types";
 import { rateLimitedFetch } from "../utils/rate-limit";
+import type { Fetcher } from "../utils/transport";
 
 const DEFAULT_OPENROUTER_MODEL = "openai/gpt-4o-mini";
 const DEFAULT_OPENROUTER_BASE_URL = "https://openrouter.ai/api/v1";
@@ -285,12 +291,14 @@ export async function buildEnrichPromptForProduct(
     inputType?: "markdown" | "html";
     outputFormat?: "markdown" | "json";
     htmlContent?: string;
+    fetcher?: Fetcher;
   }
 ): Promise<SystemUserPrompt> {
-  const ajaxProductPromise = fetchAjaxProduct(domain, handle);
+  const fetcher = options?.fetcher;
+  const ajaxProductPromise = fetchAjaxProduct(domain, handle, { fetcher });
   const pageHtmlPromise = options?.htmlContent
     ? Promise.resolve(options.htmlContent)
-    : fetchProductPage(domain, handle);
+    : fetchProductPage(domain, handle, { fetcher });
 
   const [ajaxProduct, pageHtml] = await Promise.all([
     ajaxProductPromise,
@@ -322,12 +330,14 @@ export async function buildClassifyPromptForProduct(
     useGfm?: boolean;
     inputType?: "markdown" | "html";
     htmlContent?: string;
+    fetcher?: Fetcher;
   }
 ): Promise<SystemUserPrompt> {
-  const ajaxProductPromise = fetchAjaxProduct(domain, handle);
+  const fetcher = options?.fetcher;
+  const ajaxProductPromise = fetchAjaxProduct(domain, handle, { fetcher });
   const pageHtmlPromise = options?.htmlContent
     ? Promise.resolve(options.htmlContent)
-    : fetchProductPage(domain, handle);
+    : fetchProductPage(domain, handle, { fetcher });
 
   const [ajaxProduct, pageHtml] = await Promise.all([
     ajaxProductPromise,
@@ -396,12 +406,14 @@ export interface EnrichedProductResult {
  */
 export async function fetchAjaxProduct(
   domain: string,
-  handle: string
+  handle: string,
+  options?: { fetcher?: Fetcher }
 ): Promise<ShopifySingleProduct> {
   const base = normalizeDomainToBase(domain);
   const url = `${base}/products/${handle}.js`;
-  const res = await rateLimitedFetch(url, { rateLimitClass: "products:ajax" });
-  if (!res.ok) throw new Error(`Failed to fetch AJAX product: ${url}`);
+  const fetcher = options?.fetcher ?? rateLimitedFetch;
+  const res = await fetcher(url, { rateLimitClass: "products:ajax" });
+  if (!res.ok) throw httpErrorFromResponse(res, url);
   const data: ShopifySingleProduct = await res.json();
   return data;
 }
@@ -411,12 +423,14 @@ export async function fetchAjaxProduct(
  */
 export async function fetchProductPage(
   domain: string,
-  handle: string
+  handle: string,
+  options?: { fetcher?: Fetcher }
 ): Promise<string> {
   const base = normalizeDomainToBase(domain);
   const url = `${base}/products/${handle}`;
-  const res = await rateLimitedFetch(url, { rateLimitClass: "products:html" });
-  if (!res.ok) throw new Error(`Failed to fetch product page: ${url}`);
+  const fetcher = options?.fetcher ?? rateLimitedFetch;
+  const res = await fetcher(url, { rateLimitClass: "products:html" });
+  if (!res.ok) throw httpErrorFromResponse(res, url);
   return res.text();
 }
 
@@ -466,6 +480,7 @@ export async function mergeWithLLM(
     model?: string;
     outputFormat?: "markdown" | "json";
     openRouter?: OpenRouterConfig;
+    fetcher?: Fetcher;
   }
 ): Promise<string> {
   const inputType = options?.inputType ?? "markdown";
@@ -495,17 +510,21 @@ export async function mergeWithLLM(
     ],
     apiKey,
     openRouter,
+    fetcher: options?.fetcher,
   });
   if (options?.outputFormat === "json") {
     const cleaned = result.replace(/```json|```/g, "").trim();
     // Validate shape early to fail fast on malformed JSON responses
     const obj = safeParseJson(cleaned);
     if (!obj.ok) {
-      throw new Error(`LLM returned invalid JSON: ${obj.error}`);
+      throw new LlmResponseError(`LLM returned invalid JSON: ${obj.error}`);
     }
     const schema = validateStructuredJson(obj.value);
     if (!schema.ok) {
-      throw new Error(`LLM JSON schema invalid: ${schema.error}`);
+      throw new SchemaValidationError(
+        `LLM JSON schema invalid: ${schema.error}`,
+        schema.error
+      );
     }
 
     const value = obj.value;
@@ -625,8 +644,10 @@ async function callOpenRouter(args: {
   messages: Array<{ role: "system" | "user"; content: string }>;
   apiKey?: string;
   openRouter?: OpenRouterConfig;
+  fetcher?: Fetcher;
 }): Promise<string> {
   const openRouter = args.openRouter;
+  const fetcher = args.fetcher ?? rateLimitedFetch;
   if (openRouter?.offline) {
     return mockOpenRouterResponse(
       args.messages.map((m) => m.content).join("\n")
@@ -670,12 +691,13 @@ async function callOpenRouter(args: {
   ).filter(Boolean);
 
   let lastErrorText = "";
+  let lastStatus: number | undefined;
   for (const m of modelsToTry) {
     for (const url of endpoints) {
       try {
         const controller = new AbortController();
         const timeout = setTimeout(() => controller.abort(), 15000);
-        const response = await rateLimitedFetch(url, {
+        const response = await fetcher(url, {
           method: "POST",
           headers,
           body: JSON.stringify(buildPayload(m)),
@@ -687,6 +709,7 @@ async function callOpenRouter(args: {
           const text = await response.text();
           // If server error, try next model; otherwise capture and continue to next endpoint/model
           lastErrorText = text || `${url}: HTTP ${response.status}`;
+          lastStatus = response.status;
           // Small delay before trying next
           await new Promise((r) => setTimeout(r, 300));
           continue;
@@ -703,7 +726,9 @@ async function callOpenRouter(args: {
       }
     }
   }
-  throw new Error(`OpenRouter request failed: ${lastErrorText}`);
+  throw new LlmResponseError(`OpenRouter request failed: ${lastErrorText}`, {
+    status: lastStatus,
+  });
 }
 
 // Generate a deterministic offline response tailored to the prompt.
@@ -756,13 +781,15 @@ export async function enrichProduct(
     outputFormat?: "markdown" | "json";
     openRouter?: OpenRouterConfig;
     htmlContent?: string;
+    fetcher?: Fetcher;
   }
 ): Promise<EnrichedProductResult> {
+  const fetcher = options?.fetcher;
   // STEP 1: Fetch Shopify single product (AJAX) and use its description
-  const ajaxProductPromise = fetchAjaxProduct(domain, handle);
+  const ajaxProductPromise = fetchAjaxProduct(domain, handle, { fetcher });
   const pageHtmlPromise = options?.htmlContent
     ? Promise.resolve(options.htmlContent)
-    : fetchProductPage(domain, handle);
+    : fetchProductPage(domain, handle, { fetcher });
 
   const [ajaxProduct, pageHtml] = await Promise.all([
     ajaxProductPromise,
@@ -793,6 +820,7 @@ export async function enrichProduct(
     model: options?.model,
     outputFormat: options?.outputFormat,
     openRouter: options?.openRouter,
+    fetcher,
   });
 
   // If JSON output requested, further sanitize images using Shopify REST data
@@ -868,7 +896,12 @@ export async function enrichProduct(
  */
 export async function classifyProduct(
   productContent: string,
-  options?: { apiKey?: string; model?: string; openRouter?: OpenRouterConfig }
+  options?: {
+    apiKey?: string;
+    model?: string;
+    openRouter?: OpenRouterConfig;
+    fetcher?: Fetcher;
+  }
 ): Promise<ProductClassification> {
   const openRouter = options?.openRouter;
   const offline = openRouter?.offline ?? false;
@@ -889,17 +922,21 @@ export async function classifyProduct(
     ],
     apiKey,
     openRouter,
+    fetcher: options?.fetcher,
   });
   const cleaned = raw.replace(/```json|```/g, "").trim();
 
   // Parse and validate
   const parsed = safeParseJson(cleaned);
   if (!parsed.ok) {
-    throw new Error(`LLM returned invalid JSON: ${parsed.error}`);
+    throw new LlmResponseError(`LLM returned invalid JSON: ${parsed.error}`);
   }
   const validated = validateClassification(parsed.value);
   if (!validated.ok) {
-    throw new Error(`LLM JSON schema invalid: ${validated.error}`);
+    throw new SchemaValidationError(
+      `LLM JSON schema invalid: ${validated.error}`,
+      validated.error
+    );
   }
   return validated.value as ProductClassification;
 }
@@ -999,7 +1036,12 @@ export async function generateSEOContent(
     price?: number;
     tags?: string[];
   },
-  options?: { apiKey?: string; model?: string; openRouter?: OpenRouterConfig }
+  options?: {
+    apiKey?: string;
+    model?: string;
+    openRouter?: OpenRouterConfig;
+    fetcher?: Fetcher;
+  }
 ): Promise<SEOContent> {
   const openRouter = options?.openRouter;
   const offline = openRouter?.offline ?? false;
@@ -1036,7 +1078,10 @@ export async function generateSEOContent(
     };
     const validated = validateSEOContent(res);
     if (!validated.ok)
-      throw new Error(`Offline SEO content invalid: ${validated.error}`);
+      throw new SchemaValidationError(
+        `Offline SEO content invalid: ${validated.error}`,
+        validated.error
+      );
     return validated.value;
   }
 
@@ -1060,15 +1105,19 @@ export async function generateSEOContent(
     ],
     apiKey,
     openRouter,
+    fetcher: options?.fetcher,
   });
   const cleaned = raw.replace(/```json|```/g, "").trim();
   const parsed = safeParseJson(cleaned);
   if (!parsed.ok) {
-    throw new Error(`LLM returned invalid JSON: ${parsed.error}`);
+    throw new LlmResponseError(`LLM returned invalid JSON: ${parsed.error}`);
   }
   const validated = validateSEOContent(parsed.value);
   if (!validated.ok) {
-    throw new Error(`LLM JSON schema invalid: ${validated.error}`);
+    throw new SchemaValidationError(
+      `LLM JSON schema invalid: ${validated.error}`,
+      validated.error
+    );
   }
   return validated.value as SEOContent;
 }
@@ -1130,7 +1179,12 @@ export async function determineStoreType(
       collections: Array<{ title: string }> | string[];
     };
   },
-  options?: { apiKey?: string; model?: string; openRouter?: OpenRouterConfig }
+  options?: {
+    apiKey?: string;
+    model?: string;
+    openRouter?: OpenRouterConfig;
+    fetcher?: Fetcher;
+  }
 ): Promise<
   Partial<
     Record<
@@ -1283,15 +1337,19 @@ Rules:
     ],
     apiKey,
     openRouter,
+    fetcher: options?.fetcher,
   });
   const cleaned = raw.replace(/```json|```/g, "").trim();
   const parsed = safeParseJson(cleaned);
   if (!parsed.ok) {
-    throw new Error(`LLM returned invalid JSON: ${parsed.error}`);
+    throw new LlmResponseError(`LLM returned invalid JSON: ${parsed.error}`);
   }
   const validated = validateStoreTypeBreakdown(parsed.value);
   if (!validated.ok) {
-    throw new Error(`LLM JSON schema invalid: ${validated.error}`);
+    throw new SchemaValidationError(
+      `LLM JSON schema invalid: ${validated.error}`,
+      validated.error
+    );
   }
   return pruneBreakdownForSignals(validated.value, textNormalized);
 }
@@ -0,0 +1,354 @@
+/**
+ * Pluggable cache storage for `ShopClient`.
+ *
+ * The client caches store info, OpenGraph metadata, product and collection
+ * lookups, SEO data and link-validation results through a {@link CacheAdapter}.
+ * The default adapter keeps everything in memory; the filesystem and SQLite
+ * adapters persist entries across restarts and can be shared between workers.
+ */
+
+/**
+ * A cached value together with the time it was fetched (epoch ms).
+ */
+export type CacheEntry<T = unknown> = {
+  value: T;
+  fetchedAt: number;
+};
+
+/**
+ * Key/value storage used by the client cache. Keys are plain strings of the
+ * form `<store host>:<resource>:<id>`; adapters do not need to interpret them.
+ */
+export interface CacheAdapter {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** All stored keys starting with `prefix`. */
+  keys(prefix: string): Promise<string[]>;
+}
+
+/** Resource types that can be given their own TTL. */
+export type CacheResource =
+  | "info"
+  | "meta"
+  | "product"
+  | "catalog"
+  | "collection"
+  | "seo"
+  | "validation";
+
+/**
+ * Cache lifetime in milliseconds: one value for every resource, or a value
+ * per resource (unlisted resources keep the 5 minute default). A TTL of `0`
+ * disables caching for that resource.
+ */
+export type CacheTTLConfig = number | Partial<Record<CacheResource, number>>;
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// Dates survive persistence as `{ "$date": iso }` so cached products keep
+// their `Date` fields after a round trip through JSON.
+const DATE_TAG = "$date";
+
+/**
+ * Serialize a cache entry to JSON, preserving `Date` values.
+ */
+export function encodeCacheEntry(entry: CacheEntry): string {
+  return JSON.stringify(
+    entry,
+    function (this: Record<string, unknown>, key: string, value: unknown) {
+      const raw = this[key];
+      return raw instanceof Date ? { [DATE_TAG]: raw.toISOString() } : value;
+    }
+  );
+}
+
+/**
+ * Parse JSON produced by {@link encodeCacheEntry}.
+ */
+export function decodeCacheEntry(text: string): CacheEntry {
+  return JSON.parse(text, (_key, value: unknown) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      const rec = value as Record<string, unknown>;
+      const keys = Object.keys(rec);
+      if (
+        keys.length === 1 &&
+        keys[0] === DATE_TAG &&
+        typeof rec[DATE_TAG] === "string"
+      ) {
+        return new Date(rec[DATE_TAG]);
+      }
+    }
+    return value;
+  }) as CacheEntry;
+}
+
+/**
+ * In-memory adapter (the default). Values are stored by reference.
+ */
+export function createMemoryCache(): CacheAdapter {
+  const store = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      return store.get(key);
+    },
+    async set(key, entry) {
+      store.set(key, entry);
+    },
+    async delete(key) {
+      store.delete(key);
+    },
+    async keys(prefix) {
+      return [...store.keys()].filter((k) => k.startsWith(prefix));
+    },
+  };
+}
+
+/**
+ * Filesystem adapter storing one JSON file per key under `directory`.
+ * Node.js/Bun only; `node:fs` is loaded lazily on first use.
+ *
+ * @example
+ * ```typescript
+ * const shop = new ShopClient('exampleshop.com', {
+ *   cache: createFileSystemCache('.cache/shop-client'),
+ * });
+ * ```
+ */
+export function createFileSystemCache(directory: string): CacheAdapter {
+  const suffix = ".json";
+  const fileFor = (key: string) =>
+    `${directory}/${encodeURIComponent(key)}${suffix}`;
+  let ready: Promise<typeof import("node:fs/promises")> | undefined;
+  const fs = () => {
+    ready ??= import("node:fs/promises").then(async (mod) => {
+      await mod.mkdir(directory, { recursive: true });
+      return mod;
+    });
+    return ready;
+  };
+
+  return {
+    async get(key) {
+      const { readFile } = await fs();
+      try {
+        return decodeCacheEntry(await readFile(fileFor(key), "utf8"));
+      } catch {
+        return undefined;
+      }
+    },
+    async set(key, entry) {
+      const { rename, writeFile } = await fs();
+      // Write then rename so concurrent readers never see a partial file
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+      await writeFile(tmp, encodeCacheEntry(entry), "utf8");
+      await rename(tmp, file);
+    },
+    async delete(key) {
+      const { rm } = await fs();
+      await rm(fileFor(key), { force: true });
+    },
+    async keys(prefix) {
+      const { readdir } = await fs();
+      const names = await readdir(directory);
+      return names
+        .filter((name) => name.endsWith(suffix))
+        .map((name) => decodeURIComponent(name.slice(0, -suffix.length)))
+        .filter((key) => key.startsWith(prefix));
+    },
+  };
+}
+
+/**
+ * Minimal synchronous SQLite surface shared by `better-sqlite3` and
+ * `bun:sqlite`, so no driver has to be bundled.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+}
+
+/**
+ * SQLite adapter backed by a caller-provided database handle. Creates the
+ * cache table on first use.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const shop = new ShopClient('exampleshop.com', {
+ *   cache: createSqliteCache(new Database('cache.db')),
+ * });
+ * ```
+ */
+export function createSqliteCache(
+  db: SqliteDatabase,
+  options?: { table?: string }
+): CacheAdapter {
+  const table = options?.table ?? "shop_client_cache";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid SQLite table name: ${table}`);
+  }
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (key TEXT PRIMARY KEY, value TEXT NOT NULL, fetched_at INTEGER NOT NULL)`
+  );
+  const select = db.prepare(`SELECT value FROM ${table} WHERE key = ?`);
+  const upsert = db.prepare(
+    `INSERT INTO ${table} (key, value, fetched_at) VALUES (?, ?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value, fetched_at = excluded.fetched_at`
+  );
+  const remove = db.prepare(`DELETE FROM ${table} WHERE key = ?`);
+  const list = db.prepare(
+    `SELECT key FROM ${table} WHERE substr(key, 1, length(?)) = ?`
+  );
+
+  return {
+    async get(key) {
+      const row = select.get(key) as { value: string } | null | undefined;
+      return row ? decodeCacheEntry(row.value) : undefined;
+    },
+    async set(key, entry) {
+      upsert.run(key, encodeCacheEntry(entry), entry.fetchedAt);
+    },
+    async delete(key) {
+      remove.run(key);
+    },
+    async keys(prefix) {
+      const rows = list.all(prefix, prefix) as { key: string }[];
+      return rows.map((row) => row.key);
+    },
+  };
+}
+
+function patternToRegExp(pattern: string | RegExp): RegExp {
+  if (pattern instanceof RegExp) return pattern;
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Per-store view over a {@link CacheAdapter}: namespaces keys by store,
+ * applies per-resource TTLs and drops stale entries on read. Adapter errors
+ * are treated as cache misses so a broken cache never fails a request.
+ */
+export class ResourceCache {
+  private adapter: CacheAdapter;
+  private prefix: string;
+  private ttl: CacheTTLConfig;
+
+  constructor(
+    adapter: CacheAdapter,
+    namespace: string,
+    ttl: CacheTTLConfig = DEFAULT_TTL_MS
+  ) {
+    this.adapter = adapter;
+    this.prefix = `${namespace}:`;
+    this.ttl = ttl;
+  }
+
+  ttlFor(resource: CacheResource): number {
+    const ttl = typeof this.ttl === "number" ? this.ttl : this.ttl[resource];
+    return typeof ttl === "number" && ttl >= 0 ? ttl : DEFAULT_TTL_MS;
+  }
+
+  /** Exact keys being invalidated; reads treat them as misses meanwhile. */
+  private invalidating = new Map<string, symbol>();
+
+  private key(resource: CacheResource, id?: string): string {
+    return `${this.prefix}${resource}${id ? `:${id}` : ""}`;
+  }
+
+  /**
+   * Fresh entry for `resource`/`id`, or `undefined` on a miss.
+   */
+  async get<T>(
+    resource: CacheResource,
+    id?: string
+  ): Promise<CacheEntry<T> | undefined> {
+    const ttl = this.ttlFor(resource);
+    if (ttl === 0) return undefined;
+    const key = this.key(resource, id);
+    if (this.invalidating.has(key)) return undefined;
+    try {
+      const entry = await this.adapter.get(key);
+      if (!entry) return undefined;
+      if (Date.now() - entry.fetchedAt < ttl) return entry as CacheEntry<T>;
+      await this.adapter.delete(key);
+    } catch {
+      // Treat adapter failures as a miss
+    }
+    return undefined;
+  }
+
+  async set<T>(resource: CacheResource, id: string | undefined, value: T) {
+    if (this.ttlFor(resource) === 0) return;
+    const key = this.key(resource, id);
+    // A fresh value supersedes a pending invalidation
+    this.invalidating.delete(key);
+    try {
+      await this.adapter.set(key, {
+        value,
+        fetchedAt: Date.now(),
+      });
+    } catch {
+      // Caching is best-effort
+    }
+  }
+
+  /**
+   * Remove entries whose key (without the store prefix) matches `pattern`,
+   * e.g. `"info"`, `"product:*"` or a RegExp. No pattern clears the store.
+   *
+   * @returns Number of entries removed; entries the adapter failed to
+   * list or delete are not counted
+   */
+  async invalidate(pattern?: string | RegExp): Promise<number> {
+    // Exact keys skip the listing
+    if (typeof pattern === "string" && !pattern.includes("*")) {
+      const key = `${this.prefix}${pattern}`;
+      // The entry is gone for readers right away. The adapter read comes
+      // before the delete, or a fast delete would make the count 0.
+      const token = Symbol(key);
+      this.invalidating.set(key, token);
+      try {
+        const existing = await this.adapter.get(key);
+        if (this.invalidating.get(key) === token) {
+          await this.adapter.delete(key);
+        }
+        return existing ? 1 : 0;
+      } catch {
+        return 0;
+      } finally {
+        if (this.invalidating.get(key) === token) {
+          this.invalidating.delete(key);
+        }
+      }
+    }
+    const matcher = pattern === undefined ? null : patternToRegExp(pattern);
+    let keys: string[];
+    try {
+      keys = await this.adapter.keys(this.prefix);
+    } catch {
+      return 0;
+    }
+    let removed = 0;
+    for (const key of keys) {
+      const local = key.slice(this.prefix.length);
+      if (matcher && !matcher.test(local)) continue;
+      try {
+        await this.adapter.delete(key);
+        removed += 1;
+      } catch {
+        // Leave the entry to expire by TTL
+      }
+    }
+    return removed;
+  }
+}
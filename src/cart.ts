@@ -0,0 +1,490 @@
+import type { CartDtoContext } from "./dto/cart.dto";
+import { cartDto, shippingRateDto } from "./dto/cart.dto";
+import {
+  httpErrorFromResponse,
+  ShippingDestinationError,
+  ShippingRatesTimeoutError,
+  UpstreamHttpError,
+} from "./errors";
+import type {
+  Cart,
+  ShippingRate,
+  ShopifyCart,
+  ShopifyShippingRate,
+} from "./types";
+import { CookieJar } from "./utils/cookies";
+import { rateLimitedFetch } from "./utils/rate-limit";
+import type { Fetcher } from "./utils/transport";
+
+/**
+ * A variant to add with `cart.add()`.
+ */
+export type CartAddItem = {
+  variantId: string | number;
+  /** Defaults to 1. */
+  quantity?: number;
+  /** Line item properties, e.g. engraving text. */
+  properties?: Record<string, string>;
+  sellingPlanId?: string | number;
+};
+
+/**
+ * Line to change with `cart.change()`, by line item `key` or 1-based `line`.
+ */
+export type CartChangeParams = (
+  | { key: string; line?: never }
+  | { line: number; key?: never }
+) & {
+  /** New quantity; 0 removes the line. */
+  quantity: number;
+  properties?: Record<string, string>;
+};
+
+export type CartUpdateParams = {
+  /** New quantities keyed by variant id; 0 removes the variant. */
+  updates?: Record<string, number>;
+  note?: string;
+  attributes?: Record<string, string>;
+};
+
+export type ShippingRatesParams = {
+  /**
+   * Variants to quote, added to a separate throwaway cart. When omitted,
+   * the session cart is quoted.
+   */
+  items?: CartAddItem[];
+  /** Country name or ISO code, e.g. `"Canada"` or `"CA"`. */
+  country: string;
+  province?: string;
+  zip?: string;
+  /** Give up after this long (default: 30 000 ms). */
+  timeoutMs?: number;
+  /** Delay between polls of the async endpoint (default: 500 ms). */
+  pollIntervalMs?: number;
+  signal?: AbortSignal;
+};
+
+const DEFAULT_SHIPPING_TIMEOUT_MS = 30_000;
+const DEFAULT_SHIPPING_POLL_MS = 500;
+
+/**
+ * Interface for Ajax Cart API operations
+ */
+export interface CartOperations {
+  /**
+   * Fetches the current cart (`/cart.js`).
+   */
+  get(): Promise<Cart>;
+
+  /**
+   * Adds one or more variants to the cart (`/cart/add.js`).
+   */
+  add(items: CartAddItem | CartAddItem[]): Promise<Cart>;
+
+  /**
+   * Sets the quantity or properties of one cart line (`/cart/change.js`).
+   */
+  change(params: CartChangeParams): Promise<Cart>;
+
+  /**
+   * Sets quantities by variant id, the cart note or attributes (`/cart/update.js`).
+   */
+  update(params: CartUpdateParams): Promise<Cart>;
+
+  /**
+   * Removes every line from the cart (`/cart/clear.js`).
+   */
+  clear(): Promise<Cart>;
+
+  /**
+   * Quotes shipping for a cart and destination through
+   * `/cart/prepare_shipping_rates.json` and `/cart/async_shipping_rates.json`.
+   */
+  shippingRates(params: ShippingRatesParams): Promise<ShippingRate[]>;
+
+  /**
+   * Forgets the session cookies, so the next call starts a new, empty cart.
+   */
+  reset(): void;
+}
+
+export type CartContext = CartDtoContext & {
+  baseUrl: string;
+  fetcher?: Fetcher;
+};
+
+function assertQuantity(quantity: number, allowZero: boolean): void {
+  if (
+    !Number.isInteger(quantity) ||
+    quantity < 0 ||
+    (!allowZero && quantity === 0)
+  ) {
+    throw new Error(
+      allowZero
+        ? "Quantity must be a non-negative integer"
+        : "Quantity must be a positive integer"
+    );
+  }
+}
+
+/**
+ * `/cart/add.js` body for one or more items; validates ids and quantities.
+ */
+export function addItemsBody(items: CartAddItem | CartAddItem[]) {
+  const list = Array.isArray(items) ? items : [items];
+  if (list.length === 0) {
+    throw new Error("Items array cannot be empty");
+  }
+  for (const item of list) {
+    if (!item.variantId) {
+      throw new Error("Each item must have a variantId");
+    }
+    assertQuantity(item.quantity ?? 1, false);
+  }
+  return {
+    items: list.map((item) => ({
+      id: Number(item.variantId),
+      quantity: item.quantity ?? 1,
+      ...(item.properties ? { properties: item.properties } : {}),
+      ...(item.sellingPlanId
+        ? { selling_plan: Number(item.sellingPlanId) }
+        : {}),
+    })),
+  };
+}
+
+/**
+ * Resolves after `ms`, or rejects with the abort reason when `signal` fires.
+ */
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Typed error for a `422` from the shipping endpoints: address problems
+ * (`{ zip: ["is not valid for Canada"] }`) become
+ * {@link ShippingDestinationError}, anything else (e.g. an empty cart) an
+ * {@link UpstreamHttpError} with the store's message.
+ */
+async function shippingError(
+  response: Response,
+  url: string
+): Promise<UpstreamHttpError> {
+  const body = (await response.json().catch(() => null)) as Record<
+    string,
+    unknown
+  > | null;
+  const errors: Record<string, string[]> = {};
+  for (const [field, value] of Object.entries(body ?? {})) {
+    const messages = Array.isArray(value) ? value : [value];
+    errors[field] = messages.filter((m): m is string => typeof m === "string");
+  }
+  const { error, ...fields } = errors;
+  if (Object.keys(fields).length > 0) {
+    return new ShippingDestinationError(url, fields);
+  }
+  if (error?.length) {
+    return new UpstreamHttpError(response.status, url, {
+      statusText: response.statusText,
+      message: `HTTP ${response.status}: ${error.join(", ")}`,
+    });
+  }
+  return httpErrorFromResponse(response, url);
+}
+
+/**
+ * Creates cart operations for a store instance. The cart lives in the
+ * session cookies Shopify sets, kept in a cookie jar owned by these
+ * operations.
+ */
+export function createCartOperations(context: CartContext): CartOperations {
+  const { baseUrl } = context;
+  const fetcher = context.fetcher ?? rateLimitedFetch;
+  const jar = new CookieJar();
+
+  async function send(
+    path: string,
+    init: {
+      method?: "GET" | "POST";
+      body?: Record<string, unknown>;
+      cookies?: CookieJar;
+      rateLimitClass?: string;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<Response> {
+    const cookies = init.cookies ?? jar;
+    const response = await fetcher(`${baseUrl}${path}`, {
+      method: init.method ?? (init.body ? "POST" : "GET"),
+      headers: cookies.apply({
+        accept: "application/json",
+        ...(init.body ? { "content-type": "application/json" } : {}),
+      }),
+      body: init.body ? JSON.stringify(init.body) : undefined,
+      rateLimitClass: init.rateLimitClass ?? "cart:ajax",
+      signal: init.signal,
+    });
+    cookies.remember(response);
+    return response;
+  }
+
+  async function request(
+    path: string,
+    body?: Record<string, unknown>,
+    cookies?: CookieJar,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const url = `${baseUrl}${path}`;
+    const response = await send(path, { body, cookies, signal });
+    if (response.ok) return response;
+
+    // Cart errors (sold out, quantity limits) explain themselves in the body
+    if (response.status === 422) {
+      const error = (await response.json().catch(() => ({}))) as {
+        description?: unknown;
+      };
+      if (typeof error.description === "string" && error.description) {
+        throw new UpstreamHttpError(response.status, url, {
+          statusText: response.statusText,
+          message: `HTTP 422: ${error.description}`,
+        });
+      }
+    }
+    throw httpErrorFromResponse(response, url);
+  }
+
+  async function cart(response: Response): Promise<Cart> {
+    return cartDto((await response.json()) as ShopifyCart, context);
+  }
+
+  const operations: CartOperations = {
+    /**
+     * Fetches the current cart.
+     *
+     * @returns {Promise<Cart>} The cart, empty for a new session
+     *
+     * @throws {UpstreamHttpError} When the store answers with a non-2xx status
+     */
+    get: async () => cart(await request("cart.js")),
+
+    /**
+     * Adds one or more variants to the cart.
+     *
+     * @param items - Variant id, quantity (default 1), properties and selling plan per item
+     *
+     * @returns {Promise<Cart>} The cart after the add
+     *
+     * @throws {Error} When no items are given or a quantity is not a positive integer
+     * @throws {UpstreamHttpError} When the store rejects the add; sold-out and quantity errors carry the store's message
+     *
+     * @example
+     * ```typescript
+     * const cart = await shop.cart.add({ variantId: '123', quantity: 2 });
+     * console.log(cart.itemCount, cart.totalPriceFormatted);
+     * ```
+     */
+    add: async (items) => {
+      await request("cart/add.js", addItemsBody(items));
+      // add.js answers with the added lines only
+      return operations.get();
+    },
+
+    /**
+     * Sets the quantity or properties of one cart line.
+     *
+     * @param params - Line `key` or 1-based `line`, new `quantity` (0 removes it) and optional `properties`
+     *
+     * @returns {Promise<Cart>} The cart after the change
+     *
+     * @throws {Error} When neither `key` nor `line` is given or the quantity is invalid
+     * @throws {UpstreamHttpError} When the store rejects the change
+     */
+    change: async (params) => {
+      const line = params.line;
+      if (!params.key && !(Number.isInteger(line) && (line ?? 0) > 0)) {
+        throw new Error("Provide a line item key or a positive line number");
+      }
+      assertQuantity(params.quantity, true);
+      return cart(
+        await request("cart/change.js", {
+          ...(params.key ? { id: params.key } : { line }),
+          quantity: params.quantity,
+          ...(params.properties ? { properties: params.properties } : {}),
+        })
+      );
+    },
+
+    /**
+     * Sets quantities by variant id, the cart note or cart attributes.
+     *
+     * @param params - `updates` (variant id → quantity), `note`, `attributes`
+     *
+     * @returns {Promise<Cart>} The cart after the update
+     *
+     * @throws {Error} When nothing is given to update or a quantity is invalid
+     * @throws {UpstreamHttpError} When the store rejects the update
+     */
+    update: async ({ updates, note, attributes }) => {
+      if (!updates && note === undefined && !attributes) {
+        throw new Error("Provide updates, note or attributes");
+      }
+      for (const quantity of Object.values(updates ?? {})) {
+        assertQuantity(quantity, true);
+      }
+      return cart(
+        await request("cart/update.js", {
+          ...(updates ? { updates } : {}),
+          ...(note !== undefined ? { note } : {}),
+          ...(attributes ? { attributes } : {}),
+        })
+      );
+    },
+
+    /**
+     * Removes every line from the cart. The note and attributes are kept.
+     *
+     * @returns {Promise<Cart>} The empty cart
+     */
+    clear: async () => cart(await request("cart/clear.js", {})),
+
+    /**
+     * Quotes shipping for a cart and destination. Shopify calculates rates
+     * asynchronously: the destination is submitted once, then the rates
+     * endpoint is polled until they are ready.
+     *
+     * @param params - `country` (required), `province`, `zip`, optional `items` to quote instead of the session cart, `timeoutMs`, `pollIntervalMs`, `signal`
+     *
+     * @returns {Promise<ShippingRate[]>} Available rates; empty when the store offers none for the cart
+     *
+     * @throws {Error} When `country` is missing or an item or timing option is invalid
+     * @throws {ShippingDestinationError} When the store does not ship to the destination or the address is invalid
+     * @throws {ShippingRatesTimeoutError} When the rates are not ready within `timeoutMs`
+     * @throws {UpstreamHttpError} When the store answers with another error
+     *
+     * @example
+     * ```typescript
+     * const rates = await shop.cart.shippingRates({
+     *   items: [{ variantId: '123', quantity: 1 }],
+     *   country: 'Canada',
+     *   province: 'Ontario',
+     *   zip: 'M5V 2T6',
+     * });
+     * // [{ name: 'Standard', price: 1500, currency: 'CAD', deliveryDays: { min: 3, max: 5 }, ... }]
+     * ```
+     */
+    shippingRates: async ({
+      items,
+      country,
+      province,
+      zip,
+      timeoutMs = DEFAULT_SHIPPING_TIMEOUT_MS,
+      pollIntervalMs = DEFAULT_SHIPPING_POLL_MS,
+      signal,
+    }) => {
+      if (!country?.trim()) {
+        throw new Error("Country is required");
+      }
+      if (!(timeoutMs > 0) || !(pollIntervalMs > 0)) {
+        throw new Error("timeoutMs and pollIntervalMs must be positive");
+      }
+      const body = items ? addItemsBody(items) : undefined;
+      const query = new URLSearchParams({
+        "shipping_address[country]": country.trim(),
+        "shipping_address[province]": province?.trim() ?? "",
+        "shipping_address[zip]": zip?.trim() ?? "",
+      }).toString();
+      const ratesPath = `cart/async_shipping_rates.json?${query}`;
+      const ratesUrl = `${baseUrl}${ratesPath}`;
+
+      // Every step, the throwaway cart included, gets what is left of
+      // `timeoutMs` and stops early when `signal` aborts
+      const deadline = Date.now() + timeoutMs;
+      const timedOut = () => new ShippingRatesTimeoutError(ratesUrl, timeoutMs);
+      const withinDeadline = async <T>(
+        run: (signal: AbortSignal) => Promise<T>
+      ): Promise<T> => {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) throw timedOut();
+        const timeout = AbortSignal.timeout(remaining);
+        try {
+          return await run(
+            signal ? AbortSignal.any([signal, timeout]) : timeout
+          );
+        } catch (error) {
+          if (timeout.aborted && !signal?.aborted) throw timedOut();
+          throw error;
+        }
+      };
+
+      // Quote explicit items in a throwaway cart so the session cart is untouched
+      const cookies = body ? new CookieJar() : jar;
+      if (body) {
+        await withinDeadline((step) =>
+          request("cart/add.js", body, cookies, step)
+        );
+      }
+
+      const shipping = { cookies, rateLimitClass: "cart:shipping" };
+      const preparePath = `cart/prepare_shipping_rates.json?${query}`;
+      const prepared = await withinDeadline((step) =>
+        send(preparePath, { ...shipping, method: "POST", signal: step })
+      );
+      if (prepared.status === 422) {
+        throw await shippingError(prepared, `${baseUrl}${preparePath}`);
+      }
+      if (!prepared.ok) {
+        throw httpErrorFromResponse(prepared, `${baseUrl}${preparePath}`);
+      }
+
+      for (;;) {
+        const response = await withinDeadline((step) =>
+          send(ratesPath, { ...shipping, signal: step })
+        );
+        if (response.status === 422) {
+          throw await shippingError(response, ratesUrl);
+        }
+        if (!response.ok) throw httpErrorFromResponse(response, ratesUrl);
+
+        // 202 or a null body while the rates are still being calculated
+        const result =
+          response.status === 202
+            ? null
+            : ((await response.json().catch(() => null)) as {
+                shipping_rates?: ShopifyShippingRate[];
+              } | null);
+        if (Array.isArray(result?.shipping_rates)) {
+          const rates = result.shipping_rates;
+          const currency =
+            cookies.get("cart_currency") ??
+            (rates.every((rate) => rate.currency)
+              ? ""
+              : (
+                  await cart(
+                    await withinDeadline((step) =>
+                      request("cart.js", undefined, cookies, step)
+                    )
+                  )
+                ).currency);
+          return rates.map((rate) => shippingRateDto(rate, currency));
+        }
+
+        if (Date.now() + pollIntervalMs > deadline) throw timedOut();
+        await withinDeadline((step) => wait(pollIntervalMs, step));
+      }
+    },
+
+    reset: () => jar.clear(),
+  };
+
+  return operations;
+}
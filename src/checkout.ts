@@ -1,7 +1,158 @@
+import type { DiscountOperations } from "./discounts";
+import { createDiscountOperations } from "./discounts";
+import { httpErrorFromResponse } from "./errors";
+import { inferVariantInventory, parseCartLimit } from "./inventory";
+import type { ShopifySingleProduct } from "./types";
+import { CookieJar } from "./utils/cookies";
+import { rateLimitedFetch } from "./utils/rate-limit";
+import type { Fetcher } from "./utils/transport";
+
+/**
+ * A cart line for `checkout.buildCartPermalink()`.
+ */
+export type CartPermalinkItem = {
+  /** Numeric variant id. */
+  variantId: string | number;
+  /** Defaults to 1. */
+  quantity?: number;
+  /** Subscription selling plan for this line. */
+  sellingPlanId?: string | number;
+  /** Line item properties, e.g. engraving text. */
+  properties?: Record<string, string>;
+};
+
+export type CartPermalinkParams = {
+  items: CartPermalinkItem[];
+  /** Discount code; several codes are joined with commas. */
+  discount?: string | string[];
+  /** Order note. */
+  note?: string;
+  /** Cart attributes, sent as `attributes[name]=value`. */
+  attributes?: Record<string, string>;
+  /** Referral code (`ref`). */
+  ref?: string;
+  /** UTM parameters, sent as `utm_source`, `utm_medium`, ... */
+  utm?: Partial<
+    Record<"source" | "medium" | "campaign" | "term" | "content", string>
+  >;
+  /** Checkout language, e.g. `"fr"`. */
+  locale?: string;
+  /** Storefront API access token, attributing the order to its sales channel. */
+  accessToken?: string;
+  /** `"shop_pay"` sends the buyer straight to Shop Pay. */
+  payment?: "shop_pay";
+  /** Land on the cart page instead of checkout (default: `"checkout"`). */
+  target?: "checkout" | "cart";
+  /**
+   * Check every line against the store by adding it to a throwaway cart:
+   * the variant exists, is available, and the quantity can be sold.
+   */
+  verify?: boolean;
+  signal?: AbortSignal;
+};
+
+export type CartPermalinkLine = {
+  variantId: string;
+  quantity: number;
+  sellingPlanId: string | null;
+  properties: Record<string, string>;
+};
+
+export type CartPermalinkCheckStatus =
+  | "ok"
+  | "not_found"
+  | "sold_out"
+  | "insufficient_quantity"
+  | "rejected";
+
+export type CartPermalinkCheck = {
+  variantId: string;
+  quantity: number;
+  status: CartPermalinkCheckStatus;
+  /** Sellable quantity, when the store revealed it. */
+  available: number | null;
+  /** The store's message for a failed check. */
+  message: string | null;
+};
+
+/**
+ * A built cart permalink, with its parts for logging.
+ */
+export type CartPermalink = {
+  url: string;
+  /**
+   * `permalink` is the `/cart/{id}:{qty}` form; `add` is `/cart/add` with
+   * indexed items, used when a line has a selling plan or properties.
+   */
+  format: "permalink" | "add";
+  target: "checkout" | "cart";
+  lines: CartPermalinkLine[];
+  /** Query parameters besides the lines, e.g. `{ discount: "SAVE10" }`. */
+  params: Record<string, string>;
+  /** Per-line results when `verify` was set, otherwise `null`. */
+  verification: CartPermalinkCheck[] | null;
+  /** Every line passed verification (`true` when not verified). */
+  valid: boolean;
+};
+
+/**
+ * A line to check with `checkout.validate()`. Accepts the item shapes of
+ * both `createUrl` (`productVariantId`) and `buildCartPermalink`
+ * (`variantId`).
+ */
+export type CheckoutValidateItem = (
+  | { variantId: string | number; productVariantId?: never }
+  | { productVariantId: string; variantId?: never }
+) & {
+  /** Defaults to 1. */
+  quantity?: number | string;
+  /** Product handle; saves resolving it from the variant id. */
+  handle?: string;
+  /** Selling plan the line will be bought with, if any. */
+  sellingPlanId?: string | number;
+};
+
+export type CheckoutLineStatus =
+  | "ok"
+  | "missing"
+  | "unavailable"
+  | "quantity_limited"
+  | "requires_selling_plan"
+  | "price_changed";
+
+export type CheckoutLineValidation = {
+  variantId: string;
+  quantity: number;
+  /** The most severe problem, or `"ok"`. */
+  status: CheckoutLineStatus;
+  /** Every problem found, most severe first; empty when the line is fine. */
+  issues: Exclude<CheckoutLineStatus, "ok">[];
+  handle: string | null;
+  /** Product and variant title, e.g. `"Tee - Blue / M"`. */
+  title: string | null;
+  /** Current price in cents. */
+  price: number | null;
+  /** Price the caller expected, in cents. */
+  expectedPrice: number | null;
+  /** Sellable quantity, when the store reports it. */
+  availableQuantity: number | null;
+};
+
+export type CheckoutValidation = {
+  /** Every line is `"ok"`. */
+  valid: boolean;
+  items: CheckoutLineValidation[];
+};
+
 /**
  * Interface for checkout operations
  */
 export interface CheckoutOperations {
+  /**
+   * Discount code probing (opt-in) and advertised code discovery.
+   */
+  discounts: DiscountOperations;
+
   /**
    * Creates a Shopify checkout URL with pre-filled customer information and cart items.
    */
@@ -19,13 +170,206 @@ export interface CheckoutOperations {
       phone: string;
     };
   }): string;
+
+  /**
+   * Builds a cart permalink with discounts, attributes, notes, tracking
+   * parameters and per-line selling plans and properties.
+   */
+  buildCartPermalink(params: CartPermalinkParams): Promise<CartPermalink>;
+
+  /**
+   * Checks that variants exist, are available in the requested quantity
+   * and still cost what the caller expects, before sending a buyer to
+   * checkout.
+   */
+  validate(
+    items: CheckoutValidateItem[],
+    options?: { expectedPrices?: Record<string, number> }
+  ): Promise<CheckoutValidation>;
+}
+
+const NUMERIC_ID = /^\d+$/;
+
+function normalizeLines(items: CartPermalinkItem[]): CartPermalinkLine[] {
+  if (!items || items.length === 0) {
+    throw new Error("Items array cannot be empty");
+  }
+  return items.map((item) => {
+    const variantId = String(item.variantId ?? "").trim();
+    if (!NUMERIC_ID.test(variantId)) {
+      throw new Error(`Variant ID must be numeric: ${String(item.variantId)}`);
+    }
+    const quantity = item.quantity ?? 1;
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error("Quantity must be a positive integer");
+    }
+    const sellingPlanId =
+      item.sellingPlanId === undefined ? null : String(item.sellingPlanId);
+    if (sellingPlanId !== null && !NUMERIC_ID.test(sellingPlanId)) {
+      throw new Error(`Selling plan ID must be numeric: ${sellingPlanId}`);
+    }
+    return {
+      variantId,
+      quantity,
+      sellingPlanId,
+      properties: { ...item.properties },
+    };
+  });
+}
+
+function permalinkParams(params: CartPermalinkParams): Record<string, string> {
+  const query: Record<string, string> = {};
+  const discounts = (
+    Array.isArray(params.discount) ? params.discount : [params.discount]
+  )
+    .map((code) => code?.trim())
+    .filter(Boolean);
+  if (discounts.length > 0) query.discount = discounts.join(",");
+  if (params.note) query.note = params.note;
+  for (const [name, value] of Object.entries(params.attributes ?? {})) {
+    query[`attributes[${name}]`] = value;
+  }
+  if (params.ref) query.ref = params.ref;
+  for (const [name, value] of Object.entries(params.utm ?? {})) {
+    if (value) query[`utm_${name}`] = value;
+  }
+  if (params.locale) query.locale = params.locale;
+  if (params.accessToken) query.access_token = params.accessToken;
+  if (params.payment) query.payment = params.payment;
+  return query;
 }
 
 /**
  * Creates checkout operations for a store instance
  */
-export function createCheckoutOperations(baseUrl: string): CheckoutOperations {
+export function createCheckoutOperations(
+  baseUrl: string,
+  fetcher: Fetcher = rateLimitedFetch,
+  features: { discountProbe?: boolean } = {}
+): CheckoutOperations {
+  /**
+   * Adds each line on its own to a throwaway cart and reads the store's
+   * verdict: `404` for unknown variants, `422` with a message for sold-out
+   * variants and quantity limits.
+   */
+  async function verifyLines(
+    lines: CartPermalinkLine[],
+    signal?: AbortSignal
+  ): Promise<CartPermalinkCheck[]> {
+    const jar = new CookieJar();
+    const post = async (path: string, body: unknown) => {
+      const response = await fetcher(`${baseUrl}${path}`, {
+        method: "POST",
+        headers: jar.apply({
+          "content-type": "application/json",
+          accept: "application/json",
+        }),
+        body: JSON.stringify(body),
+        rateLimitClass: "checkout:verify",
+        signal,
+      });
+      jar.remember(response);
+      return response;
+    };
+
+    const checks: CartPermalinkCheck[] = [];
+    for (const line of lines) {
+      const response = await post("cart/add.js", {
+        items: [
+          {
+            id: Number(line.variantId),
+            quantity: line.quantity,
+            ...(line.sellingPlanId
+              ? { selling_plan: Number(line.sellingPlanId) }
+              : {}),
+          },
+        ],
+      });
+      const base = { variantId: line.variantId, quantity: line.quantity };
+      if (response.ok) {
+        await post("cart/clear.js", {});
+        checks.push({ ...base, status: "ok", available: null, message: null });
+        continue;
+      }
+      if (response.status !== 404 && response.status !== 422) {
+        throw httpErrorFromResponse(response, `${baseUrl}cart/add.js`);
+      }
+      const error = (await response.json().catch(() => ({}))) as {
+        description?: unknown;
+      };
+      const message =
+        typeof error.description === "string" ? error.description : null;
+      if (response.status === 404) {
+        checks.push({ ...base, status: "not_found", available: null, message });
+        continue;
+      }
+      const available = message ? parseCartLimit(message) : null;
+      checks.push({
+        ...base,
+        status:
+          available === 0
+            ? "sold_out"
+            : available !== null
+              ? "insufficient_quantity"
+              : "rejected",
+        available,
+        message,
+      });
+    }
+    return checks;
+  }
+
+  /**
+   * Handle of the product a variant belongs to, from the
+   * `/variants/{id}` → `/products/{handle}?variant={id}` redirect.
+   */
+  async function handleForVariant(variantId: string): Promise<string | null> {
+    const url = `${baseUrl}variants/${variantId}`;
+    const handleFrom = (location: string | null | undefined) =>
+      location?.match(/\/products\/([^/?#]+)/)?.[1] ?? null;
+
+    const response = await fetcher(url, {
+      method: "HEAD",
+      redirect: "manual",
+      rateLimitClass: "checkout:validate",
+    });
+    if (response.status >= 300 && response.status < 400) {
+      return handleFrom(response.headers.get("location"));
+    }
+    if (response.status === 404) return null;
+    // Browsers hide manual redirects; follow it and read the final URL
+    if (response.type === "opaqueredirect" || response.status === 0) {
+      const followed = await fetcher(url, {
+        method: "HEAD",
+        rateLimitClass: "checkout:validate",
+      });
+      if (followed.status === 404) return null;
+      if (!followed.ok) throw httpErrorFromResponse(followed, url);
+      return handleFrom(followed.url);
+    }
+    if (!response.ok) throw httpErrorFromResponse(response, url);
+    return handleFrom(response.url);
+  }
+
+  async function productJson(
+    handle: string
+  ): Promise<ShopifySingleProduct | null> {
+    const url = `${baseUrl}products/${encodeURIComponent(handle)}.js`;
+    const response = await fetcher(url, {
+      rateLimitClass: "checkout:validate",
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) throw httpErrorFromResponse(response, url);
+    return (await response.json()) as ShopifySingleProduct;
+  }
+
   return {
+    discounts: createDiscountOperations({
+      baseUrl,
+      fetcher,
+      probe: features.discountProbe === true,
+    }),
+
     /**
      * Creates a Shopify checkout URL with pre-filled customer information and cart items.
      *
@@ -136,5 +480,216 @@ export function createCheckoutOperations(baseUrl: string): CheckoutOperations {
 
       return `${baseUrl}cart/${cartPath}?${params.toString()}`;
     },
+
+    /**
+     * Builds a cart permalink. Lines become `/cart/{id}:{qty},...`; when a
+     * line has a selling plan or properties, the link uses `/cart/add` with
+     * indexed items instead and redirects to checkout (or the cart) with
+     * the other parameters.
+     *
+     * @param params - Items plus optional `discount`, `note`, `attributes`, `ref`, `utm`, `locale`, `accessToken`, `payment`, `target`, `verify`
+     *
+     * @returns {Promise<CartPermalink>} The URL and its parts; with `verify`, the per-line check results
+     *
+     * @throws {Error} When there are no items, or an id or quantity is invalid
+     * @throws {UpstreamHttpError} When verification gets an unexpected response
+     *
+     * @example
+     * ```typescript
+     * const { url } = await shop.checkout.buildCartPermalink({
+     *   items: [{ variantId: 123, quantity: 2 }],
+     *   discount: 'WELCOME10',
+     *   utm: { source: 'newsletter' },
+     * });
+     * ```
+     */
+    buildCartPermalink: async (params) => {
+      const lines = normalizeLines(params.items);
+      const query = permalinkParams(params);
+      const target = params.target ?? "checkout";
+      const needsAdd = lines.some(
+        (line) =>
+          line.sellingPlanId !== null || Object.keys(line.properties).length > 0
+      );
+
+      let url: string;
+      if (!needsAdd) {
+        const search = new URLSearchParams(query);
+        if (target === "cart") search.set("storefront", "true");
+        const path = lines
+          .map((line) => `${line.variantId}:${line.quantity}`)
+          .join(",");
+        const qs = search.toString();
+        url = `${baseUrl}cart/${path}${qs ? `?${qs}` : ""}`;
+      } else {
+        const search = new URLSearchParams();
+        lines.forEach((line, i) => {
+          search.set(`items[${i}][id]`, line.variantId);
+          search.set(`items[${i}][quantity]`, String(line.quantity));
+          if (line.sellingPlanId) {
+            search.set(`items[${i}][selling_plan]`, line.sellingPlanId);
+          }
+          for (const [name, value] of Object.entries(line.properties)) {
+            search.set(`items[${i}][properties][${name}]`, value);
+          }
+        });
+        const qs = new URLSearchParams(query).toString();
+        search.set("return_to", `/${target}${qs ? `?${qs}` : ""}`);
+        url = `${baseUrl}cart/add?${search.toString()}`;
+      }
+
+      const verification = params.verify
+        ? await verifyLines(lines, params.signal)
+        : null;
+      return {
+        url,
+        format: needsAdd ? "add" : "permalink",
+        target,
+        lines,
+        params: query,
+        verification,
+        valid: verification?.every((check) => check.status === "ok") ?? true,
+      };
+    },
+
+    /**
+     * Checks each line against the product endpoints: the variant still
+     * exists, is available in the requested quantity, needs no selling
+     * plan the line lacks, and costs the expected price. Each product is
+     * fetched once; handles not given are resolved from the variant id.
+     *
+     * @param items - Lines with `variantId` (or `productVariantId`), `quantity`, and optionally `handle` and `sellingPlanId`
+     * @param options - `expectedPrices`: price in cents by variant id
+     *
+     * @returns {Promise<CheckoutValidation>} Per-line status and details, and whether every line is fine
+     *
+     * @throws {Error} When there are no items, or an id or quantity is invalid
+     * @throws {UpstreamHttpError} When the store answers with an unexpected status
+     *
+     * @example
+     * ```typescript
+     * const result = await shop.checkout.validate(
+     *   [{ variantId: '123', quantity: 2 }],
+     *   { expectedPrices: { '123': 1999 } }
+     * );
+     * for (const line of result.items) {
+     *   if (line.status === 'price_changed') console.log(line.expectedPrice, '→', line.price);
+     * }
+     * ```
+     */
+    validate: async (items, options) => {
+      if (!items || items.length === 0) {
+        throw new Error("Items array cannot be empty");
+      }
+      const lines = items.map((item) => {
+        const [line] = normalizeLines([
+          {
+            variantId: item.variantId ?? item.productVariantId ?? "",
+            quantity:
+              item.quantity === undefined
+                ? undefined
+                : typeof item.quantity === "string"
+                  ? Number(item.quantity)
+                  : item.quantity,
+            sellingPlanId: item.sellingPlanId,
+          },
+        ]);
+        return { ...line!, handle: item.handle?.trim() || null };
+      });
+
+      const handles = new Map<string, Promise<string | null>>();
+      const products = new Map<string, Promise<ShopifySingleProduct | null>>();
+      const once = <T>(
+        cache: Map<string, Promise<T>>,
+        key: string,
+        load: () => Promise<T>
+      ) => {
+        let pending = cache.get(key);
+        if (!pending) {
+          pending = load();
+          cache.set(key, pending);
+        }
+        return pending;
+      };
+
+      const results: CheckoutLineValidation[] = [];
+      for (const line of lines) {
+        const handle =
+          line.handle ??
+          (await once(handles, line.variantId, () =>
+            handleForVariant(line.variantId)
+          ));
+        const product = handle
+          ? await once(products, handle, () => productJson(handle))
+          : null;
+        const variant = product?.variants?.find(
+          (v) => String(v.id) === line.variantId
+        );
+        const expected = options?.expectedPrices?.[line.variantId];
+        const expectedPrice = typeof expected === "number" ? expected : null;
+
+        if (!product || !variant) {
+          results.push({
+            variantId: line.variantId,
+            quantity: line.quantity,
+            status: "missing",
+            issues: ["missing"],
+            handle: product?.handle ?? handle,
+            title: null,
+            price: null,
+            expectedPrice,
+            availableQuantity: null,
+          });
+          continue;
+        }
+
+        // `.js` endpoints report prices in cents
+        const price =
+          typeof variant.price === "number"
+            ? variant.price
+            : Math.round(Number.parseFloat(variant.price) * 100);
+        const inventory = inferVariantInventory(variant);
+        const availableQuantity = inventory.unlimited
+          ? null
+          : inventory.quantity;
+
+        const issues: Exclude<CheckoutLineStatus, "ok">[] = [];
+        if (!inventory.available) issues.push("unavailable");
+        else if (
+          availableQuantity !== null &&
+          availableQuantity < line.quantity
+        ) {
+          issues.push("quantity_limited");
+        }
+        const requiresPlan =
+          variant.requires_selling_plan ?? product.requires_selling_plan;
+        if (requiresPlan && !line.sellingPlanId) {
+          issues.push("requires_selling_plan");
+        }
+        if (expectedPrice !== null && expectedPrice !== price) {
+          issues.push("price_changed");
+        }
+
+        results.push({
+          variantId: line.variantId,
+          quantity: line.quantity,
+          status: issues[0] ?? "ok",
+          issues,
+          handle: product.handle,
+          title:
+            variant.title && variant.title !== "Default Title"
+              ? `${product.title} - ${variant.title}`
+              : product.title,
+          price,
+          expectedPrice,
+          availableQuantity: inventory.available ? availableQuantity : 0,
+        });
+      }
+
+      return {
+        valid: results.every((line) => line.status === "ok"),
+        items: results,
+      };
+    },
   };
 }
@@ -1,5 +1,10 @@
 import { unique } from "remeda";
-import type { ShopInfo } from "../store";
+import {
+  httpErrorFromResponse,
+  NotShopifyStoreError,
+  ShopNotFoundError,
+} from "../errors";
+import type { ShopInfo, StoreStatus } from "../store";
 import type { EnhancedProductSeo, JsonLdEntry } from "../types";
 import { detectShopCountry } from "../utils/detect-country";
 import {
@@ -8,6 +13,7 @@ import {
   sanitizeDomain,
 } from "../utils/func";
 import { rateLimitedFetch } from "../utils/rate-limit";
+import type { Fetcher } from "../utils/transport";
 
 /**
  * Normalizes parsed JSON-LD values into a flat list of object entries.
@@ -177,18 +183,46 @@ export async function getSeoForUrl(args: {
   url: string;
   rateLimitClass: string;
   timeoutMs?: number;
+  fetcher?: Fetcher;
 }): Promise<EnhancedProductSeo> {
-  const response = await rateLimitedFetch(args.url, {
+  const fetcher = args.fetcher ?? rateLimitedFetch;
+  const response = await fetcher(args.url, {
     rateLimitClass: args.rateLimitClass,
     timeoutMs: args.timeoutMs ?? 7000,
   });
   if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+    throw httpErrorFromResponse(response, args.url);
   }
   const html = await response.text();
   return parseSeoFromHtml(html, response.url || args.url);
 }
 
+/**
+ * Shopify serves the storefront password page at `/password` (usually via a
+ * redirect) with a form posting back to it.
+ */
+function isPasswordPage(finalUrl: string | undefined, html: string): boolean {
+  if (finalUrl) {
+    try {
+      if (new URL(finalUrl).pathname.replace(/\/$/, "") === "/password") {
+        return true;
+      }
+    } catch {
+      // Ignore unparsable URLs and fall back to the markup check
+    }
+  }
+  return /<form[^>]+action=["'][^"']*\/password["']/i.test(html);
+}
+
+/**
+ * Shopify's page for closed, frozen or paused shops.
+ */
+function isUnavailablePage(html: string): boolean {
+  return /(this (store|shop) is (currently )?unavailable|store unavailable)/i.test(
+    html
+  );
+}
+
 type Args = {
   baseUrl: string;
   storeDomain: string;
@@ -199,6 +233,7 @@ type Args = {
     validator: (item: T) => Promise<boolean>,
     batchSize?: number
   ) => Promise<T[]>;
+  fetcher?: Fetcher;
 };
 
 /**
@@ -216,13 +251,18 @@ export async function getInfoForShop(
     validateCollectionExists,
     validateLinksInBatches,
   } = args;
+  const fetcher = args.fetcher ?? rateLimitedFetch;
 
-  const response = await rateLimitedFetch(baseUrl, {
+  const response = await fetcher(baseUrl, {
     rateLimitClass: "store:info",
     timeoutMs: 7000,
   });
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+  // Closed and frozen shops answer 402 with an "unavailable" page
+  if (!response.ok && response.status !== 402) {
+    if (response.status === 404 || response.status === 410) {
+      throw new ShopNotFoundError(response.status, baseUrl);
+    }
+    throw httpErrorFromResponse(response, baseUrl);
   }
   const html = await response.text();
 
@@ -244,10 +284,17 @@ export async function getInfoForShop(
     html.includes("Shopify.currency") ||
     html.includes("shopify-section");
 
-  if (!isShopifyStore || !shopifyWalletId) {
-    throw new Error(
-      "The provided URL does not appear to be a valid Shopify store."
-    );
+  // Lock and unavailable pages omit the storefront's wallet meta tag
+  const status: StoreStatus = isPasswordPage(response.url, html)
+    ? "password_protected"
+    : response.status === 402 || (!shopifyWalletId && isUnavailablePage(html))
+      ? "closed"
+      : "open";
+
+  // Password forms and 402s are common outside Shopify too, so every status
+  // needs the Shopify markers; only open storefronts need the wallet tag
+  if (!isShopifyStore || (status === "open" && !shopifyWalletId)) {
+    throw new NotShopifyStoreError(baseUrl);
   }
 
   const getPropertyMetaTag = (property: string) => {
@@ -453,6 +500,7 @@ export async function getInfoForShop(
     },
     country: countryDetection.country,
     currency: countryDetection.currencyCode ?? null,
+    status,
   };
 
   const currencyCode = countryDetection.currencyCode;
@@ -1,5 +1,7 @@
 import { filter, isNonNullish } from "remeda";
+import { createMemoryCache, ResourceCache } from "./cache";
 import { getSeoForUrl } from "./client/get-info";
+import { httpErrorFromResponse } from "./errors";
 import type { ShopInfo } from "./store";
 import type {
   Collection,
@@ -11,9 +13,22 @@ import type {
   ProductOptionsMode,
   ProductResult,
   ShopifyCollection,
+  StreamOptions,
 } from "./types";
 import { formatPrice } from "./utils/func";
 import { rateLimitedFetch } from "./utils/rate-limit";
+import type {
+  CollectionSortBy,
+  FilteredCollectionPage,
+  StorefrontFilterInput,
+} from "./utils/storefront-filters";
+import {
+  buildFilterParams,
+  hasNextPage,
+  parseProductHandles,
+  parseStorefrontFilters,
+} from "./utils/storefront-filters";
+import type { Fetcher } from "./utils/transport";
 
 /**
  * Interface for collection operations
@@ -85,6 +100,40 @@ export interface CollectionOperations {
         columns?: ProductColumnsConfig<C, I, O>;
       }
     ): Promise<ProductResult<C, I, O>[] | null>;
+
+    /**
+     * Streams products from a specific collection, one page at a time.
+     */
+    stream<
+      C extends ProductColumnsMode = "minimal",
+      I extends ProductImagesMode = "minimal",
+      O extends ProductOptionsMode = "minimal",
+    >(
+      collectionHandle: string,
+      options?: StreamOptions & {
+        currency?: CurrencyCode;
+        columns?: ProductColumnsConfig<C, I, O>;
+      }
+    ): AsyncIterable<ProductResult<C, I, O>>;
+
+    /**
+     * Fetches one page of a collection filtered and sorted by the storefront.
+     */
+    filtered<
+      C extends ProductColumnsMode = "minimal",
+      I extends ProductImagesMode = "minimal",
+      O extends ProductOptionsMode = "minimal",
+    >(
+      collectionHandle: string,
+      options?: {
+        filters?: StorefrontFilterInput;
+        sortBy?: CollectionSortBy;
+        page?: number;
+        currency?: CurrencyCode;
+        columns?: ProductColumnsConfig<C, I, O>;
+      }
+    ): Promise<FilteredCollectionPage<ProductResult<C, I, O>> | null>;
+
     /**
      * Fetches all product slugs from a specific collection.
      */
@@ -113,25 +162,22 @@ export function createCollectionOperations(
       page?: number;
       limit?: number;
       columns?: ProductColumnsConfig<C, I, O>;
+      signal?: AbortSignal;
     }
   ) => Promise<ProductResult<C, I, O>[] | null>,
   getStoreInfo: () => Promise<ShopInfo>,
-  findCollection: (handle: string) => Promise<Collection | null>
+  findCollection: (handle: string) => Promise<Collection | null>,
+  findProduct: <
+    C extends ProductColumnsMode = "minimal",
+    I extends ProductImagesMode = "minimal",
+    O extends ProductOptionsMode = "minimal",
+  >(
+    handle: string,
+    options?: { columns?: ProductColumnsConfig<C, I, O> }
+  ) => Promise<ProductResult<C, I, O> | null>,
+  fetcher: Fetcher = rateLimitedFetch,
+  cache: ResourceCache = new ResourceCache(createMemoryCache(), storeDomain)
 ): CollectionOperations {
-  // Use shared formatter from utils
-  const cacheExpiryMs = 5 * 60 * 1000; // 5 minutes
-  const findCache = new Map<string, { ts: number; value: Collection | null }>();
-  const getCached = (key: string): Collection | null | undefined => {
-    const entry = findCache.get(key);
-    if (!entry) return undefined;
-    if (Date.now() - entry.ts < cacheExpiryMs) return entry.value;
-    findCache.delete(key);
-    return undefined;
-  };
-  const setCached = (key: string, value: Collection | null) => {
-    findCache.set(key, { ts: Date.now(), value });
-  };
-
   function applyCurrencyOverride<
     C extends ProductColumnsMode,
     I extends ProductImagesMode,
@@ -178,6 +224,95 @@ export function createCollectionOperations(
     return products.map((p) => applyCurrencyOverride(p, currency));
   }
 
+  /**
+   * Yields a collection's products page by page. Expects an already
+   * sanitized handle; ends quietly when the collection does not exist.
+   */
+  async function* streamProductsInternal<
+    C extends ProductColumnsMode,
+    I extends ProductImagesMode,
+    O extends ProductOptionsMode,
+  >(
+    collectionHandle: string,
+    options: StreamOptions & {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+    }
+  ): AsyncGenerator<ProductResult<C, I, O>> {
+    const limit = 250;
+    const { signal } = options;
+    let currentPage = 1;
+    let total = 0;
+
+    while (true) {
+      signal?.throwIfAborted();
+      let products: ProductResult<C, I, O>[] | null;
+      try {
+        products = await fetchPaginatedProductsFromCollection<C, I, O>(
+          collectionHandle,
+          {
+            page: currentPage,
+            limit,
+            columns: options.columns,
+            signal,
+          }
+        );
+      } catch (error) {
+        // Surface the abort reason rather than the wrapped fetch error
+        signal?.throwIfAborted();
+        throw error;
+      }
+
+      const normalized =
+        maybeOverrideProductsCurrency(products, options.currency) ?? [];
+      total += normalized.length;
+      if (products) {
+        options.onPage?.({
+          page: currentPage,
+          count: normalized.length,
+          total,
+        });
+      }
+      yield* normalized;
+
+      if (!products || products.length === 0 || products.length < limit) {
+        return;
+      }
+      currentPage++;
+    }
+  }
+
+  /**
+   * A collection's products keyed by handle, cached under the `catalog`
+   * resource so paging through filtered results crawls the listing once.
+   */
+  async function collectionListing<
+    C extends ProductColumnsMode,
+    I extends ProductImagesMode,
+    O extends ProductOptionsMode,
+  >(
+    collectionHandle: string,
+    columns?: ProductColumnsConfig<C, I, O>
+  ): Promise<Map<string, ProductResult<C, I, O>>> {
+    const cacheKey = `collections/${collectionHandle}|${columns?.mode ?? "default"}|${columns?.images ?? "default"}|${columns?.options ?? "default"}`;
+    const cached = await cache.get<ProductResult<C, I, O>[]>(
+      "catalog",
+      cacheKey
+    );
+    let products = cached?.value;
+    if (!products) {
+      products = [];
+      for await (const product of streamProductsInternal<C, I, O>(
+        collectionHandle,
+        { columns }
+      )) {
+        products.push(product);
+      }
+      await cache.set("catalog", cacheKey, products);
+    }
+    return new Map(products.map((p) => [p.handle, p]));
+  }
+
   return {
     /**
      * Fetches collections with pagination support.
@@ -311,14 +446,17 @@ export function createCollectionOperations(
       }
 
       // Return cached value if present
-      const cached = getCached(sanitizedHandle);
-      if (typeof cached !== "undefined") {
-        return cached;
+      const cached = await cache.get<Collection | null>(
+        "collection",
+        sanitizedHandle
+      );
+      if (cached) {
+        return cached.value;
       }
 
       try {
         const url = `${baseUrl}collections/${encodeURIComponent(sanitizedHandle)}.json`;
-        const response = await rateLimitedFetch(url, {
+        const response = await fetcher(url, {
           rateLimitClass: "collections:single",
         });
 
@@ -326,7 +464,7 @@ export function createCollectionOperations(
           if (response.status === 404) {
             return null;
           }
-          throw new Error(`HTTP error! status: ${response.status}`);
+          throw httpErrorFromResponse(response, url);
         }
 
         const result = (await response.json()) as {
@@ -387,9 +525,9 @@ export function createCollectionOperations(
         ]);
         const coll = collectionData[0] || null;
         // Cache under both original sanitized handle and resolved handle
-        setCached(sanitizedHandle, coll);
+        await cache.set("collection", sanitizedHandle, coll);
         if (coll?.handle && coll.handle !== sanitizedHandle) {
-          setCached(coll.handle, coll);
+          await cache.set("collection", coll.handle, coll);
         }
         return coll;
       } catch (error) {
@@ -415,10 +553,17 @@ export function createCollectionOperations(
         throw new Error("Collection handle is required and must be a string");
       }
 
-      return await getSeoForUrl({
+      const cacheId = `collections/${sanitizedHandle}`;
+      const cached = await cache.get<EnhancedProductSeo>("seo", cacheId);
+      if (cached) return cached.value;
+
+      const seo = await getSeoForUrl({
         url: `${baseUrl}collections/${encodeURIComponent(sanitizedHandle)}`,
         rateLimitClass: "collections:seo",
+        fetcher,
       });
+      await cache.set("seo", cacheId, seo);
+      return seo;
     },
 
     /**
@@ -590,33 +735,14 @@ export function createCollectionOperations(
         }
 
         try {
-          const limit = 250;
           const allProducts: ProductResult<C, I, O>[] = [];
-
-          let currentPage = 1;
-
-          while (true) {
-            const products = await fetchPaginatedProductsFromCollection(
-              sanitizedHandle,
-              {
-                page: currentPage,
-                limit,
-                columns: options?.columns,
-              }
-            );
-
-            if (!products || products.length === 0 || products.length < limit) {
-              if (products && products.length > 0) {
-                allProducts.push(...products);
-              }
-              break;
-            }
-
-            allProducts.push(...products);
-            currentPage++;
+          for await (const product of streamProductsInternal<C, I, O>(
+            sanitizedHandle,
+            { currency: options?.currency, columns: options?.columns }
+          )) {
+            allProducts.push(product);
           }
-
-          return maybeOverrideProductsCurrency(allProducts, options?.currency);
+          return allProducts;
         } catch (error) {
           console.error(
             `Error fetching all products for collection ${sanitizedHandle}:`,
@@ -627,6 +753,173 @@ export function createCollectionOperations(
         }
       },
 
+      /**
+       * Streams products from a specific collection without buffering it.
+       *
+       * Yields products as each page of `collections/{handle}/products.json`
+       * arrives; the next page is only requested once the current one has
+       * been consumed. Unlike {@link all}, errors are thrown rather than
+       * turned into `null`. A missing collection yields nothing.
+       *
+       * @param collectionHandle - The collection handle to stream products from
+       * @param options - `currency`/`columns` as in {@link all}, plus `signal` and `onPage`
+       *
+       * @throws {Error} When the collection handle is invalid or there's a network error
+       *
+       * @example
+       * ```typescript
+       * const controller = new AbortController();
+       * for await (const product of shop.collections.products.stream('sale', {
+       *   signal: controller.signal,
+       * })) {
+       *   if (product.available) break;
+       * }
+       * ```
+       */
+      stream: <
+        C extends ProductColumnsMode = "minimal",
+        I extends ProductImagesMode = "minimal",
+        O extends ProductOptionsMode = "minimal",
+      >(
+        collectionHandle: string,
+        options?: StreamOptions & {
+          currency?: CurrencyCode;
+          columns?: ProductColumnsConfig<C, I, O>;
+        }
+      ): AsyncIterable<ProductResult<C, I, O>> => {
+        // Validate eagerly so bad handles throw at call time, not on first read
+        if (!collectionHandle || typeof collectionHandle !== "string") {
+          throw new Error("Collection handle is required and must be a string");
+        }
+
+        // Sanitize handle - remove potentially dangerous characters
+        const sanitizedHandle = collectionHandle
+          .trim()
+          .replace(/[^a-zA-Z0-9\-_]/g, "");
+        if (!sanitizedHandle) {
+          throw new Error("Invalid collection handle format");
+        }
+
+        // Check handle length (reasonable limits)
+        if (sanitizedHandle.length > 255) {
+          throw new Error("Collection handle is too long");
+        }
+
+        return streamProductsInternal<C, I, O>(sanitizedHandle, options ?? {});
+      },
+
+      /**
+       * Fetches one page of a collection exactly as the storefront filters
+       * and sorts it.
+       *
+       * Requests the collection page with Shopify's `filter.*` and
+       * `sort_by` parameters, reads the product order and the filters the
+       * theme advertises from the HTML, and maps the products from the
+       * collection's `products.json` listing. Only links inside the theme's
+       * product grid count; the header, footer and recommendation blocks
+       * are ignored. Needs an Online Store 2.0 theme with storefront
+       * filtering enabled; other themes ignore the filters.
+       *
+       * Cost: one page request, plus a crawl of the whole listing (one
+       * request per 250 products) on the first call per collection; the
+       * listing is then cached under the `catalog` resource. Each handle on
+       * the page that is missing from the listing costs a `products.find()`
+       * lookup (two requests unless that product is cached).
+       *
+       * @param collectionHandle - The collection handle
+       * @param options - Filter options
+       * @param options.filters - Storefront filters (prices in cents)
+       * @param options.sortBy - Shopify `sort_by` value, e.g. `"price-ascending"`
+       * @param options.page - Page number as paginated by the theme (default: 1)
+       *
+       * @returns {Promise<FilteredCollectionPage | null>} Products, advertised filters and paging, or null if the collection does not exist
+       *
+       * @throws {UpstreamHttpError} When the collection page responds with a non-2xx status other than 404
+       *
+       * @example
+       * ```typescript
+       * const shop = new ShopClient('https://exampleshop.com');
+       * const { products, filters, hasNextPage } =
+       *   (await shop.collections.products.filtered('shirts', {
+       *     filters: { available: true, options: { color: 'Blue' } },
+       *     sortBy: 'price-ascending',
+       *   })) ?? {};
+       * ```
+       */
+      filtered: async <
+        C extends ProductColumnsMode = "minimal",
+        I extends ProductImagesMode = "minimal",
+        O extends ProductOptionsMode = "minimal",
+      >(
+        collectionHandle: string,
+        options?: {
+          filters?: StorefrontFilterInput;
+          sortBy?: CollectionSortBy;
+          page?: number;
+          currency?: CurrencyCode;
+          columns?: ProductColumnsConfig<C, I, O>;
+        }
+      ): Promise<FilteredCollectionPage<ProductResult<C, I, O>> | null> => {
+        if (!collectionHandle || typeof collectionHandle !== "string") {
+          throw new Error("Collection handle is required and must be a string");
+        }
+
+        // Sanitize handle - remove potentially dangerous characters
+        const sanitizedHandle = collectionHandle
+          .trim()
+          .replace(/[^a-zA-Z0-9\-_]/g, "");
+        if (!sanitizedHandle) {
+          throw new Error("Invalid collection handle format");
+        }
+
+        // Check handle length (reasonable limits)
+        if (sanitizedHandle.length > 255) {
+          throw new Error("Collection handle is too long");
+        }
+
+        const page = options?.page ?? 1;
+        if (!Number.isInteger(page) || page < 1) {
+          throw new Error("Invalid page: must be a positive integer");
+        }
+
+        const params = buildFilterParams(options?.filters, options?.sortBy);
+        if (page > 1) params.set("page", String(page));
+        const query = params.toString();
+        const url = `${baseUrl}collections/${encodeURIComponent(sanitizedHandle)}${query ? `?${query}` : ""}`;
+
+        const response = await fetcher(url, {
+          rateLimitClass: "collections:filtered",
+        });
+        if (!response.ok) {
+          if (response.status === 404) return null;
+          throw httpErrorFromResponse(response, url);
+        }
+        const html = await response.text();
+
+        const listing = await collectionListing<C, I, O>(
+          sanitizedHandle,
+          options?.columns
+        );
+        const products: ProductResult<C, I, O>[] = [];
+        for (const handle of parseProductHandles(html)) {
+          // Products missing from the cached listing (e.g. published since
+          // it was crawled) are looked up one at a time
+          const product =
+            listing.get(handle) ??
+            (await findProduct<C, I, O>(handle, { columns: options?.columns }));
+          if (product) products.push(product);
+        }
+
+        return {
+          products:
+            maybeOverrideProductsCurrency(products, options?.currency) ?? [],
+          filters: parseStorefrontFilters(html),
+          page,
+          hasNextPage: hasNextPage(html, page),
+          url,
+        };
+      },
+
       /**
        * Fetches all product slugs from a specific collection.
        *
@@ -0,0 +1,386 @@
+import type { CartAddItem } from "./cart";
+import { addItemsBody } from "./cart";
+import { httpErrorFromResponse } from "./errors";
+import type { Coupon, ShopifyCart } from "./types";
+import { CookieJar } from "./utils/cookies";
+import { stripHtml } from "./utils/func";
+import { rateLimitedFetch } from "./utils/rate-limit";
+import type { Fetcher } from "./utils/transport";
+
+/**
+ * Spending or quantity threshold a discount states, e.g. "on orders over
+ * $50" or "buy 2 or more". `subtotal` is in cents.
+ */
+export type DiscountMinimum = {
+  subtotal: number | null;
+  quantity: number | null;
+};
+
+export type DiscountProbeOptions = {
+  /**
+   * Items to put in each probe cart. Most codes only apply to a non-empty
+   * cart, so pass something the code should cover.
+   */
+  items?: CartAddItem[];
+  /** Pause between codes. Defaults to 2000 ms. */
+  delayMs?: number;
+  signal?: AbortSignal;
+};
+
+export type DiscountProbeResult = {
+  code: string;
+  /** The store reports the code as applicable to the probe cart. */
+  applied: boolean;
+  /** Total discount on the probe cart, in cents. */
+  amount: number;
+  /** Cart- and line-level discounts on the probe cart; amounts in cents. */
+  discounts: { title: string; amount: number }[];
+  /** Probe cart subtotal before discounts, in cents. */
+  subtotal: number;
+  currency: string;
+  /** Threshold stated in a discount title, when there is one. */
+  minimum: DiscountMinimum | null;
+};
+
+/**
+ * Interface for discount operations
+ */
+export interface DiscountOperations {
+  /**
+   * Applies each code to its own throwaway cart through `/discount/{code}`
+   * and reports what the store made of it.
+   */
+  probe(
+    codes: string[],
+    options?: DiscountProbeOptions
+  ): Promise<DiscountProbeResult[]>;
+
+  /**
+   * Codes advertised on the home page, in announcement bars, discount
+   * links and the store description.
+   */
+  advertised(options?: { signal?: AbortSignal }): Promise<Coupon[]>;
+}
+
+export type DiscountContext = {
+  baseUrl: string;
+  fetcher?: Fetcher;
+  /** Enables `probe()`; see the client's `discountProbe` option. */
+  probe?: boolean;
+};
+
+const DEFAULT_PROBE_DELAY_MS = 2000;
+/** Longest announcement element scanned, in characters. */
+const MAX_BLOCK_LENGTH = 20000;
+const MAX_DESCRIPTION = 200;
+
+const CODE_PATTERNS = [
+  /\b(?:code|coupon|promo)\b\s*:?\s*["'“‘«]?([A-Za-z0-9][\w-]{2,29})/gi,
+  /\b(?:use|enter|apply)\s+["'“‘«]?([A-Za-z0-9][\w-]{2,29})["'”’»]?\s+(?:at|in|during)\s+checkout\b/gi,
+];
+const NOT_CODES = new Set(["CODE", "CODES", "COUPON", "PROMO", "CHECKOUT"]);
+
+/** Codes are written in capitals; this skips "use code at checkout". */
+function isCode(token: string): boolean {
+  return (
+    /[A-Z]/.test(token) &&
+    token === token.toUpperCase() &&
+    !NOT_CODES.has(token)
+  );
+}
+
+function describe(line: string): string {
+  const text = line.replace(/\s+/g, " ").trim();
+  return text.length > MAX_DESCRIPTION
+    ? `${text.slice(0, MAX_DESCRIPTION - 1).trimEnd()}…`
+    : text;
+}
+
+/**
+ * Elements whose `class` or `id` mentions "announcement", up to their
+ * matching close tag.
+ */
+function announcementBlocks(html: string): string[] {
+  const blocks: string[] = [];
+  const open =
+    /<([a-z][\w-]*)\b[^>]*\b(?:class|id)=["'][^"']*announcement[^"']*["'][^>]*>/gi;
+  let match = open.exec(html);
+  while (match) {
+    const tags = new RegExp(`<(/?)${match[1]}\\b[^>]*>`, "gi");
+    tags.lastIndex = open.lastIndex;
+    let depth = 1;
+    let end = Math.min(html.length, match.index + MAX_BLOCK_LENGTH);
+    for (let tag = tags.exec(html); tag; tag = tags.exec(html)) {
+      if (tag.index >= end) break;
+      depth += tag[1] ? -1 : 1;
+      if (depth === 0) {
+        end = tag.index;
+        break;
+      }
+    }
+    blocks.push(html.slice(open.lastIndex, end));
+    // Nested announcement elements are part of this block
+    open.lastIndex = Math.max(open.lastIndex, end);
+    match = open.exec(html);
+  }
+  return blocks;
+}
+
+function codesInText(text: string): Coupon[] {
+  const coupons: Coupon[] = [];
+  for (const line of text.split("\n")) {
+    for (const pattern of CODE_PATTERNS) {
+      for (const match of line.matchAll(pattern)) {
+        const label = match[1]!;
+        if (isCode(label)) coupons.push({ label, description: describe(line) });
+      }
+    }
+  }
+  return coupons;
+}
+
+function metaContent(html: string, key: string): string {
+  const match = html.match(
+    new RegExp(
+      `<meta[^>]*(?:name|property)=["']${key}["'][^>]*content=["'](.*?)["']`,
+      "i"
+    )
+  );
+  return match?.[1] ?? "";
+}
+
+function toCents(amount: string): number {
+  return Math.round(Number.parseFloat(amount.replace(",", ".")) * 100);
+}
+
+/**
+ * Reads a threshold from discount wording: "orders over $50", "spend
+ * €25", "$40+" or "buy 2 or more", "3+ items".
+ */
+function parseDiscountMinimum(text: string): DiscountMinimum | null {
+  const amount =
+    text.match(
+      /\b(?:over|above|spend(?:ing)?|minimum(?:\s+(?:purchase|order|spend))?(?:\s+of)?|at least)\s+[$€£]\s?(\d+(?:[.,]\d{1,2})?)/i
+    )?.[1] ?? text.match(/[$€£]\s?(\d+(?:[.,]\d{1,2})?)\s?\+/)?.[1];
+  const quantity =
+    text.match(/\bbuy\s+(\d+)\b/i)?.[1] ??
+    text.match(
+      /\b(\d+)\s?\+?\s+(?:or more\s+)?(?:items|products|pieces)\b/i
+    )?.[1];
+  if (!amount && !quantity) return null;
+  return {
+    subtotal: amount ? toCents(amount) : null,
+    quantity: quantity ? Number(quantity) : null,
+  };
+}
+
+function normalizeCodes(codes: string[]): string[] {
+  if (!Array.isArray(codes) || codes.length === 0) {
+    throw new Error("Codes array cannot be empty");
+  }
+  const seen = new Set<string>();
+  const list: string[] = [];
+  for (const raw of codes) {
+    const code = typeof raw === "string" ? raw.trim() : "";
+    if (!code) throw new Error("Discount codes must be non-empty strings");
+    if (seen.has(code.toUpperCase())) continue;
+    seen.add(code.toUpperCase());
+    list.push(code);
+  }
+  return list;
+}
+
+export function createDiscountOperations(
+  context: DiscountContext
+): DiscountOperations {
+  const { baseUrl } = context;
+  const fetcher = context.fetcher ?? rateLimitedFetch;
+
+  /**
+   * One code in a fresh cookie jar, so every probe gets its own cart and
+   * none of them sees another's code.
+   */
+  async function probeCode(
+    code: string,
+    body: ReturnType<typeof addItemsBody> | null,
+    signal?: AbortSignal
+  ): Promise<DiscountProbeResult> {
+    const jar = new CookieJar();
+    const send = async (
+      path: string,
+      init: {
+        method?: string;
+        headers?: Record<string, string>;
+        body?: string;
+        redirect?: RequestRedirect;
+      } = {}
+    ) => {
+      const response = await fetcher(`${baseUrl}${path}`, {
+        ...init,
+        headers: jar.apply({ accept: "application/json", ...init.headers }),
+        rateLimitClass: "checkout:discounts",
+        signal,
+      });
+      jar.remember(response);
+      return response;
+    };
+
+    if (body) {
+      const added = await send("cart/add.js", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!added.ok)
+        throw httpErrorFromResponse(added, `${baseUrl}cart/add.js`);
+    }
+
+    // Sets the discount cookie and redirects to the storefront
+    const discountPath = `discount/${encodeURIComponent(code)}`;
+    const applied = await send(discountPath, { redirect: "manual" });
+    if (
+      applied.status >= 400 ||
+      (applied.status === 0 && applied.type !== "opaqueredirect")
+    ) {
+      throw httpErrorFromResponse(applied, `${baseUrl}${discountPath}`);
+    }
+
+    const response = await send("cart.js");
+    if (!response.ok)
+      throw httpErrorFromResponse(response, `${baseUrl}cart.js`);
+    const cart = (await response.json()) as ShopifyCart;
+
+    const totals = new Map<string, number>();
+    const add = (title: string, amount: number) =>
+      totals.set(title, (totals.get(title) ?? 0) + amount);
+    for (const application of cart.cart_level_discount_applications ?? []) {
+      add(application.title, application.total_allocated_amount);
+    }
+    for (const item of cart.items ?? []) {
+      for (const discount of item.discounts ?? []) {
+        add(discount.title, discount.amount);
+      }
+    }
+    const discounts = [...totals].map(([title, amount]) => ({ title, amount }));
+    const entry = cart.discount_codes?.find(
+      (d) => d.code.toUpperCase() === code.toUpperCase()
+    );
+
+    return {
+      code,
+      applied: entry?.applicable === true,
+      amount: cart.total_discount ?? 0,
+      discounts,
+      subtotal: cart.items_subtotal_price ?? 0,
+      currency: cart.currency,
+      minimum:
+        discounts
+          .map((d) => parseDiscountMinimum(d.title))
+          .find((minimum) => minimum !== null) ?? null,
+    };
+  }
+
+  return {
+    /**
+     * Checks candidate discount codes against the store. Each code is
+     * applied to its own throwaway cart (in a separate cookie jar, never the
+     * client's `cart` session) by visiting `/discount/{code}`, then
+     * `/cart.js` tells whether it applied and what it took off. Codes run
+     * one at a time, `delayMs` apart, in the `checkout:discounts` rate limit
+     * class. Requires the client's `discountProbe` option.
+     *
+     * @param codes - Candidate codes; duplicates (ignoring case) are probed once
+     * @param options - `items` for each probe cart, `delayMs` between codes, and an abort `signal`
+     *
+     * @returns {Promise<DiscountProbeResult[]>} One result per distinct code, in order
+     *
+     * @throws {Error} When `discountProbe` is not enabled, or the codes or items are invalid
+     * @throws {UpstreamHttpError} When the store answers with an unexpected status
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('https://exampleshop.com', { discountProbe: true });
+     * const results = await shop.checkout.discounts.probe(['WELCOME10', 'FREESHIP'], {
+     *   items: [{ variantId: 123, quantity: 2 }],
+     * });
+     * for (const r of results) console.log(r.code, r.applied, r.amount);
+     * ```
+     */
+    probe: async (codes, options) => {
+      if (!context.probe) {
+        throw new Error(
+          "checkout.discounts.probe() is disabled; create the client with discountProbe: true"
+        );
+      }
+      const list = normalizeCodes(codes);
+      const body = options?.items ? addItemsBody(options.items) : null;
+      const delayMs = options?.delayMs ?? DEFAULT_PROBE_DELAY_MS;
+      if (!Number.isFinite(delayMs) || delayMs < 0) {
+        throw new Error("delayMs must be a non-negative number");
+      }
+
+      const results: DiscountProbeResult[] = [];
+      for (const [index, code] of list.entries()) {
+        if (index > 0 && delayMs > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+        }
+        if (options?.signal?.aborted) throw options.signal.reason;
+        results.push(await probeCode(code, body, options?.signal));
+      }
+      return results;
+    },
+
+    /**
+     * Scrapes the home page for advertised discount codes: `/discount/{code}`
+     * links, announcement bars ("Use code SAVE10 for 10% off") and the
+     * store's meta description. Codes must be written in capitals to be
+     * picked up from text. Makes a single request and needs no opt-in.
+     *
+     * @returns {Promise<Coupon[]>} Distinct codes, each with the text that advertised it
+     *
+     * @throws {UpstreamHttpError} When the home page answers with a non-2xx status
+     *
+     * @example
+     * ```typescript
+     * const coupons = await shop.checkout.discounts.advertised();
+     * // [{ label: 'SAVE10', description: 'Use code SAVE10 for 10% off orders over $50' }]
+     * ```
+     */
+    advertised: async (options) => {
+      const response = await fetcher(baseUrl, {
+        rateLimitClass: "checkout:discounts",
+        signal: options?.signal,
+      });
+      if (!response.ok) throw httpErrorFromResponse(response, baseUrl);
+      const html = await response.text();
+
+      const found: Coupon[] = [];
+      for (const block of announcementBlocks(html)) {
+        found.push(...codesInText(stripHtml(block)));
+      }
+      for (const link of html.matchAll(
+        /<a\b[^>]*href=["'][^"']*\/discount\/([^"'?#/]+)[^>]*>([\s\S]*?)<\/a>/gi
+      )) {
+        let label = link[1]!;
+        try {
+          label = decodeURIComponent(label);
+        } catch {
+          // Keep the raw code, e.g. "50%OFF"
+        }
+        label = label.trim();
+        const text = describe(stripHtml(link[2]));
+        if (label) found.push(text ? { label, description: text } : { label });
+      }
+      for (const key of ["description", "og:description"]) {
+        found.push(...codesInText(stripHtml(metaContent(html, key))));
+      }
+
+      const coupons = new Map<string, Coupon>();
+      for (const coupon of found) {
+        const key = coupon.label.toUpperCase();
+        if (!coupons.has(key)) coupons.set(key, coupon);
+      }
+      return [...coupons.values()];
+    },
+  };
+}
@@ -0,0 +1,470 @@
+import { httpErrorFromResponse } from "./errors";
+import type {
+  CurrencyCode,
+  ProductColumnsConfig,
+  ProductColumnsMode,
+  ProductImagesMode,
+  ProductOptionsMode,
+  ProductResult,
+  StreamOptions,
+} from "./types";
+import { rateLimitedFetch } from "./utils/rate-limit";
+import type { Fetcher } from "./utils/transport";
+
+/**
+ * Kind of a nested sitemap, from its file name (`sitemap_products_1.xml`).
+ */
+export type SitemapType =
+  | "products"
+  | "collections"
+  | "pages"
+  | "blogs"
+  | "other";
+
+/**
+ * A sitemap listed in `/sitemap.xml`.
+ */
+export type SitemapReference = {
+  url: string;
+  type: SitemapType;
+  lastmod: string | null;
+};
+
+export type SitemapImage = {
+  url: string;
+  title: string | null;
+  caption: string | null;
+};
+
+/**
+ * A product or collection page listed in a sitemap. `lastmod` is passed
+ * through verbatim (ISO 8601) so it can be compared between crawls.
+ */
+export type SitemapEntry = {
+  handle: string;
+  url: string;
+  lastmod: string | null;
+  images: SitemapImage[];
+};
+
+/**
+ * Result of comparing two sitemap crawls by handle.
+ */
+export type SitemapDiff = {
+  added: SitemapEntry[];
+  updated: SitemapEntry[];
+  removed: SitemapEntry[];
+  unchanged: number;
+};
+
+/**
+ * Interface for sitemap-based discovery operations
+ */
+export interface DiscoveryOperations {
+  /**
+   * Lists the nested sitemaps referenced by `/sitemap.xml`.
+   */
+  sitemaps(): Promise<SitemapReference[]>;
+
+  /**
+   * Streams product entries from the product sitemaps.
+   */
+  products(options?: StreamOptions): AsyncIterable<SitemapEntry>;
+
+  /**
+   * Streams collection entries from the collection sitemaps.
+   */
+  collections(options?: StreamOptions): AsyncIterable<SitemapEntry>;
+
+  /**
+   * Streams product entries whose `lastmod` is after `since`.
+   */
+  changedSince(
+    since: Date | string,
+    options?: StreamOptions
+  ): AsyncIterable<SitemapEntry>;
+
+  /**
+   * Fetches full products for sitemap entries (or handles) through `products.find()`.
+   */
+  hydrate<
+    C extends ProductColumnsMode = "minimal",
+    I extends ProductImagesMode = "minimal",
+    O extends ProductOptionsMode = "minimal",
+  >(
+    entries:
+      | Iterable<SitemapEntry | string>
+      | AsyncIterable<SitemapEntry | string>,
+    options?: {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+      concurrency?: number;
+      signal?: AbortSignal;
+    }
+  ): AsyncIterable<ProductResult<C, I, O>>;
+}
+
+export type DiscoveryContext = {
+  baseUrl: string;
+  fetcher?: Fetcher;
+  findProduct: <
+    C extends ProductColumnsMode = "minimal",
+    I extends ProductImagesMode = "minimal",
+    O extends ProductOptionsMode = "minimal",
+  >(
+    handle: string,
+    options?: {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+    }
+  ) => Promise<ProductResult<C, I, O> | null>;
+};
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function tagValue(xml: string, tag: string): string | null {
+  const match = xml.match(
+    new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i")
+  );
+  return match?.[1] !== undefined ? decodeXml(match[1]) : null;
+}
+
+function blocks(xml: string, tag: string): string[] {
+  return Array.from(
+    xml.matchAll(
+      new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi")
+    ),
+    (m) => m[1] ?? ""
+  );
+}
+
+function sitemapType(url: string): SitemapType {
+  let path = url;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    // Keep the raw value
+  }
+  const match = path.match(/sitemap_(products|collections|pages|blogs)_/);
+  return (match?.[1] as SitemapType | undefined) ?? "other";
+}
+
+/**
+ * Parse a sitemap index (`<sitemapindex>`) into its child sitemaps.
+ */
+export function parseSitemapIndex(xml: string): SitemapReference[] {
+  return blocks(xml, "sitemap")
+    .map((block) => {
+      const url = tagValue(block, "loc");
+      if (!url) return null;
+      return {
+        url,
+        type: sitemapType(url),
+        lastmod: tagValue(block, "lastmod"),
+      };
+    })
+    .filter((ref): ref is SitemapReference => ref !== null);
+}
+
+/**
+ * Parse a `<urlset>` sitemap, keeping entries under `/<segment>/<handle>`
+ * (e.g. `/products/<handle>`, with or without a locale prefix).
+ */
+export function parseSitemapEntries(
+  xml: string,
+  segment: "products" | "collections"
+): SitemapEntry[] {
+  const pattern = new RegExp(`/${segment}/([^/?#]+)/?$`);
+  const entries: SitemapEntry[] = [];
+  for (const block of blocks(xml, "url")) {
+    const url = tagValue(block, "loc");
+    if (!url) continue;
+    let path = url;
+    try {
+      path = new URL(url).pathname;
+    } catch {
+      // Keep the raw value
+    }
+    let handle = path.match(pattern)?.[1];
+    if (!handle) continue;
+    try {
+      handle = decodeURIComponent(handle);
+    } catch {
+      // Keep the raw handle
+    }
+    entries.push({
+      handle,
+      url,
+      lastmod: tagValue(block, "lastmod"),
+      images: blocks(block, "image:image")
+        .map((image) => ({
+          url: tagValue(image, "image:loc") ?? "",
+          title: tagValue(image, "image:title"),
+          caption: tagValue(image, "image:caption"),
+        }))
+        .filter((image) => image.url),
+    });
+  }
+  return entries;
+}
+
+/**
+ * Compare two sitemap crawls by handle. An entry counts as updated when its
+ * `lastmod` changed; entries without `lastmod` are never reported as
+ * updated.
+ */
+export function diffSitemapEntries(
+  previous: readonly SitemapEntry[],
+  current: readonly SitemapEntry[]
+): SitemapDiff {
+  const before = new Map(previous.map((entry) => [entry.handle, entry]));
+  const diff: SitemapDiff = {
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: 0,
+  };
+  const seen = new Set<string>();
+  for (const entry of current) {
+    seen.add(entry.handle);
+    const old = before.get(entry.handle);
+    if (!old) diff.added.push(entry);
+    else if (entry.lastmod && old.lastmod !== entry.lastmod) {
+      diff.updated.push(entry);
+    } else diff.unchanged += 1;
+  }
+  for (const entry of previous) {
+    if (!seen.has(entry.handle)) diff.removed.push(entry);
+  }
+  return diff;
+}
+
+/**
+ * Whether `products.find()` looks up `handle` as is. Its sanitizer strips
+ * anything outside `[a-zA-Z0-9_-]`, so decoded non-ASCII sitemap handles
+ * would throw or resolve to a different product.
+ */
+function findableHandle(handle: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(handle.trim());
+}
+
+/**
+ * Creates sitemap discovery operations for a store instance
+ */
+export function createDiscoveryOperations(
+  context: DiscoveryContext
+): DiscoveryOperations {
+  const { baseUrl, findProduct } = context;
+  const fetcher = context.fetcher ?? rateLimitedFetch;
+
+  async function fetchXml(url: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetcher(url, {
+      rateLimitClass: "discovery:sitemap",
+      signal,
+    });
+    if (!response.ok) {
+      throw httpErrorFromResponse(response, url);
+    }
+    return response.text();
+  }
+
+  async function sitemapsInternal(
+    signal?: AbortSignal
+  ): Promise<SitemapReference[]> {
+    return parseSitemapIndex(await fetchXml(`${baseUrl}sitemap.xml`, signal));
+  }
+
+  /**
+   * Walks the nested sitemaps of one type, one file at a time. Handles
+   * repeated across locale sitemaps are yielded once.
+   */
+  async function* entriesInternal(
+    type: "products" | "collections",
+    options: StreamOptions
+  ): AsyncGenerator<SitemapEntry> {
+    const { signal } = options;
+    const refs = (await sitemapsInternal(signal)).filter(
+      (ref) => ref.type === type
+    );
+    const seen = new Set<string>();
+    let page = 0;
+    let total = 0;
+
+    for (const ref of refs) {
+      signal?.throwIfAborted();
+      page++;
+      const entries = parseSitemapEntries(
+        await fetchXml(ref.url, signal),
+        type
+      ).filter((entry) => {
+        if (seen.has(entry.handle)) return false;
+        seen.add(entry.handle);
+        return true;
+      });
+      total += entries.length;
+      options.onPage?.({ page, count: entries.length, total });
+      yield* entries;
+    }
+  }
+
+  return {
+    /**
+     * Lists the nested sitemaps referenced by `/sitemap.xml`.
+     *
+     * @returns {Promise<SitemapReference[]>} Child sitemaps with their type and `lastmod`
+     *
+     * @throws {UpstreamHttpError} When `/sitemap.xml` responds with a non-2xx status
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('https://exampleshop.com');
+     * const sitemaps = await shop.discovery.sitemaps();
+     * // [{ url: 'https://exampleshop.com/sitemap_products_1.xml?from=1&to=99', type: 'products', lastmod: '...' }, ...]
+     * ```
+     */
+    sitemaps: () => sitemapsInternal(),
+
+    /**
+     * Streams product entries (`handle`, `url`, `lastmod`, `images`) from
+     * the store's product sitemaps.
+     *
+     * Works when `/products.json` is disabled or capped, since sitemaps
+     * list every published product. Each nested sitemap is fetched only
+     * when the previous one has been consumed; `onPage` is called per file.
+     *
+     * @param options - `signal` and `onPage`, as in `products.stream()`
+     *
+     * @throws {UpstreamHttpError} When a sitemap responds with a non-2xx status
+     *
+     * @example
+     * ```typescript
+     * for await (const entry of shop.discovery.products()) {
+     *   console.log(entry.handle, entry.lastmod, entry.images.length);
+     * }
+     * ```
+     */
+    products: (options?: StreamOptions): AsyncIterable<SitemapEntry> =>
+      entriesInternal("products", options ?? {}),
+
+    /**
+     * Streams collection entries from the store's collection sitemaps.
+     *
+     * @param options - `signal` and `onPage`, as in `products.stream()`
+     *
+     * @throws {UpstreamHttpError} When a sitemap responds with a non-2xx status
+     */
+    collections: (options?: StreamOptions): AsyncIterable<SitemapEntry> =>
+      entriesInternal("collections", options ?? {}),
+
+    /**
+     * Streams product entries modified after `since`, using sitemap
+     * `lastmod` as the change signal. Entries without `lastmod` are
+     * included, since they cannot be ruled out.
+     *
+     * @param since - Date (or ISO string) of the previous crawl
+     * @param options - `signal` and `onPage`, as in `products.stream()`
+     *
+     * @throws {Error} When `since` is not a valid date
+     *
+     * @example
+     * ```typescript
+     * const changed = shop.discovery.changedSince(lastRun);
+     * for await (const product of shop.discovery.hydrate(changed)) {
+     *   await save(product);
+     * }
+     * ```
+     */
+    changedSince: (
+      since: Date | string,
+      options?: StreamOptions
+    ): AsyncIterable<SitemapEntry> => {
+      const threshold = new Date(since).getTime();
+      if (Number.isNaN(threshold)) {
+        throw new Error("Invalid since date");
+      }
+      return (async function* () {
+        for await (const entry of entriesInternal("products", options ?? {})) {
+          const modified = entry.lastmod
+            ? Date.parse(entry.lastmod)
+            : Number.NaN;
+          if (Number.isNaN(modified) || modified > threshold) yield entry;
+        }
+      })();
+    },
+
+    /**
+     * Fetches full products for sitemap entries or handles through
+     * `products.find()` (the `.js` endpoint), yielding them in input order.
+     * Products that no longer exist are skipped, as are handles with
+     * characters `products.find()` cannot look up (e.g. non-ASCII handles).
+     * When a lookup fails, the products before it are still yielded.
+     *
+     * @param entries - Sitemap entries or handles, sync or async
+     * @param options - `columns`/`currency` as in `products.find()`
+     * @param options.concurrency - Lookups in flight at once (default: 4); the rate limiter still applies
+     * @param options.signal - Stops hydration between batches
+     *
+     * @throws {UpstreamHttpError} When a lookup responds with a non-2xx status other than 404
+     *
+     * @example
+     * ```typescript
+     * for await (const product of shop.discovery.hydrate(shop.discovery.products(), {
+     *   columns: { mode: 'full' },
+     * })) {
+     *   console.log(product.title);
+     * }
+     * ```
+     */
+    hydrate: <
+      C extends ProductColumnsMode = "minimal",
+      I extends ProductImagesMode = "minimal",
+      O extends ProductOptionsMode = "minimal",
+    >(
+      entries:
+        | Iterable<SitemapEntry | string>
+        | AsyncIterable<SitemapEntry | string>,
+      options?: {
+        currency?: CurrencyCode;
+        columns?: ProductColumnsConfig<C, I, O>;
+        concurrency?: number;
+        signal?: AbortSignal;
+      }
+    ): AsyncIterable<ProductResult<C, I, O>> => {
+      const concurrency = Math.max(1, Math.floor(options?.concurrency ?? 4));
+      const find = (handle: string) =>
+        findProduct<C, I, O>(handle, {
+          currency: options?.currency,
+          columns: options?.columns,
+        });
+
+      return (async function* () {
+        let batch: string[] = [];
+        const flush = async function* () {
+          options?.signal?.throwIfAborted();
+          const results = await Promise.allSettled(batch.map(find));
+          batch = [];
+          for (const result of results) {
+            if (result.status === "rejected") throw result.reason;
+            if (result.value) yield result.value;
+          }
+        };
+        for await (const entry of entries) {
+          const handle = typeof entry === "string" ? entry : entry.handle;
+          if (!findableHandle(handle)) continue;
+          batch.push(handle);
+          if (batch.length >= concurrency) yield* flush();
+        }
+        if (batch.length > 0) yield* flush();
+      })();
+    },
+  };
+}
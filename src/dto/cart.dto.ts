@@ -0,0 +1,124 @@
+import type {
+  Cart,
+  CartDiscount,
+  CartLineItem,
+  ShippingRate,
+  ShopifyCart,
+  ShopifyCartLineItem,
+  ShopifyShippingRate,
+} from "../types";
+import { formatPrice } from "../utils/func";
+
+export type CartDtoContext = {
+  normalizeImageUrl: (url: string | null | undefined) => string;
+};
+
+function discount(
+  title: string,
+  amount: number,
+  currency: string
+): CartDiscount {
+  return { title, amount, amountFormatted: formatPrice(amount, currency) };
+}
+
+function lineItemDto(
+  item: ShopifyCartLineItem,
+  index: number,
+  currency: string,
+  ctx: CartDtoContext
+): CartLineItem {
+  const plan = item.selling_plan_allocation?.selling_plan;
+  return {
+    key: item.key,
+    line: index + 1,
+    variantId: String(item.variant_id),
+    productId: String(item.product_id),
+    handle: item.handle,
+    title: item.title,
+    productTitle: item.product_title,
+    variantTitle: item.variant_title || null,
+    options: item.options_with_values ?? [],
+    sku: item.sku || null,
+    vendor: item.vendor,
+    quantity: item.quantity,
+    price: item.price,
+    originalPrice: item.original_price,
+    finalPrice: item.final_price,
+    linePrice: item.line_price,
+    originalLinePrice: item.original_line_price,
+    finalLinePrice: item.final_line_price,
+    totalDiscount: item.total_discount,
+    priceFormatted: formatPrice(item.price, currency),
+    finalPriceFormatted: formatPrice(item.final_price, currency),
+    finalLinePriceFormatted: formatPrice(item.final_line_price, currency),
+    discounts: (item.discounts ?? []).map((d) =>
+      discount(d.title, d.amount, currency)
+    ),
+    image: item.image ? ctx.normalizeImageUrl(item.image) : null,
+    url: item.url,
+    requiresShipping: item.requires_shipping,
+    taxable: item.taxable,
+    giftCard: item.gift_card,
+    grams: item.grams,
+    properties: item.properties ?? {},
+    sellingPlan: plan ? { id: String(plan.id), name: plan.name } : null,
+  };
+}
+
+export function cartDto(cart: ShopifyCart, ctx: CartDtoContext): Cart {
+  const currency = cart.currency;
+  return {
+    token: cart.token,
+    note: cart.note || null,
+    attributes: cart.attributes ?? {},
+    currency: cart.currency,
+    itemCount: cart.item_count,
+    items: (cart.items ?? []).map((item, index) =>
+      lineItemDto(item, index, currency, ctx)
+    ),
+    requiresShipping: cart.requires_shipping,
+    originalTotalPrice: cart.original_total_price,
+    itemsSubtotalPrice: cart.items_subtotal_price,
+    totalDiscount: cart.total_discount,
+    totalPrice: cart.total_price,
+    totalWeight: cart.total_weight,
+    originalTotalPriceFormatted: formatPrice(
+      cart.original_total_price,
+      currency
+    ),
+    itemsSubtotalPriceFormatted: formatPrice(
+      cart.items_subtotal_price,
+      currency
+    ),
+    totalDiscountFormatted: formatPrice(cart.total_discount, currency),
+    totalPriceFormatted: formatPrice(cart.total_price, currency),
+    discounts: (cart.cart_level_discount_applications ?? []).map((d) =>
+      discount(d.title, d.total_allocated_amount, currency)
+    ),
+    discountCodes: cart.discount_codes ?? [],
+  };
+}
+
+function range<T>(values: T[] | null | undefined): { min: T; max: T } | null {
+  if (!values || values.length === 0) return null;
+  return { min: values[0]!, max: values[values.length - 1]! };
+}
+
+export function shippingRateDto(
+  rate: ShopifyShippingRate,
+  currency: string
+): ShippingRate {
+  const amount = Number.parseFloat(rate.price);
+  const price = Number.isFinite(amount) ? Math.round(amount * 100) : 0;
+  const rateCurrency = rate.currency || currency;
+  return {
+    name: rate.presentment_name || rate.name,
+    code: rate.code || null,
+    source: rate.source || null,
+    price,
+    priceFormatted: formatPrice(price, rateCurrency),
+    currency: rateCurrency,
+    deliveryRange: range(rate.delivery_range),
+    deliveryDays: range(rate.delivery_days),
+  };
+}
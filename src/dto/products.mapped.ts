@@ -8,11 +8,14 @@ import type {
   ProductOptionsByMode,
   ProductOptionsMode,
   ProductResult,
+  ProductWeight,
   ShopifyOption,
   ShopifyProduct,
   ShopifyProductVariant,
   ShopifySingleProduct,
   ShopifySingleProductVariant,
+  UnitPrice,
+  WeightUnit,
 } from "../types";
 import {
   buildVariantAvailabilityMap,
@@ -21,6 +24,7 @@ import {
   buildVariantSkuMap,
   calculateDiscount,
   genProductSlug,
+  normalizeGtin,
   normalizeKey,
   safeParseDate,
 } from "../utils/func";
@@ -42,6 +46,62 @@ function toCents(value: unknown): number {
   return 0;
 }
 
+const GRAMS_PER_UNIT: Record<WeightUnit, number> = {
+  g: 1,
+  kg: 1000,
+  lb: 453.59237,
+  oz: 28.349523125,
+};
+
+function toNumber(value: unknown): number | null {
+  const n = typeof value === "string" ? Number.parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Weight in the merchant's unit. `.js` reports grams in `weight` (plus
+ * `weight_in_unit` on some stores); `products.json` reports `grams`.
+ */
+function mapWeight(
+  variant: ShopifyProductVariant | ShopifySingleProductVariant
+): ProductWeight | null {
+  const rawUnit = "weight_unit" in variant ? variant.weight_unit : undefined;
+  const unit =
+    rawUnit && rawUnit.toLowerCase() in GRAMS_PER_UNIT
+      ? (rawUnit.toLowerCase() as WeightUnit)
+      : "g";
+  if ("weight_in_unit" in variant && toNumber(variant.weight_in_unit)) {
+    return { value: toNumber(variant.weight_in_unit)!, unit };
+  }
+  const grams =
+    ("weight" in variant ? toNumber(variant.weight) : null) ??
+    toNumber(variant.grams) ??
+    ("weightInGrams" in variant ? toNumber(variant.weightInGrams) : null);
+  if (!grams || grams <= 0) return null;
+  return {
+    value: Math.round((grams / GRAMS_PER_UNIT[unit]) * 1000) / 1000,
+    unit,
+  };
+}
+
+function mapUnitPrice(
+  variant: ShopifyProductVariant | ShopifySingleProductVariant
+): UnitPrice | null {
+  if (!("unit_price_measurement" in variant)) return null;
+  const measurement = variant.unit_price_measurement;
+  const quantity = toNumber(measurement?.quantity_value);
+  if (!measurement || variant.unit_price == null || !quantity) return null;
+  return {
+    amount: toCents(variant.unit_price),
+    measuredType: measurement.measured_type ?? null,
+    quantity: { value: quantity, unit: measurement.quantity_unit ?? "" },
+    reference: {
+      value: toNumber(measurement.reference_value) ?? 1,
+      unit: measurement.reference_unit ?? measurement.quantity_unit ?? "",
+    },
+  };
+}
+
 function buildVariantMaps(
   optionNames: string[],
   variants: Array<{
@@ -210,6 +270,9 @@ function mapVariants(
       productId: variant.product_id,
       createdAt: variant.created_at,
       updatedAt: variant.updated_at,
+      barcode: normalizeGtin(variant.barcode),
+      weight: mapWeight(variant),
+      unitPrice: mapUnitPrice(variant),
       compareAtPriceVaries: false,
       priceVaries: false,
     };
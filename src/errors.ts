@@ -0,0 +1,178 @@
+import { parseRetryAfter } from "./utils/rate-limit";
+
+/**
+ * Base class for every error thrown by `shop-client` for a failed store or
+ * LLM interaction. Argument validation (empty handles, bad pagination
+ * parameters, missing API keys) still throws a plain `Error`.
+ */
+export class ShopClientError extends Error {
+  /** Operation that failed, e.g. `"fetching store info"`. */
+  context?: string;
+  /** URL of the failing request, when there is one. */
+  url?: string;
+
+  constructor(
+    message: string,
+    options?: { url?: string; context?: string; cause?: unknown }
+  ) {
+    super(
+      message,
+      options?.cause !== undefined ? { cause: options.cause } : undefined
+    );
+    this.name = new.target.name;
+    this.url = options?.url;
+    this.context = options?.context;
+  }
+}
+
+/**
+ * The store (or one of its endpoints) answered with an unexpected HTTP status.
+ */
+export class UpstreamHttpError extends ShopClientError {
+  readonly status: number;
+  readonly statusText: string;
+  declare url: string;
+
+  constructor(
+    status: number,
+    url: string,
+    options?: { statusText?: string; message?: string; cause?: unknown }
+  ) {
+    const statusText = options?.statusText ?? "";
+    super(
+      options?.message ??
+        `HTTP ${status}${statusText ? `: ${statusText}` : ""}`,
+      { url, cause: options?.cause }
+    );
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+/**
+ * The store domain does not exist (`404`/`410` on the storefront root).
+ */
+export class ShopNotFoundError extends UpstreamHttpError {
+  constructor(status: number, url: string) {
+    super(status, url, { message: `Store not found: ${url}` });
+  }
+}
+
+/**
+ * The store answered `429 Too Many Requests` after all retries.
+ */
+export class RateLimitedError extends UpstreamHttpError {
+  /** Delay requested by `Retry-After`, in milliseconds. */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    url: string,
+    options?: { statusText?: string; retryAfterMs?: number }
+  ) {
+    super(429, url, { statusText: options?.statusText });
+    this.retryAfterMs = options?.retryAfterMs;
+  }
+}
+
+/**
+ * The store cannot quote shipping to the requested address: the country is
+ * not shipped to, or the province or ZIP is invalid for it (`422` from the
+ * shipping rates endpoints).
+ */
+export class ShippingDestinationError extends UpstreamHttpError {
+  /** Messages per address field as sent by the store, e.g. `{ zip: ["is not valid for Canada"] }`. */
+  readonly errors: Record<string, string[]>;
+
+  constructor(url: string, errors: Record<string, string[]>) {
+    const details = Object.entries(errors)
+      .map(([field, messages]) => `${field} ${messages.join(", ")}`)
+      .join("; ");
+    super(422, url, {
+      message: `Shipping destination not supported: ${details}`,
+    });
+    this.errors = errors;
+  }
+}
+
+/**
+ * Shipping rates were still being calculated when the timeout ran out.
+ */
+export class ShippingRatesTimeoutError extends ShopClientError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`Shipping rates not ready after ${timeoutMs}ms`, { url });
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The URL resolves, but the page is not a Shopify storefront.
+ */
+export class NotShopifyStoreError extends ShopClientError {
+  declare url: string;
+
+  constructor(url: string) {
+    super("The provided URL does not appear to be a valid Shopify store.", {
+      url,
+    });
+  }
+}
+
+/**
+ * The storefront is locked behind Shopify's password page: a storefront JSON
+ * endpoint was redirected to `/password`, or the configured
+ * `storefrontPassword` was rejected.
+ */
+export class StorePasswordProtectedError extends ShopClientError {
+  declare url: string;
+
+  constructor(url: string, options?: { message?: string }) {
+    super(options?.message ?? `Store is password protected: ${url}`, { url });
+  }
+}
+
+/**
+ * The LLM provider failed or returned something that is not usable JSON.
+ */
+export class LlmResponseError extends ShopClientError {
+  /** HTTP status from the provider, when the request itself failed. */
+  readonly status?: number;
+
+  constructor(message: string, options?: { status?: number; cause?: unknown }) {
+    super(message, { cause: options?.cause });
+    this.status = options?.status;
+  }
+}
+
+/**
+ * A response parsed fine but does not match the expected shape.
+ */
+export class SchemaValidationError extends ShopClientError {
+  /** Human-readable reason reported by the validator. */
+  readonly issue: string;
+
+  constructor(message: string, issue: string, options?: { url?: string }) {
+    super(message, { url: options?.url });
+    this.issue = issue;
+  }
+}
+
+/**
+ * Typed error for a non-ok response: {@link RateLimitedError} for `429`,
+ * {@link UpstreamHttpError} otherwise.
+ */
+export function httpErrorFromResponse(
+  response: Response,
+  url: string
+): UpstreamHttpError {
+  if (response.status === 429) {
+    return new RateLimitedError(url, {
+      statusText: response.statusText,
+      retryAfterMs: parseRetryAfter(response.headers?.get("retry-after")),
+    });
+  }
+  return new UpstreamHttpError(response.status, url, {
+    statusText: response.statusText,
+  });
+}
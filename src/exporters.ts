@@ -0,0 +1,685 @@
+/**
+ * Product feed and catalog exporters.
+ *
+ * Turns full `ProductResult`s into Google Merchant Center feeds (RSS XML or
+ * TSV) and Meta (Facebook) catalog CSV, one item per variant, and whole
+ * catalogs into CSV, JSON Lines or Shopify's product import CSV. Output is
+ * written as products arrive to a Node.js writable or a web
+ * `WritableStream`, so catalogs of any size stream through without being
+ * held in memory.
+ */
+
+import type { ProductOperations } from "./products";
+import type {
+  CurrencyCode,
+  ProductImagesMode,
+  ProductOptionsMode,
+  ProductResult,
+  ProductVariant,
+  StreamOptions,
+} from "./types";
+import { normalizeVariantToken, stripHtml } from "./utils/func";
+import type { OutputSink } from "./utils/sink";
+import { createSinkWriter } from "./utils/sink";
+
+export type FeedFormat = "google-xml" | "google-tsv" | "meta-csv";
+
+/**
+ * Products the exporters accept: full columns, so variants, vendor and
+ * product URLs are present.
+ */
+export type ExportableProduct = ProductResult<
+  "full",
+  ProductImagesMode,
+  ProductOptionsMode
+>;
+
+/**
+ * One feed item (a variant), with attribute names shared by Google and
+ * Meta. Prices are formatted as `"19.99 USD"`.
+ */
+export type FeedItem = {
+  id: string;
+  itemGroupId: string;
+  title: string;
+  description: string;
+  link: string;
+  imageLink: string;
+  additionalImageLinks: string[];
+  availability: "in stock" | "out of stock";
+  condition: "new";
+  price: string;
+  salePrice: string | null;
+  brand: string;
+  gtin: string | null;
+  mpn: string | null;
+  productType: string | null;
+  color: string | null;
+  size: string | null;
+  /** e.g. `"0.5 kg"` */
+  shippingWeight: string | null;
+  /** e.g. `"500 g"` */
+  unitPricingMeasure: string | null;
+  /** e.g. `"100 g"` */
+  unitPricingBaseMeasure: string | null;
+};
+
+/**
+ * A variant left out of the feed and the required fields it lacks.
+ */
+export type FeedIssue = {
+  handle: string;
+  variantId: string | null;
+  reasons: string[];
+};
+
+export type FeedItemsResult = {
+  items: FeedItem[];
+  issues: FeedIssue[];
+};
+
+export type ProductFeedOptions = {
+  format: FeedFormat;
+  /** Used when a product carries no `currency`. */
+  currency?: CurrencyCode;
+  /** Channel title (Google XML only). */
+  title?: string;
+  /** Channel link, usually the store URL (Google XML only). */
+  link?: string;
+  /** Channel description (Google XML only). */
+  description?: string;
+  /** End the sink when the feed is complete (default: true). */
+  end?: boolean;
+  /** Called for every variant left out, as soon as it is found. */
+  onIssue?: (issue: FeedIssue) => void;
+};
+
+export type ProductFeedResult = {
+  /** Items written to the feed. */
+  items: number;
+  issues: FeedIssue[];
+};
+
+/** Google caps titles at 150 characters and descriptions at 5000. */
+const MAX_TITLE = 150;
+const MAX_DESCRIPTION = 5000;
+/** Both Google and Meta accept up to 10 additional images. */
+const MAX_ADDITIONAL_IMAGES = 10;
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+function formatAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toFixed(2)} ${currency}`;
+}
+
+function absoluteUrl(url: string | null | undefined): string {
+  if (!url) return "";
+  return url.startsWith("//") ? `https:${url}` : url;
+}
+
+function variantLink(productUrl: string, variantId: string): string {
+  try {
+    const url = new URL(productUrl);
+    url.searchParams.set("variant", variantId);
+    return url.toString();
+  } catch {
+    return "";
+  }
+}
+
+function optionValue(
+  product: ExportableProduct,
+  variant: ProductVariant | undefined,
+  names: string[]
+): string | null {
+  if (!variant) return null;
+  const index = product.options.findIndex((o) =>
+    names.includes(normalizeVariantToken(o.name))
+  );
+  if (index < 0 || index > 2) return null;
+  return [variant.option1, variant.option2, variant.option3][index] ?? null;
+}
+
+/**
+ * Build feed items for every variant of `product`. Prices and availability
+ * come from `variantPriceMap` and `variantAvailabilityMap`; barcodes,
+ * SKUs, weights and images from the variants.
+ *
+ * Variants missing a field both Google and Meta require (title,
+ * description, link, image, price, brand, currency) are returned as
+ * `issues` instead of items.
+ */
+export function buildFeedItems(
+  product: ExportableProduct,
+  options?: { currency?: CurrencyCode }
+): FeedItemsResult {
+  const items: FeedItem[] = [];
+  const issues: FeedIssue[] = [];
+  const currency = product.currency ?? options?.currency;
+  const description = truncate(
+    stripHtml(product.bodyHtml) || "",
+    MAX_DESCRIPTION
+  );
+  const productImages = (product.images ?? [])
+    .map((image) => absoluteUrl(image.src))
+    .filter(Boolean);
+  const variants = new Map(
+    (product.variants ?? []).map((variant) => [variant.id, variant])
+  );
+  const multiple = Object.keys(product.variantOptionsMap ?? {}).length > 1;
+
+  for (const [key, variantId] of Object.entries(
+    product.variantOptionsMap ?? {}
+  )) {
+    const variant = variants.get(variantId);
+    const price = product.variantPriceMap?.[key];
+    const available = product.variantAvailabilityMap?.[key] ?? false;
+    const compareAt = variant?.compareAtPrice ?? 0;
+
+    const variantTitle =
+      multiple && variant?.title && variant.title !== "Default Title"
+        ? ` - ${variant.title}`
+        : "";
+    const title = truncate(`${product.title}${variantTitle}`, MAX_TITLE);
+    const imageLink =
+      absoluteUrl(variant?.featuredImage?.src) ||
+      absoluteUrl(product.featuredImage) ||
+      productImages[0] ||
+      "";
+    const link = variantLink(product.url, variantId);
+
+    const reasons: string[] = [];
+    if (!product.title?.trim()) reasons.push("missing title");
+    if (!description) reasons.push("missing description");
+    if (!link) reasons.push("missing link");
+    if (!imageLink) reasons.push("missing image");
+    if (!price || price <= 0) reasons.push("missing price");
+    if (!product.vendor?.trim()) reasons.push("missing brand");
+    if (!currency) reasons.push("missing currency");
+    if (reasons.length > 0) {
+      issues.push({ handle: product.handle, variantId, reasons });
+      continue;
+    }
+
+    const onSale = compareAt > (price as number);
+    const weight = variant?.weight;
+    const unitPrice = variant?.unitPrice;
+    items.push({
+      id: variantId,
+      itemGroupId: product.platformId,
+      title,
+      description,
+      link,
+      imageLink,
+      additionalImageLinks: productImages
+        .filter((src) => src !== imageLink)
+        .slice(0, MAX_ADDITIONAL_IMAGES),
+      availability: available ? "in stock" : "out of stock",
+      condition: "new",
+      price: formatAmount(onSale ? compareAt : (price as number), currency!),
+      salePrice: onSale ? formatAmount(price as number, currency!) : null,
+      brand: product.vendor.trim(),
+      gtin: variant?.barcode ?? null,
+      mpn: variant?.sku ?? null,
+      productType: product.productType || null,
+      color: optionValue(product, variant, ["color", "colour"]),
+      size: optionValue(product, variant, ["size"]),
+      shippingWeight: weight ? `${weight.value} ${weight.unit}` : null,
+      unitPricingMeasure: unitPrice
+        ? `${unitPrice.quantity.value} ${unitPrice.quantity.unit}`
+        : null,
+      unitPricingBaseMeasure: unitPrice
+        ? `${unitPrice.reference.value} ${unitPrice.reference.unit}`
+        : null,
+    });
+  }
+
+  return { items, issues };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * RFC 4180 CSV row: fields with commas, quotes or line breaks are quoted.
+ * With `escapeFormulas`, text starting with `=`, `+`, `-`, `@`, a tab or a
+ * carriage return gets a leading `'` so spreadsheets show it instead of
+ * evaluating it as a formula.
+ */
+function csvRow(
+  values: readonly (string | number | null)[],
+  options?: { escapeFormulas?: boolean }
+): string {
+  return `${values
+    .map((value) => {
+      let text = value === null ? "" : String(value);
+      if (
+        options?.escapeFormulas &&
+        typeof value === "string" &&
+        /^[=+\-@\t\r]/.test(text)
+      ) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    })
+    .join(",")}\n`;
+}
+
+function tsvRow(values: readonly (string | null)[]): string {
+  // TSV has no quoting: tabs and line breaks inside values become spaces
+  return `${values.map((v) => (v ?? "").replace(/[\t\r\n]+/g, " ")).join("\t")}\n`;
+}
+
+type Column = [name: string, value: (item: FeedItem) => string | null];
+
+const GOOGLE_COLUMNS: Column[] = [
+  ["id", (i) => i.id],
+  ["item_group_id", (i) => i.itemGroupId],
+  ["title", (i) => i.title],
+  ["description", (i) => i.description],
+  ["link", (i) => i.link],
+  ["image_link", (i) => i.imageLink],
+  ["additional_image_link", (i) => i.additionalImageLinks.join(",") || null],
+  ["availability", (i) => i.availability],
+  ["condition", (i) => i.condition],
+  ["price", (i) => i.price],
+  ["sale_price", (i) => i.salePrice],
+  ["brand", (i) => i.brand],
+  ["gtin", (i) => i.gtin],
+  ["mpn", (i) => i.mpn],
+  // Without a GTIN or MPN, Google expects identifier_exists = no
+  ["identifier_exists", (i) => (i.gtin || i.mpn ? "yes" : "no")],
+  ["product_type", (i) => i.productType],
+  ["color", (i) => i.color],
+  ["size", (i) => i.size],
+  ["shipping_weight", (i) => i.shippingWeight],
+  ["unit_pricing_measure", (i) => i.unitPricingMeasure],
+  ["unit_pricing_base_measure", (i) => i.unitPricingBaseMeasure],
+];
+
+const META_COLUMNS: Column[] = [
+  ["id", (i) => i.id],
+  ["title", (i) => i.title],
+  ["description", (i) => i.description],
+  ["availability", (i) => i.availability],
+  ["condition", (i) => i.condition],
+  ["price", (i) => i.price],
+  ["link", (i) => i.link],
+  ["image_link", (i) => i.imageLink],
+  ["brand", (i) => i.brand],
+  ["sale_price", (i) => i.salePrice],
+  ["item_group_id", (i) => i.itemGroupId],
+  ["gtin", (i) => i.gtin],
+  ["mpn", (i) => i.mpn],
+  ["additional_image_link", (i) => i.additionalImageLinks.join(",") || null],
+  ["product_type", (i) => i.productType],
+  ["color", (i) => i.color],
+  ["size", (i) => i.size],
+  ["shipping_weight", (i) => i.shippingWeight],
+];
+
+function googleXmlItem(item: FeedItem): string {
+  const lines = GOOGLE_COLUMNS.flatMap(([name, value]) => {
+    if (name === "additional_image_link") {
+      return item.additionalImageLinks.map(
+        (src) =>
+          `<g:additional_image_link>${escapeXml(src)}</g:additional_image_link>`
+      );
+    }
+    const text = value(item);
+    return text === null ? [] : [`<g:${name}>${escapeXml(text)}</g:${name}>`];
+  });
+  return `<item>\n${lines.map((line) => `  ${line}`).join("\n")}\n</item>\n`;
+}
+
+/**
+ * Write a product feed to `sink`, one item per variant, as products arrive.
+ *
+ * @param products - Full products, e.g. `shop.products.stream({ columns: { mode: 'full' } })`
+ * @param sink - Node.js writable or `WritableStream<string>`
+ * @param options - `format` (`google-xml`, `google-tsv` or `meta-csv`) and channel details
+ *
+ * @returns {Promise<ProductFeedResult>} Number of items written and the variants left out, with reasons
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ *
+ * const { items, issues } = await writeProductFeed(
+ *   shop.products.stream({ columns: { mode: 'full', images: 'full' } }),
+ *   createWriteStream('feed.xml'),
+ *   { format: 'google-xml', title: 'Example Shop', link: 'https://exampleshop.com' }
+ * );
+ * ```
+ */
+export async function writeProductFeed(
+  products: Iterable<ExportableProduct> | AsyncIterable<ExportableProduct>,
+  sink: OutputSink,
+  options: ProductFeedOptions
+): Promise<ProductFeedResult> {
+  const { format } = options;
+  if (
+    format !== "google-xml" &&
+    format !== "google-tsv" &&
+    format !== "meta-csv"
+  ) {
+    throw new Error(`Unsupported feed format: ${String(format)}`);
+  }
+
+  const writer = createSinkWriter(sink, { end: options.end });
+  const issues: FeedIssue[] = [];
+  let count = 0;
+
+  try {
+    if (format === "google-xml") {
+      await writer.write(
+        `<?xml version="1.0" encoding="UTF-8"?>\n<rss version="2.0" xmlns:g="http://base.google.com/ns/1.0">\n<channel>\n<title>${escapeXml(options.title ?? "Products")}</title>\n<link>${escapeXml(options.link ?? "")}</link>\n<description>${escapeXml(options.description ?? "")}</description>\n`
+      );
+    } else if (format === "google-tsv") {
+      await writer.write(tsvRow(GOOGLE_COLUMNS.map(([name]) => name)));
+    } else {
+      await writer.write(csvRow(META_COLUMNS.map(([name]) => name)));
+    }
+
+    for await (const product of products) {
+      const result = buildFeedItems(product, { currency: options.currency });
+      for (const issue of result.issues) {
+        issues.push(issue);
+        options.onIssue?.(issue);
+      }
+      for (const item of result.items) {
+        if (format === "google-xml") {
+          await writer.write(googleXmlItem(item));
+        } else if (format === "google-tsv") {
+          await writer.write(
+            tsvRow(GOOGLE_COLUMNS.map(([, value]) => value(item)))
+          );
+        } else {
+          await writer.write(
+            csvRow(META_COLUMNS.map(([, value]) => value(item)))
+          );
+        }
+        count++;
+      }
+    }
+
+    if (format === "google-xml") await writer.write("</channel>\n</rss>\n");
+    await writer.close();
+  } catch (error) {
+    await writer.abort(error);
+    throw error;
+  }
+  return { items: count, issues };
+}
+
+export type CatalogFormat = "csv" | "jsonl" | "shopify-csv";
+
+export type CatalogExportOptions = StreamOptions & {
+  /**
+   * `csv`: one row per variant with product fields repeated. `jsonl`: one
+   * full product per line. `shopify-csv`: Shopify's product import format.
+   */
+  format: CatalogFormat;
+  /** Node.js writable or `WritableStream<string>`. */
+  output: OutputSink;
+  currency?: CurrencyCode;
+  /** End `output` when the export is complete (default: true). */
+  end?: boolean;
+};
+
+export type CatalogExportResult = {
+  products: number;
+  /** Lines written after the header. */
+  rows: number;
+};
+
+/** A price in cents as a decimal string, blank when unset. */
+function decimal(cents: number | null | undefined): string {
+  return cents ? (cents / 100).toFixed(2) : "";
+}
+
+function isoDate(date: Date | null | undefined): string {
+  return date instanceof Date && !Number.isNaN(date.getTime())
+    ? date.toISOString()
+    : "";
+}
+
+function optionNames(product: ExportableProduct): string[] {
+  return [0, 1, 2].map((i) => product.options[i]?.name ?? "");
+}
+
+const CATALOG_CSV_HEADER = [
+  "product_id",
+  "handle",
+  "title",
+  "vendor",
+  "product_type",
+  "tags",
+  "url",
+  "published_at",
+  "updated_at",
+  "variant_id",
+  "variant_title",
+  "option1_name",
+  "option1_value",
+  "option2_name",
+  "option2_value",
+  "option3_name",
+  "option3_value",
+  "sku",
+  "barcode",
+  "price",
+  "compare_at_price",
+  "currency",
+  "available",
+  "requires_shipping",
+  "taxable",
+  "weight_grams",
+  "image",
+];
+
+function catalogCsvRows(
+  product: ExportableProduct,
+  currency: string
+): string[] {
+  const names = optionNames(product);
+  const variants = product.variants?.length ? product.variants : [null];
+  return variants.map((variant) =>
+    csvRow(
+      [
+        product.platformId,
+        product.handle,
+        product.title,
+        product.vendor,
+        product.productType,
+        product.tags.join(", "),
+        product.url,
+        isoDate(product.publishedAt),
+        isoDate(product.updatedAt),
+        variant?.id ?? "",
+        variant?.title ?? "",
+        names[0]!,
+        variant?.option1 ?? "",
+        names[1]!,
+        variant?.option2 ?? "",
+        names[2]!,
+        variant?.option3 ?? "",
+        variant?.sku ?? "",
+        variant?.barcode ?? "",
+        decimal(variant ? variant.price : product.price),
+        decimal(variant ? variant.compareAtPrice : product.compareAtPrice),
+        currency,
+        String(variant ? variant.available : product.available),
+        variant ? String(variant.requiresShipping) : "",
+        variant ? String(variant.taxable) : "",
+        variant?.weightInGrams ?? "",
+        absoluteUrl(variant?.featuredImage?.src) ||
+          absoluteUrl(product.featuredImage),
+      ],
+      { escapeFormulas: true }
+    )
+  );
+}
+
+const SHOPIFY_CSV_HEADER = [
+  "Handle",
+  "Title",
+  "Body (HTML)",
+  "Vendor",
+  "Type",
+  "Tags",
+  "Published",
+  "Option1 Name",
+  "Option1 Value",
+  "Option2 Name",
+  "Option2 Value",
+  "Option3 Name",
+  "Option3 Value",
+  "Variant SKU",
+  "Variant Grams",
+  "Variant Inventory Tracker",
+  "Variant Inventory Policy",
+  "Variant Fulfillment Service",
+  "Variant Price",
+  "Variant Compare At Price",
+  "Variant Requires Shipping",
+  "Variant Taxable",
+  "Variant Barcode",
+  "Image Src",
+  "Image Position",
+  "Image Alt Text",
+  "Gift Card",
+  "Variant Image",
+  "Variant Weight Unit",
+  "Status",
+];
+
+/**
+ * Rows as Shopify's own product export lays them out: the first row holds
+ * the product fields, row `i` holds variant `i` and image `i`, and images
+ * beyond the last variant get rows with only the handle and image columns.
+ */
+function shopifyCsvRows(product: ExportableProduct): string[] {
+  const names = optionNames(product);
+  const variants = product.variants ?? [];
+  const images = (product.images as { src: string; alt?: string | null }[])
+    .map((image) => ({ src: absoluteUrl(image.src), alt: image.alt ?? "" }))
+    .filter((image) => image.src);
+  const rows: string[] = [];
+
+  for (let i = 0; i < Math.max(variants.length, images.length, 1); i++) {
+    const first = i === 0;
+    const variant = variants[i];
+    const image = images[i];
+    rows.push(
+      csvRow([
+        product.handle,
+        first ? product.title : "",
+        first ? (product.bodyHtml ?? "") : "",
+        first ? product.vendor : "",
+        first ? (product.productType ?? "") : "",
+        first ? product.tags.join(", ") : "",
+        first ? (product.publishedAt ? "TRUE" : "FALSE") : "",
+        // Option names only on the first row, values on every variant row
+        first ? names[0]! : "",
+        variant?.option1 ?? "",
+        first ? names[1]! : "",
+        variant?.option2 ?? "",
+        first ? names[2]! : "",
+        variant?.option3 ?? "",
+        variant?.sku ?? "",
+        variant?.weightInGrams ?? (variant ? 0 : ""),
+        "",
+        variant ? "deny" : "",
+        variant ? "manual" : "",
+        variant ? decimal(variant.price) || "0.00" : "",
+        variant ? decimal(variant.compareAtPrice) : "",
+        variant ? String(variant.requiresShipping).toUpperCase() : "",
+        variant ? String(variant.taxable).toUpperCase() : "",
+        variant?.barcode ?? "",
+        image?.src ?? "",
+        image ? i + 1 : "",
+        image?.alt ?? "",
+        first ? "FALSE" : "",
+        absoluteUrl(variant?.featuredImage?.src),
+        variant ? (variant.weight?.unit ?? "g") : "",
+        first ? "active" : "",
+      ])
+    );
+  }
+  return rows;
+}
+
+/**
+ * Export a store's full catalog, writing each `/products.json` page as it
+ * is crawled instead of loading every product first.
+ *
+ * @param shop - A `ShopClient` (or anything with `products.stream`)
+ * @param options - `format`, the `output` sink, and stream options (`signal`, `onPage`)
+ *
+ * @returns {Promise<CatalogExportResult>} Number of products and rows written
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ *
+ * await exportCatalog(shop, {
+ *   format: 'shopify-csv',
+ *   output: createWriteStream('products_export.csv'),
+ * });
+ * ```
+ */
+export async function exportCatalog(
+  shop: { products: Pick<ProductOperations, "stream"> },
+  options: CatalogExportOptions
+): Promise<CatalogExportResult> {
+  const { format } = options;
+  if (format !== "csv" && format !== "jsonl" && format !== "shopify-csv") {
+    throw new Error(`Unsupported catalog format: ${String(format)}`);
+  }
+
+  const writer = createSinkWriter(options.output, { end: options.end });
+  let products = 0;
+  let rows = 0;
+
+  try {
+    if (format === "csv") await writer.write(csvRow(CATALOG_CSV_HEADER));
+    if (format === "shopify-csv") {
+      await writer.write(csvRow(SHOPIFY_CSV_HEADER));
+    }
+
+    for await (const product of shop.products.stream({
+      columns: { mode: "full", images: "full", options: "full" },
+      currency: options.currency,
+      signal: options.signal,
+      onPage: options.onPage,
+    })) {
+      const lines =
+        format === "jsonl"
+          ? [`${JSON.stringify(product)}\n`]
+          : format === "csv"
+            ? catalogCsvRows(
+                product,
+                product.currency ?? options.currency ?? ""
+              )
+            : shopifyCsvRows(product);
+      await writer.write(lines.join(""));
+      products++;
+      rows += lines.length;
+    }
+
+    await writer.close();
+  } catch (error) {
+    await writer.abort(error);
+    throw error;
+  }
+  return { products, rows };
+}
@@ -0,0 +1,244 @@
+import type { CurrencyCode, ProductImagesMode, ProductResult } from "./types";
+import { formatPrice, normalizeVariantToken } from "./utils/func";
+
+/**
+ * Products the facet builder reads: full columns with full options, so
+ * variants, vendor, tags and display option values are all present.
+ */
+export type FacetableProduct = ProductResult<"full", ProductImagesMode, "full">;
+
+/**
+ * One value of a facet, e.g. the vendor `"Acme Co."`.
+ */
+export type FacetValue = {
+  /** Display label as the store spells it (first spelling seen). */
+  value: string;
+  /** Normalized key, as used in `variantOptionsMap` keys. */
+  key: string;
+  /** Products carrying the value. */
+  count: number;
+  /** Available variants carrying the value. */
+  availableVariants: number;
+};
+
+export type OptionFacet = {
+  name: string;
+  key: string;
+  values: FacetValue[];
+};
+
+/**
+ * Price range `[min, max)` in cents; `min` is `null` for the open-ended
+ * bottom bucket and `max` for the open-ended top bucket.
+ */
+export type PriceBucket = {
+  min: number | null;
+  max: number | null;
+  /** Range formatted in the store currency, e.g. `"$25.00 – $50.00"`. */
+  label: string;
+  /** Products with at least one variant priced in the range. */
+  count: number;
+  availableVariants: number;
+};
+
+/**
+ * Facet data for building storefront-style filter sidebars. Values are
+ * sorted by product count, highest first.
+ */
+export type ProductFacets = {
+  /** Products the facets were computed from. */
+  total: number;
+  currency: CurrencyCode;
+  options: OptionFacet[];
+  vendor: FacetValue[];
+  productType: FacetValue[];
+  tags: FacetValue[];
+  price: { min: number; max: number; buckets: PriceBucket[] };
+};
+
+export type FacetOptions = {
+  currency: CurrencyCode;
+  /**
+   * Number of evenly sized price buckets with rounded bounds (default 5), or
+   * explicit ascending lower bounds in cents. Prices below the first bound
+   * get an open-ended bottom bucket.
+   */
+  priceBuckets?: number | number[];
+};
+
+type Tally = {
+  value: string;
+  products: Set<number>;
+  availableVariants: number;
+};
+
+class FacetCounter {
+  private tallies = new Map<string, Tally>();
+
+  add(display: string, product: number, availableVariants: number): void {
+    const value = display.trim();
+    const key = normalizeVariantToken(value);
+    if (!key) return;
+    let tally = this.tallies.get(key);
+    if (!tally) {
+      tally = { value, products: new Set(), availableVariants: 0 };
+      this.tallies.set(key, tally);
+    }
+    // A product repeating a value (e.g. duplicate tags) counts once
+    if (tally.products.has(product)) return;
+    tally.products.add(product);
+    tally.availableVariants += availableVariants;
+  }
+
+  values(): FacetValue[] {
+    return Array.from(this.tallies, ([key, tally]) => ({
+      value: tally.value,
+      key,
+      count: tally.products.size,
+      availableVariants: tally.availableVariants,
+    })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+}
+
+/**
+ * Round a bucket width up to 1, 2, 2.5 or 5 times a power of ten, so bucket
+ * bounds land on prices a shopper would type.
+ */
+function niceStep(raw: number): number {
+  if (raw <= 0) return 100;
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 2.5, 5, 10]
+    .map((m) => m * magnitude)
+    .find((candidate) => candidate >= raw);
+  return Math.max(1, Math.round(step ?? raw));
+}
+
+function bucketBounds(
+  min: number,
+  max: number,
+  spec: number | number[]
+): number[] {
+  if (Array.isArray(spec)) {
+    return [...new Set(spec)].sort((a, b) => a - b);
+  }
+  const count = Math.max(1, Math.floor(spec));
+  const step = niceStep((max - min) / count);
+  const bounds: number[] = [];
+  for (let b = Math.floor(min / step) * step; b <= max; b += step) {
+    bounds.push(b);
+  }
+  return bounds.length > 0 ? bounds : [0];
+}
+
+/**
+ * Compute option, vendor, product type, tag and price facets for a product
+ * list in one pass.
+ */
+export function buildProductFacets(
+  products: readonly FacetableProduct[],
+  options: FacetOptions
+): ProductFacets {
+  const optionCounters = new Map<
+    string,
+    { name: string; counter: FacetCounter }
+  >();
+  const vendor = new FacetCounter();
+  const productType = new FacetCounter();
+  const tags = new FacetCounter();
+  const prices: { product: number; price: number; available: boolean }[] = [];
+
+  products.forEach((product, index) => {
+    const variants = product.variants ?? [];
+    const available = variants.filter((v) => v.available).length;
+
+    if (product.vendor) vendor.add(product.vendor, index, available);
+    if (product.productType) {
+      productType.add(product.productType, index, available);
+    }
+    for (const tag of product.tags ?? []) tags.add(tag, index, available);
+
+    (product.options ?? []).forEach((option, position) => {
+      const key = normalizeVariantToken(option.name);
+      if (!key) return;
+      let entry = optionCounters.get(key);
+      if (!entry) {
+        entry = { name: option.name, counter: new FacetCounter() };
+        optionCounters.set(key, entry);
+      }
+      const field = `option${position + 1}` as
+        | "option1"
+        | "option2"
+        | "option3";
+      for (const value of option.values) {
+        const matching = variants.filter(
+          (v) =>
+            v[field] != null &&
+            normalizeVariantToken(v[field]) === normalizeVariantToken(value)
+        );
+        entry.counter.add(
+          value,
+          index,
+          matching.filter((v) => v.available).length
+        );
+      }
+    });
+
+    for (const variant of variants) {
+      prices.push({
+        product: index,
+        price: variant.price,
+        available: variant.available,
+      });
+    }
+  });
+
+  // Reduce instead of Math.min(...) so large catalogs cannot overflow the stack
+  const min = prices.reduce(
+    (acc, p) => Math.min(acc, p.price),
+    prices[0]?.price ?? 0
+  );
+  const max = prices.reduce(
+    (acc, p) => Math.max(acc, p.price),
+    prices[0]?.price ?? 0
+  );
+  const bounds = prices.length
+    ? bucketBounds(min, max, options.priceBuckets ?? 5)
+    : [];
+  const lowers: (number | null)[] = [...bounds];
+  // Explicit bounds may start above the cheapest variant
+  if (bounds[0] !== undefined && min < bounds[0]) lowers.unshift(null);
+  const buckets: PriceBucket[] = lowers.map((lower, i) => {
+    const upper = lowers[i + 1] ?? null;
+    const inRange = prices.filter(
+      (p) =>
+        (lower === null || p.price >= lower) &&
+        (upper === null || p.price < upper)
+    );
+    return {
+      min: lower,
+      max: upper,
+      label:
+        lower === null
+          ? `Under ${formatPrice(upper ?? 0, options.currency)}`
+          : upper === null
+            ? `${formatPrice(lower, options.currency)}+`
+            : `${formatPrice(lower, options.currency)} – ${formatPrice(upper, options.currency)}`,
+      count: new Set(inRange.map((p) => p.product)).size,
+      availableVariants: inRange.filter((p) => p.available).length,
+    };
+  });
+
+  return {
+    total: products.length,
+    currency: options.currency,
+    options: Array.from(optionCounters, ([key, { name, counter }]) => ({
+      name,
+      key,
+      values: counter.values(),
+    })),
+    vendor: vendor.values(),
+    productType: productType.values(),
+    tags: tags.values(),
+    price: { min, max, buckets },
+  };
+}
@@ -0,0 +1,564 @@
+/**
+ * Price and availability history.
+ *
+ * Every `record()` call stores one observation per variant (price,
+ * compare-at price, availability and discount) in a {@link HistoryStore}.
+ * The queries read those observations back to answer questions such as
+ * "what was the lowest price in the last 30 days" or "what came back in
+ * stock since Monday". Observations are namespaced by store host, so one
+ * history store can be shared by several clients.
+ */
+
+import type { SqliteDatabase } from "./cache";
+import type {
+  ProductImagesMode,
+  ProductOptionsMode,
+  ProductResult,
+} from "./types";
+import { buildVariantPriceMap, calculateDiscount } from "./utils/func";
+
+/**
+ * State of one variant at one crawl. Prices are in cents.
+ */
+export type PriceObservation = {
+  handle: string;
+  productId: string;
+  /** Normalized option combination, as used in `variantPriceMap` keys. */
+  variantKey: string;
+  variantId: string | null;
+  price: number;
+  /** `0` when the variant has no compare-at price. */
+  compareAtPrice: number;
+  available: boolean;
+  /** Percentage off the compare-at price, rounded. */
+  discount: number;
+  observedAt: Date;
+};
+
+/**
+ * Append-only storage for observations. `store` is the store host the
+ * observations belong to.
+ */
+export interface HistoryStore {
+  append(store: string, observations: PriceObservation[]): Promise<void>;
+  /** Observations for `store`, oldest first. */
+  read(
+    store: string,
+    filter?: { handle?: string; since?: Date }
+  ): Promise<PriceObservation[]>;
+}
+
+/**
+ * Products `record()` accepts: full columns, so variants are present.
+ */
+export type HistoryProduct = ProductResult<
+  "full",
+  ProductImagesMode,
+  ProductOptionsMode
+>;
+
+export type VariantPriceHistory = {
+  variantKey: string;
+  variantId: string | null;
+  /** Every observation of the variant, oldest first. */
+  points: Omit<PriceObservation, "handle" | "productId" | "variantKey">[];
+};
+
+export type LowestPrice = {
+  price: number;
+  compareAtPrice: number;
+  variantKey: string;
+  variantId: string | null;
+  observedAt: Date;
+};
+
+/**
+ * A variant whose state changed between two consecutive observations.
+ */
+export type HistoryChange = {
+  handle: string;
+  variantKey: string;
+  variantId: string | null;
+  previous: PriceObservation;
+  current: PriceObservation;
+};
+
+export type HistoryRecordResult = {
+  observedAt: Date;
+  products: number;
+  variants: number;
+};
+
+function matches(
+  observation: PriceObservation,
+  filter?: { handle?: string; since?: Date }
+): boolean {
+  if (filter?.handle !== undefined && observation.handle !== filter.handle) {
+    return false;
+  }
+  return !filter?.since || observation.observedAt >= filter.since;
+}
+
+const byTime = (a: PriceObservation, b: PriceObservation) =>
+  a.observedAt.getTime() - b.observedAt.getTime();
+
+function reviveObservation(raw: Record<string, unknown>): PriceObservation {
+  return {
+    ...(raw as Omit<PriceObservation, "observedAt">),
+    observedAt: new Date(raw.observedAt as string | number),
+  };
+}
+
+/**
+ * In-memory history store (the default). History is lost when the process
+ * exits.
+ */
+export function createMemoryHistoryStore(): HistoryStore {
+  const stores = new Map<string, PriceObservation[]>();
+  return {
+    async append(store, observations) {
+      const list = stores.get(store) ?? [];
+      list.push(...observations);
+      stores.set(store, list);
+    },
+    async read(store, filter) {
+      return (stores.get(store) ?? [])
+        .filter((o) => matches(o, filter))
+        .sort(byTime);
+    },
+  };
+}
+
+/**
+ * History store keeping one JSON Lines file per store host under
+ * `directory`. Each crawl appends to the file, so it grows with every
+ * `record()`. Node.js/Bun only; `node:fs` is loaded lazily on first use.
+ *
+ * @example
+ * ```typescript
+ * const shop = new ShopClient('exampleshop.com', {
+ *   history: createJsonHistoryStore('.data/history'),
+ * });
+ * ```
+ */
+export function createJsonHistoryStore(directory: string): HistoryStore {
+  const fileFor = (store: string) =>
+    `${directory}/${encodeURIComponent(store)}.jsonl`;
+  let ready: Promise<typeof import("node:fs/promises")> | undefined;
+  const fs = () => {
+    ready ??= import("node:fs/promises").then(async (mod) => {
+      await mod.mkdir(directory, { recursive: true });
+      return mod;
+    });
+    return ready;
+  };
+
+  return {
+    async append(store, observations) {
+      if (observations.length === 0) return;
+      const { appendFile } = await fs();
+      const lines = observations.map((o) => `${JSON.stringify(o)}\n`);
+      await appendFile(fileFor(store), lines.join(""), "utf8");
+    },
+    async read(store, filter) {
+      const { readFile } = await fs();
+      let text: string;
+      try {
+        text = await readFile(fileFor(store), "utf8");
+      } catch {
+        return [];
+      }
+      const observations: PriceObservation[] = [];
+      for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          const observation = reviveObservation(JSON.parse(line));
+          if (matches(observation, filter)) observations.push(observation);
+        } catch {
+          // Skip a line left partial by an interrupted write
+        }
+      }
+      return observations.sort(byTime);
+    },
+  };
+}
+
+/**
+ * History store backed by a caller-provided SQLite handle
+ * (`better-sqlite3` or `bun:sqlite`). Creates the table on first use.
+ *
+ * @example
+ * ```typescript
+ * import Database from 'better-sqlite3';
+ *
+ * const shop = new ShopClient('exampleshop.com', {
+ *   history: createSqliteHistoryStore(new Database('history.db')),
+ * });
+ * ```
+ */
+export function createSqliteHistoryStore(
+  db: SqliteDatabase,
+  options?: { table?: string }
+): HistoryStore {
+  const table = options?.table ?? "shop_client_history";
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid SQLite table name: ${table}`);
+  }
+  db.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (store TEXT NOT NULL, handle TEXT NOT NULL, product_id TEXT NOT NULL, variant_key TEXT NOT NULL, variant_id TEXT, price INTEGER NOT NULL, compare_at_price INTEGER NOT NULL, available INTEGER NOT NULL, discount INTEGER NOT NULL, observed_at INTEGER NOT NULL)`
+  );
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS ${table}_lookup ON ${table} (store, handle, observed_at)`
+  );
+  const insert = db.prepare(
+    `INSERT INTO ${table} (store, handle, product_id, variant_key, variant_id, price, compare_at_price, available, discount, observed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  );
+  const select = db.prepare(
+    `SELECT handle, product_id, variant_key, variant_id, price, compare_at_price, available, discount, observed_at FROM ${table} WHERE store = ? AND (? IS NULL OR handle = ?) AND observed_at >= ? ORDER BY observed_at, rowid`
+  );
+
+  return {
+    async append(store, observations) {
+      if (observations.length === 0) return;
+      // One transaction per crawl: a single fsync, and no half-written crawl
+      db.exec("BEGIN");
+      try {
+        for (const o of observations) {
+          insert.run(
+            store,
+            o.handle,
+            o.productId,
+            o.variantKey,
+            o.variantId,
+            o.price,
+            o.compareAtPrice,
+            o.available ? 1 : 0,
+            o.discount,
+            o.observedAt.getTime()
+          );
+        }
+        db.exec("COMMIT");
+      } catch (error) {
+        db.exec("ROLLBACK");
+        throw error;
+      }
+    },
+    async read(store, filter) {
+      const handle = filter?.handle ?? null;
+      const rows = select.all(
+        store,
+        handle,
+        handle,
+        filter?.since?.getTime() ?? 0
+      ) as {
+        handle: string;
+        product_id: string;
+        variant_key: string;
+        variant_id: string | null;
+        price: number;
+        compare_at_price: number;
+        available: number;
+        discount: number;
+        observed_at: number;
+      }[];
+      return rows.map((row) => ({
+        handle: row.handle,
+        productId: row.product_id,
+        variantKey: row.variant_key,
+        variantId: row.variant_id,
+        price: row.price,
+        compareAtPrice: row.compare_at_price,
+        available: row.available === 1,
+        discount: row.discount,
+        observedAt: new Date(row.observed_at),
+      }));
+    },
+  };
+}
+
+/**
+ * One observation per variant of `product`, read from the variant maps the
+ * DTO builds (`variantPriceMap`, `variantAvailabilityMap`,
+ * `variantOptionsMap`). Compare-at prices are keyed the same way through
+ * `buildVariantPriceMap`.
+ */
+export function observeProduct(
+  product: HistoryProduct,
+  observedAt: Date
+): PriceObservation[] {
+  const optionNames = product.options.map((o) => o.name);
+  const compareAtMap = buildVariantPriceMap(
+    optionNames,
+    (product.variants ?? []).map((v) => ({
+      id: Number(v.id),
+      option1: v.option1,
+      option2: v.option2,
+      option3: v.option3,
+      price: v.compareAtPrice ?? 0,
+    }))
+  );
+
+  return Object.entries(product.variantPriceMap ?? {}).map(
+    ([variantKey, price]) => {
+      const compareAtPrice = compareAtMap[variantKey] ?? 0;
+      return {
+        handle: product.handle,
+        productId: product.platformId,
+        variantKey,
+        variantId: product.variantOptionsMap?.[variantKey] ?? null,
+        price,
+        compareAtPrice,
+        available: product.variantAvailabilityMap?.[variantKey] ?? true,
+        discount:
+          compareAtPrice > price ? calculateDiscount(price, compareAtPrice) : 0,
+        observedAt,
+      };
+    }
+  );
+}
+
+function groupByVariant(
+  observations: PriceObservation[]
+): Map<string, PriceObservation[]> {
+  const groups = new Map<string, PriceObservation[]>();
+  for (const o of observations) {
+    const key = `${o.handle}\u0000${o.variantKey}`;
+    const list = groups.get(key) ?? [];
+    list.push(o);
+    groups.set(key, list);
+  }
+  return groups;
+}
+
+function toChange(
+  previous: PriceObservation,
+  current: PriceObservation
+): HistoryChange {
+  return {
+    handle: current.handle,
+    variantKey: current.variantKey,
+    variantId: current.variantId,
+    previous,
+    current,
+  };
+}
+
+function toDate(value: Date | string, name: string): Date {
+  const date = value instanceof Date ? value : new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date`);
+  }
+  return date;
+}
+
+/**
+ * Interface for price and availability history operations
+ */
+export interface HistoryOperations {
+  /**
+   * Crawls the catalog (or takes already fetched products) and stores one observation per variant.
+   */
+  record(products?: readonly HistoryProduct[]): Promise<HistoryRecordResult>;
+
+  /**
+   * Every recorded observation of a product, grouped by variant.
+   */
+  priceHistory(handle: string): Promise<VariantPriceHistory[]>;
+
+  /**
+   * Lowest price observed for a product over the last `days` days.
+   */
+  lowestPrice(handle: string, days?: number): Promise<LowestPrice | null>;
+
+  /**
+   * Variants that went from sold out to available at or after `since`.
+   */
+  restockedSince(since: Date | string): Promise<HistoryChange[]>;
+
+  /**
+   * Variants discounted in the latest crawl but not in the one before it.
+   */
+  newlyDiscounted(): Promise<HistoryChange[]>;
+}
+
+export type HistoryContext = {
+  /** Namespace of the observations, normally the store host. */
+  store: string;
+  historyStore: HistoryStore;
+  /** Crawls the catalog with full columns for `record()`. */
+  fetchProducts: () => Promise<HistoryProduct[]>;
+};
+
+/**
+ * Creates history operations for a store instance
+ */
+export function createHistoryOperations(
+  context: HistoryContext
+): HistoryOperations {
+  const { store, historyStore, fetchProducts } = context;
+
+  const sanitizeHandle = (handle: string): string => {
+    if (!handle || typeof handle !== "string") {
+      throw new Error("Product handle is required and must be a string");
+    }
+    const sanitized = handle.trim().replace(/[^a-zA-Z0-9\-_]/g, "");
+    if (!sanitized) {
+      throw new Error("Invalid product handle format");
+    }
+    return sanitized;
+  };
+
+  return {
+    /**
+     * Stores the current price, compare-at price, availability and
+     * discount of every variant as one crawl.
+     *
+     * @param products - Products to record (full columns); crawls `products.all()` when omitted
+     *
+     * @returns {Promise<HistoryRecordResult>} Crawl time and the number of products and variants stored
+     *
+     * @throws {UpstreamHttpError} When the catalog crawl fails
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('exampleshop.com', {
+     *   history: createJsonHistoryStore('.data/history'),
+     * });
+     * await shop.history.record(); // e.g. from a daily cron job
+     * ```
+     */
+    record: async (products) => {
+      const list = products ?? (await fetchProducts());
+      const observedAt = new Date();
+      const observations = list.flatMap((p) => observeProduct(p, observedAt));
+      await historyStore.append(store, observations);
+      return {
+        observedAt,
+        products: list.length,
+        variants: observations.length,
+      };
+    },
+
+    /**
+     * Every recorded observation of a product, grouped by variant, oldest
+     * first.
+     *
+     * @param handle - The product handle
+     *
+     * @returns {Promise<VariantPriceHistory[]>} One entry per variant; empty when the product was never recorded
+     *
+     * @throws {Error} When the handle is invalid
+     */
+    priceHistory: async (handle) => {
+      const observations = await historyStore.read(store, {
+        handle: sanitizeHandle(handle),
+      });
+      return Array.from(groupByVariant(observations).values(), (list) => ({
+        variantKey: list[0]!.variantKey,
+        variantId: list.at(-1)!.variantId,
+        points: list.map(
+          ({
+            variantId,
+            price,
+            compareAtPrice,
+            available,
+            discount,
+            observedAt,
+          }) => ({
+            variantId,
+            price,
+            compareAtPrice,
+            available,
+            discount,
+            observedAt,
+          })
+        ),
+      }));
+    },
+
+    /**
+     * Lowest price observed for any variant of a product over the last
+     * `days` days, e.g. the "lowest price in the previous 30 days" shown
+     * next to EU price reductions.
+     *
+     * @param handle - The product handle
+     * @param days - Window length in days (default: 30)
+     *
+     * @returns {Promise<LowestPrice | null>} The lowest observation, or `null` when none falls in the window
+     *
+     * @throws {Error} When the handle or `days` is invalid
+     */
+    lowestPrice: async (handle, days = 30) => {
+      if (!Number.isFinite(days) || days <= 0) {
+        throw new Error("Invalid days value");
+      }
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const observations = await historyStore.read(store, {
+        handle: sanitizeHandle(handle),
+        since,
+      });
+      let lowest: PriceObservation | undefined;
+      for (const o of observations) {
+        if (!lowest || o.price < lowest.price) lowest = o;
+      }
+      if (!lowest) return null;
+      return {
+        price: lowest.price,
+        compareAtPrice: lowest.compareAtPrice,
+        variantKey: lowest.variantKey,
+        variantId: lowest.variantId,
+        observedAt: lowest.observedAt,
+      };
+    },
+
+    /**
+     * Variants observed sold out and then available, where the first
+     * available observation is at or after `since`. Only variants still
+     * available in their latest observation are reported.
+     *
+     * @param since - Date (or ISO string) to look back to
+     *
+     * @throws {Error} When `since` is not a valid date
+     */
+    restockedSince: async (since) => {
+      const threshold = toDate(since, "since");
+      const changes: HistoryChange[] = [];
+      for (const list of groupByVariant(
+        await historyStore.read(store)
+      ).values()) {
+        const latest = list.at(-1)!;
+        if (!latest.available) continue;
+        // Walk back to the start of the current in-stock run
+        let i = list.length - 1;
+        while (i > 0 && list[i - 1]!.available) i--;
+        const restock = list[i]!;
+        const before = list[i - 1];
+        if (before && restock.observedAt >= threshold) {
+          changes.push(toChange(before, restock));
+        }
+      }
+      return changes;
+    },
+
+    /**
+     * Variants with a discount in the latest crawl and none in the crawl
+     * before it. Variants first seen in the latest crawl, or missing from
+     * it, are not reported.
+     */
+    newlyDiscounted: async () => {
+      const observations = await historyStore.read(store);
+      const latest = observations.at(-1)?.observedAt.getTime();
+      const changes: HistoryChange[] = [];
+      for (const list of groupByVariant(observations).values()) {
+        const current = list.at(-1)!;
+        const previous = list.at(-2);
+        // Variants missing from the latest crawl are no longer listed
+        if (current.observedAt.getTime() !== latest) continue;
+        if (previous && current.discount > 0 && previous.discount === 0) {
+          changes.push(toChange(previous, current));
+        }
+      }
+      return changes;
+    },
+  };
+}
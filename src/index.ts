@@ -1,9 +1,18 @@
 import { determineStoreTypeForStore } from "./ai/determine-store-type";
+import type { CacheAdapter, CacheTTLConfig } from "./cache";
+import { createMemoryCache, ResourceCache } from "./cache";
+import type { CartOperations } from "./cart";
+import { createCartOperations } from "./cart";
 import type { CheckoutOperations } from "./checkout";
 import { createCheckoutOperations } from "./checkout";
 import { getInfoForShop } from "./client/get-info";
+import { httpErrorFromResponse, ShopClientError } from "./errors";
+import type { HistoryOperations, HistoryStore } from "./history";
+import { createHistoryOperations, createMemoryHistoryStore } from "./history";
 import type { CollectionOperations } from "./collections";
 import { createCollectionOperations } from "./collections";
+import type { DiscoveryOperations } from "./discovery";
+import { createDiscoveryOperations } from "./discovery";
 import { collectionsDto as dtoCollections } from "./dto/collections.dto";
 import { mapProductDto, mapProductsDto } from "./dto/products.mapped";
 import type { ProductOperations } from "./products";
@@ -25,7 +34,17 @@ import type {
   StoreTypeBreakdown,
 } from "./types";
 import { generateStoreSlug } from "./utils/func";
-import { rateLimitedFetch } from "./utils/rate-limit";
+import type {
+  RateLimitConfig,
+  RateLimiter,
+  RateLimitStatus,
+} from "./utils/rate-limit";
+import { createRateLimiter } from "./utils/rate-limit";
+import type { Fetcher, Transport } from "./utils/transport";
+import type { ConditionalRequestStats } from "./utils/conditional";
+import { ConditionalRequestCache } from "./utils/conditional";
+import { StorefrontSession } from "./utils/storefront-session";
+import { createFetcher } from "./utils/transport";
 
 /**
  * A comprehensive Shopify store client for fetching products, collections, and store information.
@@ -44,10 +63,63 @@ import { rateLimitedFetch } from "./utils/rate-limit";
  * ```
  */
 export type ShopClientOptions = {
-  cacheTTL?: number;
+  /**
+   * Cache lifetime in milliseconds, for every resource or per resource type
+   * (`info`, `meta`, `product`, `collection`, `seo`, `validation`).
+   */
+  cacheTTL?: CacheTTLConfig;
+  /** Storage for cached resources (defaults to an in-memory cache). */
+  cache?: CacheAdapter;
   openRouter?: OpenRouterConfig;
   productColumns?: ProductColumnsConfig;
   collectionColumns?: CollectionColumnsConfig;
+  /** Fetch implementation used for every request made by this client. */
+  transport?: Transport;
+  /** Headers sent with every request made by this client. */
+  headers?: Record<string, string>;
+  /** Value of the `user-agent` header sent with every request. */
+  userAgent?: string;
+  /**
+   * Rate limit configuration for this client's own limiter, applied on top
+   * of the process-wide defaults set with `configureRateLimit`.
+   */
+  rateLimit?: RateLimitConfig;
+  /**
+   * Limiter instance to share with other clients. Takes precedence over
+   * `rateLimit`; configure the instance directly instead.
+   */
+  rateLimiter?: RateLimiter;
+  /**
+   * Revalidate `products.json` pages with `If-None-Match` /
+   * `If-Modified-Since` and replay the stored body on `304 Not Modified`.
+   * Every page body is kept in the `cache` adapter with no expiry, so it is
+   * off unless explicitly enabled. Defaults to `false`.
+   */
+  conditionalRequests?: boolean;
+  /**
+   * Password for a storefront locked behind Shopify's password page. The
+   * client logs in through the password form before its first request and
+   * reuses the session cookie for every later request to the store.
+   * Node.js/Bun only.
+   */
+  storefrontPassword?: string;
+  /**
+   * Enable `products.inventory()`. Estimating stock may add variants to a
+   * throwaway cart, so it is off unless explicitly enabled. Defaults to
+   * `false`.
+   */
+  inventoryProbe?: boolean;
+  /**
+   * Enable `checkout.discounts.probe()`. Probing applies codes to throwaway
+   * carts, so it is off unless explicitly enabled. Defaults to `false`.
+   */
+  discountProbe?: boolean;
+  /**
+   * Storage for `history.record()` observations (defaults to an in-memory
+   * store). Use `createJsonHistoryStore` or `createSqliteHistoryStore` to
+   * keep history between runs.
+   */
+  history?: HistoryStore;
 };
 
 export class ShopClient {
@@ -55,16 +127,10 @@ export class ShopClient {
   private baseUrl: string;
   private storeSlug: string;
   private openRouter?: OpenRouterConfig;
-  private validationCache: Map<string, boolean> = new Map();
-  private cacheExpiry: number = 5 * 60 * 1000; // 5 minutes
-  private cacheTimestamps: Map<string, number> = new Map();
+  private cache: ResourceCache;
   private normalizeImageUrlCache: Map<string, string> = new Map();
   private storeCurrency?: string;
-  private infoCacheValue?: ShopInfo;
-  private infoCacheTimestamp?: number;
   private infoInFlight?: Promise<ShopInfo>;
-  private metaCacheValue?: OpenGraphMeta;
-  private metaCacheTimestamp?: number;
   private metaInFlight?: Promise<OpenGraphMeta>;
   private productColumns: ProductColumnsConfig = {
     mode: "minimal",
@@ -72,11 +138,18 @@ export class ShopClient {
     options: "minimal",
   };
   private collectionColumns?: CollectionColumnsConfig;
+  private fetcher: Fetcher;
+  private rateLimiter: RateLimiter;
+  private ownsRateLimiter: boolean;
+  private conditional?: ConditionalRequestCache;
 
   // Public operations interfaces
   public products: ProductOperations;
   public collections: CollectionOperations;
+  public cart: CartOperations;
   public checkout: CheckoutOperations;
+  public discovery: DiscoveryOperations;
+  public history: HistoryOperations;
   public shopOperations: ShopOperations;
 
   /**
@@ -165,8 +238,15 @@ export class ShopClient {
     this.storeSlug = generateStoreSlug(this.storeDomain);
 
     // Apply configuration
-    if (typeof options?.cacheTTL === "number" && options.cacheTTL > 0) {
-      this.cacheExpiry = options.cacheTTL;
+    // A TTL of 0 disables caching; negative values keep the default
+    const cacheTTL =
+      typeof options?.cacheTTL === "number" && options.cacheTTL < 0
+        ? undefined
+        : options?.cacheTTL;
+    const cacheAdapter = options?.cache ?? createMemoryCache();
+    this.cache = new ResourceCache(cacheAdapter, hostname, cacheTTL);
+    if (options?.conditionalRequests === true) {
+      this.conditional = new ConditionalRequestCache(cacheAdapter, hostname);
     }
     this.openRouter = options?.openRouter;
     if (options?.productColumns) {
@@ -179,6 +259,19 @@ export class ShopClient {
     if (options?.collectionColumns) {
       this.collectionColumns = options.collectionColumns;
     }
+    this.ownsRateLimiter = !options?.rateLimiter;
+    this.rateLimiter =
+      options?.rateLimiter ?? createRateLimiter(options?.rateLimit);
+    this.fetcher = createFetcher({
+      transport: options?.transport,
+      headers: options?.headers,
+      userAgent: options?.userAgent,
+      limiter: this.rateLimiter,
+      conditional: this.conditional,
+      session: options?.storefrontPassword
+        ? new StorefrontSession(this.storeDomain, options.storefrontPassword)
+        : undefined,
+    });
 
     // Initialize operations
     this.shopOperations = createShopOperations({
@@ -188,6 +281,7 @@ export class ShopClient {
       validateCollectionExists: this.validateCollectionExists.bind(this),
       validateLinksInBatches: this.validateLinksInBatches.bind(this),
       handleFetchError: this.handleFetchError.bind(this),
+      fetcher: this.fetcher,
     });
 
     this.products = createProductOperations(
@@ -199,7 +293,10 @@ export class ShopClient {
       () => this.getInfo(),
       (handle: string) => this.products.find(handle),
       () => this.productColumns,
-      { openRouter: this.openRouter }
+      { openRouter: this.openRouter },
+      this.fetcher,
+      this.cache,
+      { inventoryProbe: options?.inventoryProbe === true }
     );
 
     this.collections = createCollectionOperations(
@@ -209,10 +306,34 @@ export class ShopClient {
       this.collectionsDto.bind(this),
       this.fetchPaginatedProductsFromCollection.bind(this),
       () => this.getInfo(),
-      (handle: string) => this.collections.find(handle)
+      (handle: string) => this.collections.find(handle),
+      (handle, options) => this.products.find(handle, options),
+      this.fetcher,
+      this.cache
     );
 
-    this.checkout = createCheckoutOperations(this.baseUrl);
+    this.cart = createCartOperations({
+      baseUrl: this.baseUrl,
+      fetcher: this.fetcher,
+      normalizeImageUrl: (url) => this.normalizeImageUrl(url),
+    });
+
+    this.checkout = createCheckoutOperations(this.baseUrl, this.fetcher, {
+      discountProbe: options?.discountProbe === true,
+    });
+
+    this.discovery = createDiscoveryOperations({
+      baseUrl: this.baseUrl,
+      fetcher: this.fetcher,
+      findProduct: (handle, options) => this.products.find(handle, options),
+    });
+
+    this.history = createHistoryOperations({
+      store: hostname,
+      historyStore: options?.history ?? createMemoryHistoryStore(),
+      fetchProducts: async () =>
+        (await this.products.all({ columns: { mode: "full" } })) ?? [],
+    });
   }
 
   /**
@@ -306,13 +427,24 @@ export class ShopClient {
   }
 
   /**
-   * Enhanced error handling with context
+   * Enhanced error handling with context.
+   *
+   * Typed errors (`ShopClientError` subclasses) are rethrown as-is with
+   * `context` filled in so callers can branch on `instanceof`. Anything else
+   * (network failures, aborts, parse errors) is wrapped in an `Error` whose
+   * message carries the context and URL.
    */
   private handleFetchError(
     error: unknown,
     context: string,
     url: string
   ): never {
+    if (error instanceof ShopClientError) {
+      error.context ??= context;
+      error.url ??= url;
+      throw error;
+    }
+
     type EnhancedError = Error & {
       context: string;
       url: string;
@@ -376,12 +508,12 @@ export class ShopClient {
   ): Promise<ProductResult<C, I, O>[] | null> {
     try {
       const url = `${this.baseUrl}products.json?page=${page}&limit=${limit}`;
-      const response = await rateLimitedFetch(url, {
+      const response = await this.fetcher(url, {
         rateLimitClass: "products:list",
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw httpErrorFromResponse(response, url);
       }
 
       const data: { products: ShopifyProduct[] } = await response.json();
@@ -409,12 +541,12 @@ export class ShopClient {
   private async fetchCollections(page: number, limit: number) {
     try {
       const url = `${this.baseUrl}collections.json?page=${page}&limit=${limit}`;
-      const response = await rateLimitedFetch(url, {
+      const response = await this.fetcher(url, {
         rateLimitClass: "collections:list",
       });
 
       if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw httpErrorFromResponse(response, url);
       }
 
       const data = await response.json();
@@ -441,16 +573,17 @@ export class ShopClient {
       page?: number;
       limit?: number;
       columns?: ProductColumnsConfig<C, I, O>;
+      signal?: AbortSignal;
     } = {}
   ): Promise<ProductResult<C, I, O>[] | null> {
     try {
-      const { page = 1, limit = 250 } = options;
+      const { page = 1, limit = 250, signal } = options;
       // Resolve canonical collection handle via HTML redirect if handle has changed
       let finalHandle = collectionHandle;
       try {
-        const htmlResp = await rateLimitedFetch(
+        const htmlResp = await this.fetcher(
           `${this.baseUrl}collections/${encodeURIComponent(collectionHandle)}`,
-          { rateLimitClass: "collections:resolve" }
+          { rateLimitClass: "collections:resolve", signal }
         );
         if (htmlResp.ok) {
           const finalUrl = htmlResp.url;
@@ -468,16 +601,18 @@ export class ShopClient {
         // Ignore redirect resolution errors and proceed with original handle
       }
 
+      signal?.throwIfAborted();
       const url = `${this.baseUrl}collections/${finalHandle}/products.json?page=${page}&limit=${limit}`;
-      const response = await rateLimitedFetch(url, {
+      const response = await this.fetcher(url, {
         rateLimitClass: "collections:items",
+        signal,
       });
 
       if (!response.ok) {
         if (response.status === 404) {
           return null; // Collection not found
         }
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        throw httpErrorFromResponse(response, url);
       }
 
       const data: { products: ShopifyProduct[] } = await response.json();
@@ -512,24 +647,24 @@ export class ShopClient {
    */
   private async validateProductExists(handle: string): Promise<boolean> {
     const cacheKey = `product:${handle}`;
-
-    if (this.isCacheValid(cacheKey)) {
-      return this.validationCache.get(cacheKey) || false;
+    const cached = await this.cache.get<boolean>("validation", cacheKey);
+    if (cached) {
+      return cached.value;
     }
 
     try {
       const url = `${this.baseUrl}products/${handle}.js`;
-      const response = await rateLimitedFetch(url, {
+      const response = await this.fetcher(url, {
         method: "HEAD",
         rateLimitClass: "validate:product",
         timeoutMs: 5000,
       });
       const exists = response.ok;
 
-      this.setCacheValue(cacheKey, exists);
+      await this.cache.set("validation", cacheKey, exists);
       return exists;
     } catch (_error) {
-      this.setCacheValue(cacheKey, false);
+      await this.cache.set("validation", cacheKey, false);
       return false;
     }
   }
@@ -539,46 +674,28 @@ export class ShopClient {
    */
   private async validateCollectionExists(handle: string): Promise<boolean> {
     const cacheKey = `collection:${handle}`;
-
-    if (this.isCacheValid(cacheKey)) {
-      return this.validationCache.get(cacheKey) || false;
+    const cached = await this.cache.get<boolean>("validation", cacheKey);
+    if (cached) {
+      return cached.value;
     }
 
     try {
       const url = `${this.baseUrl}collections/${handle}.json`;
-      const response = await rateLimitedFetch(url, {
+      const response = await this.fetcher(url, {
         method: "HEAD",
         rateLimitClass: "validate:collection",
         timeoutMs: 5000,
       });
       const exists = response.ok;
 
-      this.setCacheValue(cacheKey, exists);
+      await this.cache.set("validation", cacheKey, exists);
       return exists;
     } catch (_error) {
-      this.setCacheValue(cacheKey, false);
+      await this.cache.set("validation", cacheKey, false);
       return false;
     }
   }
 
-  /**
-   * Check if cache entry is still valid
-   */
-  private isCacheValid(key: string): boolean {
-    const timestamp = this.cacheTimestamps.get(key);
-    if (!timestamp) return false;
-
-    return Date.now() - timestamp < this.cacheExpiry;
-  }
-
-  /**
-   * Set cache value with timestamp
-   */
-  private setCacheValue(key: string, value: boolean): void {
-    this.validationCache.set(key, value);
-    this.cacheTimestamps.set(key, Date.now());
-  }
-
   /**
    * Validate links in batches to avoid overwhelming the server
    */
@@ -629,6 +746,7 @@ export class ShopClient {
    * - `techProvider` - Shopify-specific information (walletId, subDomain)
    * - `country` - Country detection results with ISO 3166-1 alpha-2 codes (e.g., "US", "GB")
    * - `currency` - ISO 4217 currency code inferred from store (e.g., "USD")
+   * - `status` - `"open"`, `"password_protected"` or `"closed"`
    *
    * @throws {Error} When the store URL is unreachable or returns an error
    *
@@ -654,17 +772,16 @@ export class ShopClient {
     validationBatchSize?: number;
   }): Promise<ShopInfo> {
     try {
-      // If force is requested, clear local cache to bypass freshness check
-      if (options?.force === true) {
-        this.clearInfoCache();
-      }
-      // Return cached info if fresh
-      if (
-        this.infoCacheValue &&
-        this.infoCacheTimestamp !== undefined &&
-        Date.now() - this.infoCacheTimestamp < this.cacheExpiry
-      ) {
-        return this.infoCacheValue;
+      // Return cached info if fresh, unless a refetch is forced
+      if (options?.force !== true) {
+        const cached = await this.cache.get<ShopInfo>("info");
+        if (cached) {
+          // A persisted entry may predate this instance
+          if (!this.storeCurrency && cached.value.currency) {
+            this.storeCurrency = cached.value.currency;
+          }
+          return cached.value;
+        }
       }
 
       // If a request is already in-flight, reuse it to avoid duplicate network calls
@@ -686,6 +803,7 @@ export class ShopClient {
               validator: (item: T) => Promise<boolean>,
               batchSize?: number
             ) => this.validateLinksInBatches(items, validator, batchSize),
+            fetcher: this.fetcher,
           },
           {
             validateShowcase: options?.validateShowcase === true,
@@ -696,8 +814,7 @@ export class ShopClient {
           this.storeCurrency = currencyCode;
         }
         // Cache the info for a short duration
-        this.infoCacheValue = info;
-        this.infoCacheTimestamp = Date.now();
+        await this.cache.set("info", undefined, info);
         return info;
       })();
 
@@ -716,12 +833,66 @@ export class ShopClient {
   /**
    * Manually clear the cached store info.
    * The next call to `getInfo()` will fetch fresh data regardless of TTL.
+   * Shorthand for `invalidate("info")`.
    */
-  clearInfoCache(): void {
-    this.infoCacheValue = undefined;
-    this.infoCacheTimestamp = undefined;
+  async clearInfoCache(): Promise<void> {
     // Intentionally do not cancel or modify in-flight request.
     // If a fetch is already in progress, it will populate fresh cache on completion.
+    await this.invalidate("info");
+  }
+
+  /**
+   * Remove cached entries for this store whose key matches `pattern`.
+   *
+   * Keys have the form `<resource>` or `<resource>:<id>`, e.g. `info`,
+   * `meta`, `product:<handle>|<columns>`, `collection:<handle>`,
+   * `seo:products/<handle>`, `validation:product:<handle>`, `http:<url>`
+   * (stored `products.json` pages used for revalidation). `*` matches any
+   * run of characters; a RegExp is tested against the key as is. Without a
+   * pattern every entry for this store is removed.
+   *
+   * @returns Number of entries removed
+   *
+   * @example
+   * ```typescript
+   * await shop.invalidate("product:*"); // all cached products
+   * await shop.invalidate("seo:collections/*");
+   * ```
+   */
+  async invalidate(pattern?: string | RegExp): Promise<number> {
+    return await this.cache.invalidate(pattern);
+  }
+
+  /**
+   * Live status of this client's rate limiter: queue depth, remaining tokens
+   * and in-flight requests for the default, per-host and per-class buckets.
+   */
+  getRateLimitStatus(): RateLimitStatus {
+    return this.rateLimiter.getStatus();
+  }
+
+  /**
+   * Release this client's rate limiter timers and queued requests. A
+   * limiter shared through the `rateLimiter` option is left alone. Call it
+   * when a client created per store is no longer needed.
+   */
+  dispose(): void {
+    if (this.ownsRateLimiter) this.rateLimiter.dispose();
+  }
+
+  /**
+   * How many `products.json` requests were revalidated, how many came back
+   * `304 Not Modified`, and how many body bytes that saved. All zero when
+   * `conditionalRequests` is disabled.
+   */
+  getConditionalRequestStats(): ConditionalRequestStats {
+    return (
+      this.conditional?.getStats() ?? {
+        revalidated: 0,
+        notModified: 0,
+        bytesSaved: 0,
+      }
+    );
   }
 
   /**
@@ -730,24 +901,18 @@ export class ShopClient {
    */
   async getMetaData(options?: { force?: boolean }): Promise<OpenGraphMeta> {
     try {
-      if (options?.force === true) {
-        this.metaCacheValue = undefined;
-        this.metaCacheTimestamp = undefined;
-      }
-      if (
-        this.metaCacheValue &&
-        this.metaCacheTimestamp !== undefined &&
-        Date.now() - this.metaCacheTimestamp < this.cacheExpiry
-      ) {
-        return this.metaCacheValue;
+      if (options?.force !== true) {
+        const cached = await this.cache.get<OpenGraphMeta>("meta");
+        if (cached) {
+          return cached.value;
+        }
       }
       if (this.metaInFlight) {
         return await this.metaInFlight;
       }
       this.metaInFlight = (async () => {
         const meta = await this.shopOperations.getMetaData();
-        this.metaCacheValue = meta;
-        this.metaCacheTimestamp = Date.now();
+        await this.cache.set("meta", undefined, meta);
         return meta;
       })();
       try {
@@ -804,6 +969,7 @@ export class ShopClient {
         apiKey: options?.apiKey,
         model: options?.model,
         openRouter,
+        fetcher: this.fetcher,
         maxShowcaseProducts: options?.maxShowcaseProducts,
         maxShowcaseCollections: options?.maxShowcaseCollections,
       });
@@ -815,38 +981,230 @@ export class ShopClient {
 }
 
 export { classifyProduct, generateSEOContent } from "./ai/enrich";
-export type { CheckoutOperations } from "./checkout";
+export type {
+  CacheAdapter,
+  CacheEntry,
+  CacheResource,
+  CacheTTLConfig,
+  SqliteDatabase,
+} from "./cache";
+export {
+  createFileSystemCache,
+  createMemoryCache,
+  createSqliteCache,
+} from "./cache";
+export type {
+  CartAddItem,
+  CartChangeParams,
+  CartOperations,
+  CartUpdateParams,
+  ShippingRatesParams,
+} from "./cart";
+export type {
+  CartPermalink,
+  CartPermalinkCheck,
+  CartPermalinkCheckStatus,
+  CartPermalinkItem,
+  CartPermalinkLine,
+  CartPermalinkParams,
+  CheckoutLineStatus,
+  CheckoutLineValidation,
+  CheckoutOperations,
+  CheckoutValidateItem,
+  CheckoutValidation,
+} from "./checkout";
 export type { CollectionOperations } from "./collections";
+export type {
+  DiscountMinimum,
+  DiscountOperations,
+  DiscountProbeOptions,
+  DiscountProbeResult,
+} from "./discounts";
+export type {
+  DiscoveryOperations,
+  SitemapDiff,
+  SitemapEntry,
+  SitemapImage,
+  SitemapReference,
+  SitemapType,
+} from "./discovery";
+export {
+  diffSitemapEntries,
+  parseSitemapEntries,
+  parseSitemapIndex,
+} from "./discovery";
+export {
+  LlmResponseError,
+  NotShopifyStoreError,
+  RateLimitedError,
+  SchemaValidationError,
+  ShippingDestinationError,
+  ShippingRatesTimeoutError,
+  ShopClientError,
+  ShopNotFoundError,
+  StorePasswordProtectedError,
+  UpstreamHttpError,
+} from "./errors";
+export type {
+  CatalogExportOptions,
+  CatalogExportResult,
+  CatalogFormat,
+  ExportableProduct,
+  FeedFormat,
+  FeedIssue,
+  FeedItem,
+  FeedItemsResult,
+  ProductFeedOptions,
+  ProductFeedResult,
+} from "./exporters";
+export {
+  buildFeedItems,
+  exportCatalog,
+  writeProductFeed,
+} from "./exporters";
+export type {
+  FacetValue,
+  OptionFacet,
+  PriceBucket,
+  ProductFacets,
+} from "./facets";
+export { buildProductFacets } from "./facets";
+export type {
+  HistoryChange,
+  HistoryOperations,
+  HistoryProduct,
+  HistoryRecordResult,
+  HistoryStore,
+  LowestPrice,
+  PriceObservation,
+  VariantPriceHistory,
+} from "./history";
+export {
+  createJsonHistoryStore,
+  createMemoryHistoryStore,
+  createSqliteHistoryStore,
+} from "./history";
+export type {
+  InventoryConfidence,
+  InventoryMethod,
+  ProductInventory,
+  VariantInventory,
+} from "./inventory";
+export { parseCartLimit } from "./inventory";
+export type {
+  MatchableProduct,
+  MatchOptions,
+  MatchReason,
+  MatchSignal,
+  ProductCluster,
+  ProductMatch,
+} from "./matching";
+export {
+  clusterProducts,
+  matchProducts,
+  shopifyImageKey,
+} from "./matching";
 // Export operation interfaces
 export type { ProductOperations } from "./products";
+export type {
+  ProductQueryFacets,
+  ProductQueryResult,
+  ProductQuerySortKey,
+  ProductQueryWhere,
+  QueryableProduct,
+  SortDirection,
+} from "./query";
+export { computeFacets, ProductQuery } from "./query";
 export * as schemas from "./schemas";
-export type { OpenGraphMeta, ShopInfo, ShopOperations } from "./store";
+export type {
+  OpenGraphMeta,
+  ShopInfo,
+  ShopOperations,
+  StoreStatus,
+} from "./store";
 // Export selected types for external use (excluding Shopify-prefixed types)
 export type {
+  Cart,
+  CartDiscount,
+  CartLineItem,
+  CatalogSnapshot,
+  CatalogSyncResult,
   Collection,
   CountryDetectionResult,
   CountryScores,
+  Coupon,
   CurrencyCode,
+  FingerprintDiff,
+  HandleRename,
   LocalizedPricing,
   MetaTag,
   OpenRouterConfig,
+  PageProgress,
   Product,
   ProductFingerprint,
   ProductImage,
   ProductOption,
   ProductVariant,
   ProductVariantImage,
+  ProductWeight,
+  ShippingRate,
   StoreTypeBreakdown,
+  StreamOptions,
+  UnitPrice,
+  UnitPriceMeasure,
+  WeightUnit,
 } from "./types";
+export type { ConditionalRequestStats } from "./utils/conditional";
 export { detectShopCountry } from "./utils/detect-country";
+export type {
+  FixtureMatching,
+  FixtureMode,
+  FixtureRecord,
+  FixtureTransportOptions,
+} from "./utils/fixtures";
+export { createFixtureTransport } from "./utils/fixtures";
+export type { NodeWritableLike, OutputSink } from "./utils/sink";
+export type {
+  CollectionSortBy,
+  FilteredCollectionPage,
+  StorefrontFilter,
+  StorefrontFilterInput,
+  StorefrontFilterValue,
+} from "./utils/storefront-filters";
+export {
+  buildFilterParams,
+  parseStorefrontFilters,
+} from "./utils/storefront-filters";
+export type {
+  Fetcher,
+  Transport,
+  TransportOptions,
+} from "./utils/transport";
 // Export utility functions
 export {
   buildVariantKey,
   calculateDiscount,
+  diffFingerprints,
   extractDomainWithoutSuffix,
   generateStoreSlug,
   genProductSlug,
+  isValidGtin,
+  normalizeGtin,
   safeParseDate,
   sanitizeDomain,
 } from "./utils/func";
-export { configureRateLimit } from "./utils/rate-limit";
+export type {
+  AdaptiveHostStatus,
+  AdaptiveRateLimitOptions,
+  RateLimitBucketStatus,
+  RateLimitConfig,
+  RateLimitOptions,
+  RateLimitRateChangeEvent,
+  RateLimitStatus,
+} from "./utils/rate-limit";
+export {
+  configureRateLimit,
+  createRateLimiter,
+  getRateLimitStatus,
+  RateLimiter,
+} from "./utils/rate-limit";
@@ -0,0 +1,189 @@
+import { httpErrorFromResponse } from "./errors";
+import type { ShopifySingleProductVariant } from "./types";
+import { CookieJar } from "./utils/cookies";
+import type { Fetcher } from "./utils/transport";
+
+/**
+ * How a variant's stock level was determined:
+ * - `inventory_quantity`: read from the product `.js` endpoint
+ * - `cart_probe`: read from the limit `/cart/add.js` reports for an oversized add
+ * - `availability`: only the `available` flag was known
+ */
+export type InventoryMethod =
+  | "inventory_quantity"
+  | "cart_probe"
+  | "availability";
+
+/**
+ * `high`: the store reported the number itself. `medium`: inferred from a
+ * cart response or from a sold-out flag. `low`: nothing beyond "in stock".
+ */
+export type InventoryConfidence = "high" | "medium" | "low";
+
+export type VariantInventory = {
+  variantId: string;
+  title: string;
+  available: boolean;
+  /**
+   * Sellable units, or `null` when unknown or not limited (see `unlimited`).
+   */
+  quantity: number | null;
+  /**
+   * Stock is not tracked, or the store keeps selling when out of stock
+   * (`inventory_policy: "continue"`).
+   */
+  unlimited: boolean;
+  /** `inventory_management` (e.g. `"shopify"`), when the store exposes it. */
+  management: string | null;
+  /** `inventory_policy` (`"deny"` or `"continue"`), when the store exposes it. */
+  policy: string | null;
+  method: InventoryMethod;
+  confidence: InventoryConfidence;
+};
+
+export type ProductInventory = {
+  productId: string;
+  handle: string;
+  variants: VariantInventory[];
+  /**
+   * Sum of variant quantities; `null` unless every variant has a finite,
+   * known quantity.
+   */
+  totalQuantity: number | null;
+  checkedAt: Date;
+};
+
+/**
+ * Quantity requested by the cart probe. Stores answer an add above their
+ * stock with the sellable quantity; an add this large that succeeds means
+ * the variant is not limited.
+ */
+export const INVENTORY_PROBE_QUANTITY = 999_999;
+
+/**
+ * Estimate a variant's stock from the fields of the product `.js` endpoint.
+ */
+export function inferVariantInventory(
+  variant: ShopifySingleProductVariant
+): VariantInventory {
+  const available = variant.available !== false;
+  const management = variant.inventory_management ?? null;
+  const policy = variant.inventory_policy ?? null;
+  const base = {
+    variantId: String(variant.id),
+    title: variant.title,
+    available,
+    management,
+    policy,
+  };
+
+  if (typeof variant.inventory_quantity === "number") {
+    // Untracked variants report a meaningless quantity (often 0)
+    const tracked = management !== null;
+    return {
+      ...base,
+      quantity: tracked ? Math.max(0, variant.inventory_quantity) : null,
+      unlimited: !tracked || policy === "continue",
+      method: "inventory_quantity",
+      confidence: "high",
+    };
+  }
+
+  return {
+    ...base,
+    quantity: available ? null : 0,
+    unlimited: false,
+    method: "availability",
+    confidence: available ? "low" : "medium",
+  };
+}
+
+/**
+ * Read the sellable quantity from a `/cart/add.js` error description, e.g.
+ * "You can only add 5 of Tee - Blue to the cart." or "All 5 Tee - Blue are
+ * in your cart." Returns `null` when the description carries no limit.
+ */
+export function parseCartLimit(description: string): number | null {
+  const text = description.replace(/<[^>]*>/g, " ");
+  const limit =
+    text.match(/only add (\d[\d,]*)/i) ??
+    text.match(/\ball (\d[\d,]*)\b/i) ??
+    text.match(/only (\d[\d,]*) (?:left|available|in stock)/i);
+  if (limit?.[1]) return Number.parseInt(limit[1].replace(/,/g, ""), 10);
+  return /sold out|out of stock/i.test(text) ? 0 : null;
+}
+
+/**
+ * Probes stock levels by adding variants to a throwaway cart. The cart is
+ * held in its own cookie jar and emptied after every successful add, so
+ * probes never touch a shopper's cart. Call `release()` once done so a
+ * probe that failed mid-way does not leave items behind.
+ */
+export function createCartProbe(baseUrl: string, fetcher: Fetcher) {
+  const jar = new CookieJar();
+  // An add may have landed without the probe seeing its answer
+  let dirty = false;
+
+  async function post(path: string, body: unknown): Promise<Response> {
+    const url = `${baseUrl}${path}`;
+    const response = await fetcher(url, {
+      method: "POST",
+      headers: jar.apply({
+        "content-type": "application/json",
+        accept: "application/json",
+      }),
+      body: JSON.stringify(body),
+      rateLimitClass: "inventory:probe",
+    });
+    jar.remember(response);
+    return response;
+  }
+
+  return {
+    /**
+     * Returns the sellable quantity of `variantId`, or `"unlimited"` when
+     * the oversized add went through.
+     *
+     * @throws {UpstreamHttpError} When the store answers with a status other than 200 or 422
+     */
+    async probe(variantId: string): Promise<number | "unlimited" | null> {
+      dirty = true;
+      const response = await post("cart/add.js", {
+        items: [{ id: Number(variantId), quantity: INVENTORY_PROBE_QUANTITY }],
+      });
+      if (response.ok) {
+        dirty = !(await post("cart/clear.js", {})).ok;
+        return "unlimited";
+      }
+      if (response.status !== 422) {
+        throw httpErrorFromResponse(response, `${baseUrl}cart/add.js`);
+      }
+      dirty = false;
+      const error = (await response.json().catch(() => ({}))) as {
+        description?: unknown;
+        message?: unknown;
+      };
+      const description =
+        typeof error.description === "string"
+          ? error.description
+          : typeof error.message === "string"
+            ? error.message
+            : "";
+      return parseCartLimit(description);
+    },
+
+    /**
+     * Empties the cart when a probe failed after its add was sent. Never
+     * throws; the throwaway cart expires on its own if this fails too.
+     */
+    async release(): Promise<void> {
+      if (!dirty || jar.size === 0) return;
+      try {
+        const response = await post("cart/clear.js", {});
+        if (response.ok) dirty = false;
+      } catch {
+        // Best effort
+      }
+    },
+  };
+}
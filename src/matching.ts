@@ -0,0 +1,349 @@
+/**
+ * Offline product matching across stores.
+ *
+ * Compares already fetched products (`ProductResult` in any column mode)
+ * using identifiers and content that survive re-listing on another store:
+ * variant barcodes/GTINs, SKUs, vendor plus normalized title, and the
+ * Shopify CDN filenames of product images. No requests are made.
+ */
+
+import { isValidGtin, normalizeVariantToken } from "./utils/func";
+
+/**
+ * The product fields matching reads. Every field except `title` is
+ * optional, so minimal and full DTOs (and plain objects) all qualify.
+ */
+export type MatchableProduct = {
+  title: string;
+  handle?: string;
+  vendor?: string | null;
+  featuredImage?: string | null;
+  images?: readonly { src: string }[] | null;
+  variantSkuMap?: Record<string, string | null>;
+  variants?:
+    | readonly {
+        sku?: string | null;
+        barcode?: string | null;
+      }[]
+    | null;
+};
+
+export type MatchSignal = "barcode" | "sku" | "image" | "title";
+
+export type MatchReason = {
+  signal: MatchSignal;
+  /** Strength of this signal alone, 0–1. */
+  score: number;
+  /** The shared value, e.g. the barcode or image filename. */
+  detail: string;
+};
+
+export type ProductMatch = {
+  /** Combined score, 0–1. */
+  score: number;
+  /** `score` reached the threshold. */
+  match: boolean;
+  /** Signals that contributed, strongest first. */
+  reasons: MatchReason[];
+};
+
+export type MatchOptions = {
+  /** Score from which two products count as the same item (default: 0.7). */
+  threshold?: number;
+};
+
+/**
+ * A group of products judged to be the same item. `links` are the pairs
+ * that joined the group, by index into `products`.
+ */
+export type ProductCluster<P> = {
+  products: P[];
+  links: { a: number; b: number; score: number; reasons: MatchReason[] }[];
+};
+
+const DEFAULT_THRESHOLD = 0.7;
+
+// A shared image alone stays below the default threshold: stores reuse
+// size charts and lifestyle shots across different products.
+const SIGNAL_WEIGHTS: Record<Exclude<MatchSignal, "title">, number> = {
+  barcode: 0.98,
+  sku: 0.85,
+  image: 0.6,
+};
+
+/** Barcodes normalized to GTIN-14, so UPC-A and EAN-13 forms compare equal. */
+function barcodesOf(product: MatchableProduct): Set<string> {
+  const codes = new Set<string>();
+  for (const variant of product.variants ?? []) {
+    const raw = variant.barcode?.trim();
+    if (!raw || !isValidGtin(raw)) continue;
+    codes.add(raw.replace(/[\s-]/g, "").padStart(14, "0"));
+  }
+  return codes;
+}
+
+function skusOf(product: MatchableProduct): Set<string> {
+  const skus = new Set<string>();
+  const add = (sku: string | null | undefined) => {
+    const normalized = sku
+      ?.trim()
+      .toUpperCase()
+      .replace(/[\s_-]+/g, "");
+    // Short SKUs ("1", "S") collide across unrelated catalogs
+    if (normalized && normalized.length >= 4) skus.add(normalized);
+  };
+  for (const sku of Object.values(product.variantSkuMap ?? {})) add(sku);
+  for (const variant of product.variants ?? []) add(variant.sku);
+  return skus;
+}
+
+const SIZE_SUFFIX =
+  /(?:_(?:\d+x\d*|x\d+|pico|icon|thumb|small|compact|medium|large|grande|original|master)|_crop_(?:center|top|bottom|left|right)|@\dx)+$/;
+const UPLOAD_SUFFIX =
+  /_[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Filename key of a Shopify CDN image: the uploaded filename without size
+ * variants (`_800x`, `_grande`, `@2x`), the duplicate-upload UUID Shopify
+ * appends, the extension and the `?v=` query. Two stores uploading the
+ * same brand asset get the same key. Returns `null` for other hosts and
+ * generic names such as `1.jpg`.
+ */
+export function shopifyImageKey(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.startsWith("//") ? `https:${url}` : url);
+  } catch {
+    return null;
+  }
+  const onCdn =
+    parsed.hostname === "cdn.shopify.com" ||
+    parsed.pathname.includes("/cdn/shop/");
+  if (!onCdn) return null;
+  let name = parsed.pathname.split("/").pop() ?? "";
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Keep the raw name
+  }
+  const key = name
+    .toLowerCase()
+    .replace(/\.[a-z0-9]+$/, "")
+    .replace(SIZE_SUFFIX, "")
+    .replace(UPLOAD_SUFFIX, "")
+    .replace(SIZE_SUFFIX, "");
+  if (key.length < 6 || /^(?:image|img|photo|product)?[\d_-]*$/.test(key)) {
+    return null;
+  }
+  return key;
+}
+
+function imagesOf(product: MatchableProduct): Set<string> {
+  const keys = new Set<string>();
+  const urls = [
+    product.featuredImage,
+    ...(product.images ?? []).map((image) => image.src),
+  ];
+  for (const url of urls) {
+    const key = url ? shopifyImageKey(url) : null;
+    if (key) keys.add(key);
+  }
+  return keys;
+}
+
+function titleTokens(product: MatchableProduct): Set<string> {
+  const vendor = new Set(
+    normalizeVariantToken(product.vendor ?? "")
+      .split("_")
+      .filter(Boolean)
+  );
+  return new Set(
+    normalizeVariantToken(product.title)
+      .split("_")
+      // Resellers often prefix titles with the brand
+      .filter((token) => token && !vendor.has(token))
+  );
+}
+
+/** Dice coefficient of two token sets. */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const token of a) if (b.has(token)) shared++;
+  return (2 * shared) / (a.size + b.size);
+}
+
+function firstShared(a: Set<string>, b: Set<string>): string | undefined {
+  for (const value of a) if (b.has(value)) return value;
+  return undefined;
+}
+
+type Features = {
+  barcodes: Set<string>;
+  skus: Set<string>;
+  images: Set<string>;
+  vendor: string;
+  tokens: Set<string>;
+};
+
+function featuresOf(product: MatchableProduct): Features {
+  return {
+    barcodes: barcodesOf(product),
+    skus: skusOf(product),
+    images: imagesOf(product),
+    vendor: normalizeVariantToken(product.vendor ?? ""),
+    tokens: titleTokens(product),
+  };
+}
+
+function compare(a: Features, b: Features, threshold: number): ProductMatch {
+  const reasons: MatchReason[] = [];
+  for (const signal of ["barcode", "sku", "image"] as const) {
+    const set = signal === "barcode" ? "barcodes" : (`${signal}s` as const);
+    const shared = firstShared(a[set], b[set]);
+    if (shared) {
+      reasons.push({ signal, score: SIGNAL_WEIGHTS[signal], detail: shared });
+    }
+  }
+
+  const titleScore = similarity(a.tokens, b.tokens);
+  if (titleScore > 0) {
+    const sameVendor = !!a.vendor && a.vendor === b.vendor;
+    // A title alone can reach the threshold only with the same vendor
+    const score = titleScore * (sameVendor ? 0.8 : 0.4);
+    if (score >= 0.2) {
+      reasons.push({
+        signal: "title",
+        score: Math.round(score * 1000) / 1000,
+        detail: `${Math.round(titleScore * 100)}% title overlap${sameVendor ? `, vendor ${a.vendor}` : ""}`,
+      });
+    }
+  }
+
+  // Independent signals reinforce each other: 1 - Π(1 - s)
+  const score =
+    1 -
+    reasons.reduce((remaining, reason) => remaining * (1 - reason.score), 1);
+  const rounded = Math.round(score * 1000) / 1000;
+  reasons.sort((x, y) => y.score - x.score);
+  return { score: rounded, match: rounded >= threshold, reasons };
+}
+
+/**
+ * Score how likely two products are the same item.
+ *
+ * @param a - First product (any `ProductResult` or compatible object)
+ * @param b - Second product
+ * @param options - `threshold` for `match` (default: 0.7)
+ *
+ * @returns {ProductMatch} Combined score, whether it reaches the threshold, and the signals behind it
+ *
+ * @example
+ * ```typescript
+ * const result = matchProducts(productFromStoreA, productFromStoreB);
+ * if (result.match) console.log(result.score, result.reasons);
+ * ```
+ */
+export function matchProducts(
+  a: MatchableProduct,
+  b: MatchableProduct,
+  options?: MatchOptions
+): ProductMatch {
+  return compare(
+    featuresOf(a),
+    featuresOf(b),
+    options?.threshold ?? DEFAULT_THRESHOLD
+  );
+}
+
+/**
+ * Group products that match each other, e.g. to deduplicate listings
+ * gathered from several stores. Matching is transitive: if A matches B and
+ * B matches C, all three share a cluster.
+ *
+ * Only pairs sharing a barcode, SKU, image key or vendor are compared, so
+ * large lists stay fast. Every product appears in exactly one cluster;
+ * products without a match form a cluster of one.
+ *
+ * @param products - Products to group
+ * @param options - `threshold` for a match (default: 0.7)
+ *
+ * @returns {ProductCluster[]} Clusters, largest first
+ */
+export function clusterProducts<P extends MatchableProduct>(
+  products: readonly P[],
+  options?: MatchOptions
+): ProductCluster<P>[] {
+  const threshold = options?.threshold ?? DEFAULT_THRESHOLD;
+  const features = products.map(featuresOf);
+
+  // Candidate pairs from shared blocking keys
+  const blocks = new Map<string, number[]>();
+  features.forEach((f, index) => {
+    const keys = [
+      ...Array.from(f.barcodes, (v) => `b:${v}`),
+      ...Array.from(f.skus, (v) => `s:${v}`),
+      ...Array.from(f.images, (v) => `i:${v}`),
+      ...(f.vendor ? [`v:${f.vendor}`] : []),
+    ];
+    for (const key of keys) {
+      const list = blocks.get(key) ?? [];
+      list.push(index);
+      blocks.set(key, list);
+    }
+  });
+
+  const parent = products.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  const compared = new Set<string>();
+  const links: {
+    a: number;
+    b: number;
+    score: number;
+    reasons: MatchReason[];
+  }[] = [];
+  for (const members of blocks.values()) {
+    for (let x = 0; x < members.length; x++) {
+      for (let y = x + 1; y < members.length; y++) {
+        const a = members[x]!;
+        const b = members[y]!;
+        const pair = `${a}:${b}`;
+        if (compared.has(pair)) continue;
+        compared.add(pair);
+        const result = compare(features[a]!, features[b]!, threshold);
+        if (!result.match) continue;
+        links.push({ a, b, score: result.score, reasons: result.reasons });
+        parent[find(a)] = find(b);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  products.forEach((_, i) => {
+    const root = find(i);
+    const list = groups.get(root) ?? [];
+    list.push(i);
+    groups.set(root, list);
+  });
+
+  return Array.from(groups.values(), (indices) => {
+    const position = new Map(indices.map((index, i) => [index, i]));
+    return {
+      products: indices.map((i) => products[i]!),
+      links: links
+        .filter((link) => position.has(link.a))
+        .map((link) => ({
+          ...link,
+          a: position.get(link.a)!,
+          b: position.get(link.b)!,
+        })),
+    };
+  }).sort((x, y) => y.products.length - x.products.length);
+}
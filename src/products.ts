@@ -1,8 +1,17 @@
 import { filter, isNonNullish } from "remeda";
 // Heavy AI enrich utilities are lazy-loaded where needed to keep base bundle light
+import { createMemoryCache, ResourceCache } from "./cache";
 import { getSeoForUrl } from "./client/get-info";
+import { httpErrorFromResponse, SchemaValidationError } from "./errors";
+import type { ProductFacets } from "./facets";
+import { buildProductFacets } from "./facets";
+import type { ProductInventory } from "./inventory";
+import { createCartProbe, inferVariantInventory } from "./inventory";
+import { ProductQuery } from "./query";
 import type { ShopInfo } from "./store";
 import type {
+  CatalogSnapshot,
+  CatalogSyncResult,
   CurrencyCode,
   EnhancedProductSeo,
   EnhancedProductResponse,
@@ -20,9 +29,11 @@ import type {
   ShopifyPredictiveProductSearch,
   ShopifyProduct,
   ShopifySingleProduct,
+  StreamOptions,
 } from "./types";
-import { formatPrice, normalizeKey } from "./utils/func";
+import { diffFingerprints, formatPrice, normalizeKey } from "./utils/func";
 import { rateLimitedFetch } from "./utils/rate-limit";
+import type { Fetcher } from "./utils/transport";
 
 /**
  * Interface for product operations
@@ -40,11 +51,48 @@ export interface ProductOperations {
     columns?: ProductColumnsConfig<C, I, O>;
   }): Promise<ProductResult<C, I, O>[] | null>;
 
+  /**
+   * Streams all products from the store, one page at a time.
+   */
+  stream<
+    C extends ProductColumnsMode = "minimal",
+    I extends ProductImagesMode = "minimal",
+    O extends ProductOptionsMode = "minimal",
+  >(
+    options?: StreamOptions & {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+    }
+  ): AsyncIterable<ProductResult<C, I, O>>;
+
   /**
    * Fetches identity/version tuples for every product in the store.
    */
   fingerprints(): Promise<ProductFingerprint[]>;
 
+  /**
+   * Streams identity/version tuples for every product in the store.
+   */
+  streamFingerprints(
+    options?: StreamOptions
+  ): AsyncIterable<ProductFingerprint>;
+
+  /**
+   * Diffs the catalog against a previous snapshot and fetches changed products.
+   */
+  sync<
+    C extends ProductColumnsMode = "minimal",
+    I extends ProductImagesMode = "minimal",
+    O extends ProductOptionsMode = "minimal",
+  >(
+    previous?: CatalogSnapshot | ProductFingerprint[] | null,
+    options?: StreamOptions & {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+      concurrency?: number;
+    }
+  ): Promise<CatalogSyncResult<C, I, O>>;
+
   /**
    * Fetches products with pagination support.
    */
@@ -165,11 +213,40 @@ export interface ProductOperations {
     columns?: ProductColumnsConfig<C, I, O>;
   }): Promise<ProductResult<C, I, O>[]>;
 
+  /**
+   * Builds an in-memory query over the cached catalog.
+   */
+  query<
+    C extends ProductColumnsMode = "full",
+    I extends ProductImagesMode = "minimal",
+    O extends ProductOptionsMode = "minimal",
+  >(options?: {
+    currency?: CurrencyCode;
+    columns?: ProductColumnsConfig<C, I, O>;
+  }): ProductQuery<ProductResult<C, I, O>>;
+
   /**
    * Creates a filter map of variant options and their distinct values from all products.
    */
   filter(): Promise<Record<string, string[]> | null>;
 
+  /**
+   * Computes option, vendor, product type, tag and price facets with counts.
+   */
+  facets(options?: {
+    collection?: string;
+    priceBuckets?: number | number[];
+    currency?: CurrencyCode;
+  }): Promise<ProductFacets>;
+
+  /**
+   * Estimates per-variant stock levels. Requires the client's `inventoryProbe` option.
+   */
+  inventory(
+    productHandle: string,
+    options?: { probe?: boolean }
+  ): Promise<ProductInventory | null>;
+
   /**
    * Predictive product search using Shopify Ajax API.
    */
@@ -248,22 +325,11 @@ export function createProductOperations(
     options?: { columns?: ProductColumnsConfig<C, I, O> }
   ) => Promise<ProductResult<C, I, O> | null>,
   getDefaultProductColumns: () => ProductColumnsConfig,
-  ai?: { openRouter?: OpenRouterConfig }
+  ai?: { openRouter?: OpenRouterConfig },
+  fetcher: Fetcher = rateLimitedFetch,
+  cache: ResourceCache = new ResourceCache(createMemoryCache(), storeDomain),
+  features: { inventoryProbe?: boolean } = {}
 ): ProductOperations {
-  // Use shared formatter from utils
-  const cacheExpiryMs = 5 * 60 * 1000; // 5 minutes
-  const findCache = new Map<string, { ts: number; value: unknown }>();
-  const getCached = <T>(key: string): T | null | undefined => {
-    const entry = findCache.get(key);
-    if (!entry) return undefined;
-    if (Date.now() - entry.ts < cacheExpiryMs) return entry.value as T | null;
-    findCache.delete(key);
-    return undefined;
-  };
-  const setCached = (key: string, value: unknown) => {
-    findCache.set(key, { ts: Date.now(), value });
-  };
-
   function applyCurrencyOverride<
     C extends ProductColumnsMode,
     I extends ProductImagesMode,
@@ -333,94 +399,271 @@ export function createProductOperations(
     return s.includes("gift card") || s.includes("giftcard");
   };
 
-  async function allInternal<
+  /**
+   * Walks `/products.json` page by page, yielding each raw page as soon as it
+   * arrives. Nothing is fetched until the consumer asks for the next page.
+   */
+  async function* productPages(
+    buildUrl: (page: number, limit: number) => string,
+    signal?: AbortSignal
+  ): AsyncGenerator<ShopifyProduct[]> {
+    const limit = 250;
+    let currentPage = 1;
+
+    while (true) {
+      signal?.throwIfAborted();
+      const url = buildUrl(currentPage, limit);
+      const response = await fetcher(url, {
+        rateLimitClass: "products:list",
+        signal,
+      });
+      if (!response.ok) {
+        throw httpErrorFromResponse(response, url);
+      }
+      const data = (await response.json()) as { products: ShopifyProduct[] };
+      const rawProducts = Array.isArray(data.products) ? data.products : [];
+      yield rawProducts;
+
+      if (rawProducts.length === 0 || rawProducts.length < limit) {
+        return;
+      }
+      currentPage++;
+    }
+  }
+
+  async function* streamInternal<
     C extends ProductColumnsMode,
     I extends ProductImagesMode,
     O extends ProductOptionsMode,
-  >(options: {
-    currency?: CurrencyCode;
-    columns?: ProductColumnsConfig<C, I, O>;
-  }): Promise<ProductResult<C, I, O>[] | null> {
-    const limit = 250;
-    const allProducts: ProductResult<C, I, O>[] = [];
+  >(
+    options: StreamOptions & {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+      /** Listing path relative to the store root (default `products.json`). */
+      path?: string;
+    }
+  ): AsyncGenerator<ProductResult<C, I, O>> {
     const columns = resolveColumns<C, I, O>(options.columns);
+    const path = options.path ?? "products.json";
+    let page = 0;
+    let total = 0;
+
+    for await (const rawProducts of productPages(
+      (p, limit) => `${baseUrl}${path}?page=${p}&limit=${limit}`,
+      options.signal
+    )) {
+      page++;
+      const filteredRawProducts = rawProducts.filter(
+        (p) => !isGiftCardType(p.product_type)
+      );
+      const normalized =
+        maybeOverrideProductsCurrency(
+          productsDto<C, I, O>(filteredRawProducts, { columns }) || [],
+          options.currency
+        ) ?? [];
+      total += normalized.length;
+      options.onPage?.({ page, count: normalized.length, total });
+      yield* normalized;
+    }
+  }
 
-    async function fetchAll() {
-      let currentPage = 1;
+  async function* streamFingerprintsInternal(
+    options: StreamOptions
+  ): AsyncGenerator<ProductFingerprint> {
+    let page = 0;
+    let total = 0;
+
+    for await (const rawProducts of productPages(
+      (p, limit) => `${baseUrl}products.json?limit=${limit}&page=${p}`,
+      options.signal
+    )) {
+      page++;
+      total += rawProducts.length;
+      options.onPage?.({ page, count: rawProducts.length, total });
+      // Unlike `all()`, gift cards are NOT filtered out here: fingerprints
+      // describe the store as Shopify reports it, so a consumer's count and
+      // diff line up with the raw catalog rather than with our own view of it.
+      for (const p of rawProducts) {
+        yield {
+          handle: p.handle,
+          id: p.id,
+          updated_at: p.updated_at,
+        };
+      }
+    }
+  }
+
+  async function syncInternal<
+    C extends ProductColumnsMode,
+    I extends ProductImagesMode,
+    O extends ProductOptionsMode,
+  >(
+    previous: CatalogSnapshot | ProductFingerprint[] | null | undefined,
+    options: StreamOptions & {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+      concurrency?: number;
+    }
+  ): Promise<CatalogSyncResult<C, I, O>> {
+    if (previous && !Array.isArray(previous) && previous.version !== 1) {
+      throw new Error(
+        `Unsupported catalog snapshot version: ${String(previous.version)}`
+      );
+    }
+    const before = Array.isArray(previous)
+      ? previous
+      : (previous?.products ?? []);
+    const createdAt = new Date().toISOString();
+
+    // Gift cards are left out of sync snapshots, matching all() and find()
+    const current: ProductFingerprint[] = [];
+    let page = 0;
+    for await (const rawProducts of productPages(
+      (p, limit) => `${baseUrl}products.json?limit=${limit}&page=${p}`,
+      options.signal
+    )) {
+      page++;
+      let count = 0;
+      for (const p of rawProducts) {
+        if (isGiftCardType(p.product_type)) continue;
+        current.push({ handle: p.handle, id: p.id, updated_at: p.updated_at });
+        count++;
+      }
+      options.onPage?.({ page, count, total: current.length });
+    }
 
-      while (true) {
-        const url = `${baseUrl}products.json?page=${currentPage}&limit=${limit}`;
-        const response = await rateLimitedFetch(url, {
-          rateLimitClass: "products:list",
+    const diff = diffFingerprints(before, current);
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? 4));
+    const fetchOne = async (fp: ProductFingerprint) => {
+      try {
+        // The cached copy may predate the change sync just detected
+        const product = await findInternal<C, I, O>(fp.handle, {
+          currency: options.currency,
+          columns: options.columns,
+          fresh: true,
         });
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-        const data = (await response.json()) as { products: ShopifyProduct[] };
-        const rawProducts = Array.isArray(data.products) ? data.products : [];
-        const filteredRawProducts = rawProducts.filter(
-          (p) => !isGiftCardType(p.product_type)
+        return { fp, product };
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        console.error(
+          `Failed to fetch changed product ${fp.handle}:`,
+          storeDomain,
+          error
         );
-        const normalized =
-          productsDto<C, I, O>(filteredRawProducts, { columns }) || [];
-        allProducts.push(...normalized);
-
-        if (rawProducts.length === 0 || rawProducts.length < limit) {
-          break;
-        }
-        currentPage++;
+        return { fp, product: null };
+      }
+    };
+    // A first sync fetches the whole catalog; keep a bounded number in flight
+    const fetchChanged = async (fingerprints: ProductFingerprint[]) => {
+      const results: Awaited<ReturnType<typeof fetchOne>>[] = [];
+      for (let i = 0; i < fingerprints.length; i += concurrency) {
+        options.signal?.throwIfAborted();
+        const batch = fingerprints.slice(i, i + concurrency);
+        results.push(...(await Promise.all(batch.map(fetchOne))));
+      }
+      return results;
+    };
+    const added = await fetchChanged(diff.added);
+    const updated = await fetchChanged(diff.updated);
+
+    const result: CatalogSyncResult<C, I, O> = {
+      added: [],
+      updated: [],
+      removed: diff.removed,
+      renamed: diff.renamed,
+      failed: [],
+      snapshot: { version: 1, createdAt, products: [] },
+    };
+    // Failed products keep their previous fingerprint (or none, if new), so
+    // the next run reports them again.
+    const keep = new Map<number, ProductFingerprint | null>();
+    for (const { fp, product } of added) {
+      if (product) {
+        result.added.push(product);
+      } else {
+        result.failed.push(fp);
+        keep.set(fp.id, null);
       }
-      return allProducts;
     }
+    const previousById = new Map(before.map((fp) => [fp.id, fp]));
+    for (const { fp, product } of updated) {
+      if (product) {
+        result.updated.push(product);
+      } else {
+        result.failed.push(fp);
+        keep.set(fp.id, previousById.get(fp.id) ?? null);
+      }
+    }
+    for (const fp of current) {
+      const kept = keep.has(fp.id) ? keep.get(fp.id) : fp;
+      if (kept) result.snapshot.products.push(kept);
+    }
+    return result;
+  }
 
+  async function allInternal<
+    C extends ProductColumnsMode,
+    I extends ProductImagesMode,
+    O extends ProductOptionsMode,
+  >(options: {
+    currency?: CurrencyCode;
+    columns?: ProductColumnsConfig<C, I, O>;
+    path?: string;
+  }): Promise<ProductResult<C, I, O>[] | null> {
     try {
-      const products = await fetchAll();
-      return maybeOverrideProductsCurrency(products, options.currency);
+      const allProducts: ProductResult<C, I, O>[] = [];
+      for await (const product of streamInternal<C, I, O>(options)) {
+        allProducts.push(product);
+      }
+      return allProducts;
     } catch (error) {
       console.error("Failed to fetch all products:", storeDomain, error);
       throw error;
     }
   }
 
-  async function fingerprintsInternal(): Promise<ProductFingerprint[]> {
-    const limit = 250;
-    const fingerprints: ProductFingerprint[] = [];
-
-    async function fetchAll() {
-      let currentPage = 1;
-
-      while (true) {
-        const url = `${baseUrl}products.json?limit=${limit}&page=${currentPage}`;
-        const response = await rateLimitedFetch(url, {
-          rateLimitClass: "products:list",
-        });
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-        }
-        const data = (await response.json()) as { products: ShopifyProduct[] };
-        const rawProducts = Array.isArray(data.products) ? data.products : [];
-
-        // Unlike `all()`, gift cards are NOT filtered out here: fingerprints
-        // describe the store as Shopify reports it, so a consumer's count and
-        // diff line up with the raw catalog rather than with our own view of it.
-        for (const p of rawProducts) {
-          fingerprints.push({
-            handle: p.handle,
-            id: p.id,
-            updated_at: p.updated_at,
-          });
-        }
-
-        if (rawProducts.length === 0 || rawProducts.length < limit) {
-          break;
-        }
-        currentPage++;
-      }
-      return fingerprints;
+  /**
+   * Full catalog (or one collection's products) for
+   * {@link ProductOperations.query} and {@link ProductOperations.facets},
+   * cached per column selection under the `catalog` resource.
+   */
+  async function catalogInternal<
+    C extends ProductColumnsMode,
+    I extends ProductImagesMode,
+    O extends ProductOptionsMode,
+  >(options: {
+    currency?: CurrencyCode;
+    columns: Required<ProductColumnsConfig<C, I, O>>;
+    collection?: string;
+  }): Promise<ProductResult<C, I, O>[]> {
+    const { columns, collection } = options;
+    const scope = collection ? `collections/${collection}|` : "";
+    const cacheKey = `${scope}${columns.mode}|${columns.images}|${columns.options}`;
+    const cached = await cache.get<ProductResult<C, I, O>[]>(
+      "catalog",
+      cacheKey
+    );
+    let products = cached?.value;
+    if (!products) {
+      products =
+        (await allInternal<C, I, O>({
+          columns,
+          path: collection
+            ? `collections/${encodeURIComponent(collection)}/products.json`
+            : undefined,
+        })) ?? [];
+      await cache.set("catalog", cacheKey, products);
     }
+    return maybeOverrideProductsCurrency(products, options.currency) ?? [];
+  }
 
+  async function fingerprintsInternal(): Promise<ProductFingerprint[]> {
     try {
-      return await fetchAll();
+      const fingerprints: ProductFingerprint[] = [];
+      for await (const fingerprint of streamFingerprintsInternal({})) {
+        fingerprints.push(fingerprint);
+      }
+      return fingerprints;
     } catch (error) {
       console.error(
         "Failed to fetch product fingerprints:",
@@ -447,14 +690,11 @@ export function createProductOperations(
     const url = `${baseUrl}products.json?limit=${limit}&page=${page}`;
 
     try {
-      const response = await rateLimitedFetch(url, {
+      const response = await fetcher(url, {
         rateLimitClass: "products:paginated",
       });
       if (!response.ok) {
-        console.error(
-          `HTTP error! status: ${response.status} for ${storeDomain} page ${page}`
-        );
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw httpErrorFromResponse(response, url);
       }
 
       const data = (await response.json()) as {
@@ -479,7 +719,7 @@ export function createProductOperations(
         `Error fetching products for ${storeDomain} page ${page} with limit ${limit}:`,
         error
       );
-      return null;
+      throw error;
     }
   }
 
@@ -492,6 +732,8 @@ export function createProductOperations(
     options: {
       currency?: CurrencyCode;
       columns?: ProductColumnsConfig<C, I, O>;
+      /** Skip the cached copy; the fresh product still replaces it. */
+      fresh?: boolean;
     }
   ): Promise<ProductResult<C, I, O> | null> {
     if (!productHandle || typeof productHandle !== "string") {
@@ -521,15 +763,17 @@ export function createProductOperations(
 
       const columns = resolveColumns<C, I, O>(options.columns);
       const cacheKey = `${sanitizedHandle}|${columns.mode}|${columns.images}|${columns.options}`;
-      const cached = getCached<ProductResult<C, I, O>>(cacheKey);
-      if (typeof cached !== "undefined") {
-        if (!cached || !options.currency) return cached;
-        return applyCurrencyOverride(cached, options.currency);
+      const cached = options.fresh
+        ? undefined
+        : await cache.get<ProductResult<C, I, O> | null>("product", cacheKey);
+      if (cached) {
+        if (!cached.value || !options.currency) return cached.value;
+        return applyCurrencyOverride(cached.value, options.currency);
       }
 
       let finalHandle = sanitizedHandle;
       try {
-        const htmlResp = await rateLimitedFetch(
+        const htmlResp = await fetcher(
           `${baseUrl}products/${encodeURIComponent(sanitizedHandle)}`,
           { rateLimitClass: "products:resolve" }
         );
@@ -550,7 +794,7 @@ export function createProductOperations(
       }
 
       const url = `${baseUrl}products/${encodeURIComponent(finalHandle)}.js${qs ? `?${qs}` : ""}`;
-      const response = await rateLimitedFetch(url, {
+      const response = await fetcher(url, {
         rateLimitClass: "products:single",
       });
 
@@ -558,24 +802,24 @@ export function createProductOperations(
         if (response.status === 404) {
           return null;
         }
-        throw new Error(`HTTP error! status: ${response.status}`);
+        throw httpErrorFromResponse(response, url);
       }
 
       const product = (await response.json()) as ShopifySingleProduct;
       if (isGiftCardType((product as any).type)) {
-        setCached(cacheKey, null);
+        await cache.set("product", cacheKey, null);
         if (finalHandle !== sanitizedHandle) {
           const finalKey = `${finalHandle}|${columns.mode}|${columns.images}|${columns.options}`;
-          setCached(finalKey, null);
+          await cache.set("product", finalKey, null);
         }
         return null;
       }
       const productData = productDto<C, I, O>(product, { columns });
 
-      setCached(cacheKey, productData);
+      await cache.set("product", cacheKey, productData);
       if (finalHandle !== sanitizedHandle) {
         const finalKey = `${finalHandle}|${columns.mode}|${columns.images}|${columns.options}`;
-        setCached(finalKey, productData);
+        await cache.set("product", finalKey, productData);
       }
       return options.currency
         ? applyCurrencyOverride(productData, options.currency)
@@ -625,7 +869,7 @@ export function createProductOperations(
       `&resources[limit]=${limit}` +
       `&resources[options][unavailable_products]=${unavailable}`;
 
-    const response = await rateLimitedFetch(url, {
+    const response = await fetcher(url, {
       rateLimitClass: "search:predictive",
       timeoutMs: 7000,
       retry: { maxRetries: 2, baseDelayMs: 300 },
@@ -638,14 +882,14 @@ export function createProductOperations(
         `&resources[type]=product` +
         `&resources[limit]=${limit}` +
         `&resources[options][unavailable_products]=${unavailable}`;
-      resp = await rateLimitedFetch(fallbackUrl, {
+      resp = await fetcher(fallbackUrl, {
         rateLimitClass: "search:predictive",
         timeoutMs: 7000,
         retry: { maxRetries: 2, baseDelayMs: 300 },
       });
     }
     if (!resp.ok) {
-      throw new Error(`HTTP ${resp.status}: ${resp.statusText}`);
+      throw httpErrorFromResponse(resp, resp.url || url);
     }
     const data = (await resp.json()) as ShopifyPredictiveProductSearch;
     const raw = data?.resources?.results?.products ?? [];
@@ -691,7 +935,7 @@ export function createProductOperations(
       `&limit=${limit}` +
       `&intent=${intent}`;
 
-    const resp = await rateLimitedFetch(url, {
+    const resp = await fetcher(url, {
       rateLimitClass: "products:recommendations",
       timeoutMs: 7000,
       retry: { maxRetries: 2, baseDelayMs: 300 },
@@ -700,7 +944,7 @@ export function createProductOperations(
       if (resp.status === 404) {
         return [];
       }
-      throw new Error(`HTTP ${resp.status}: ${resp.statusText}`);
+      throw httpErrorFromResponse(resp, url);
     }
     const data: unknown = await resp.json();
     const isRecord = (v: unknown): v is Record<string, unknown> =>
@@ -773,7 +1017,7 @@ export function createProductOperations(
       const sanitized = base.replace(/[^a-zA-Z0-9\-_]/g, "");
       if (sanitized) {
         resolvedHandle = sanitized;
-        const htmlResp = await rateLimitedFetch(
+        const htmlResp = await fetcher(
           `${baseUrl}products/${encodeURIComponent(sanitized)}`,
           { rateLimitClass: "products:resolve" }
         );
@@ -792,7 +1036,7 @@ export function createProductOperations(
       }
     } catch {}
 
-    const resp = await rateLimitedFetch(endpoint, {
+    const resp = await fetcher(endpoint, {
       method: "POST",
       headers: {
         "content-type": "application/json",
@@ -812,15 +1056,23 @@ export function createProductOperations(
       },
     });
     if (!resp.ok) {
-      throw new Error(`HTTP ${resp.status}: ${resp.statusText}`);
+      throw httpErrorFromResponse(resp, endpoint);
     }
     const data: unknown = await resp.json();
     if (!data || typeof data !== "object" || Array.isArray(data)) {
-      throw new Error("Invalid enhanced product response");
+      throw new SchemaValidationError(
+        "Invalid enhanced product response",
+        "Top-level must be a JSON object",
+        { url: endpoint }
+      );
     }
     const o = data as Record<string, unknown>;
     if (!("shopify" in o) || !("enrichment" in o) || !("cache" in o)) {
-      throw new Error("Invalid enhanced product response");
+      throw new SchemaValidationError(
+        "Invalid enhanced product response",
+        "Expected shopify, enrichment and cache fields",
+        { url: endpoint }
+      );
     }
     const parsed = data as EnhancedProductWorkerResponse;
     let mappedProduct: ProductResult<C, I, O> = baseProduct;
@@ -865,9 +1117,9 @@ export function createProductOperations(
     /**
      * Fetches all products from the store across all pages.
      *
-     * @returns {Promise<Product[] | null>} Array of all products or null if error occurs
+     * @returns {Promise<Product[] | null>} Array of all products
      *
-     * @throws {Error} When there's a network error or API failure
+     * @throws {UpstreamHttpError} When a page responds with a non-2xx status (`RateLimitedError` for 429)
      *
      * @example
      * ```typescript
@@ -895,6 +1147,46 @@ export function createProductOperations(
       return res;
     },
 
+    /**
+     * Streams all products from the store without buffering the catalog.
+     *
+     * Walks the same paginated `/products.json` feed as {@link all} and
+     * yields products as each page arrives; the next page is only requested
+     * once the current one has been consumed. Breaking out of the loop stops
+     * the crawl.
+     *
+     * @param options - Stream options
+     * @param options.currency - Optional currency override for formatted prices
+     * @param options.columns - Column selection, as in {@link all}
+     * @param options.signal - Aborts the in-flight page request and ends the stream with the abort reason
+     * @param options.onPage - Called after each page with `{ page, count, total }`
+     *
+     * @throws {Error} When there's a network error or API failure
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('https://exampleshop.com');
+     *
+     * for await (const product of shop.products.stream({
+     *   onPage: ({ page, total }) => console.log(`page ${page}: ${total}`),
+     * })) {
+     *   await save(product);
+     * }
+     * ```
+     */
+    stream: <
+      C extends ProductColumnsMode = "minimal",
+      I extends ProductImagesMode = "minimal",
+      O extends ProductOptionsMode = "minimal",
+    >(
+      options?: StreamOptions & {
+        currency?: CurrencyCode;
+        columns?: ProductColumnsConfig<C, I, O>;
+      }
+    ): AsyncIterable<ProductResult<C, I, O>> => {
+      return streamInternal<C, I, O>(options ?? {});
+    },
+
     /**
      * Fetches identity/version tuples for every product in the store.
      *
@@ -924,6 +1216,69 @@ export function createProductOperations(
       return await fingerprintsInternal();
     },
 
+    /**
+     * Streams identity/version tuples for every product in the store.
+     *
+     * Same data and order as {@link fingerprints}, but each page is yielded
+     * as soon as it arrives, so change detection can start before the crawl
+     * finishes.
+     *
+     * @param options - `signal` to abort the crawl, `onPage` for progress
+     *
+     * @example
+     * ```typescript
+     * for await (const fp of shop.products.streamFingerprints()) {
+     *   if (previous.get(fp.handle) !== fp.updated_at) queue.push(fp.handle);
+     * }
+     * ```
+     */
+    streamFingerprints: (
+      options?: StreamOptions
+    ): AsyncIterable<ProductFingerprint> => {
+      return streamFingerprintsInternal(options ?? {});
+    },
+
+    /**
+     * Incrementally syncs the catalog against a previous snapshot.
+     *
+     * Crawls fingerprints (see {@link streamFingerprints}), diffs them against
+     * `previous` by product `id`, and fetches full products through
+     * {@link find} only for added and updated handles. A changed handle is
+     * reported in `renamed` and its product in `updated`.
+     *
+     * Store `result.snapshot` (plain JSON) and pass it to the next run.
+     * Without a previous snapshot every product counts as added. Products
+     * that changed but could not be fetched are listed in `failed` and keep
+     * their previous fingerprint in the new snapshot, so they are retried.
+     * Gift cards are excluded, as in {@link all}.
+     *
+     * @param previous - Snapshot from the last run, or a `fingerprints()` list
+     * @param options - `columns`/`currency` for fetched products, `concurrency` for product lookups in flight at once (default: 4), plus `signal` and `onPage`
+     *
+     * @throws {Error} When the fingerprint crawl fails or the snapshot version is unsupported
+     *
+     * @example
+     * ```typescript
+     * const previous = JSON.parse(await readFile('snapshot.json', 'utf8'));
+     * const { added, updated, removed, snapshot } = await shop.products.sync(previous);
+     * await writeFile('snapshot.json', JSON.stringify(snapshot));
+     * ```
+     */
+    sync: async <
+      C extends ProductColumnsMode = "minimal",
+      I extends ProductImagesMode = "minimal",
+      O extends ProductOptionsMode = "minimal",
+    >(
+      previous?: CatalogSnapshot | ProductFingerprint[] | null,
+      options?: StreamOptions & {
+        currency?: CurrencyCode;
+        columns?: ProductColumnsConfig<C, I, O>;
+        concurrency?: number;
+      }
+    ): Promise<CatalogSyncResult<C, I, O>> => {
+      return await syncInternal<C, I, O>(previous, options ?? {});
+    },
+
     /**
      * Fetches products with pagination support.
      *
@@ -931,9 +1286,9 @@ export function createProductOperations(
      * @param options.page - Page number (default: 1)
      * @param options.limit - Number of products per page (default: 250, max: 250)
      *
-     * @returns {Promise<Product[] | null>} Array of products for the specified page or null if error occurs
+     * @returns {Promise<Product[] | null>} Array of products for the specified page
      *
-     * @throws {Error} When there's a network error or API failure
+     * @throws {UpstreamHttpError} When the page responds with a non-2xx status (`RateLimitedError` for 429)
      *
      * @example
      * ```typescript
@@ -970,9 +1325,10 @@ export function createProductOperations(
      *
      * @param productHandle - The product handle (URL slug) to search for
      *
-     * @returns {Promise<Product | null>} The product if found, null if not found
+     * @returns {Promise<Product | null>} The product if found, null if the store answers 404 or the product is a gift card
      *
-     * @throws {Error} When the handle is invalid or there's a network error
+     * @throws {Error} When the handle is invalid
+     * @throws {UpstreamHttpError} For any other non-2xx response (`RateLimitedError` for 429)
      *
      * @example
      * ```typescript
@@ -1019,10 +1375,17 @@ export function createProductOperations(
         throw new Error("Product handle is required and must be a string");
       }
 
-      return await getSeoForUrl({
+      const cacheId = `products/${sanitized}`;
+      const cached = await cache.get<EnhancedProductSeo>("seo", cacheId);
+      if (cached) return cached.value;
+
+      const seo = await getSeoForUrl({
         url: `${baseUrl}products/${encodeURIComponent(sanitized)}`,
         rateLimitClass: "products:seo",
+        fetcher,
       });
+      await cache.set("seo", cacheId, seo);
+      return seo;
     },
 
     findEnhanced: async <
@@ -1077,6 +1440,7 @@ export function createProductOperations(
         model: options?.model,
         outputFormat: options?.outputFormat,
         htmlContent: options?.content,
+        fetcher,
       });
 
       return {
@@ -1113,6 +1477,7 @@ export function createProductOperations(
         inputType: options?.inputType,
         outputFormat: options?.outputFormat,
         htmlContent: options?.content,
+        fetcher,
       });
     },
     classify: async (
@@ -1157,6 +1522,7 @@ export function createProductOperations(
         apiKey: options?.apiKey,
         openRouter: ai?.openRouter,
         model: options?.model,
+        fetcher,
       });
       return classification;
     },
@@ -1187,6 +1553,7 @@ export function createProductOperations(
         useGfm: options?.useGfm,
         inputType: options?.inputType,
         htmlContent: options?.content,
+        fetcher,
       });
     },
 
@@ -1221,6 +1588,7 @@ export function createProductOperations(
         apiKey: options?.apiKey,
         openRouter: ai?.openRouter,
         model: options?.model,
+        fetcher,
       });
       return seo;
     },
@@ -1266,7 +1634,9 @@ export function createProductOperations(
       );
       if (!baseProduct) return null;
 
-      const pageHtml = await fetchProductPage(storeDomain, baseProduct.handle);
+      const pageHtml = await fetchProductPage(storeDomain, baseProduct.handle, {
+        fetcher,
+      });
       return extractMainSection(pageHtml);
     },
 
@@ -1317,10 +1687,52 @@ export function createProductOperations(
       return filter(products, isNonNullish);
     },
 
+    /**
+     * Builds an in-memory query over the store's catalog.
+     *
+     * The catalog is crawled once through {@link all} and kept in the cache
+     * (`catalog` resource, same TTL rules as other resources); every
+     * `run()` filters, sorts and paginates locally. Columns default to full
+     * mode so vendor and tag filters work.
+     *
+     * @param options - Query options
+     * @param options.currency - Optional currency override for formatted prices
+     * @param options.columns - Column selection (default `{ mode: "full" }`)
+     *
+     * @throws {UpstreamHttpError} From `run()`, when the catalog crawl fails
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('https://exampleshop.com');
+     * const { products, total, facets } = await shop.products
+     *   .query()
+     *   .where({ available: true, priceLte: 5000, option: { color: 'blue' } })
+     *   .sortBy('discount')
+     *   .page(2)
+     *   .run();
+     * ```
+     */
+    query: <
+      C extends ProductColumnsMode = "full",
+      I extends ProductImagesMode = "minimal",
+      O extends ProductOptionsMode = "minimal",
+    >(options?: {
+      currency?: CurrencyCode;
+      columns?: ProductColumnsConfig<C, I, O>;
+    }): ProductQuery<ProductResult<C, I, O>> => {
+      const columns = resolveColumns<C, I, O>({
+        ...options?.columns,
+        mode: options?.columns?.mode ?? ("full" as C),
+      });
+      return new ProductQuery(() =>
+        catalogInternal<C, I, O>({ currency: options?.currency, columns })
+      );
+    },
+
     /**
      * Creates a filter map of variant options and their distinct values from all products.
      *
-     * @returns {Promise<Record<string, string[]> | null>} Map of option names to their distinct values or null if error occurs
+     * @returns {Promise<Record<string, string[]> | null>} Map of option names to their distinct values
      *
      * @throws {Error} When there's a network error or API failure
      *
@@ -1436,6 +1848,162 @@ export function createProductOperations(
       }
     },
 
+    /**
+     * Computes facets for a storefront-style filter sidebar in one pass.
+     *
+     * Each facet value carries its display label, normalized key, product
+     * count and available-variant count. Price buckets are labelled in the
+     * store currency, read from the cached store info (fetched once if
+     * needed), or in `currency` when given. The product list comes from the
+     * same cached catalog as {@link query}, or from a single collection when
+     * `collection` is set.
+     *
+     * @param options - Facet options
+     * @param options.collection - Collection handle to scope the facets to
+     * @param options.priceBuckets - Bucket count (default 5) or explicit lower bounds in cents (prices below the first bound get an open-ended bottom bucket)
+     * @param options.currency - Currency for bucket labels; skips the store info lookup
+     *
+     * @returns {Promise<ProductFacets>} Facets sorted by product count
+     *
+     * @throws {UpstreamHttpError} When a listing page responds with a non-2xx status (`404` for an unknown collection)
+     * @throws {Error} When no `currency` is given and the store's currency cannot be detected
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('https://exampleshop.com');
+     * const facets = await shop.products.facets({ collection: 'summer' });
+     *
+     * for (const option of facets.options) {
+     *   console.log(option.name, option.values.map((v) => `${v.value} (${v.count})`));
+     * }
+     * console.log(facets.price.buckets.map((b) => b.label));
+     * ```
+     */
+    facets: async (options?: {
+      collection?: string;
+      priceBuckets?: number | number[];
+      currency?: CurrencyCode;
+    }): Promise<ProductFacets> => {
+      let collection: string | undefined;
+      if (options?.collection !== undefined) {
+        collection = options.collection.trim().replace(/[^a-zA-Z0-9\-_]/g, "");
+        if (!collection) {
+          throw new Error("Invalid collection handle format");
+        }
+      }
+      // Store info is cached, so this costs a request only on first use
+      const currency = options?.currency ?? (await getStoreInfo()).currency;
+      if (!currency) {
+        throw new Error(
+          "Store currency could not be detected; pass the currency option"
+        );
+      }
+      const products = await catalogInternal<"full", "minimal", "full">({
+        columns: { mode: "full", images: "minimal", options: "full" },
+        collection,
+      });
+      return buildProductFacets(products, {
+        currency,
+        priceBuckets: options?.priceBuckets,
+      });
+    },
+
+    /**
+     * Estimates how many units of each variant the store can sell.
+     *
+     * Quantities come from the product `.js` endpoint when the store still
+     * exposes `inventory_quantity`. Otherwise each available variant is
+     * added to a throwaway cart with an oversized quantity and the limit is
+     * read from the store's error ("You can only add 5 ..."). Probing creates
+     * carts, so the method is disabled unless the client was created with
+     * `inventoryProbe: true`; probe requests use the `inventory:probe` rate
+     * limit class.
+     *
+     * @param productHandle - The product handle
+     * @param options - `probe: false` skips the cart probe and reports only what `.js` exposes
+     *
+     * @returns {Promise<ProductInventory | null>} Per-variant estimates with the method and confidence, or `null` when the product does not exist
+     *
+     * @throws {Error} When `inventoryProbe` is not enabled or the handle is invalid
+     * @throws {UpstreamHttpError} When the product or a probe responds with an unexpected status
+     *
+     * @example
+     * ```typescript
+     * const shop = new ShopClient('https://exampleshop.com', { inventoryProbe: true });
+     * const inventory = await shop.products.inventory('classic-tee');
+     * for (const v of inventory?.variants ?? []) {
+     *   console.log(v.title, v.quantity, v.method, v.confidence);
+     * }
+     * ```
+     */
+    inventory: async (
+      productHandle: string,
+      options?: { probe?: boolean }
+    ): Promise<ProductInventory | null> => {
+      if (!features.inventoryProbe) {
+        throw new Error(
+          "products.inventory() is disabled; create the client with inventoryProbe: true"
+        );
+      }
+      if (!productHandle || typeof productHandle !== "string") {
+        throw new Error("Product handle is required and must be a string");
+      }
+      const handle = productHandle.trim().replace(/[^a-zA-Z0-9\-_]/g, "");
+      if (!handle) {
+        throw new Error("Invalid product handle format");
+      }
+      if (handle.length > 255) {
+        throw new Error("Product handle is too long");
+      }
+
+      const url = `${baseUrl}products/${encodeURIComponent(handle)}.js`;
+      const response = await fetcher(url, {
+        rateLimitClass: "products:single",
+      });
+      if (!response.ok) {
+        if (response.status === 404) return null;
+        throw httpErrorFromResponse(response, url);
+      }
+      const product = (await response.json()) as ShopifySingleProduct;
+      if (isGiftCardType((product as any).type)) return null;
+
+      const variants = (product.variants ?? []).map(inferVariantInventory);
+      if (options?.probe !== false) {
+        const cart = createCartProbe(baseUrl, fetcher);
+        try {
+          // One at a time: every probe shares the same throwaway cart
+          for (const variant of variants) {
+            if (variant.method !== "availability" || !variant.available) {
+              continue;
+            }
+            const result = await cart.probe(variant.variantId);
+            if (result === null) continue;
+            variant.method = "cart_probe";
+            variant.confidence = "medium";
+            if (result === "unlimited") {
+              variant.quantity = null;
+              variant.unlimited = true;
+            } else {
+              variant.quantity = result;
+            }
+          }
+        } finally {
+          await cart.release();
+        }
+      }
+
+      const quantities = variants.map((v) => (v.unlimited ? null : v.quantity));
+      return {
+        productId: String(product.id),
+        handle: product.handle,
+        variants,
+        totalQuantity: quantities.every((q) => q !== null)
+          ? quantities.reduce<number>((sum, q) => sum + (q ?? 0), 0)
+          : null,
+        checkedAt: new Date(),
+      };
+    },
+
     predictiveSearch: async <
       C extends ProductColumnsMode = "minimal",
       I extends ProductImagesMode = "minimal",
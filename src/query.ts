@@ -0,0 +1,380 @@
+import type {
+  ProductColumnsMode,
+  ProductImagesMode,
+  ProductOptionsMode,
+  ProductResult,
+} from "./types";
+import { buildVariantKey, normalizeVariantToken } from "./utils/func";
+
+/**
+ * Any normalized product, whatever its column modes.
+ */
+export type QueryableProduct = ProductResult<
+  ProductColumnsMode,
+  ProductImagesMode,
+  ProductOptionsMode
+>;
+
+/**
+ * Filters for {@link ProductQuery.where}. All conditions must hold.
+ *
+ * Variant-level conditions (`available`, `priceGte`, `priceLte`, `option`)
+ * must be met by the same variant: `{ available: true, option: { color:
+ * "blue" } }` matches products with an in-stock blue variant. Prices are in
+ * cents, like `ProductResult.price`.
+ *
+ * `vendor`, `productType` and `tags` compare normalized keys, so
+ * `"Acme Co."` matches `"acme co"`. `vendor` and `tags` need full columns.
+ */
+export type ProductQueryWhere = {
+  available?: boolean;
+  priceGte?: number;
+  priceLte?: number;
+  /** Minimum discount in percent. */
+  discountGte?: number;
+  vendor?: string | string[];
+  productType?: string | string[];
+  /** Matches products carrying any of the tags. */
+  tags?: string | string[];
+  /** Option name → accepted value(s), e.g. `{ color: ["blue", "navy"] }`. */
+  option?: Record<string, string | string[]>;
+};
+
+export type ProductQuerySortKey =
+  | "price"
+  | "discount"
+  | "title"
+  | "createdAt"
+  | "updatedAt";
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Product counts for every value present in a query's matches.
+ * Option facets are keyed by normalized option name and value.
+ */
+export type ProductQueryFacets = {
+  availability: { available: number; unavailable: number };
+  vendor: Record<string, number>;
+  productType: Record<string, number>;
+  tags: Record<string, number>;
+  options: Record<string, Record<string, number>>;
+};
+
+export type ProductQueryResult<P> = {
+  products: P[];
+  /** Number of matches before pagination. */
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: ProductQueryFacets;
+};
+
+// Sorting by price or title reads best ascending; discounts and dates descending
+const DEFAULT_DIRECTION: Record<ProductQuerySortKey, SortDirection> = {
+  price: "asc",
+  discount: "desc",
+  title: "asc",
+  createdAt: "desc",
+  updatedAt: "desc",
+};
+
+const VARIANT_PARTS_SEPARATOR = "____";
+
+type QueryState = {
+  where: ProductQueryWhere;
+  sort?: { key: ProductQuerySortKey; direction: SortDirection };
+  page?: { page: number; pageSize: number };
+};
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function readString(product: QueryableProduct, field: string): string | null {
+  const value = (product as Record<string, unknown>)[field];
+  return typeof value === "string" ? value : null;
+}
+
+function readTags(product: QueryableProduct): string[] {
+  const tags = (product as { tags?: unknown }).tags;
+  return Array.isArray(tags)
+    ? tags.filter((t): t is string => typeof t === "string")
+    : [];
+}
+
+function readTime(product: QueryableProduct, field: string): number {
+  const value = (product as Record<string, unknown>)[field];
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? 0 : time;
+  }
+  return 0;
+}
+
+/**
+ * Variant keys as built by the DTO (`color__blue____size__xl`).
+ */
+function variantKeys(product: QueryableProduct): string[] {
+  return Object.keys({
+    ...product.variantOptionsMap,
+    ...product.variantPriceMap,
+  });
+}
+
+/**
+ * `name__value` parts accepted for each requested option, normalized with
+ * the same `buildVariantKey` the DTO uses for its maps.
+ */
+function optionParts(option: Record<string, string | string[]>): string[][] {
+  return Object.entries(option)
+    .map(([name, values]) =>
+      asList(values)
+        .map((value) => buildVariantKey({ [name]: value }))
+        .filter(Boolean)
+    )
+    .filter((parts) => parts.length > 0);
+}
+
+function matchesVariant(
+  product: QueryableProduct,
+  key: string,
+  where: ProductQueryWhere,
+  options: string[][]
+): boolean {
+  if (options.length > 0) {
+    const parts = key.split(VARIANT_PARTS_SEPARATOR);
+    if (!options.every((accepted) => accepted.some((p) => parts.includes(p)))) {
+      return false;
+    }
+  }
+  if (where.available !== undefined) {
+    const available = product.variantAvailabilityMap[key] ?? product.available;
+    if (available !== where.available) return false;
+  }
+  const price = product.variantPriceMap[key] ?? product.price;
+  if (where.priceGte !== undefined && price < where.priceGte) return false;
+  if (where.priceLte !== undefined && price > where.priceLte) return false;
+  return true;
+}
+
+function matches(product: QueryableProduct, where: ProductQueryWhere): boolean {
+  if (where.discountGte !== undefined && product.discount < where.discountGte) {
+    return false;
+  }
+
+  const vendors = asList(where.vendor).map(normalizeVariantToken);
+  if (vendors.length > 0) {
+    const vendor = readString(product, "vendor");
+    if (!vendor || !vendors.includes(normalizeVariantToken(vendor)))
+      return false;
+  }
+
+  const types = asList(where.productType).map(normalizeVariantToken);
+  if (types.length > 0) {
+    const type = product.productType;
+    if (!type || !types.includes(normalizeVariantToken(type))) return false;
+  }
+
+  const tags = asList(where.tags).map(normalizeVariantToken);
+  if (tags.length > 0) {
+    const productTags = readTags(product).map(normalizeVariantToken);
+    if (!tags.some((tag) => productTags.includes(tag))) return false;
+  }
+
+  const options = optionParts(where.option ?? {});
+  const variantLevel =
+    options.length > 0 ||
+    where.available !== undefined ||
+    where.priceGte !== undefined ||
+    where.priceLte !== undefined;
+  if (!variantLevel) return true;
+
+  const keys = variantKeys(product);
+  if (keys.length === 0) {
+    // No variant maps: only product-level values can be checked
+    if (options.length > 0) return false;
+    return matchesVariant(product, "", where, []);
+  }
+  return keys.some((key) => matchesVariant(product, key, where, options));
+}
+
+function sortValue(
+  product: QueryableProduct,
+  key: ProductQuerySortKey
+): number | string {
+  switch (key) {
+    case "price":
+      return product.price;
+    case "discount":
+      return product.discount;
+    case "title":
+      return product.title.toLowerCase();
+    case "createdAt":
+    case "updatedAt":
+      return readTime(product, key);
+  }
+}
+
+function increment(counts: Record<string, number>, key: string): void {
+  counts[key] = (counts[key] ?? 0) + 1;
+}
+
+/**
+ * Count matched products per availability, vendor, product type, tag and
+ * option value. A product counts once per value it carries.
+ */
+export function computeFacets(
+  products: readonly QueryableProduct[]
+): ProductQueryFacets {
+  const facets: ProductQueryFacets = {
+    availability: { available: 0, unavailable: 0 },
+    vendor: {},
+    productType: {},
+    tags: {},
+    options: {},
+  };
+
+  for (const product of products) {
+    if (product.available) facets.availability.available += 1;
+    else facets.availability.unavailable += 1;
+
+    const vendor = readString(product, "vendor");
+    if (vendor) increment(facets.vendor, vendor);
+    if (product.productType) increment(facets.productType, product.productType);
+    for (const tag of new Set(readTags(product))) increment(facets.tags, tag);
+
+    const seen = new Set<string>();
+    for (const key of variantKeys(product)) {
+      for (const part of key.split(VARIANT_PARTS_SEPARATOR)) {
+        if (seen.has(part)) continue;
+        seen.add(part);
+        const [name, value] = part.split("__");
+        if (!name || !value) continue;
+        facets.options[name] ??= {};
+        increment(facets.options[name], value);
+      }
+    }
+  }
+
+  return facets;
+}
+
+/**
+ * Chainable, in-memory filter/sort/paginate over a product list.
+ *
+ * Builders are immutable: every call returns a new query, so a base query can
+ * be refined several ways. Nothing runs until {@link run} or {@link count}.
+ *
+ * @example
+ * ```typescript
+ * const { products, total, facets } = await shop.products
+ *   .query()
+ *   .where({ available: true, priceLte: 5000, option: { color: "blue" } })
+ *   .sortBy("discount")
+ *   .page(2)
+ *   .run();
+ * ```
+ */
+export class ProductQuery<P extends QueryableProduct = QueryableProduct> {
+  private source: () => Promise<readonly P[] | null>;
+  private state: QueryState = { where: {} };
+
+  /**
+   * @param source - Products to query, or a loader called on every run
+   */
+  constructor(source: readonly P[] | (() => Promise<readonly P[] | null>)) {
+    this.source =
+      typeof source === "function" ? source : async () => source as P[];
+  }
+
+  private with(patch: Partial<QueryState>): ProductQuery<P> {
+    const next = new ProductQuery(this.source);
+    next.state = { ...this.state, ...patch };
+    return next;
+  }
+
+  /**
+   * Add filters. Repeated calls are merged; later values win per field.
+   */
+  where(filters: ProductQueryWhere): ProductQuery<P> {
+    return this.with({
+      where: {
+        ...this.state.where,
+        ...filters,
+        option: filters.option
+          ? { ...this.state.where.option, ...filters.option }
+          : this.state.where.option,
+      },
+    });
+  }
+
+  /**
+   * Order matches. Defaults to ascending for `price`/`title` and descending
+   * for `discount`, `createdAt` and `updatedAt`. Ties keep catalog order.
+   */
+  sortBy(key: ProductQuerySortKey, direction?: SortDirection): ProductQuery<P> {
+    return this.with({
+      sort: { key, direction: direction ?? DEFAULT_DIRECTION[key] },
+    });
+  }
+
+  /**
+   * Return one page of matches (1-based, default 24 per page).
+   */
+  page(page: number, pageSize = 24): ProductQuery<P> {
+    if (!Number.isInteger(page) || page < 1) {
+      throw new Error("Invalid page: must be a positive integer");
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error("Invalid pageSize: must be a positive integer");
+    }
+    return this.with({ page: { page, pageSize } });
+  }
+
+  private async matched(): Promise<P[]> {
+    const products = (await this.source()) ?? [];
+    const { where, sort } = this.state;
+    const result = products.filter((product) => matches(product, where));
+    if (sort) {
+      const sign = sort.direction === "asc" ? 1 : -1;
+      // Array#sort is stable, so equal values keep catalog order
+      result.sort((a, b) => {
+        const av = sortValue(a, sort.key);
+        const bv = sortValue(b, sort.key);
+        return av < bv ? -sign : av > bv ? sign : 0;
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Run the query: the requested page of matches, the total match count and
+   * facet counts over all matches.
+   */
+  async run(): Promise<ProductQueryResult<P>> {
+    const matched = await this.matched();
+    const total = matched.length;
+    const pageSize = this.state.page?.pageSize ?? Math.max(total, 1);
+    const page = this.state.page?.page ?? 1;
+    const start = (page - 1) * pageSize;
+    return {
+      products: matched.slice(start, start + pageSize),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+      facets: computeFacets(matched),
+    };
+  }
+
+  /**
+   * Number of matches, ignoring pagination.
+   */
+  async count(): Promise<number> {
+    return (await this.matched()).length;
+  }
+}
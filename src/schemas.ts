@@ -311,12 +311,27 @@ export const shopifyProductVariantSchema = z.object({
   grams: z.optional(z.number()),
   weightInGrams: z.optional(z.number()),
   compare_at_price: z.optional(z.union([z.string(), z.number()])),
+  barcode: z.optional(z.nullable(z.string())),
 });
 export type ShopifyProductVariant = z.infer<typeof shopifyProductVariantSchema>;
 type _ShopifyProductVariantMatches = Assert<
   IsEqual<ShopifyProductVariant, Types.ShopifyProductVariant>
 >;
 
+export const shopifyUnitPriceMeasurementSchema = z.object({
+  measured_type: z.optional(z.nullable(z.string())),
+  quantity_value: z.optional(z.nullable(z.union([z.string(), z.number()]))),
+  quantity_unit: z.optional(z.nullable(z.string())),
+  reference_value: z.optional(z.nullable(z.union([z.string(), z.number()]))),
+  reference_unit: z.optional(z.nullable(z.string())),
+});
+export type ShopifyUnitPriceMeasurement = z.infer<
+  typeof shopifyUnitPriceMeasurementSchema
+>;
+type _ShopifyUnitPriceMeasurementMatches = Assert<
+  IsEqual<ShopifyUnitPriceMeasurement, Types.ShopifyUnitPriceMeasurement>
+>;
+
 export const shopifySingleProductVariantSchema = z.object({
   id: z.number(),
   title: z.string(),
@@ -344,6 +359,9 @@ export const shopifySingleProductVariantSchema = z.object({
   grams: z.optional(z.number()),
   weight: z.optional(z.number()),
   weight_unit: z.optional(z.string()),
+  weight_in_unit: z.optional(z.number()),
+  unit_price: z.optional(z.union([z.string(), z.number()])),
+  unit_price_measurement: z.optional(shopifyUnitPriceMeasurementSchema),
   requires_selling_plan: z.optional(z.boolean()),
   selling_plan_allocations: z.optional(z.array(z.unknown())),
 });
@@ -540,6 +558,29 @@ type _ProductVariantImageMatches = Assert<
   IsEqual<ProductVariantImage, Types.ProductVariantImage>
 >;
 
+export const productWeightSchema = z.object({
+  value: z.number(),
+  unit: z.enum(["g", "kg", "lb", "oz"]),
+});
+export type ProductWeight = z.infer<typeof productWeightSchema>;
+type _ProductWeightMatches = Assert<
+  IsEqual<ProductWeight, Types.ProductWeight>
+>;
+
+export const unitPriceMeasureSchema = z.object({
+  value: z.number(),
+  unit: z.string(),
+});
+
+export const unitPriceSchema = z.object({
+  amount: z.number(),
+  measuredType: z.nullable(z.string()),
+  quantity: unitPriceMeasureSchema,
+  reference: unitPriceMeasureSchema,
+});
+export type UnitPrice = z.infer<typeof unitPriceSchema>;
+type _UnitPriceMatches = Assert<IsEqual<UnitPrice, Types.UnitPrice>>;
+
 export const productVariantSchema = z.object({
   id: z.string(),
   platformId: z.string(),
@@ -561,6 +602,9 @@ export const productVariantSchema = z.object({
   productId: z.number(),
   createdAt: z.optional(z.string()),
   updatedAt: z.optional(z.string()),
+  barcode: z.optional(z.nullable(z.string())),
+  weight: z.optional(z.nullable(productWeightSchema)),
+  unitPrice: z.optional(z.nullable(unitPriceSchema)),
 });
 export type ProductVariant = z.infer<typeof productVariantSchema>;
 type _ProductVariantMatches = Assert<
@@ -908,6 +952,194 @@ export const collectionSchema = z.object({
 export type Collection = z.infer<typeof collectionSchema>;
 type _CollectionMatches = Assert<IsEqual<Collection, Types.Collection>>;
 
+export const shopifyCartDiscountSchema = z.object({
+  title: z.string(),
+  amount: z.number(),
+});
+export type ShopifyCartDiscount = z.infer<typeof shopifyCartDiscountSchema>;
+type _ShopifyCartDiscountMatches = Assert<
+  IsEqual<ShopifyCartDiscount, Types.ShopifyCartDiscount>
+>;
+
+const cartOptionValueSchema = z.object({
+  name: z.string(),
+  value: z.string(),
+});
+
+export const shopifyCartLineItemSchema = z.object({
+  id: z.number(),
+  key: z.string(),
+  variant_id: z.number(),
+  product_id: z.number(),
+  handle: z.string(),
+  title: z.string(),
+  product_title: z.string(),
+  variant_title: z.nullable(z.string()),
+  options_with_values: z.optional(z.array(cartOptionValueSchema)),
+  sku: z.nullable(z.string()),
+  vendor: z.string(),
+  quantity: z.number(),
+  price: z.number(),
+  original_price: z.number(),
+  final_price: z.number(),
+  line_price: z.number(),
+  original_line_price: z.number(),
+  final_line_price: z.number(),
+  total_discount: z.number(),
+  discounts: z.optional(z.array(shopifyCartDiscountSchema)),
+  image: z.nullable(z.string()),
+  url: z.string(),
+  requires_shipping: z.boolean(),
+  taxable: z.boolean(),
+  gift_card: z.boolean(),
+  grams: z.number(),
+  properties: z.optional(z.nullable(z.record(z.string(), z.unknown()))),
+  selling_plan_allocation: z.optional(
+    z.object({
+      selling_plan: z.object({ id: z.number(), name: z.string() }),
+    })
+  ),
+});
+export type ShopifyCartLineItem = z.infer<typeof shopifyCartLineItemSchema>;
+type _ShopifyCartLineItemMatches = Assert<
+  IsEqual<ShopifyCartLineItem, Types.ShopifyCartLineItem>
+>;
+
+export const shopifyCartDiscountApplicationSchema = z.object({
+  title: z.string(),
+  type: z.optional(z.string()),
+  total_allocated_amount: z.number(),
+});
+export type ShopifyCartDiscountApplication = z.infer<
+  typeof shopifyCartDiscountApplicationSchema
+>;
+type _ShopifyCartDiscountApplicationMatches = Assert<
+  IsEqual<ShopifyCartDiscountApplication, Types.ShopifyCartDiscountApplication>
+>;
+
+const cartDiscountCodeSchema = z.object({
+  code: z.string(),
+  applicable: z.boolean(),
+});
+
+export const shopifyCartSchema = z.object({
+  token: z.string(),
+  note: z.nullable(z.string()),
+  attributes: z.record(z.string(), z.unknown()),
+  original_total_price: z.number(),
+  total_price: z.number(),
+  total_discount: z.number(),
+  total_weight: z.number(),
+  item_count: z.number(),
+  items: z.array(shopifyCartLineItemSchema),
+  requires_shipping: z.boolean(),
+  currency: z.string(),
+  items_subtotal_price: z.number(),
+  cart_level_discount_applications: z.optional(
+    z.array(shopifyCartDiscountApplicationSchema)
+  ),
+  discount_codes: z.optional(z.array(cartDiscountCodeSchema)),
+});
+export type ShopifyCart = z.infer<typeof shopifyCartSchema>;
+type _ShopifyCartMatches = Assert<IsEqual<ShopifyCart, Types.ShopifyCart>>;
+
+export const cartDiscountSchema = z.object({
+  title: z.string(),
+  amount: z.number(),
+  amountFormatted: z.string(),
+});
+export type CartDiscount = z.infer<typeof cartDiscountSchema>;
+type _CartDiscountMatches = Assert<IsEqual<CartDiscount, Types.CartDiscount>>;
+
+export const cartLineItemSchema = z.object({
+  key: z.string(),
+  line: z.number(),
+  variantId: z.string(),
+  productId: z.string(),
+  handle: z.string(),
+  title: z.string(),
+  productTitle: z.string(),
+  variantTitle: z.nullable(z.string()),
+  options: z.array(cartOptionValueSchema),
+  sku: z.nullable(z.string()),
+  vendor: z.string(),
+  quantity: z.number(),
+  price: z.number(),
+  originalPrice: z.number(),
+  finalPrice: z.number(),
+  linePrice: z.number(),
+  originalLinePrice: z.number(),
+  finalLinePrice: z.number(),
+  totalDiscount: z.number(),
+  priceFormatted: z.string(),
+  finalPriceFormatted: z.string(),
+  finalLinePriceFormatted: z.string(),
+  discounts: z.array(cartDiscountSchema),
+  image: z.nullable(z.string()),
+  url: z.string(),
+  requiresShipping: z.boolean(),
+  taxable: z.boolean(),
+  giftCard: z.boolean(),
+  grams: z.number(),
+  properties: z.record(z.string(), z.unknown()),
+  sellingPlan: z.nullable(z.object({ id: z.string(), name: z.string() })),
+});
+export type CartLineItem = z.infer<typeof cartLineItemSchema>;
+type _CartLineItemMatches = Assert<IsEqual<CartLineItem, Types.CartLineItem>>;
+
+export const cartSchema = z.object({
+  token: z.string(),
+  note: z.nullable(z.string()),
+  attributes: z.record(z.string(), z.unknown()),
+  currency: z.string(),
+  itemCount: z.number(),
+  items: z.array(cartLineItemSchema),
+  requiresShipping: z.boolean(),
+  originalTotalPrice: z.number(),
+  itemsSubtotalPrice: z.number(),
+  totalDiscount: z.number(),
+  totalPrice: z.number(),
+  totalWeight: z.number(),
+  originalTotalPriceFormatted: z.string(),
+  itemsSubtotalPriceFormatted: z.string(),
+  totalDiscountFormatted: z.string(),
+  totalPriceFormatted: z.string(),
+  discounts: z.array(cartDiscountSchema),
+  discountCodes: z.array(cartDiscountCodeSchema),
+});
+export type Cart = z.infer<typeof cartSchema>;
+type _CartMatches = Assert<IsEqual<Cart, Types.Cart>>;
+
+export const shopifyShippingRateSchema = z.object({
+  name: z.string(),
+  presentment_name: z.optional(z.string()),
+  code: z.optional(z.nullable(z.string())),
+  source: z.optional(z.nullable(z.string())),
+  price: z.string(),
+  currency: z.optional(z.string()),
+  delivery_range: z.optional(z.nullable(z.array(z.string()))),
+  delivery_days: z.optional(z.nullable(z.array(z.number()))),
+  carrier_identifier: z.optional(z.nullable(z.string())),
+  phone_required: z.optional(z.boolean()),
+});
+export type ShopifyShippingRate = z.infer<typeof shopifyShippingRateSchema>;
+type _ShopifyShippingRateMatches = Assert<
+  IsEqual<ShopifyShippingRate, Types.ShopifyShippingRate>
+>;
+
+export const shippingRateSchema = z.object({
+  name: z.string(),
+  code: z.nullable(z.string()),
+  source: z.nullable(z.string()),
+  price: z.number(),
+  priceFormatted: z.string(),
+  currency: z.string(),
+  deliveryRange: z.nullable(z.object({ min: z.string(), max: z.string() })),
+  deliveryDays: z.nullable(z.object({ min: z.number(), max: z.number() })),
+});
+export type ShippingRate = z.infer<typeof shippingRateSchema>;
+type _ShippingRateMatches = Assert<IsEqual<ShippingRate, Types.ShippingRate>>;
+
 export const productClassificationSchema = z.object({
   audience: z.enum([
     "adult_male",
@@ -3,6 +3,7 @@ import {
   getSeoForUrl,
   toJsonLdEntries,
 } from "./client/get-info";
+import { httpErrorFromResponse } from "./errors";
 import type {
   CountryDetectionResult,
   CurrencyCode,
@@ -10,6 +11,7 @@ import type {
   JsonLdEntry,
 } from "./types";
 import { rateLimitedFetch } from "./utils/rate-limit";
+import type { Fetcher } from "./utils/transport";
 
 /**
  * Store operations interface for managing store-related functionality.
@@ -23,6 +25,13 @@ export interface ShopOperations {
   getHeaderLinks(): Promise<string[]>;
 }
 
+/**
+ * Whether the storefront can be browsed: `open`, locked behind the Shopify
+ * password page (`password_protected`), or unavailable because the shop is
+ * closed or frozen (`closed`).
+ */
+export type StoreStatus = "open" | "password_protected" | "closed";
+
 /**
  * Comprehensive store information structure returned by the info method.
  * Contains all metadata, branding, social links, and showcase content for a Shopify store.
@@ -54,6 +63,8 @@ export interface ShopInfo {
   };
   country: CountryDetectionResult["country"];
   currency: CurrencyCode | null;
+  /** Storefront availability; locked and closed stores expose little else. */
+  status: StoreStatus;
 }
 
 export type StoreInfoColumnsConfig<K extends keyof ShopInfo = keyof ShopInfo> =
@@ -91,7 +102,9 @@ export function createShopOperations(context: {
     batchSize?: number
   ) => Promise<T[]>;
   handleFetchError: (error: unknown, context: string, url: string) => never;
+  fetcher?: Fetcher;
 }): ShopOperations {
+  const fetcher = context.fetcher ?? rateLimitedFetch;
   return {
     /**
      * Fetches comprehensive store information including metadata, social links, and showcase content.
@@ -111,6 +124,7 @@ export function createShopOperations(context: {
      * - `techProvider` - Shopify-specific information (walletId, subDomain)
      * - `country` - Country detection results with ISO 3166-1 alpha-2 codes (e.g., "US", "GB")
      * - `currency` - ISO 4217 currency code inferred from store (e.g., "USD")
+     * - `status` - `"open"`, `"password_protected"` or `"closed"`
      *
      * @throws {Error} When the store URL is unreachable or returns an error
      *
@@ -134,6 +148,7 @@ export function createShopOperations(context: {
           validateProductExists: context.validateProductExists,
           validateCollectionExists: context.validateCollectionExists,
           validateLinksInBatches: context.validateLinksInBatches,
+          fetcher,
         });
         return info;
         /* const response = await rateLimitedFetch(context.baseUrl);
@@ -368,6 +383,7 @@ export function createShopOperations(context: {
         return await getSeoForUrl({
           url: context.baseUrl,
           rateLimitClass: "store:seo",
+          fetcher,
         });
       } catch (error) {
         context.handleFetchError(error, "fetching store SEO", context.baseUrl);
@@ -375,12 +391,12 @@ export function createShopOperations(context: {
     },
     getMetaData: async (): Promise<OpenGraphMeta> => {
       try {
-        const response = await rateLimitedFetch(context.baseUrl, {
+        const response = await fetcher(context.baseUrl, {
           rateLimitClass: "store:metadata",
           timeoutMs: 7000,
         });
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          throw httpErrorFromResponse(response, context.baseUrl);
         }
         const html = await response.text();
         const getPropertyMetaTag = (property: string) => {
@@ -416,12 +432,12 @@ export function createShopOperations(context: {
     },
     getJsonLd: async (): Promise<JsonLdEntry[] | undefined> => {
       try {
-        const response = await rateLimitedFetch(context.baseUrl, {
+        const response = await fetcher(context.baseUrl, {
           rateLimitClass: "store:jsonld",
           timeoutMs: 7000,
         });
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          throw httpErrorFromResponse(response, context.baseUrl);
         }
         const html = await response.text();
         const scripts =
@@ -452,12 +468,12 @@ export function createShopOperations(context: {
     },
     getHeaderLinks: async (): Promise<string[]> => {
       try {
-        const response = await rateLimitedFetch(context.baseUrl, {
+        const response = await fetcher(context.baseUrl, {
           rateLimitClass: "store:header",
           timeoutMs: 7000,
         });
         if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+          throw httpErrorFromResponse(response, context.baseUrl);
         }
         const html = await response.text();
         const sections =
@@ -187,6 +187,19 @@ export type ShopifyProductVariant = ShopifyBaseVariant & {
   grams?: number | undefined;
   weightInGrams?: number | undefined;
   compare_at_price?: string | number | undefined;
+  barcode?: string | null | undefined;
+};
+
+/**
+ * Unit price measurement of a variant sold by weight, volume, length or
+ * area, as returned by the product `.js` endpoint.
+ */
+export type ShopifyUnitPriceMeasurement = {
+  measured_type?: string | null | undefined;
+  quantity_value?: string | number | null | undefined;
+  quantity_unit?: string | null | undefined;
+  reference_value?: string | number | null | undefined;
+  reference_unit?: string | null | undefined;
 };
 
 /**
@@ -206,6 +219,9 @@ export type ShopifySingleProductVariant = ShopifyBaseVariant & {
   grams?: number | undefined;
   weight?: number | undefined;
   weight_unit?: string | undefined;
+  weight_in_unit?: number | undefined;
+  unit_price?: string | number | undefined;
+  unit_price_measurement?: ShopifyUnitPriceMeasurement | undefined;
   requires_selling_plan?: boolean | undefined;
   selling_plan_allocations?: unknown[] | undefined;
 };
@@ -337,6 +353,35 @@ export type ProductVariantImage = ShopifyImageDimensions & {
   alt: string | null;
 };
 
+export type WeightUnit = "g" | "kg" | "lb" | "oz";
+
+/**
+ * Shipping weight in the unit the merchant entered.
+ */
+export type ProductWeight = {
+  value: number;
+  unit: WeightUnit;
+};
+
+export type UnitPriceMeasure = {
+  value: number;
+  /** Unit as reported by Shopify, e.g. `"g"`, `"ml"`, `"m"`. */
+  unit: string;
+};
+
+/**
+ * Price per reference measure, e.g. 299 cents per 100 g for a 500 g bag.
+ */
+export type UnitPrice = {
+  /** Price per `reference`, in cents. */
+  amount: number;
+  /** `"weight"`, `"volume"`, `"length"` or `"area"`, when reported. */
+  measuredType: string | null;
+  /** Quantity contained in the variant. */
+  quantity: UnitPriceMeasure;
+  reference: UnitPriceMeasure;
+};
+
 /**
  * Normalized product variant structure used by the library.
  */
@@ -361,6 +406,12 @@ export type ProductVariant = {
   productId: number;
   createdAt?: string | undefined;
   updatedAt?: string | undefined;
+  /** GTIN-8/12/13/14 digits; `null` when missing or the check digit fails. */
+  barcode?: string | null | undefined;
+  /** `null` when the store reports no weight. */
+  weight?: ProductWeight | null | undefined;
+  /** `null` unless the variant is sold by measure. */
+  unitPrice?: UnitPrice | null | undefined;
 };
 
 /**
@@ -480,6 +531,70 @@ export type ProductFingerprint = {
   updated_at: string;
 };
 
+/**
+ * A product whose handle changed between two catalog snapshots.
+ */
+export type HandleRename = {
+  id: number;
+  from: string;
+  to: string;
+};
+
+/**
+ * Result of comparing two fingerprint lists. Products are matched by `id`,
+ * so a changed handle shows up in both `updated` and `renamed`.
+ */
+export type FingerprintDiff = {
+  added: ProductFingerprint[];
+  updated: ProductFingerprint[];
+  removed: ProductFingerprint[];
+  renamed: HandleRename[];
+  unchanged: number;
+};
+
+/**
+ * JSON-serializable record of a catalog crawl, stored between `sync()` runs.
+ */
+export type CatalogSnapshot = {
+  version: 1;
+  createdAt: string; // ISO timestamp of the crawl
+  products: ProductFingerprint[];
+};
+
+/**
+ * Outcome of `products.sync()`: full products for everything that changed,
+ * plus the snapshot to pass to the next run.
+ */
+export type CatalogSyncResult<
+  C extends ProductColumnsMode = "minimal",
+  I extends ProductImagesMode = "minimal",
+  O extends ProductOptionsMode = "minimal",
+> = {
+  added: ProductResult<C, I, O>[];
+  updated: ProductResult<C, I, O>[];
+  removed: ProductFingerprint[];
+  renamed: HandleRename[];
+  failed: ProductFingerprint[]; // changed, but could not be fetched; retried next run
+  snapshot: CatalogSnapshot;
+};
+
+/**
+ * Progress reported after each page of a streaming crawl is fetched.
+ */
+export type PageProgress = {
+  page: number; // 1-based page number just fetched
+  count: number; // items this page contributes to the stream
+  total: number; // items yielded so far, including this page
+};
+
+/**
+ * Options shared by the streaming (`AsyncIterable`) crawl methods.
+ */
+export type StreamOptions = {
+  signal?: AbortSignal; // aborts the in-flight page request and the stream
+  onPage?: (progress: PageProgress) => void;
+};
+
 export type ProductColumnsMode = "minimal" | "full";
 export type ProductImagesMode = "minimal" | "full";
 export type ProductOptionsMode = "minimal" | "full";
@@ -697,6 +812,190 @@ export type Collection = {
   updatedAt: string;
 };
 
+/**
+ * Line item discount from the Ajax Cart API (`/cart.js`).
+ */
+export type ShopifyCartDiscount = {
+  title: string;
+  amount: number;
+};
+
+/**
+ * Line item from the Ajax Cart API. Prices are in cents.
+ */
+export type ShopifyCartLineItem = {
+  id: number;
+  key: string;
+  variant_id: number;
+  product_id: number;
+  handle: string;
+  title: string;
+  product_title: string;
+  variant_title: string | null;
+  options_with_values?: { name: string; value: string }[] | undefined;
+  sku: string | null;
+  vendor: string;
+  quantity: number;
+  price: number;
+  original_price: number;
+  final_price: number;
+  line_price: number;
+  original_line_price: number;
+  final_line_price: number;
+  total_discount: number;
+  discounts?: ShopifyCartDiscount[] | undefined;
+  image: string | null;
+  url: string;
+  requires_shipping: boolean;
+  taxable: boolean;
+  gift_card: boolean;
+  grams: number;
+  properties?: Record<string, unknown> | null | undefined;
+  selling_plan_allocation?:
+    | { selling_plan: { id: number; name: string } }
+    | undefined;
+};
+
+/**
+ * Cart-level discount (e.g. an order discount code) from the Ajax Cart API.
+ */
+export type ShopifyCartDiscountApplication = {
+  title: string;
+  type?: string | undefined;
+  total_allocated_amount: number;
+};
+
+/**
+ * Cart returned by the Ajax Cart API (`/cart.js`, `/cart/change.js`, ...).
+ */
+export type ShopifyCart = {
+  token: string;
+  note: string | null;
+  attributes: Record<string, unknown>;
+  original_total_price: number;
+  total_price: number;
+  total_discount: number;
+  total_weight: number;
+  item_count: number;
+  items: ShopifyCartLineItem[];
+  requires_shipping: boolean;
+  currency: string;
+  items_subtotal_price: number;
+  cart_level_discount_applications?:
+    | ShopifyCartDiscountApplication[]
+    | undefined;
+  discount_codes?: { code: string; applicable: boolean }[] | undefined;
+};
+
+/**
+ * A discount applied to a cart or line item. `amount` is in cents.
+ */
+export type CartDiscount = {
+  title: string;
+  amount: number;
+  amountFormatted: string;
+};
+
+/**
+ * Normalized cart line item. Prices are in cents; `line` is the 1-based
+ * position used by `cart.change({ line })`.
+ */
+export type CartLineItem = {
+  key: string;
+  line: number;
+  variantId: string;
+  productId: string;
+  handle: string;
+  title: string;
+  productTitle: string;
+  variantTitle: string | null;
+  options: { name: string; value: string }[];
+  sku: string | null;
+  vendor: string;
+  quantity: number;
+  price: number;
+  originalPrice: number;
+  finalPrice: number;
+  linePrice: number;
+  originalLinePrice: number;
+  finalLinePrice: number;
+  totalDiscount: number;
+  priceFormatted: string;
+  finalPriceFormatted: string;
+  finalLinePriceFormatted: string;
+  discounts: CartDiscount[];
+  image: string | null;
+  url: string;
+  requiresShipping: boolean;
+  taxable: boolean;
+  giftCard: boolean;
+  grams: number;
+  properties: Record<string, unknown>;
+  sellingPlan: { id: string; name: string } | null;
+};
+
+/**
+ * Normalized cart returned by the `cart` operations. Prices are in cents.
+ */
+export type Cart = {
+  token: string;
+  note: string | null;
+  attributes: Record<string, unknown>;
+  currency: string;
+  itemCount: number;
+  items: CartLineItem[];
+  requiresShipping: boolean;
+  originalTotalPrice: number;
+  itemsSubtotalPrice: number;
+  totalDiscount: number;
+  totalPrice: number;
+  /** Total weight in grams. */
+  totalWeight: number;
+  originalTotalPriceFormatted: string;
+  itemsSubtotalPriceFormatted: string;
+  totalDiscountFormatted: string;
+  totalPriceFormatted: string;
+  /** Cart-level discounts, such as order discount codes. */
+  discounts: CartDiscount[];
+  discountCodes: { code: string; applicable: boolean }[];
+};
+
+/**
+ * Shipping rate from `/cart/async_shipping_rates.json`. `price` is a
+ * decimal string such as `"5.00"`.
+ */
+export type ShopifyShippingRate = {
+  name: string;
+  presentment_name?: string | undefined;
+  code?: string | null | undefined;
+  source?: string | null | undefined;
+  price: string;
+  currency?: string | undefined;
+  delivery_range?: string[] | null | undefined;
+  delivery_days?: number[] | null | undefined;
+  carrier_identifier?: string | null | undefined;
+  phone_required?: boolean | undefined;
+};
+
+/**
+ * Normalized shipping option for a cart and destination.
+ */
+export type ShippingRate = {
+  name: string;
+  /** Rate code, e.g. `"Standard"`; `null` when the store sends none. */
+  code: string | null;
+  /** Origin of the rate, e.g. `"shopify"` or a carrier service. */
+  source: string | null;
+  /** Price in cents. */
+  price: number;
+  priceFormatted: string;
+  currency: string;
+  /** Earliest and latest delivery dates (`YYYY-MM-DD`), when the store estimates them. */
+  deliveryRange: { min: string; max: string } | null;
+  /** Earliest and latest delivery in days from now, when the store estimates them. */
+  deliveryDays: { min: number; max: number } | null;
+};
+
 /**
  * Product classification result returned by classifyProduct.
  */
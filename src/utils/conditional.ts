@@ -0,0 +1,153 @@
+import type { CacheAdapter } from "../cache";
+
+/**
+ * Counters for conditional (`If-None-Match` / `If-Modified-Since`) requests.
+ */
+export type ConditionalRequestStats = {
+  /** Requests sent with a stored validator. */
+  revalidated: number;
+  /** Requests answered with `304 Not Modified` and served from the store. */
+  notModified: number;
+  /** Body bytes that did not have to be downloaded again. */
+  bytesSaved: number;
+};
+
+type StoredResponse = {
+  etag?: string;
+  lastModified?: string;
+  body: string;
+  bytes: number;
+  contentType?: string;
+};
+
+/**
+ * Decide whether a request takes part in conditional revalidation: plain
+ * GETs of `products.json` pages (store-wide and per collection).
+ */
+export function isConditionalRequest(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): boolean {
+  const method = (init?.method ?? "GET").toUpperCase();
+  if (method !== "GET" || init?.body != null) return false;
+  try {
+    const url = new URL(
+      typeof input === "string" || input instanceof URL ? input : input.url
+    );
+    return url.pathname.endsWith("/products.json");
+  } catch {
+    return false;
+  }
+}
+
+function requestUrl(input: RequestInfo | URL): string {
+  return typeof input === "string"
+    ? input
+    : input instanceof URL
+      ? input.toString()
+      : input.url;
+}
+
+/**
+ * Stores `ETag` / `Last-Modified` validators and bodies per URL, sends them
+ * back on the next request and replays the stored body when the server
+ * answers `304 Not Modified`.
+ *
+ * Entries live in the client's {@link CacheAdapter} under
+ * `<namespace>:http:<url>` and are not subject to the cache TTL: the server
+ * decides freshness.
+ */
+export class ConditionalRequestCache {
+  private adapter: CacheAdapter;
+  private prefix: string;
+  private stats: ConditionalRequestStats = {
+    revalidated: 0,
+    notModified: 0,
+    bytesSaved: 0,
+  };
+
+  constructor(adapter: CacheAdapter, namespace: string) {
+    this.adapter = adapter;
+    this.prefix = `${namespace}:http:`;
+  }
+
+  getStats(): ConditionalRequestStats {
+    return { ...this.stats };
+  }
+
+  resetStats(): void {
+    this.stats = { revalidated: 0, notModified: 0, bytesSaved: 0 };
+  }
+
+  private async load(key: string): Promise<StoredResponse | undefined> {
+    try {
+      const entry = await this.adapter.get(key);
+      return entry?.value as StoredResponse | undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Issue `send` with validators for `input` attached and translate a 304
+   * into a 200 carrying the stored body.
+   */
+  async fetch(
+    input: RequestInfo | URL,
+    headers: HeadersInit | undefined,
+    send: (headers: HeadersInit | undefined) => Promise<Response>
+  ): Promise<Response> {
+    const key = `${this.prefix}${requestUrl(input)}`;
+    const stored = await this.load(key);
+
+    let outgoing = headers;
+    if (stored) {
+      const conditional = new Headers(headers);
+      if (stored.etag && !conditional.has("if-none-match")) {
+        conditional.set("if-none-match", stored.etag);
+      }
+      if (stored.lastModified && !conditional.has("if-modified-since")) {
+        conditional.set("if-modified-since", stored.lastModified);
+      }
+      outgoing = conditional;
+      this.stats.revalidated += 1;
+    }
+
+    const response = await send(outgoing);
+
+    if (response.status === 304 && stored) {
+      this.stats.notModified += 1;
+      this.stats.bytesSaved += stored.bytes;
+      return new Response(stored.body, {
+        status: 200,
+        statusText: "OK",
+        headers: stored.contentType
+          ? { "content-type": stored.contentType }
+          : undefined,
+      });
+    }
+
+    const etag = response.headers?.get?.("etag") ?? undefined;
+    const lastModified = response.headers?.get?.("last-modified") ?? undefined;
+    if (
+      response.ok &&
+      (etag || lastModified) &&
+      typeof response.clone === "function"
+    ) {
+      const body = await response.clone().text();
+      const value: StoredResponse = {
+        etag,
+        lastModified,
+        body,
+        bytes: new TextEncoder().encode(body).byteLength,
+        contentType: response.headers.get("content-type") ?? undefined,
+      };
+      try {
+        await this.adapter.set(key, { value, fetchedAt: Date.now() });
+      } catch {
+        // Revalidation is best-effort
+      }
+    }
+    return response;
+  }
+}
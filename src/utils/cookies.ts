@@ -0,0 +1,95 @@
+/**
+ * `Set-Cookie` values of a response, one per cookie.
+ */
+export function setCookieHeaders(response: Response): string[] {
+  const headers = response.headers as Headers & {
+    getSetCookie?: () => string[];
+  };
+  if (!headers) return [];
+  if (typeof headers.getSetCookie === "function") {
+    return headers.getSetCookie();
+  }
+  const combined = headers.get?.("set-cookie");
+  // Split a folded header on commas that start a new `name=` pair
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/) : [];
+}
+
+/**
+ * Minimal cookie store for talking to one storefront from Node.js/Bun, where
+ * `fetch` keeps no cookies between requests. Attributes other than expiry
+ * are ignored: every cookie is sent back to the same store.
+ */
+export class CookieJar {
+  private cookies = new Map<string, string>();
+
+  get size(): number {
+    return this.cookies.size;
+  }
+
+  has(name: string): boolean {
+    return this.cookies.has(name);
+  }
+
+  get(name: string): string | undefined {
+    return this.cookies.get(name);
+  }
+
+  delete(name: string): void {
+    this.cookies.delete(name);
+  }
+
+  clear(): void {
+    this.cookies.clear();
+  }
+
+  /**
+   * Store cookies set by `response`; expired or emptied cookies are dropped.
+   * With `accept`, cookies it rejects are ignored.
+   */
+  remember(response: Response, accept?: (name: string) => boolean): void {
+    for (const header of setCookieHeaders(response)) {
+      const [pair = "", ...attributes] = header.split(";");
+      const eq = pair.indexOf("=");
+      if (eq <= 0) continue;
+      const name = pair.slice(0, eq).trim();
+      if (accept && !accept(name)) continue;
+      const value = pair.slice(eq + 1).trim();
+      const expired = attributes.some((attr) =>
+        /^\s*max-age\s*=\s*0\s*$/i.test(attr)
+      );
+      if (expired || !value) this.cookies.delete(name);
+      else this.cookies.set(name, value);
+    }
+  }
+
+  /** Current `cookie` header value, if any cookies are held. */
+  header(): string | undefined {
+    if (this.cookies.size === 0) return undefined;
+    return Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join(
+      "; "
+    );
+  }
+
+  /**
+   * Copy of `headers` with the held cookies appended to any `cookie` header.
+   * Cookies the header already names keep the header's value.
+   */
+  apply(headers: HeadersInit | undefined): Headers {
+    const merged = new Headers(headers);
+    const existing = merged.get("cookie");
+    const named = new Set(
+      (existing ?? "")
+        .split(";")
+        .map((pair) => pair.slice(0, pair.indexOf("=")).trim())
+        .filter(Boolean)
+    );
+    const cookie = Array.from(this.cookies)
+      .filter(([name]) => !named.has(name))
+      .map(([name, value]) => `${name}=${value}`)
+      .join("; ");
+    if (cookie) {
+      merged.set("cookie", existing ? `${existing}; ${cookie}` : cookie);
+    }
+    return merged;
+  }
+}
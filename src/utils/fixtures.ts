@@ -0,0 +1,330 @@
+import type { Transport } from "./transport";
+
+/**
+ * `record` sends every request to the network and writes the exchange to the
+ * fixtures directory; `replay` answers from the directory and never touches
+ * the network.
+ */
+export type FixtureMode = "record" | "replay";
+
+/**
+ * How replayed requests are matched to recordings:
+ * - `strict`: method, full URL and request body must all be identical.
+ * - `lenient`: falls back to method, origin, path and query parameters in
+ *   any order, ignoring the body, when there is no strict match.
+ */
+export type FixtureMatching = "strict" | "lenient";
+
+export type FixtureTransportOptions = {
+  /** Directory holding one JSON file per recorded exchange. */
+  directory: string;
+  mode: FixtureMode;
+  /** Replay matching (default `strict`). */
+  matching?: FixtureMatching;
+  /** Transport used while recording (defaults to global `fetch`). */
+  transport?: Transport;
+};
+
+/**
+ * A recorded request/response pair as stored on disk.
+ */
+export type FixtureRecord = {
+  request: { method: string; url: string; body: string };
+  response: {
+    status: number;
+    statusText: string;
+    url: string;
+    headers: [string, string][];
+    body: string;
+  };
+};
+
+type FsModule = typeof import("node:fs/promises");
+
+async function requestParts(
+  input: RequestInfo | URL,
+  init?: RequestInit
+): Promise<{ method: string; url: string; body: string }> {
+  const isRequest = typeof input === "object" && !(input instanceof URL);
+  const url = isRequest ? input.url : String(input);
+  const method = (
+    init?.method ??
+    (isRequest ? input.method : undefined) ??
+    "GET"
+  ).toUpperCase();
+  let body = "";
+  const raw = init?.body;
+  if (typeof raw === "string") {
+    body = raw;
+  } else if (raw instanceof URLSearchParams) {
+    body = raw.toString();
+  } else if (raw != null) {
+    body = await new Response(raw).text();
+  } else if (isRequest && input.body) {
+    body = await input.clone().text();
+  }
+  return { method, url, body };
+}
+
+const REDACTED = "[REDACTED]";
+
+// Form fields, JSON keys, query parameters and headers whose values are
+// credentials or session tokens
+const SECRET_NAME =
+  /password|passwd|secret|token|api[-_]?key|authorization|^cookie$/i;
+
+function redactParams(params: URLSearchParams): boolean {
+  let changed = false;
+  for (const key of new Set(params.keys())) {
+    if (!SECRET_NAME.test(key)) continue;
+    const count = params.getAll(key).length;
+    params.delete(key);
+    for (let i = 0; i < count; i++) params.append(key, REDACTED);
+    changed = true;
+  }
+  return changed;
+}
+
+function redactJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactJson);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        SECRET_NAME.test(key) && entry != null ? REDACTED : redactJson(entry),
+      ])
+    );
+  }
+  return value;
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return redactParams(parsed.searchParams) ? parsed.href : url;
+  } catch {
+    return url;
+  }
+}
+
+function redactBody(body: string): string {
+  if (!body) return body;
+  try {
+    const parsed: unknown = JSON.parse(body);
+    if (parsed && typeof parsed === "object") {
+      const redacted = JSON.stringify(redactJson(parsed));
+      return redacted === JSON.stringify(parsed) ? body : redacted;
+    }
+  } catch {
+    // Not JSON
+  }
+  // Form bodies: `a=1&b=2` with no whitespace
+  if (/^[^\s=&]+=[^\s]*$/.test(body)) {
+    const params = new URLSearchParams(body);
+    if (redactParams(params)) return params.toString();
+  }
+  return body;
+}
+
+/**
+ * Strip credentials from a request before it is stored or matched: secret
+ * query parameters and form/JSON fields (`password`, `access_token`, ...).
+ */
+function redactRequest(
+  request: FixtureRecord["request"]
+): FixtureRecord["request"] {
+  return {
+    method: request.method,
+    url: redactUrl(request.url),
+    body: redactBody(request.body),
+  };
+}
+
+/**
+ * Response headers as stored: cookie values and credential headers are
+ * replaced, cookie names and attributes are kept.
+ */
+function redactHeaders(headers: [string, string][]): [string, string][] {
+  return headers.map(([name, value]) => {
+    if (name === "set-cookie") {
+      return [name, value.replace(/^([^=;]*)=[^;]*/, `$1=${REDACTED}`)];
+    }
+    return [name, SECRET_NAME.test(name) ? REDACTED : value];
+  });
+}
+
+function lenientKey(method: string, url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = [...parsed.searchParams.entries()]
+      .map(([k, v]) => `${k}=${v}`)
+      .sort()
+      .join("&");
+    return `${method} ${parsed.origin}${parsed.pathname}?${params}`;
+  } catch {
+    return `${method} ${url}`;
+  }
+}
+
+async function digest(text: string): Promise<string> {
+  const bytes = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(bytes).slice(0, 8), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+async function fileNameFor(request: FixtureRecord["request"]) {
+  let readable = request.url;
+  try {
+    const parsed = new URL(request.url);
+    readable = `${parsed.hostname}${parsed.pathname}`;
+  } catch {
+    // Keep the raw URL
+  }
+  const slug = readable
+    .replace(/[^a-zA-Z0-9.-]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 80);
+  const hash = await digest(
+    `${request.method} ${request.url}\n${request.body}`
+  );
+  return `${request.method}_${slug}_${hash}.json`;
+}
+
+function toResponse(record: FixtureRecord["response"]): Response {
+  // 1xx/204/304 responses must not carry a body
+  const bodyless = [101, 204, 205, 304].includes(record.status);
+  const response = new Response(bodyless ? null : record.body, {
+    status: record.status,
+    statusText: record.statusText,
+    headers: record.headers,
+  });
+  // `url` is read-only on constructed responses; redirect detection needs it
+  Object.defineProperty(response, "url", { value: record.url });
+  return response;
+}
+
+/**
+ * Create a {@link Transport} that records HTTP exchanges to a fixtures
+ * directory or replays them offline. Pass it as the `transport` option of a
+ * `ShopClient` to capture a real store once and run tests against it without
+ * network access. Node.js/Bun only.
+ *
+ * Recordings are meant to be committed, so passwords, tokens and API keys in
+ * request URLs and bodies, cookie values and credential headers are replaced
+ * with `[REDACTED]` before anything is written. Response bodies are stored
+ * as received.
+ *
+ * @example
+ * ```typescript
+ * const shop = new ShopClient('exampleshop.com', {
+ *   transport: createFixtureTransport({
+ *     directory: 'src/__fixtures__/exampleshop',
+ *     mode: process.env.RECORD ? 'record' : 'replay',
+ *   }),
+ * });
+ * ```
+ */
+export function createFixtureTransport(
+  options: FixtureTransportOptions
+): Transport {
+  const { directory, mode } = options;
+  const matching = options.matching ?? "strict";
+  let fsReady: Promise<FsModule> | undefined;
+  const fs = () => {
+    fsReady ??= import("node:fs/promises");
+    return fsReady;
+  };
+
+  // Replay index, loaded from disk on first use
+  let index:
+    | Promise<{
+        strict: Map<string, FixtureRecord>;
+        lenient: Map<string, FixtureRecord>;
+      }>
+    | undefined;
+  const loadIndex = () => {
+    index ??= (async () => {
+      const { readdir, readFile } = await fs();
+      const strict = new Map<string, FixtureRecord>();
+      const lenient = new Map<string, FixtureRecord>();
+      const names = (await readdir(directory)).filter((n) =>
+        n.endsWith(".json")
+      );
+      for (const name of names.sort()) {
+        const record = JSON.parse(
+          await readFile(`${directory}/${name}`, "utf8")
+        ) as FixtureRecord;
+        const { method, url, body } = record.request;
+        strict.set(`${method} ${url}\n${body}`, record);
+        lenient.set(lenientKey(method, url), record);
+      }
+      return { strict, lenient };
+    })();
+    return index;
+  };
+
+  if (mode === "record") {
+    const transport: Transport =
+      options.transport ?? ((input, init) => fetch(input, init));
+    let ready: Promise<void> | undefined;
+    return async (input, init) => {
+      const request = redactRequest(await requestParts(input, init));
+      // A 304 answer to a revalidation would replace the recorded body
+      const headers = new Headers(
+        init?.headers ?? (input instanceof Request ? input.headers : undefined)
+      );
+      headers.delete("if-none-match");
+      headers.delete("if-modified-since");
+      const response = await transport(input, { ...init, headers });
+      const record: FixtureRecord = {
+        request,
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          url: response.url || request.url,
+          // The stored body is already decoded
+          headers: redactHeaders(
+            [...response.headers.entries()].filter(
+              ([name]) =>
+                name !== "content-encoding" && name !== "content-length"
+            )
+          ),
+          body: await response.clone().text(),
+        },
+      };
+      const { mkdir, writeFile } = await fs();
+      ready ??= mkdir(directory, { recursive: true }).then(() => undefined);
+      await ready;
+      await writeFile(
+        `${directory}/${await fileNameFor(request)}`,
+        `${JSON.stringify(record, null, 2)}\n`,
+        "utf8"
+      );
+      return response;
+    };
+  }
+
+  return async (input, init) => {
+    init?.signal?.throwIfAborted();
+    // Recordings hold redacted requests, so match on the redacted form
+    const { method, url, body } = redactRequest(
+      await requestParts(input, init)
+    );
+    const { strict, lenient } = await loadIndex();
+    const record =
+      strict.get(`${method} ${url}\n${body}`) ??
+      (matching === "lenient"
+        ? lenient.get(lenientKey(method, url))
+        : undefined);
+    if (!record) {
+      throw new Error(
+        `No recorded fixture for ${method} ${url} in ${directory} (${matching} matching)`
+      );
+    }
+    return toResponse(record.response);
+  };
+}
@@ -1,5 +1,9 @@
 import { parse } from "tldts";
-import type { CurrencyCode } from "../types";
+import type {
+  CurrencyCode,
+  FingerprintDiff,
+  ProductFingerprint,
+} from "../types";
 
 export function extractDomainWithoutSuffix(domain: string) {
   const parsedDomain = parse(domain);
@@ -154,10 +158,42 @@ export function normalizeKey(input: string): string {
   return ascii.replace(/[^a-z0-9]+/g, "_").replace(/_+/g, "_");
 }
 
+/**
+ * Whether `code` is a GTIN-8, UPC-A (GTIN-12), EAN-13 or GTIN-14 with a
+ * valid check digit. Spaces and dashes are ignored.
+ */
+export function isValidGtin(code: string): boolean {
+  const digits = code.replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(digits) || ![8, 12, 13, 14].includes(digits.length)) {
+    return false;
+  }
+  // Weights alternate 3, 1, 3, ... from the digit left of the check digit
+  let sum = 0;
+  for (let i = digits.length - 2, weight = 3; i >= 0; i--) {
+    sum += Number(digits[i]) * weight;
+    weight = weight === 3 ? 1 : 3;
+  }
+  return (10 - (sum % 10)) % 10 === Number(digits[digits.length - 1]);
+}
+
+/**
+ * Digits of `code` when it is a valid GTIN (see {@link isValidGtin}),
+ * otherwise `null`.
+ */
+export function normalizeGtin(code: string | null | undefined): string | null {
+  if (!code) return null;
+  const digits = code.trim().replace(/[\s-]/g, "");
+  return isValidGtin(digits) ? digits : null;
+}
+
 const VARIANT_NAME_VALUE_SEPARATOR = "__";
 const VARIANT_PARTS_SEPARATOR = "____";
 
-function normalizeVariantToken(input: string): string {
+/**
+ * `normalizeKey` without leading/trailing underscores: the form option names
+ * and values take inside variant keys.
+ */
+export function normalizeVariantToken(input: string): string {
   return normalizeKey(input).replace(/^_+|_+$/g, "");
 }
 
@@ -325,3 +361,67 @@ export function formatPrice(
     return `${val} ${currency}`;
   }
 }
+
+/**
+ * Compare two fingerprint lists from `products.fingerprints()` or a sync
+ * snapshot. Products are matched by `id`, so a renamed handle is reported as
+ * an update (under the new handle) and in `renamed`, not as remove + add.
+ */
+export function diffFingerprints(
+  previous: ProductFingerprint[],
+  current: ProductFingerprint[]
+): FingerprintDiff {
+  const previousById = new Map<number, ProductFingerprint>();
+  for (const fp of previous) previousById.set(fp.id, fp);
+
+  const diff: FingerprintDiff = {
+    added: [],
+    updated: [],
+    removed: [],
+    renamed: [],
+    unchanged: 0,
+  };
+  const seen = new Set<number>();
+
+  for (const fp of current) {
+    seen.add(fp.id);
+    const before = previousById.get(fp.id);
+    if (!before) {
+      diff.added.push(fp);
+    } else if (before.handle !== fp.handle) {
+      diff.renamed.push({ id: fp.id, from: before.handle, to: fp.handle });
+      diff.updated.push(fp);
+    } else if (before.updated_at !== fp.updated_at) {
+      diff.updated.push(fp);
+    } else {
+      diff.unchanged += 1;
+    }
+  }
+
+  for (const fp of previous) {
+    if (!seen.has(fp.id)) diff.removed.push(fp);
+  }
+
+  return diff;
+}
+
+/**
+ * Plain text from an HTML fragment: drops scripts and styles, turns block
+ * ends into newlines and decodes the common entities.
+ */
+export function stripHtml(html: string | null | undefined): string {
+  if (!html) return "";
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, " ")
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\s*\n\s*/g, "\n")
+    .trim();
+}
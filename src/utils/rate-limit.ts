@@ -1,21 +1,104 @@
+import type { Transport } from "./transport";
+
 export interface RateLimitOptions {
   maxRequestsPerInterval: number; // tokens refilled every interval
   intervalMs: number; // refill period
   maxConcurrency: number; // simultaneous in-flight requests
 }
 
+/**
+ * Full limiter configuration: the default bucket plus optional buckets keyed
+ * by host (supports `*.example.com`) or by logical request class.
+ */
+export type RateLimitConfig = Partial<
+  RateLimitOptions & { enabled: boolean }
+> & {
+  perHost?: Record<string, Partial<RateLimitOptions>>; // key: host (supports '*.example.com')
+  perClass?: Record<string, Partial<RateLimitOptions>>; // key: arbitrary class name
+  adaptive?: boolean | AdaptiveRateLimitOptions; // learn per-host rates from 429s
+};
+
+/**
+ * AIMD tuning for adaptive mode. A throttled response (429, or 503 with
+ * `Retry-After`) multiplies the host's refill rate by `decreaseFactor`;
+ * every `successThreshold` consecutive successes add `increaseStep` back,
+ * up to the configured rate.
+ */
+export type AdaptiveRateLimitOptions = {
+  minRequestsPerInterval?: number; // floor for the effective rate (default 1)
+  decreaseFactor?: number; // multiplicative decrease on throttle (default 0.5)
+  increaseStep?: number; // additive increase after a success run (default 1)
+  successThreshold?: number; // successes needed per increase (default 10)
+  onRateChange?: (event: RateLimitRateChangeEvent) => void;
+};
+
+/** Emitted whenever adaptive mode changes a host's effective rate. */
+export type RateLimitRateChangeEvent = {
+  host: string;
+  reason: "throttled" | "recovered";
+  previousRate: number;
+  effectiveRate: number; // requests per `intervalMs`
+  intervalMs: number;
+  retryAfterMs?: number;
+};
+
+/** Live state of a single token bucket. */
+export type RateLimitBucketStatus = {
+  options: RateLimitOptions;
+  tokens: number; // tokens left in the current interval
+  queued: number; // requests waiting for a token or a concurrency slot
+  inFlight: number; // requests currently executing
+  pausedUntil?: number; // epoch ms; set while honouring a Retry-After
+};
+
+/** Adaptive state of a single host. */
+export type AdaptiveHostStatus = RateLimitBucketStatus & {
+  effectiveRate: number; // current requests per `intervalMs`
+  ceilingRate: number; // rate the host recovers towards
+  successes: number; // consecutive successes since the last change
+};
+
+export type RateLimitStatus = {
+  enabled: boolean;
+  options: RateLimitOptions; // options of the default bucket
+  global: RateLimitBucketStatus;
+  perHost: Record<string, RateLimitBucketStatus>;
+  perClass: Record<string, RateLimitBucketStatus>;
+  adaptive: Record<string, AdaptiveHostStatus>; // key: exact host
+};
+
 type Task<T> = {
   fn: () => Promise<T>;
   resolve: (value: T) => void;
   reject: (reason?: unknown) => void;
 };
 
-class RateLimiter {
+// In some runtimes, timers keep process alive; make it best-effort
+function unrefTimer(timer: unknown) {
+  if (timer && typeof timer === "object") {
+    const rec = timer as Record<string, unknown>;
+    if (typeof rec.unref === "function") {
+      (rec.unref as () => void)();
+    }
+  }
+}
+
+// Rejects requests still queued when their limiter is disposed; never retried
+class LimiterDisposedError extends Error {
+  constructor() {
+    super("Rate limiter disposed");
+    this.name = "LimiterDisposedError";
+  }
+}
+
+class TokenBucket {
   private options: RateLimitOptions;
   private queue: Task<unknown>[] = [];
   private tokens: number;
   private inFlight = 0;
   private refillTimer: ReturnType<typeof setInterval> | null = null;
+  private pausedUntil = 0;
+  private pauseTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(options: RateLimitOptions) {
     this.options = options;
@@ -25,16 +108,35 @@ class RateLimiter {
   private startRefill() {
     if (this.refillTimer) return;
     this.refillTimer = setInterval(() => {
+      if (Date.now() < this.pausedUntil) return;
       this.tokens = this.options.maxRequestsPerInterval;
+      // An idle bucket with a full allowance needs no timer until next use
+      if (this.queue.length === 0 && this.inFlight === 0) {
+        this.stopRefill();
+        return;
+      }
       this.tryRun();
     }, this.options.intervalMs);
-    // In some runtimes, timers keep process alive; make it best-effort
-    const t = this.refillTimer as unknown;
-    if (t && typeof t === "object") {
-      const rec = t as Record<string, unknown>;
-      if (typeof rec.unref === "function") {
-        (rec.unref as () => void)();
-      }
+    unrefTimer(this.refillTimer);
+  }
+
+  private stopRefill() {
+    if (!this.refillTimer) return;
+    clearInterval(this.refillTimer);
+    this.refillTimer = null;
+  }
+
+  /**
+   * Stop the refill timer and reject queued requests. In-flight requests
+   * finish normally.
+   */
+  dispose() {
+    this.stopRefill();
+    if (this.pauseTimer) clearTimeout(this.pauseTimer);
+    this.pauseTimer = null;
+    const queued = this.queue.splice(0);
+    for (const task of queued) {
+      task.reject(new LimiterDisposedError());
     }
   }
 
@@ -53,6 +155,49 @@ class RateLimiter {
     );
     this.options.intervalMs = Math.max(10, this.options.intervalMs);
     this.options.maxConcurrency = Math.max(1, this.options.maxConcurrency);
+    // An unused bucket starts with a full allowance under the new options
+    if (!this.refillTimer) {
+      this.tokens = this.options.maxRequestsPerInterval;
+    } else {
+      this.tokens = Math.min(this.tokens, this.options.maxRequestsPerInterval);
+    }
+  }
+
+  /**
+   * Hand out no tokens until `until` (epoch ms), then start a fresh interval.
+   */
+  pause(until: number) {
+    if (until <= this.pausedUntil) return;
+    this.pausedUntil = until;
+    this.tokens = 0;
+    this.ensureRefillStarted();
+    if (this.pauseTimer) clearTimeout(this.pauseTimer);
+    this.pauseTimer = setTimeout(
+      () => {
+        this.pauseTimer = null;
+        if (Date.now() < this.pausedUntil) return;
+        this.tokens = this.options.maxRequestsPerInterval;
+        this.tryRun();
+      },
+      Math.max(0, until - Date.now())
+    );
+    unrefTimer(this.pauseTimer);
+  }
+
+  getOptions(): RateLimitOptions {
+    return { ...this.options };
+  }
+
+  getStatus(): RateLimitBucketStatus {
+    return {
+      options: this.getOptions(),
+      tokens: this.tokens,
+      queued: this.queue.length,
+      inFlight: this.inFlight,
+      ...(this.pausedUntil > Date.now()
+        ? { pausedUntil: this.pausedUntil }
+        : {}),
+    };
   }
 
   schedule<T>(fn: () => Promise<T>): Promise<T> {
@@ -92,16 +237,353 @@ class RateLimiter {
   }
 }
 
-let enabled = true;
-const defaultOptions: RateLimitOptions = {
+const DEFAULT_OPTIONS: RateLimitOptions = {
   maxRequestsPerInterval: 5, // 5 requests
   intervalMs: 1000, // per second
   maxConcurrency: 5, // up to 5 in parallel
 };
 
-const limiter = new RateLimiter(defaultOptions);
-const hostLimiters = new Map<string, RateLimiter>();
-const classLimiters = new Map<string, RateLimiter>();
+function pickOptions(
+  opts: Partial<RateLimitOptions>
+): Partial<RateLimitOptions> {
+  const picked: Partial<RateLimitOptions> = {};
+  if (typeof opts.maxRequestsPerInterval === "number") {
+    picked.maxRequestsPerInterval = opts.maxRequestsPerInterval;
+  }
+  if (typeof opts.intervalMs === "number") {
+    picked.intervalMs = opts.intervalMs;
+  }
+  if (typeof opts.maxConcurrency === "number") {
+    picked.maxConcurrency = opts.maxConcurrency;
+  }
+  return picked;
+}
+
+function upsertBuckets(
+  buckets: Map<string, TokenBucket>,
+  entries: Record<string, Partial<RateLimitOptions>>
+) {
+  for (const key of Object.keys(entries)) {
+    const opts = pickOptions(entries[key]!);
+    const existing = buckets.get(key);
+    if (existing) {
+      existing.configure(opts);
+    } else {
+      const bucket = new TokenBucket({ ...DEFAULT_OPTIONS });
+      bucket.configure(opts);
+      buckets.set(key, bucket);
+    }
+  }
+}
+
+type AdaptiveSettings = Required<
+  Omit<AdaptiveRateLimitOptions, "onRateChange">
+> &
+  Pick<AdaptiveRateLimitOptions, "onRateChange">;
+
+type AdaptiveHost = {
+  bucket: TokenBucket;
+  ceiling: number;
+  successes: number;
+};
+
+const DEFAULT_ADAPTIVE: AdaptiveSettings = {
+  minRequestsPerInterval: 1,
+  decreaseFactor: 0.5,
+  increaseStep: 1,
+  successThreshold: 10,
+};
+
+function bucketsStatus(
+  buckets: Map<string, TokenBucket>
+): Record<string, RateLimitBucketStatus> {
+  const out: Record<string, RateLimitBucketStatus> = {};
+  for (const [key, bucket] of buckets.entries()) {
+    out[key] = bucket.getStatus();
+  }
+  return out;
+}
+
+/**
+ * A set of token buckets (default, per-host and per-class) that throttles
+ * requests. Every `ShopClient` owns one unless a shared instance is passed
+ * through `ShopClientOptions.rateLimiter`.
+ *
+ * @example
+ * ```typescript
+ * const shared = new RateLimiter({ maxRequestsPerInterval: 10 });
+ * const a = new ShopClient("a.example.com", { rateLimiter: shared });
+ * const b = new ShopClient("b.example.com", { rateLimiter: shared });
+ * ```
+ */
+export class RateLimiter {
+  private enabled = true;
+  private global = new TokenBucket({ ...DEFAULT_OPTIONS });
+  private hostBuckets = new Map<string, TokenBucket>();
+  private classBuckets = new Map<string, TokenBucket>();
+  private adaptive: AdaptiveSettings | null = null;
+  private adaptiveHosts = new Map<string, AdaptiveHost>();
+
+  constructor(config?: RateLimitConfig) {
+    if (config) this.configure(config);
+  }
+
+  /**
+   * Update the limiter. Only the provided fields change; host and class
+   * buckets are created on first mention and reconfigured afterwards.
+   */
+  configure(config: RateLimitConfig) {
+    if (typeof config.enabled === "boolean") {
+      this.enabled = config.enabled;
+    }
+    const globalOpts = pickOptions(config);
+    if (Object.keys(globalOpts).length) {
+      this.global.configure(globalOpts);
+    }
+    if (config.perHost) upsertBuckets(this.hostBuckets, config.perHost);
+    if (config.perClass) upsertBuckets(this.classBuckets, config.perClass);
+    if (config.adaptive === false) {
+      this.adaptive = null;
+      this.adaptiveHosts.clear();
+    } else if (config.adaptive) {
+      const next = config.adaptive === true ? {} : config.adaptive;
+      this.adaptive = {
+        ...(this.adaptive ?? DEFAULT_ADAPTIVE),
+        ...next,
+      };
+    }
+  }
+
+  /**
+   * Current configuration as a plain object, suitable for seeding another
+   * limiter with `new RateLimiter(config)`.
+   */
+  getConfig(): RateLimitConfig {
+    const perHost: Record<string, RateLimitOptions> = {};
+    for (const [key, bucket] of this.hostBuckets.entries()) {
+      perHost[key] = bucket.getOptions();
+    }
+    const perClass: Record<string, RateLimitOptions> = {};
+    for (const [key, bucket] of this.classBuckets.entries()) {
+      perClass[key] = bucket.getOptions();
+    }
+    return {
+      enabled: this.enabled,
+      ...this.global.getOptions(),
+      perHost,
+      perClass,
+      ...(this.adaptive ? { adaptive: { ...this.adaptive } } : {}),
+    };
+  }
+
+  /**
+   * Run `fn` under the bucket matching the request: the class bucket when
+   * `rateLimitClass` is set, else the host's adaptive bucket, else a host
+   * bucket, else the default bucket. Class requests to a host that adaptive
+   * mode has throttled also wait for the host's adaptive bucket. Runs
+   * immediately when the limiter is disabled.
+   */
+  schedule<T>(
+    input: RequestInfo | URL,
+    fn: () => Promise<T>,
+    rateLimitClass?: string
+  ): Promise<T> {
+    if (!this.enabled) return fn();
+    const byClass = rateLimitClass
+      ? this.classBuckets.get(rateLimitClass)
+      : undefined;
+    const host = getHost(input);
+    const adaptive = host ? this.adaptiveHosts.get(host)?.bucket : undefined;
+    if (byClass) {
+      // Wait out the host first, so a paused host never holds a class slot
+      // that requests to other hosts need
+      return adaptive
+        ? adaptive.schedule(() => byClass.schedule(fn))
+        : byClass.schedule(fn);
+    }
+    const bucket = adaptive ?? this.getHostBucket(host) ?? this.global;
+    return bucket.schedule(fn);
+  }
+
+  /**
+   * Feed a response back into adaptive mode. Throttled responses (429, or
+   * 503 with `Retry-After`) cut the host's rate and pause it for the
+   * `Retry-After` window; runs of successes raise it back. No-op unless
+   * `adaptive` is configured.
+   */
+  recordResponse(
+    input: RequestInfo | URL,
+    status: number,
+    retryAfterMs?: number
+  ) {
+    const settings = this.adaptive;
+    const host = getHost(input);
+    if (!this.enabled || !settings || !host) return;
+
+    const throttled =
+      status === 429 || (status === 503 && retryAfterMs !== undefined);
+    let state = this.adaptiveHosts.get(host);
+
+    if (throttled) {
+      if (!state) {
+        const seed = (this.getHostBucket(host) ?? this.global).getOptions();
+        state = {
+          bucket: new TokenBucket(seed),
+          ceiling: seed.maxRequestsPerInterval,
+          successes: 0,
+        };
+        this.adaptiveHosts.set(host, state);
+      }
+      state.successes = 0;
+      const previousRate = state.bucket.getOptions().maxRequestsPerInterval;
+      const effectiveRate = Math.max(
+        Math.max(1, settings.minRequestsPerInterval),
+        Math.floor(previousRate * settings.decreaseFactor)
+      );
+      state.bucket.configure({ maxRequestsPerInterval: effectiveRate });
+      if (retryAfterMs && retryAfterMs > 0) {
+        state.bucket.pause(Date.now() + retryAfterMs);
+      }
+      if (effectiveRate !== previousRate || retryAfterMs !== undefined) {
+        this.emitRateChange(settings, state, {
+          host,
+          reason: "throttled",
+          previousRate,
+          retryAfterMs,
+        });
+      }
+      return;
+    }
+
+    if (!state || status >= 400) return;
+    state.successes += 1;
+    const previousRate = state.bucket.getOptions().maxRequestsPerInterval;
+    if (
+      state.successes < settings.successThreshold ||
+      previousRate >= state.ceiling
+    ) {
+      return;
+    }
+    state.successes = 0;
+    state.bucket.configure({
+      maxRequestsPerInterval: Math.min(
+        state.ceiling,
+        previousRate + Math.max(1, settings.increaseStep)
+      ),
+    });
+    this.emitRateChange(settings, state, {
+      host,
+      reason: "recovered",
+      previousRate,
+    });
+    // Fully recovered hosts go back to their configured bucket; requests
+    // already queued on the adaptive one still drain
+    if (state.bucket.getOptions().maxRequestsPerInterval >= state.ceiling) {
+      this.adaptiveHosts.delete(host);
+    }
+  }
+
+  /**
+   * Stop every bucket's timers, reject queued requests and forget adaptive
+   * state. Call it when the limiter (or the `ShopClient` owning it) is no
+   * longer needed; a disposed limiter can still be used and restarts its
+   * timers on demand.
+   */
+  dispose() {
+    this.global.dispose();
+    for (const bucket of this.hostBuckets.values()) bucket.dispose();
+    for (const bucket of this.classBuckets.values()) bucket.dispose();
+    for (const state of this.adaptiveHosts.values()) state.bucket.dispose();
+    this.adaptiveHosts.clear();
+  }
+
+  getStatus(): RateLimitStatus {
+    const global = this.global.getStatus();
+    return {
+      enabled: this.enabled,
+      options: { ...global.options },
+      global,
+      perHost: bucketsStatus(this.hostBuckets),
+      perClass: bucketsStatus(this.classBuckets),
+      adaptive: this.adaptiveStatus(),
+    };
+  }
+
+  private adaptiveStatus(): Record<string, AdaptiveHostStatus> {
+    const out: Record<string, AdaptiveHostStatus> = {};
+    for (const [host, state] of this.adaptiveHosts.entries()) {
+      const bucket = state.bucket.getStatus();
+      out[host] = {
+        ...bucket,
+        effectiveRate: bucket.options.maxRequestsPerInterval,
+        ceilingRate: state.ceiling,
+        successes: state.successes,
+      };
+    }
+    return out;
+  }
+
+  private emitRateChange(
+    settings: AdaptiveSettings,
+    state: AdaptiveHost,
+    event: Omit<RateLimitRateChangeEvent, "effectiveRate" | "intervalMs">
+  ) {
+    if (!settings.onRateChange) return;
+    const { maxRequestsPerInterval, intervalMs } = state.bucket.getOptions();
+    try {
+      settings.onRateChange({
+        ...event,
+        effectiveRate: maxRequestsPerInterval,
+        intervalMs,
+      });
+    } catch {
+      // Listener errors must not break request handling
+    }
+  }
+
+  private getHostBucket(host?: string): TokenBucket | undefined {
+    if (!host) return undefined;
+    // Exact match first
+    const exact = this.hostBuckets.get(host);
+    if (exact) return exact;
+    // Wildcard suffix match: keys of the form '*.example.com'
+    for (const [key, bucket] of this.hostBuckets.entries()) {
+      if (key.startsWith("*.") && host.endsWith(key.slice(2))) {
+        return bucket;
+      }
+    }
+    return undefined;
+  }
+}
+
+// Class buckets every limiter seeded from the process-wide one starts with.
+// Probes create carts on the store, so they run slower than ordinary reads
+// unless the caller configures the class.
+const DEFAULT_CLASS_OPTIONS: Record<string, RateLimitOptions> = {
+  "inventory:probe": {
+    maxRequestsPerInterval: 2,
+    intervalMs: 1000,
+    maxConcurrency: 1,
+  },
+  // One discount code costs three requests
+  "checkout:discounts": {
+    maxRequestsPerInterval: 3,
+    intervalMs: 2000,
+    maxConcurrency: 1,
+  },
+  // Shipping quotes poll until the rates are calculated
+  "cart:shipping": {
+    maxRequestsPerInterval: 2,
+    intervalMs: 1000,
+    maxConcurrency: 2,
+  },
+};
+
+// Process-wide limiter used by standalone helpers and as the template for
+// limiters created by `ShopClient`.
+const defaultLimiter = new RateLimiter({
+  perClass: DEFAULT_CLASS_OPTIONS,
+});
 
 export type RateLimitedRequestInit = RequestInit & {
   rateLimitClass?: string;
@@ -111,6 +593,8 @@ export type RateLimitedRequestInit = RequestInit & {
     retryOnStatuses?: number[]; // HTTP statuses to retry (defaults: 429, 503)
   };
   timeoutMs?: number;
+  transport?: Transport; // fetch implementation (defaults to global fetch)
+  limiter?: RateLimiter; // limiter to schedule on (defaults to the process-wide one)
 };
 
 function getHost(input: RequestInfo | URL): string | undefined {
@@ -133,85 +617,39 @@ function getHost(input: RequestInfo | URL): string | undefined {
   return undefined;
 }
 
-function getHostLimiter(host?: string): RateLimiter | undefined {
-  if (!host) return undefined;
-  // Exact match first
-  const exact = hostLimiters.get(host);
-  if (exact) return exact;
-  // Wildcard suffix match: keys of the form '*.example.com'
-  for (const [key, lim] of hostLimiters.entries()) {
-    if (key.startsWith("*.") && host.endsWith(key.slice(2))) {
-      return lim;
-    }
-  }
-  return undefined;
+/**
+ * Configure the process-wide limiter. It throttles standalone helpers and
+ * seeds the limiter of every `ShopClient` created afterwards; existing
+ * clients keep their own configuration.
+ */
+export function configureRateLimit(options: RateLimitConfig) {
+  defaultLimiter.configure(options);
 }
 
-export function configureRateLimit(
-  options: Partial<RateLimitOptions & { enabled: boolean }> & {
-    perHost?: Record<string, Partial<RateLimitOptions>>; // key: host (supports '*.example.com')
-    perClass?: Record<string, Partial<RateLimitOptions>>; // key: arbitrary class name
-  }
-) {
-  if (typeof options.enabled === "boolean") {
-    enabled = options.enabled;
-  }
-  const { perHost, perClass } = options;
-  const globalOpts: Partial<RateLimitOptions> = {};
-  if (typeof options.maxRequestsPerInterval === "number") {
-    globalOpts.maxRequestsPerInterval = options.maxRequestsPerInterval;
-  }
-  if (typeof options.intervalMs === "number") {
-    globalOpts.intervalMs = options.intervalMs;
-  }
-  if (typeof options.maxConcurrency === "number") {
-    globalOpts.maxConcurrency = options.maxConcurrency;
-  }
-  if (Object.keys(globalOpts).length) {
-    limiter.configure(globalOpts);
-  }
-  if (perHost) {
-    for (const host of Object.keys(perHost)) {
-      const opts = perHost[host]!;
-      const existing = hostLimiters.get(host);
-      if (existing) {
-        existing.configure(opts);
-      } else {
-        hostLimiters.set(
-          host,
-          new RateLimiter({
-            maxRequestsPerInterval:
-              opts.maxRequestsPerInterval ??
-              defaultOptions.maxRequestsPerInterval,
-            intervalMs: opts.intervalMs ?? defaultOptions.intervalMs,
-            maxConcurrency:
-              opts.maxConcurrency ?? defaultOptions.maxConcurrency,
-          })
-        );
-      }
-    }
-  }
-  if (perClass) {
-    for (const klass of Object.keys(perClass)) {
-      const opts = perClass[klass]!;
-      const existing = classLimiters.get(klass);
-      if (existing) {
-        existing.configure(opts);
-      } else {
-        classLimiters.set(
-          klass,
-          new RateLimiter({
-            maxRequestsPerInterval:
-              opts.maxRequestsPerInterval ??
-              defaultOptions.maxRequestsPerInterval,
-            intervalMs: opts.intervalMs ?? defaultOptions.intervalMs,
-            maxConcurrency:
-              opts.maxConcurrency ?? defaultOptions.maxConcurrency,
-          })
-        );
-      }
-    }
+/**
+ * Create a limiter seeded with the process-wide configuration, with
+ * `overrides` applied on top.
+ */
+export function createRateLimiter(overrides?: RateLimitConfig): RateLimiter {
+  const limiter = new RateLimiter(defaultLimiter.getConfig());
+  if (overrides) limiter.configure(overrides);
+  return limiter;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined;
+  const asNumber = Number(value);
+  if (!Number.isNaN(asNumber) && asNumber >= 0) {
+    return Math.floor(asNumber * 1000);
   }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) return undefined;
+  return Math.max(0, parsed - Date.now());
 }
 
 function sleep(ms: number) {
@@ -238,18 +676,18 @@ export async function rateLimitedFetch(
     rateLimitClass: _klass,
     retry: _retry,
     timeoutMs: _timeoutMs,
+    transport: _transport,
+    limiter: _limiter,
     ...fetchInit
   } = effInit;
+  const doFetch: Transport = init?.transport ?? ((i, o) => fetch(i, o));
 
   // Default redirect to "follow" if not specified
   if (fetchInit.redirect === undefined) {
     fetchInit.redirect = "follow";
   }
 
-  const klass = init?.rateLimitClass;
-  const byClass = klass ? classLimiters.get(klass) : undefined;
-  const byHost = getHostLimiter(getHost(input));
-  const eff = enabled ? (byClass ?? byHost ?? limiter) : undefined;
+  const limiter = init?.limiter ?? defaultLimiter;
 
   const maxRetries = Math.max(0, init?.retry?.maxRetries ?? 2);
   const baseDelayMs = Math.max(0, init?.retry?.baseDelayMs ?? 200);
@@ -261,10 +699,17 @@ export async function rateLimitedFetch(
 
   while (attempt <= maxRetries) {
     try {
-      if (eff) {
-        response = await eff.schedule(() => fetch(input, fetchInit));
-      } else {
-        response = await fetch(input, fetchInit);
+      response = await limiter.schedule(
+        input,
+        () => doFetch(input, fetchInit),
+        init?.rateLimitClass
+      );
+      if (response) {
+        limiter.recordResponse(
+          input,
+          response.status,
+          parseRetryAfter(response.headers?.get("retry-after"))
+        );
       }
       // If OK or not a retriable status, return immediately
       if (
@@ -276,6 +721,11 @@ export async function rateLimitedFetch(
         return response as Response;
       }
     } catch (err) {
+      // Disposed limiters and aborted requests are not retried
+      if (err instanceof LimiterDisposedError || fetchInit.signal?.aborted) {
+        if (timer) clearTimeout(timer);
+        throw err;
+      }
       lastError = err;
       // Network errors: continue to retry
     }
@@ -285,18 +735,9 @@ export async function rateLimitedFetch(
     if (attempt > maxRetries) break;
     let delay =
       baseDelayMs * 2 ** (attempt - 1) + Math.floor(Math.random() * 100);
-    const retryAfter = response?.headers?.get("retry-after");
-    if (retryAfter) {
-      const asNumber = Number(retryAfter);
-      if (!Number.isNaN(asNumber) && asNumber >= 0) {
-        delay = Math.max(delay, Math.floor(asNumber * 1000));
-      } else {
-        const parsed = Date.parse(retryAfter);
-        if (!Number.isNaN(parsed)) {
-          const until = parsed - Date.now();
-          if (until > 0) delay = Math.max(delay, until);
-        }
-      }
+    const retryAfterMs = parseRetryAfter(response?.headers?.get("retry-after"));
+    if (retryAfterMs !== undefined) {
+      delay = Math.max(delay, retryAfterMs);
     }
     await sleep(delay);
   }
@@ -307,9 +748,12 @@ export async function rateLimitedFetch(
   throw lastError ?? new Error("rateLimitedFetch failed without response");
 }
 
-export function getRateLimitStatus() {
-  return {
-    enabled,
-    options: { ...defaultOptions },
-  };
+/**
+ * Live status of a limiter (the process-wide one by default): queue depth,
+ * remaining tokens and in-flight count of every bucket.
+ */
+export function getRateLimitStatus(
+  limiter: RateLimiter = defaultLimiter
+): RateLimitStatus {
+  return limiter.getStatus();
 }
@@ -0,0 +1,118 @@
+/**
+ * The part of a Node.js `Writable` (e.g. `fs.createWriteStream()` or
+ * `process.stdout`) the exporters use.
+ */
+export type NodeWritableLike = {
+  write(chunk: string): boolean;
+  once(
+    event: "drain" | "error" | "close",
+    listener: (error?: unknown) => void
+  ): unknown;
+  removeListener?: (
+    event: "drain" | "error" | "close",
+    listener: (error?: unknown) => void
+  ) => unknown;
+  end?: (callback?: (error?: Error | null) => void) => unknown;
+  destroy?: () => unknown;
+  destroyed?: boolean;
+  errored?: unknown;
+};
+
+/**
+ * Where exporters write text: a Node.js writable or a web `WritableStream`
+ * of strings (pipe through `TextEncoderStream` for byte sinks).
+ */
+export type OutputSink = NodeWritableLike | WritableStream<string>;
+
+export type SinkWriter = {
+  write(chunk: string): Promise<void>;
+  /** Flush and, unless `end: false` was given, end the sink. */
+  close(): Promise<void>;
+  /**
+   * After a failed export: abort (or, with `end: false`, release) the sink.
+   * Never throws.
+   */
+  abort(reason: unknown): Promise<void>;
+};
+
+function isWebStream(sink: OutputSink): sink is WritableStream<string> {
+  return typeof (sink as WritableStream<string>).getWriter === "function";
+}
+
+function assertOpen(sink: NodeWritableLike): void {
+  if (sink.errored) throw sink.errored;
+  if (sink.destroyed) throw new Error("Output stream is closed");
+}
+
+/**
+ * Settle once `start` calls back, failing early when the Node stream emits
+ * `error` or `close` first, so a broken sink never leaves the export hanging.
+ */
+function settle(
+  sink: NodeWritableLike,
+  start: (done: (error?: unknown) => void) => void
+): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const done = (error?: unknown) => {
+      sink.removeListener?.("drain", done);
+      sink.removeListener?.("error", onError);
+      sink.removeListener?.("close", onClose);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onError = (error?: unknown) =>
+      done(error ?? new Error("Output stream failed"));
+    const onClose = () => done(new Error("Output stream closed early"));
+    sink.once("error", onError);
+    sink.once("close", onClose);
+    start(done);
+  });
+}
+
+/**
+ * Wrap `sink` so writes wait for backpressure: Node streams resume on
+ * `drain`, web streams on the writer's `ready` promise.
+ *
+ * @param options.end - End the sink on `close()` (default: true)
+ */
+export function createSinkWriter(
+  sink: OutputSink,
+  options?: { end?: boolean }
+): SinkWriter {
+  const end = options?.end !== false;
+
+  if (isWebStream(sink)) {
+    const writer = sink.getWriter();
+    return {
+      async write(chunk) {
+        await writer.ready;
+        await writer.write(chunk);
+      },
+      async close() {
+        if (end) await writer.close();
+        else writer.releaseLock();
+      },
+      async abort(reason) {
+        if (end) await writer.abort(reason).catch(() => {});
+        else writer.releaseLock();
+      },
+    };
+  }
+
+  return {
+    async write(chunk) {
+      assertOpen(sink);
+      if (!sink.write(chunk)) {
+        await settle(sink, (done) => sink.once("drain", done));
+      }
+    },
+    async close() {
+      if (!end || typeof sink.end !== "function") return;
+      assertOpen(sink);
+      await settle(sink, (done) => sink.end?.(done));
+    },
+    async abort() {
+      if (end) sink.destroy?.();
+    },
+  };
+}
@@ -0,0 +1,304 @@
+/**
+ * Sort orders accepted by Shopify collection pages (`sort_by`).
+ */
+export type CollectionSortBy =
+  | "manual"
+  | "best-selling"
+  | "title-ascending"
+  | "title-descending"
+  | "price-ascending"
+  | "price-descending"
+  | "created-ascending"
+  | "created-descending";
+
+/**
+ * Storefront filters for a collection page, translated into Shopify's
+ * `filter.*` query parameters. Prices are in cents.
+ */
+export type StorefrontFilterInput = {
+  /** `filter.v.availability` */
+  available?: boolean;
+  /** `filter.v.price.gte` */
+  priceGte?: number;
+  /** `filter.v.price.lte` */
+  priceLte?: number;
+  /** `filter.v.option.<name>`; names are lowercased. */
+  options?: Record<string, string | string[]>;
+  /** `filter.p.vendor` */
+  vendor?: string | string[];
+  /** `filter.p.product_type` */
+  productType?: string | string[];
+  /** `filter.p.tag` */
+  tags?: string | string[];
+  /**
+   * Raw parameters passed through as-is, e.g. metafield filters such as
+   * `{ "filter.p.m.custom.material": "Wool" }`.
+   */
+  params?: Record<string, string | string[]>;
+};
+
+export type StorefrontFilterValue = {
+  /** Value sent back in the filter parameter. */
+  value: string;
+  /** Label shown to shoppers, without the count. */
+  label: string;
+  /** Matching products as displayed by the theme, when it shows counts. */
+  count: number | null;
+  active: boolean;
+  /** The theme disabled the value (no matching products). */
+  disabled: boolean;
+};
+
+/**
+ * A filter advertised by the collection page's theme.
+ */
+export type StorefrontFilter = {
+  /** Query parameter name, e.g. `filter.v.option.color`. */
+  param: string;
+  /** Last segment of `param`, e.g. `color` or `vendor`. */
+  key: string;
+  type: "list" | "price_range";
+  values: StorefrontFilterValue[];
+  /** Price range bounds in cents (`price_range` only). */
+  range?: { min: number | null; max: number | null };
+};
+
+function asList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toDecimal(cents: number): string {
+  return String(Math.round(cents) / 100);
+}
+
+/**
+ * Build the query string Shopify's storefront filtering expects.
+ */
+export function buildFilterParams(
+  filters: StorefrontFilterInput = {},
+  sortBy?: CollectionSortBy
+): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.available !== undefined) {
+    params.append("filter.v.availability", filters.available ? "1" : "0");
+  }
+  if (filters.priceGte !== undefined) {
+    params.append("filter.v.price.gte", toDecimal(filters.priceGte));
+  }
+  if (filters.priceLte !== undefined) {
+    params.append("filter.v.price.lte", toDecimal(filters.priceLte));
+  }
+  for (const [name, values] of Object.entries(filters.options ?? {})) {
+    for (const value of asList(values)) {
+      params.append(`filter.v.option.${name.trim().toLowerCase()}`, value);
+    }
+  }
+  for (const value of asList(filters.vendor)) {
+    params.append("filter.p.vendor", value);
+  }
+  for (const value of asList(filters.productType)) {
+    params.append("filter.p.product_type", value);
+  }
+  for (const value of asList(filters.tags)) {
+    params.append("filter.p.tag", value);
+  }
+  for (const [name, values] of Object.entries(filters.params ?? {})) {
+    for (const value of asList(values)) params.append(name, value);
+  }
+  if (sortBy) params.set("sort_by", sortBy);
+  return params;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&#x27;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const re =
+    /([a-zA-Z_:][-a-zA-Z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  // Skip the tag name itself
+  const body = tag.replace(/^<\s*[a-zA-Z]+/, "").replace(/\/?>$/, "");
+  for (const match of body.matchAll(re)) {
+    const name = match[1]?.toLowerCase();
+    if (!name) continue;
+    attrs[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attrs;
+}
+
+function labelFor(html: string, id: string | undefined): string {
+  if (!id) return "";
+  const escaped = id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = html.match(
+    new RegExp(
+      `<label[^>]*for=["']${escaped}["'][^>]*>([\\s\\S]*?)</label>`,
+      "i"
+    )
+  );
+  if (!match?.[1]) return "";
+  return decodeEntities(match[1].replace(/<[^>]*>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toCents(value: string | undefined): number | null {
+  if (!value) return null;
+  const n = Number.parseFloat(value.replace(/,/g, ""));
+  return Number.isFinite(n) ? Math.round(n * 100) : null;
+}
+
+/**
+ * Read the filters a collection page renders as form inputs (Online Store
+ * 2.0 themes such as Dawn). Inputs repeated for mobile and desktop drawers
+ * are merged.
+ */
+export function parseStorefrontFilters(html: string): StorefrontFilter[] {
+  const filters = new Map<string, StorefrontFilter>();
+  const group = (param: string, type: StorefrontFilter["type"]) => {
+    let filter = filters.get(param);
+    if (!filter) {
+      filter = {
+        param,
+        key: param.split(".").pop() ?? param,
+        type,
+        values: [],
+        ...(type === "price_range" ? { range: { min: null, max: null } } : {}),
+      };
+      filters.set(param, filter);
+    }
+    return filter;
+  };
+
+  for (const [tag] of html.matchAll(/<input\b[^>]*>/gi)) {
+    const attrs = parseAttributes(tag);
+    const name = attrs.name;
+    if (!name?.startsWith("filter.")) continue;
+
+    const bound = name.match(/^(.*)\.(gte|lte)$/);
+    if (bound?.[1]) {
+      const filter = group(bound[1], "price_range");
+      const range = filter.range ?? { min: null, max: null };
+      if (bound[2] === "gte") range.min ??= toCents(attrs.min) ?? 0;
+      range.max ??= toCents(attrs.max ?? attrs["data-max"]);
+      filter.range = range;
+      continue;
+    }
+
+    const value = attrs.value ?? "";
+    const filter = group(name, "list");
+    if (filter.values.some((v) => v.value === value)) continue;
+    const text = labelFor(html, attrs.id);
+    const count = text.match(/\((\d[\d,]*)\)/);
+    filter.values.push({
+      value,
+      label: text.replace(/\s*\(.*$/, "").trim() || value,
+      count: count?.[1]
+        ? Number.parseInt(count[1].replace(/,/g, ""), 10)
+        : null,
+      active: "checked" in attrs,
+      disabled: "disabled" in attrs,
+    });
+  }
+
+  return Array.from(filters.values());
+}
+
+// Product grid containers across common themes (Dawn's `#product-grid`,
+// `.product-grid`, `.collection-grid`, `.product-list`, ...)
+const PRODUCT_GRID_OPEN =
+  /<(ul|ol|div|section)\b[^>]*\s(?:id|class)=["'](?:[^"']*\s)?(?:product-grid|productgrid|collection-grid|collection-products|product-list)(?:\s[^"']*)?["'][^>]*>/i;
+
+// Pager containers: `.pagination`, `#Pagination`, `.load-more`, or
+// `aria-label="Pagination"` navigation
+const PAGINATION_OPEN =
+  /<(nav|div|ul|ol|section|p)\b[^>]*\s(?:(?:id|class)=["'](?:[^"']*\s)?(?:pagination|paginate|load-more)[\w-]*(?:\s[^"']*)?["']|aria-label=["'][^"']*pagination[^"']*["'])[^>]*>/gi;
+
+/**
+ * Inner HTML of the element whose opening tag `open` matched, up to its
+ * closing tag (or the end of the page when it is never closed).
+ */
+function elementContents(html: string, open: RegExpMatchArray): string {
+  const tag = open[1] ?? "div";
+  const start = (open.index ?? 0) + open[0].length;
+  const re = new RegExp(`<(/?)${tag}\\b[^>]*>`, "gi");
+  re.lastIndex = start;
+  let depth = 1;
+  for (const match of html.matchAll(re)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return html.slice(start, match.index);
+  }
+  return html.slice(start);
+}
+
+/**
+ * The part of a collection page holding its product grid: the theme's grid
+ * container, else `<main>`, else the whole page. Keeps links from the
+ * header, footer and most recommendation blocks out of the results.
+ */
+function productGridHtml(html: string): string {
+  const grid = PRODUCT_GRID_OPEN.exec(html);
+  if (grid) return elementContents(html, grid);
+  const main = /<(main)\b[^>]*>/i.exec(html);
+  return main ? elementContents(html, main) : html;
+}
+
+/**
+ * Product handles linked from a collection page's product grid, in page
+ * order.
+ */
+export function parseProductHandles(html: string): string[] {
+  const handles = new Set<string>();
+  const re =
+    /href=["'](?:https?:\/\/[^/"']+)?(?:\/[a-z]{2}(?:-[a-zA-Z]{2})?)?(?:\/collections\/[^/"']+)?\/products\/([^"'?#/]+)/gi;
+  for (const match of productGridHtml(html).matchAll(re)) {
+    if (!match[1]) continue;
+    try {
+      handles.add(decodeURIComponent(match[1]));
+    } catch {
+      handles.add(match[1]);
+    }
+  }
+  return Array.from(handles);
+}
+
+/**
+ * The collection's pager: every pagination container on the page, else
+ * `<main>`, else the whole page. Keeps blog and recommendation pagers out.
+ */
+function paginationHtml(html: string): string {
+  const pagers = Array.from(html.matchAll(PAGINATION_OPEN), (open) =>
+    elementContents(html, open)
+  );
+  if (pagers.length > 0) return pagers.join("\n");
+  const main = /<(main)\b[^>]*>/i.exec(html);
+  return main ? elementContents(html, main) : html;
+}
+
+/**
+ * Whether the collection's pager links to the page after `page`.
+ */
+export function hasNextPage(html: string, page: number): boolean {
+  return new RegExp(`href=["'][^"']*[?&](?:amp;)?page=${page + 1}(?!\\d)`).test(
+    paginationHtml(html)
+  );
+}
+
+/**
+ * One page of a collection as the storefront filters and sorts it.
+ */
+export type FilteredCollectionPage<P> = {
+  products: P[];
+  /** Filters the theme offers on this page, with active values marked. */
+  filters: StorefrontFilter[];
+  page: number;
+  hasNextPage: boolean;
+  /** Collection page URL a shopper would see for the same filters. */
+  url: string;
+};
@@ -0,0 +1,152 @@
+import { StorePasswordProtectedError } from "../errors";
+import { CookieJar } from "./cookies";
+import type { Fetcher } from "./transport";
+
+/**
+ * True when `response` ended up on the storefront password page, e.g. after
+ * Shopify redirected a locked store's request to `/password`.
+ */
+export function landedOnPasswordPage(response: Response): boolean {
+  if (!response?.url) return false;
+  try {
+    return new URL(response.url).pathname.replace(/\/$/, "") === "/password";
+  } catch {
+    return false;
+  }
+}
+
+function pathOf(input: RequestInfo | URL): string {
+  const raw =
+    typeof input === "string"
+      ? input
+      : input instanceof URL
+        ? input.toString()
+        : input.url;
+  try {
+    return new URL(raw).pathname;
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Storefront data endpoints (`products.json`, `products/<handle>.js`, ...)
+ * never legitimately render the password page, so landing there means the
+ * store is locked.
+ */
+export function isStorefrontDataRequest(input: RequestInfo | URL): boolean {
+  return /\.(json|js)$/.test(pathOf(input));
+}
+
+/**
+ * Logs in through the storefront password form and keeps the resulting
+ * session cookies for every later request to the same store.
+ *
+ * Login happens lazily before the first request and again if the session
+ * expires (a request lands back on `/password`). Node.js/Bun only: browsers
+ * do not expose `Set-Cookie` to scripts.
+ */
+export class StorefrontSession {
+  private origin: string;
+  private password: string;
+  private cookies = new CookieJar();
+  private login?: Promise<void>;
+
+  constructor(origin: string, password: string) {
+    this.origin = new URL(origin).origin;
+    this.password = password;
+  }
+
+  /** Whether `input` targets this store (other hosts never get the cookies). */
+  appliesTo(input: RequestInfo | URL): boolean {
+    const raw =
+      typeof input === "string"
+        ? input
+        : input instanceof URL
+          ? input.toString()
+          : input.url;
+    try {
+      return new URL(raw).origin === this.origin;
+    } catch {
+      return false;
+    }
+  }
+
+  /** Current `cookie` header value, if any cookies are held. */
+  cookieHeader(): string | undefined {
+    return this.cookies.header();
+  }
+
+  /**
+   * Refresh the session cookies from `response`. Only cookies issued by the
+   * password login are kept; anything else a store sets (`cart`,
+   * `discount_code`, ...) belongs to the request that received it and must
+   * not leak into every later request.
+   */
+  remember(response: Response): void {
+    this.cookies.remember(response, (name) => this.cookies.has(name));
+  }
+
+  private withCookies(headers: HeadersInit | undefined): HeadersInit {
+    return this.cookies.apply(headers);
+  }
+
+  private ensureLoggedIn(request: Fetcher): Promise<void> {
+    this.login ??= this.submitPassword(request).catch((error) => {
+      // Let the next request try again
+      this.login = undefined;
+      throw error;
+    });
+    return this.login;
+  }
+
+  private async submitPassword(request: Fetcher): Promise<void> {
+    const url = `${this.origin}/password`;
+    const response = await request(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/x-www-form-urlencoded",
+        ...(this.cookieHeader() ? { cookie: this.cookieHeader() } : {}),
+      },
+      body: new URLSearchParams({
+        form_type: "storefront_password",
+        utf8: "✓",
+        password: this.password,
+      }).toString(),
+      redirect: "manual",
+      rateLimitClass: "store:password",
+    });
+    this.cookies.remember(response);
+    if (!this.cookies.has("storefront_digest")) {
+      throw new StorePasswordProtectedError(url, {
+        message: `Storefront password was rejected: ${this.origin}`,
+      });
+    }
+  }
+
+  /**
+   * Send a request with the session cookies attached, logging in first and
+   * once more if the session turns out to have expired.
+   *
+   * @param headers - Headers of the outgoing request
+   * @param send - Issues the actual request with the given headers
+   * @param request - Fetcher used for the login form submission
+   */
+  async fetch(
+    headers: HeadersInit | undefined,
+    send: (headers: HeadersInit | undefined) => Promise<Response>,
+    request: Fetcher
+  ): Promise<Response> {
+    await this.ensureLoggedIn(request);
+    let response = await send(this.withCookies(headers));
+    this.remember(response);
+    if (landedOnPasswordPage(response)) {
+      this.cookies.delete("storefront_digest");
+      this.login = undefined;
+      await this.ensureLoggedIn(request);
+      response = await send(this.withCookies(headers));
+      this.remember(response);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,114 @@
+import { StorePasswordProtectedError } from "../errors";
+import type { ConditionalRequestCache } from "./conditional";
+import { isConditionalRequest } from "./conditional";
+import type { RateLimitedRequestInit, RateLimiter } from "./rate-limit";
+import { rateLimitedFetch } from "./rate-limit";
+import type { StorefrontSession } from "./storefront-session";
+import {
+  isStorefrontDataRequest,
+  landedOnPasswordPage,
+} from "./storefront-session";
+
+/**
+ * Fetch-compatible function that performs the actual network request.
+ *
+ * Any implementation with the global `fetch` signature works: a proxy-aware
+ * fetch, a fetch wrapped with a cookie jar, or a test double.
+ */
+export type Transport = (
+  input: RequestInfo | URL,
+  init?: RequestInit
+) => Promise<Response>;
+
+/**
+ * Rate-limited fetch bound to a single client's transport and default headers.
+ * Every module of a `ShopClient` issues its requests through one of these.
+ */
+export type Fetcher = (
+  input: RequestInfo | URL,
+  init?: RateLimitedRequestInit
+) => Promise<Response>;
+
+export type TransportOptions = {
+  /** Fetch implementation used for every request (defaults to global `fetch`). */
+  transport?: Transport;
+  /** Headers sent with every request; per-request headers take precedence. */
+  headers?: Record<string, string>;
+  /** Convenience for the `user-agent` header. */
+  userAgent?: string;
+  /** Limiter to schedule requests on (defaults to the process-wide one). */
+  limiter?: RateLimiter;
+  /** Revalidate `products.json` pages with stored `ETag`/`Last-Modified`. */
+  conditional?: ConditionalRequestCache;
+  /** Logged-in storefront session for password-protected stores. */
+  session?: StorefrontSession;
+};
+
+/**
+ * Merge client-wide default headers beneath the headers of a single request.
+ * Returns the request headers untouched when there are no defaults.
+ */
+function mergeHeaders(
+  defaults: Record<string, string>,
+  headers: HeadersInit | undefined
+): HeadersInit | undefined {
+  if (Object.keys(defaults).length === 0) return headers;
+  const merged = new Headers(defaults);
+  if (headers) {
+    new Headers(headers).forEach((value, key) => {
+      merged.set(key, value);
+    });
+  }
+  return merged;
+}
+
+/**
+ * Create a {@link Fetcher} that routes requests through `rateLimitedFetch`
+ * using the given transport, default headers and limiter.
+ *
+ * @example
+ * ```typescript
+ * const fetcher = createFetcher({
+ *   transport: proxiedFetch,
+ *   userAgent: "my-crawler/1.0",
+ * });
+ * const res = await fetcher("https://exampleshop.com/products.json");
+ * ```
+ */
+export function createFetcher(options?: TransportOptions): Fetcher {
+  const transport = options?.transport;
+  const limiter = options?.limiter;
+  const conditional = options?.conditional;
+  const session = options?.session;
+  const defaults: Record<string, string> = { ...(options?.headers ?? {}) };
+  if (options?.userAgent) {
+    defaults["user-agent"] = options.userAgent;
+  }
+
+  const request: Fetcher = (input, init) => {
+    const headers = mergeHeaders(defaults, init?.headers);
+    return rateLimitedFetch(input, {
+      ...init,
+      ...(headers ? { headers } : {}),
+      transport: init?.transport ?? transport,
+      limiter: init?.limiter ?? limiter,
+    });
+  };
+
+  return async (input, init) => {
+    let send = (headers: HeadersInit | undefined) =>
+      request(input, { ...init, headers });
+    if (session?.appliesTo(input)) {
+      const plain = send;
+      send = (headers) => session.fetch(headers, plain, request);
+    }
+    const response =
+      conditional && isConditionalRequest(input, init)
+        ? await conditional.fetch(input, init?.headers, send)
+        : await send(init?.headers);
+    if (isStorefrontDataRequest(input) && landedOnPasswordPage(response)) {
+      throw new StorePasswordProtectedError(response.url);
+    }
+    return response;
+  };
+}
@@ -6,6 +6,9 @@ export default defineConfig({
     "src/products.ts",
     "src/collections.ts",
     "src/checkout.ts",
+    "src/cart.ts",
+    "src/cache.ts",
+    "src/errors.ts",
     "src/store.ts",
     "src/utils/rate-limit.ts",
     "src/utils/func.ts",